@@ -0,0 +1,99 @@
+import { ConfigError, loadConfig } from "../src/config";
+import { AgentRuntime } from "../src/runtime";
+import {
+  confirmOnTerminal,
+  createCrmConfirmationHooks,
+  createCrmMcpServer,
+  crmAdapterFromConfig,
+  CRM_SERVER_NAME,
+  CRM_TOOLS
+} from "../src/crm";
+import { TerminalRenderer } from "../src/render";
+
+/**
+ * CRM Agent - answers account questions from the configured CRM and, with
+ * your confirmation, logs activities or moves deal stages.
+ * Used by `npm run crm`.
+ *
+ * Set CRM_PROVIDER=fixture to work against fixtures/crm.json instead of a
+ * live HubSpot / Salesforce org. Confirmed writes are saved to that file.
+ */
+
+const SYSTEM_PROMPT = `You are a pre-sales assistant with access to the company's CRM.
+
+- Look records up before answering; never guess ids, stages or amounts
+- Quote deal names, stages and amounts exactly as the CRM returns them
+- Only log activities or change deal stages when the user asks you to
+- If a CRM write is refused, say what you would have changed and stop`;
+
+async function runCrmAgent(prompt: string) {
+  const config = loadConfig();
+  const adapter = crmAdapterFromConfig(config);
+
+  console.log(`🗂️  CRM: ${adapter.provider}`);
+  console.log(`💬 ${prompt}`);
+  console.log("=" + "=".repeat(50));
+
+  // No live status line: it would draw over the write confirmation prompts
+  const renderer = new TerminalRenderer({ interactive: false });
+  const agent = new AgentRuntime(
+    {
+      name: "crm-agent",
+      task: "lookup",
+      tools: CRM_TOOLS,
+      maxTurns: 10,
+      systemPrompt: SYSTEM_PROMPT,
+      options: {
+        mcpServers: { [CRM_SERVER_NAME]: createCrmMcpServer(adapter) },
+        hooks: createCrmConfirmationHooks(confirmOnTerminal)
+      }
+    },
+    {
+      appConfig: config,
+      events: renderer.events
+    }
+  );
+
+  const result = await agent.execute(prompt);
+  if (!result.success) {
+    console.error(`\n❌ Run failed (${result.subtype ?? "error"}): ${result.error}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log("=" + "=".repeat(50));
+  console.log(`💰 Cost: $${result.stats.costUSD.toFixed(4)}`);
+}
+
+// Main execution
+async function main() {
+  const prompt = process.argv.slice(2).join(" ").trim();
+  if (!prompt) {
+    console.log(`
+Phoenix OS CRM Agent
+====================
+
+Usage:
+  npm run crm "<question or instruction>"
+
+Examples:
+  npm run crm "What open deals do we have with acme.example.com and who are the contacts?"
+  npm run crm "Log a call with Raj Patel at Acme: walked through the pricing, next step is a security review"
+  CRM_PROVIDER=fixture npm run crm "Move the Acme revenue intelligence deal to negotiation"
+    `);
+    return;
+  }
+
+  try {
+    await runCrmAgent(prompt);
+  } catch (error) {
+    console.error("❌", error instanceof ConfigError ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { runCrmAgent };
@@ -1,5 +1,9 @@
 import { query } from "@anthropic-ai/claude-agent-sdk";
 import dotenv from "dotenv";
+import { SourceLedger } from "../src/citations";
+import { loadConfig } from "../src/config";
+import { createDomainPolicyHooks, DomainPolicy } from "../src/permissions";
+import { getPromptRegistry } from "../src/prompts";
 
 // Load environment variables
 dotenv.config();
@@ -30,8 +34,8 @@ async function helloWorldAgent() {
         // No tools needed for basic conversation
         allowedTools: [WebSearch],
 
-        // Simple system prompt
-        systemPrompt: "You are a helpful AI assistant demonstrating basic agent capabilities."
+        // Simple system prompt, from prompts/examples/hello-world.md
+        systemPrompt: getPromptRegistry().render("examples/hello-world").text
       }
     })) {
 
@@ -101,7 +105,7 @@ async function agentWithTools() {
 
         maxTurns: 10,  // Increased for tool usage
 
-        systemPrompt: "You are a helpful assistant that can read and analyze files."
+        systemPrompt: getPromptRegistry().render("examples/file-reader").text
       }
     })) {
 
@@ -131,12 +135,20 @@ async function agentWithTools() {
 
 /**
  * Advanced example: Agent with web search
- * TODO(human): Implement this function to demonstrate web search capabilities
+ * Every URL the agent searches or fetches is recorded in a source ledger, and
+ * the final report is rewritten with [n] citations and a bibliography.
+ * SEARCH_DOMAINS_WHITELIST / BLACKLIST are enforced through PreToolUse hooks.
  */
 async function agentWithWebSearch() {
   console.log("\n\n🌐 Starting Agent with Web Search");
   console.log("=" + "=".repeat(50));
 
+  const ledger = new SourceLedger();
+  const policy = DomainPolicy.fromConfig(loadConfig());
+  // Research prompt with the shared citation and safety rules (prompts/examples/web-researcher.md)
+  const prompt = getPromptRegistry().render("examples/web-researcher", { topic: "League of Legends Worlds 2025" });
+  let report = "";
+
   try {
     for await (const message of query({
       prompt: "search for league of legends worlds 2025.",
@@ -144,27 +156,41 @@ async function agentWithWebSearch() {
         model: "claude-haiku-4-5-20251001",
         allowedTools: ['WebSearch', 'WebFetch'],
         maxTurns: 20,
-        systemPrompt: "you are an expert researcher using web."
+        systemPrompt: prompt.text,
+
+        // Deny off-list WebFetch targets and restrict WebSearch to approved domains
+        hooks: createDomainPolicyHooks(policy)
       }
     })) {
-      
+      // GATHER: Record sources from tool calls and their results
+      ledger.observe(message);
+
       // VERIFY: Monitor what the agent is doing
       if (message.type === "assistant") {
         const msg = (message as any).message;
         if (msg?.content) {
-          const textContent = msg.content.find((c: any) => c.type === 'text');
-          if (textContent?.text) {
-            console.log("\n🤖 Agent:", textContent.text);
+          for (const block of msg.content) {
+            if (block.type === 'tool_use') {
+              console.log(`\n🔧 ${block.name}:`, block.input.query ?? block.input.url);
+            }
           }
         }
       }
 
       if (message.type === "result" && 'subtype' in message) {
         console.log("\n✅ Completed:", message.subtype);
+        if (message.subtype === "success") {
+          report = message.result;
+        }
       }
     }
 
-    console.log("⚠️  Not implemented yet - this is your task!");
+    if (report) {
+      console.log("\n📄 Report:\n");
+      console.log(ledger.cite(report));
+    }
+    console.log(`📚 ${ledger.sources.length} sources touched, ${ledger.sources.filter(s => s.fetched).length} fetched`);
+    console.log(`📝 Prompt: ${prompt.stamp.id}@${prompt.stamp.version} #${prompt.stamp.hash}`);
 
   } catch (error) {
     console.error("\n❌ Error:", error);
@@ -196,7 +222,7 @@ Phoenix OS Hello World Agent
 Usage:
   npm run hello              # Basic hello world
   npm run hello tools        # Agent with file reading tools
-  npm run hello search       # Agent with web search (YOU IMPLEMENT THIS!)
+  npm run hello search       # Agent with web search and cited sources
 
 Examples:
   tsx examples/hello-world-agent.ts
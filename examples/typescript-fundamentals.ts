@@ -16,10 +16,11 @@ import {
   type SDKResultMessage,
   type SDKSystemMessage,
   type SDKUserMessage,
-  type Options,
   type Query
 } from "@anthropic-ai/claude-agent-sdk";
 import dotenv from "dotenv";
+import { definePrompt, promptConfig } from "../src/prompts";
+import { AgentRunError, AgentRuntime, runWithRetry } from "../src/runtime";
 
 dotenv.config();
 
@@ -339,33 +340,31 @@ async function handleExecutionError(): Promise<void> {
 }
 
 async function handleNetworkError(): Promise<void> {
-  // Simulate abort controller usage
-  const controller = new AbortController();
+  // Each attempt is aborted after 5 seconds. Timeouts, 429/529 and dropped
+  // connections are retried with jittered exponential backoff; auth errors
+  // and caller aborts fail immediately.
+  const agent = new AgentRuntime({
+    name: "network-demo",
+    model: "haiku",
+    tools: [],
+    maxTurns: 3,
+    systemPrompt: "You are a helpful assistant."
+  });
 
   try {
-    // Set timeout to abort after 5 seconds
-    setTimeout(() => controller.abort(), 5000);
-
-    const options: Options = {
-      model: "claude-haiku-4-5-20251001",
-      maxTurns: 3,
-      abortController: controller
-    };
-
-    const stream = query({
-      prompt: "Say hello!",
-      options
-    });
-
-    for await (const message of stream) {
-      if (message.type === "assistant") {
-        console.log("✅ Got response before timeout");
+    const result = await runWithRetry(agent, "Say hello!", {
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      attemptTimeoutMs: 5000,
+      onRetry: (info) => {
+        console.log(`⚠️  Attempt ${info.attempt} failed (${info.kind}), retrying in ${info.delayMs}ms`);
       }
-    }
+    });
+    console.log("✅ Got response:", result.output);
   } catch (error) {
-    if (error instanceof Error && error.name === "AbortError") {
-      console.log("⚠️  Request aborted (timeout or user cancellation)");
-      console.log("   Strategy: Retry with exponential backoff");
+    if (error instanceof AgentRunError) {
+      console.log(`❌ Gave up after ${error.attempts.length} attempt(s): ${error.kind}`);
+      console.log(`   Last error: ${error.lastResult.error}`);
     } else {
       console.error("❌ Network error:", error);
     }
@@ -381,106 +380,31 @@ async function handleNetworkError(): Promise<void> {
  * Shows how to build type-safe wrappers around the SDK
  */
 
-// Type-safe agent configuration builder
-interface AgentConfig {
-  name: string;
-  model: "haiku" | "sonnet" | "opus";
-  tools: string[];
-  maxTurns: number;
-  systemPrompt: string;
-}
-
-class TypeSafeAgent {
-  private config: AgentConfig;
-
-  constructor(config: AgentConfig) {
-    this.config = config;
-  }
-
-  // Type-safe model resolution
-  private resolveModel(): string {
-    const modelMap = {
-      haiku: "claude-haiku-4-5-20251001",
-      sonnet: "claude-sonnet-4-5-20250929",
-      opus: "claude-opus-4-1-20250514"
-    };
-    return modelMap[this.config.model];
-  }
-
-  // Type-safe execution with proper error handling
-  async execute(prompt: string): Promise<AgentResult> {
-    const result: AgentResult = {
-      success: false,
-      response: "",
-      error: null,
-      stats: {
-        turns: 0,
-        costUSD: 0,
-        durationMs: 0
-      }
-    };
-
-    try {
-      const options: Options = {
-        model: this.resolveModel(),
-        allowedTools: this.config.tools,
-        maxTurns: this.config.maxTurns,
-        systemPrompt: this.config.systemPrompt
-      };
-
-      const stream = query({ prompt, options });
-
-      for await (const message of stream) {
-        if (message.type === "assistant") {
-          const assistantMsg = message as SDKAssistantMessage;
-          const textBlocks = assistantMsg.message.content.filter(
-            (block): block is { type: "text"; text: string } => block.type === "text"
-          );
-          result.response += textBlocks.map(b => b.text).join("\n");
-        }
-
-        if (message.type === "result") {
-          const resultMsg = message as SDKResultMessage;
-          result.stats.turns = resultMsg.num_turns;
-          result.stats.costUSD = resultMsg.total_cost_usd;
-          result.stats.durationMs = resultMsg.duration_ms;
-
-          if (resultMsg.subtype === "success") {
-            result.success = true;
-          } else {
-            result.error = "errors" in resultMsg ? resultMsg.errors.join(", ") : "Unknown error";
-          }
-        }
-      }
-    } catch (error) {
-      result.error = error instanceof Error ? error.message : String(error);
-    }
-
-    return result;
-  }
-}
-
-interface AgentResult {
-  success: boolean;
-  response: string;
-error: string | null;
-  stats: {
-    turns: number;
-    costUSD: number;
-    durationMs: number;
-  };
-}
+// The type-safe wrapper that started life here is now the shared runtime in
+// src/runtime/agent-runtime.ts (AgentRuntime). It is re-exported below under
+// its original name so existing imports keep working.
+const TypeSafeAgent = AgentRuntime;
 
 async function typeSafeAgentExample(): Promise<void> {
   console.log("\n=== Example 4: Type-Safe Agent ===\n");
 
-  const agent = new TypeSafeAgent({
-    name: "TypeScriptTutor",
-    model: "haiku",
-    tools: [],
-    maxTurns: 5,
-    systemPrompt: "You are a TypeScript expert who explains concepts clearly and concisely."
-  });
+  // System prompt, model hint and prompt stamp from prompts/examples/typescript-tutor.md
+  const tutorPrompt = definePrompt<{ level?: string; topics?: string[] }>("examples/typescript-tutor");
+  const agent = new TypeSafeAgent(
+    {
+      name: "TypeScriptTutor",
+      tools: [],
+      maxTurns: 5,
+      ...promptConfig(tutorPrompt.render({ level: "developer new to TypeScript" }))
+    },
+    {
+      // Lifecycle events fire while the stream is consumed
+      events: {
+        onToolUse: (toolCall) => console.log(`   🔧 ${toolCall.name}`),
+        onResult: (result) => console.log(`   ✅ ${result.subtype} after ${result.stats.turns} turns`)
+      }
+    }
+  );
 
   const result = await agent.execute("What are the benefits of using TypeScript?");
 
@@ -488,10 +412,15 @@ async function typeSafeAgentExample(): Promise<void> {
   console.log(`   Success: ${result.success}`);
   console.log(`   Response: ${result.response}`);
   console.log(`   Error: ${result.error || "None"}`);
+  console.log(`   Prompt: ${result.prompt ? `${result.prompt.id}@${result.prompt.version} #${result.prompt.hash}` : "inline"}`);
   console.log("\n📊 STATS:");
   console.log(`   Turns: ${result.stats.turns}`);
   console.log(`   Cost: $${result.stats.costUSD.toFixed(6)}`);
   console.log(`   Duration: ${result.stats.durationMs}ms`);
+  console.log(`   Tool Calls: ${result.toolCalls.length}`);
+  result.turns.forEach(turn =>
+    console.log(`   - Turn ${turn.turn}: ${turn.inputTokens} in / ${turn.outputTokens} out`)
+  );
 }
 
 // ============================================================================
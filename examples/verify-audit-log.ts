@@ -0,0 +1,47 @@
+import { verifyAuditLog } from "../src/audit";
+import { ConfigError, loadConfig } from "../src/config";
+
+/**
+ * Verifies the hash chain of the audit log (and its rotations).
+ * Exits 1 when any record was edited, dropped or reordered.
+ *
+ *   npm run audit:verify [path]     # defaults to AUDIT_LOG_PATH
+ */
+function main() {
+  let filePath = process.argv[2];
+  if (!filePath) {
+    try {
+      filePath = loadConfig().logging.auditLogPath;
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        console.error("❌", error.message);
+        process.exit(1);
+      }
+      throw error;
+    }
+  }
+
+  const verification = verifyAuditLog(filePath);
+
+  if (verification.files.length === 0) {
+    console.log(`📭 No audit log at ${filePath}`);
+    return;
+  }
+
+  console.log(`🔍 Checked ${verification.records} record(s) in ${verification.files.length} file(s)`);
+  if (!verification.anchored) {
+    console.log("ℹ️  Oldest rotations have been removed; chain verified from the oldest surviving record");
+  }
+
+  if (verification.error) {
+    const { file, line, seq, reason } = verification.error;
+    console.error(`❌ Audit log tampered or corrupt at ${file}:${line}${seq !== null ? ` (seq ${seq})` : ""}: ${reason}`);
+    process.exit(1);
+  }
+
+  console.log("✅ Hash chain intact");
+}
+
+if (require.main === module) {
+  main();
+}
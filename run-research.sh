@@ -1,7 +1,9 @@
 #!/bin/bash
 
 # Phoenix OS Cockpit - Research Agent Runner
-# This script helps you run the research agent easily
+# This script helps you run the research agent easily.
+# With arguments it runs `cockpit research` directly, e.g.
+#   ./run-research.sh company "Acme Corp"
 
 echo "🚀 Phoenix OS Cockpit - Research Agent"
 echo "======================================"
@@ -37,6 +39,11 @@ if grep -q "your_api_key_here" .env; then
     exit 1
 fi
 
+# Arguments skip the menu
+if [ $# -gt 0 ]; then
+    exec npx tsx src/index.ts research "$@"
+fi
+
 # Display menu
 echo "Choose an option:"
 echo "1. Test connection (quick & cheap)"
@@ -51,31 +58,32 @@ read -p "Enter choice (1-5): " choice
 case $choice in
     1)
         echo "🧪 Testing agent connection..."
-        npx tsx test-agent.ts
+        npx tsx src/index.ts config check && \
+            npx tsx src/index.ts ask --model haiku --max-turns 1 --tools "" "Reply with one word: ready"
         ;;
     2)
         read -p "Enter company name: " company
         echo "🔍 Researching $company..."
-        npx tsx examples/research-agent.ts company "$company"
+        npx tsx src/index.ts research company "$company"
         ;;
     3)
         read -p "Enter market/industry: " market
         echo "📊 Analyzing $market market..."
-        npx tsx examples/research-agent.ts market "$market"
+        npx tsx src/index.ts research market "$market"
         ;;
     4)
         read -p "Enter your company name: " ourcompany
         read -p "Enter competitor names (comma-separated): " competitors
         echo "⚔️ Running competitive analysis..."
-        npx tsx examples/research-agent.ts competitive "$ourcompany" $competitors
+        npx tsx src/index.ts research competitive "$ourcompany" "$competitors"
         ;;
     5)
         read -p "Enter your research query: " query
         echo "🔬 Researching: $query"
-        npx tsx src/index.ts "Research the following topic comprehensively: $query"
+        npx tsx src/index.ts ask --tools WebSearch,WebFetch "Research the following topic comprehensively: $query"
         ;;
     *)
         echo "Invalid choice. Exiting."
         exit 1
         ;;
-esac
\ No newline at end of file
+esac
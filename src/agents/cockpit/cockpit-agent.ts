@@ -0,0 +1,57 @@
+import type { Options } from "@anthropic-ai/claude-agent-sdk";
+import { createPresalesMcpServer, PRESALES_SERVER_NAME, PRESALES_TOOLS } from "../../presales";
+import { definePrompt, getPromptRegistry, type PromptRegistry } from "../../prompts";
+import { classifyTask, type TaskClass } from "../../routing";
+import type { AgentConfig, ModelAlias } from "../../runtime";
+
+/** Registry template of the cockpit system prompt (prompts/cockpit/system.md) */
+export const COCKPIT_PROMPT = definePrompt<{ presalesTools?: boolean }>("cockpit/system");
+
+export const COCKPIT_TOOLS = ["Read", "Write", "Glob", "Grep", ...PRESALES_TOOLS];
+
+export interface CockpitAgentOptions {
+  model?: ModelAlias;
+  /** Task class for model routing; guessed from the prompt when omitted */
+  task?: TaskClass;
+  maxTurns?: number;
+  /** Defaults to COCKPIT_TOOLS; the presales tools are available by name (PRESALES_TOOLS) */
+  tools?: string[];
+  /** Working directory of the run (default: the current one) */
+  cwd?: string;
+  /** Version of the cockpit prompt to run, e.g. "1.0.0" (default: the latest) */
+  promptVersion?: string;
+  /** Defaults to the registry for PROMPTS_DIR */
+  registry?: PromptRegistry;
+}
+
+/**
+ * The general-purpose cockpit agent behind `cockpit ask` and the API's
+ * "cockpit" jobs, so both run a prompt the same way.
+ *
+ * @throws PromptError when the prompt library is invalid or lacks the requested version
+ */
+export function cockpitAgent(prompt: string, options: CockpitAgentOptions = {}): AgentConfig {
+  const { model, task, maxTurns, tools, cwd, promptVersion, registry } = options;
+  const allowedTools = tools ?? COCKPIT_TOOLS;
+  const prompts = registry ?? getPromptRegistry();
+  const ref = promptVersion ? `${COCKPIT_PROMPT.ref}@${promptVersion}` : COCKPIT_PROMPT.ref;
+  // Older versions of the prompt take no variables
+  const presalesTools = "presalesTools" in prompts.variables(ref) ? allowedTools.some((tool) => PRESALES_TOOLS.includes(tool)) : undefined;
+  const rendered = COCKPIT_PROMPT.render({ presalesTools }, { version: promptVersion, registry: prompts });
+  const sdkOptions: Options = {
+    settingSources: ["project", "user"],
+    cwd: cwd ?? process.cwd(),
+    mcpServers: { [PRESALES_SERVER_NAME]: createPresalesMcpServer() }
+  };
+
+  return {
+    name: "cockpit",
+    task: task ?? classifyTask(prompt),
+    systemPrompt: rendered.text,
+    prompt: rendered.stamp,
+    tools: allowedTools,
+    ...(model && { model }),
+    ...(maxTurns && { maxTurns }),
+    options: sdkOptions
+  };
+}
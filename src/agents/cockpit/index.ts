@@ -0,0 +1 @@
+export { cockpitAgent, COCKPIT_PROMPT, COCKPIT_TOOLS, type CockpitAgentOptions } from "./cockpit-agent";
@@ -0,0 +1,87 @@
+import type { CapabilityCatalog } from "../../compliance";
+import { createPathScopeHooks } from "../../permissions";
+import {
+  AgentRuntime,
+  runStructured,
+  type AgentConfig,
+  type AgentResult,
+  type AgentRuntimeDeps,
+  type ModelAlias,
+  type RetryOptions,
+  type RunOptions
+} from "../../runtime";
+import { COMPLIANCE_SYSTEM_PROMPT, compliancePrompt, complianceRepairPrompt, type RequirementForAssessment } from "./prompts";
+import { assessmentBatchSchema, type Assessment } from "./schema";
+
+export interface ComplianceAgentOptions extends AgentRuntimeDeps {
+  model?: ModelAlias;
+  maxTurns?: number;
+  /** Total attempts at valid assessments per batch (default 3) */
+  maxAttempts?: number;
+  /** Retries for overloaded / network failures; `false` fails on the first error */
+  retry?: RetryOptions | false;
+}
+
+export interface BatchAssessment {
+  /** In batch order */
+  assessments: Assessment[];
+  attempts: AgentResult[];
+  costUSD: number;
+}
+
+export const COMPLIANCE_AGENT: AgentConfig = {
+  name: "compliance",
+  task: "synthesis",
+  tools: ["Read", "Grep", "Glob"],
+  maxTurns: 12,
+  systemPrompt: COMPLIANCE_SYSTEM_PROMPT
+};
+
+/**
+ * Classifies batches of RFP requirements against a capability catalog.
+ * The agent runs in the catalog directory and its Read / Grep / Glob calls
+ * are held to it by path-scope hooks, so it can search the catalog but not
+ * the rest of the machine.
+ *
+ * @throws StructuredOutputError when no valid assessments were produced
+ * @throws AgentRunError when a run failed and retries could not recover it
+ */
+export class ComplianceAgent {
+  readonly catalog: CapabilityCatalog;
+  private runtime: AgentRuntime;
+  private capabilityIds: ReadonlySet<string>;
+  private maxAttempts: number;
+  private retry: RetryOptions | undefined;
+
+  constructor(catalog: CapabilityCatalog, options: ComplianceAgentOptions = {}) {
+    const { model, maxTurns, maxAttempts, retry, ...deps } = options;
+    this.catalog = catalog;
+    this.runtime = new AgentRuntime(
+      {
+        ...COMPLIANCE_AGENT,
+        ...(model && { model }),
+        ...(maxTurns && { maxTurns }),
+        options: { cwd: catalog.root, hooks: createPathScopeHooks(catalog.root, deps.onPermissionDecision) }
+      },
+      deps
+    );
+    this.capabilityIds = new Set(catalog.capabilities.map((capability) => capability.id));
+    this.maxAttempts = maxAttempts ?? 3;
+    this.retry = retry === false ? undefined : (retry ?? { resume: true });
+  }
+
+  async assess(batch: RequirementForAssessment[], run?: RunOptions): Promise<BatchAssessment> {
+    const { data, attempts } = await runStructured(
+      this.runtime,
+      compliancePrompt(batch, this.catalog),
+      assessmentBatchSchema(batch.length, this.capabilityIds),
+      { maxAttempts: this.maxAttempts, repairPrompt: complianceRepairPrompt, retry: this.retry, run }
+    );
+
+    return {
+      assessments: [...data.assessments].sort((a, b) => a.ref - b.ref),
+      attempts,
+      costUSD: attempts.reduce((total, attempt) => total + attempt.stats.costUSD, 0)
+    };
+  }
+}
@@ -0,0 +1,13 @@
+export {
+  COMPLIANCE_AGENT,
+  ComplianceAgent,
+  type BatchAssessment,
+  type ComplianceAgentOptions
+} from "./compliance-agent";
+export {
+  COMPLIANCE_SYSTEM_PROMPT,
+  compliancePrompt,
+  complianceRepairPrompt,
+  type RequirementForAssessment
+} from "./prompts";
+export * from "./schema";
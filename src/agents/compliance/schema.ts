@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+export const COMPLIANCE_STATUSES = ["compliant", "partial", "roadmap", "not_supported"] as const;
+
+export type ComplianceStatus = (typeof COMPLIANCE_STATUSES)[number];
+
+export const assessmentSchema = z.object({
+  /** Number of the requirement in the batch (1-based) */
+  ref: z.number().int().min(1),
+  status: z.enum(COMPLIANCE_STATUSES),
+  /** One or two sentences a customer can read */
+  justification: z.string().min(1),
+  /** Catalog capability ids the answer relies on */
+  capabilityIds: z.array(z.string()).default([]),
+  /** Evidence entries copied from those capabilities (documents, certificates, clauses) */
+  evidence: z.array(z.string()).default([])
+});
+
+export type Assessment = z.infer<typeof assessmentSchema>;
+
+/**
+ * Schema for the assessments of one batch: exactly one per requirement,
+ * citing only capability ids that exist in the catalog.
+ */
+export function assessmentBatchSchema(size: number, capabilityIds: ReadonlySet<string>) {
+  return z
+    .object({ assessments: z.array(assessmentSchema) })
+    .superRefine((batch, ctx) => {
+      const seen = new Set<number>();
+      batch.assessments.forEach((assessment, index) => {
+        if (assessment.ref > size) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["assessments", index, "ref"], message: `There are only ${size} requirements` });
+        } else if (seen.has(assessment.ref)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["assessments", index, "ref"], message: `Requirement ${assessment.ref} is assessed twice` });
+        }
+        seen.add(assessment.ref);
+        assessment.capabilityIds.forEach((id, position) => {
+          if (!capabilityIds.has(id)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ["assessments", index, "capabilityIds", position],
+              message: `Unknown capability id "${id}"`
+            });
+          }
+        });
+        if (assessment.status !== "not_supported" && assessment.capabilityIds.length === 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["assessments", index, "capabilityIds"],
+            message: `A ${assessment.status} answer must cite the capability it relies on`
+          });
+        }
+      });
+      const missing = Array.from({ length: size }, (_, index) => index + 1).filter((ref) => !seen.has(ref));
+      if (missing.length > 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["assessments"], message: `Missing requirement(s) ${missing.join(", ")}` });
+      }
+    });
+}
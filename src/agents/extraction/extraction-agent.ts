@@ -0,0 +1,99 @@
+import { z, type ZodType, type ZodTypeDef } from "zod";
+import type { DocumentChunk } from "../../ingestion";
+import {
+  AgentRuntime,
+  runStructured,
+  type AgentConfig,
+  type AgentResult,
+  type AgentRuntimeDeps,
+  type ModelAlias,
+  type RetryOptions,
+  type RunOptions
+} from "../../runtime";
+import { EXTRACTION_SYSTEM_PROMPT, extractionPrompt, extractionRepairPrompt } from "./prompts";
+
+/**
+ * What to pull out of documents, supplied by the caller: the schema of one
+ * item plus how to describe it to the model, and how to merge duplicates
+ * found in several chunks.
+ */
+export interface ExtractionSpec<T> {
+  /** Short name, e.g. "requirements" */
+  name: string;
+  /** What to extract, in the caller's terms */
+  instructions: string;
+  /** JSON shape of one item as shown to the model, e.g. `{ "requirement": string, ... }` */
+  itemShape: string;
+  item: ZodType<T, ZodTypeDef, unknown>;
+  /** Identity of an item for merging across chunks (default: its JSON with whitespace and case folded) */
+  key?: (item: T) => string;
+  /** Combines an item with a duplicate found later (default: keeps the first) */
+  merge?: (existing: T, duplicate: T) => T;
+}
+
+export interface ExtractionAgentOptions extends AgentRuntimeDeps {
+  model?: ModelAlias;
+  /** Total attempts at valid output per chunk (default 2) */
+  maxAttempts?: number;
+  /** Retries for overloaded / network failures; `false` fails on the first error */
+  retry?: RetryOptions | false;
+}
+
+export interface ChunkExtraction<T> {
+  /** Items with the index of the chunk part each was read from */
+  items: Array<{ part: number; value: T }>;
+  attempts: AgentResult[];
+  costUSD: number;
+}
+
+export const EXTRACTION_AGENT: AgentConfig = {
+  name: "document-extractor",
+  task: "extraction",
+  tools: [],
+  maxTurns: 2,
+  systemPrompt: EXTRACTION_SYSTEM_PROMPT
+};
+
+/**
+ * Extracts schema-validated items from one document chunk. The chunk text
+ * is in the prompt, so the agent needs no tools and one turn; runs are
+ * routed as extraction (Haiku unless a model is given).
+ *
+ * @throws StructuredOutputError when no valid answer was produced
+ * @throws AgentRunError when a run failed and retries could not recover it
+ */
+export class ExtractionAgent {
+  private runtime: AgentRuntime;
+  private maxAttempts: number;
+  private retry: RetryOptions | undefined;
+
+  constructor(options: ExtractionAgentOptions = {}) {
+    const { model, maxAttempts, retry, ...deps } = options;
+    this.runtime = new AgentRuntime({ ...EXTRACTION_AGENT, ...(model && { model }) }, deps);
+    this.maxAttempts = maxAttempts ?? 2;
+    this.retry = retry === false ? undefined : (retry ?? {});
+  }
+
+  async extract<T>(chunk: DocumentChunk, spec: ExtractionSpec<T>, run?: RunOptions): Promise<ChunkExtraction<T>> {
+    const schema = z.object({
+      items: z.array(
+        z.object({
+          ref: z.number().int().min(1).max(chunk.parts.length),
+          value: spec.item
+        })
+      )
+    });
+    const { data, attempts } = await runStructured(this.runtime, extractionPrompt(chunk, spec), schema, {
+      maxAttempts: this.maxAttempts,
+      repairPrompt: extractionRepairPrompt,
+      retry: this.retry,
+      run
+    });
+
+    return {
+      items: data.items.map((item) => ({ part: item.ref - 1, value: item.value as T })),
+      attempts,
+      costUSD: attempts.reduce((total, attempt) => total + attempt.stats.costUSD, 0)
+    };
+  }
+}
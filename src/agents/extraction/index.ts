@@ -0,0 +1,16 @@
+export {
+  EXTRACTION_AGENT,
+  ExtractionAgent,
+  type ChunkExtraction,
+  type ExtractionAgentOptions,
+  type ExtractionSpec
+} from "./extraction-agent";
+export {
+  EXTRACTION_PRESETS,
+  REQUIREMENT_CATEGORIES,
+  REQUIREMENT_PRIORITIES,
+  RFP_REQUIREMENTS,
+  rfpRequirementSchema,
+  type RfpRequirement
+} from "./presets";
+export { EXTRACTION_SYSTEM_PROMPT, extractionPrompt, extractionRepairPrompt, type ExtractionInstructions } from "./prompts";
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import type { ExtractionSpec } from "./extraction-agent";
+
+/**
+ * Ready-made extraction specs, selectable by name from the CLI
+ * (`cockpit ingest <dir> --extract requirements`).
+ */
+
+export const REQUIREMENT_CATEGORIES = [
+  "functional",
+  "technical",
+  "security",
+  "compliance",
+  "commercial",
+  "legal",
+  "support",
+  "other"
+] as const;
+
+export const REQUIREMENT_PRIORITIES = ["mandatory", "desirable", "informational"] as const;
+
+export const rfpRequirementSchema = z.object({
+  /** Numbering used by the RFP itself, e.g. "SEC-04" or "3.2.1" */
+  id: z.string().optional(),
+  requirement: z.string().min(1),
+  category: z.enum(REQUIREMENT_CATEGORIES),
+  /** "shall" / "must" are mandatory, "should" / "may" desirable, background is informational */
+  priority: z.enum(REQUIREMENT_PRIORITIES)
+});
+
+export type RfpRequirement = z.infer<typeof rfpRequirementSchema>;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+export const RFP_REQUIREMENTS: ExtractionSpec<RfpRequirement> = {
+  name: "requirements",
+  instructions: `Every requirement the customer places on the vendor or the solution: functional and
+technical capabilities, security and compliance controls, commercial and legal terms, support and
+service levels. One item per requirement; split sentences that state several. Skip instructions
+about how to format or submit the response.`,
+  itemShape: `{ "id": string (optional, the RFP's own number), "requirement": string (verbatim or lightly trimmed), "category": ${REQUIREMENT_CATEGORIES.map((category) => `"${category}"`).join(" | ")}, "priority": ${REQUIREMENT_PRIORITIES.map((priority) => `"${priority}"`).join(" | ")} }`,
+  item: rfpRequirementSchema,
+  key: (requirement) => normalize(requirement.requirement),
+  merge: (existing, duplicate) => ({ ...existing, id: existing.id ?? duplicate.id })
+};
+
+export const EXTRACTION_PRESETS: Record<string, ExtractionSpec<unknown>> = {
+  requirements: RFP_REQUIREMENTS as ExtractionSpec<unknown>
+};
@@ -0,0 +1,8 @@
+export {
+  JUDGE_AGENT,
+  JudgeAgent,
+  type CriterionGrade,
+  type JudgeAgentOptions,
+  type Judgement
+} from "./judge-agent";
+export { JUDGE_SYSTEM_PROMPT, judgePrompt, judgeRepairPrompt, type JudgeInput } from "./prompts";
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import {
+  AgentRuntime,
+  runStructured,
+  type AgentConfig,
+  type AgentRuntimeDeps,
+  type ModelAlias,
+  type RetryOptions,
+  type RunOptions
+} from "../../runtime";
+import { JUDGE_SYSTEM_PROMPT, judgePrompt, judgeRepairPrompt, type JudgeInput } from "./prompts";
+
+export interface JudgeAgentOptions extends AgentRuntimeDeps {
+  model?: ModelAlias;
+  /** Total attempts at valid grades (default 2) */
+  maxAttempts?: number;
+  /** Retries for overloaded / network failures; `false` fails on the first error */
+  retry?: RetryOptions | false;
+}
+
+export interface CriterionGrade {
+  criterion: string;
+  /** 1-5 */
+  score: number;
+  reason: string;
+}
+
+export interface Judgement {
+  /** Mean grade mapped to 0-1 (all 1s is 0, all 5s is 1) */
+  score: number;
+  grades: CriterionGrade[];
+  model: string;
+  costUSD: number;
+}
+
+export const JUDGE_AGENT: AgentConfig = {
+  name: "eval-judge",
+  task: "synthesis",
+  tools: [],
+  maxTurns: 2,
+  systemPrompt: JUDGE_SYSTEM_PROMPT
+};
+
+function gradesSchema(size: number) {
+  return z
+    .object({
+      grades: z.array(
+        z.object({
+          criterion: z.number().int().min(1).max(size),
+          score: z.number().int().min(1).max(5),
+          reason: z.string().min(1)
+        })
+      )
+    })
+    .superRefine((answer, ctx) => {
+      const graded = new Set(answer.grades.map((grade) => grade.criterion));
+      const missing = Array.from({ length: size }, (_, index) => index + 1).filter((criterion) => !graded.has(criterion));
+      if (missing.length > 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["grades"], message: `Missing criterion ${missing.join(", ")}` });
+      }
+      if (graded.size !== answer.grades.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["grades"], message: "Grade each criterion once" });
+      }
+    });
+}
+
+/**
+ * LLM-as-judge for eval rubrics. The judge has no tools and sees only the
+ * task, the answer and the criteria; it is routed as synthesis (Sonnet)
+ * unless a model is given, and should not be the model under test.
+ *
+ * @throws StructuredOutputError when no valid grades were produced
+ * @throws AgentRunError when a run failed and retries could not recover it
+ */
+export class JudgeAgent {
+  private runtime: AgentRuntime;
+  private maxAttempts: number;
+  private retry: RetryOptions | undefined;
+
+  constructor(options: JudgeAgentOptions = {}) {
+    const { model, maxAttempts, retry, ...deps } = options;
+    this.runtime = new AgentRuntime({ ...JUDGE_AGENT, ...(model && { model }) }, deps);
+    this.maxAttempts = maxAttempts ?? 2;
+    this.retry = retry === false ? undefined : (retry ?? {});
+  }
+
+  async judge(input: JudgeInput, run?: RunOptions): Promise<Judgement> {
+    const { data, result, attempts } = await runStructured(this.runtime, judgePrompt(input), gradesSchema(input.criteria.length), {
+      maxAttempts: this.maxAttempts,
+      repairPrompt: judgeRepairPrompt,
+      retry: this.retry,
+      run
+    });
+
+    const grades = [...data.grades]
+      .sort((a, b) => a.criterion - b.criterion)
+      .map((grade) => ({ criterion: input.criteria[grade.criterion - 1] as string, score: grade.score, reason: grade.reason }));
+    const mean = grades.reduce((total, grade) => total + grade.score, 0) / grades.length;
+    return {
+      score: (mean - 1) / 4,
+      grades,
+      model: result.model,
+      costUSD: attempts.reduce((total, attempt) => total + attempt.stats.costUSD, 0)
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export { MonitorAgent, MONITOR_AGENT, type MonitorAgentOptions, type MonitorScan } from "./monitor-agent";
+export { MONITOR_SYSTEM_PROMPT, monitorPrompt, monitorRepairPrompt, type MonitorTarget } from "./prompts";
+export * from "./schema";
@@ -0,0 +1,79 @@
+import {
+  AgentRuntime,
+  runStructured,
+  type AgentConfig,
+  type AgentResult,
+  type AgentRuntimeDeps,
+  type ModelAlias,
+  type RetryOptions,
+  type RunOptions
+} from "../../runtime";
+import { MONITOR_SYSTEM_PROMPT, monitorPrompt, monitorRepairPrompt, type MonitorTarget } from "./prompts";
+import { monitorSnapshotSchema, type MonitorSnapshot } from "./schema";
+
+export interface MonitorAgentOptions extends AgentRuntimeDeps {
+  model?: ModelAlias;
+  maxTurns?: number;
+  /** Total attempts at producing a valid snapshot (default 3) */
+  maxAttempts?: number;
+  /** Retries for overloaded / network failures; `false` fails on the first error */
+  retry?: RetryOptions | false;
+}
+
+export interface MonitorScan {
+  target: MonitorTarget;
+  snapshot: MonitorSnapshot;
+  /** Result of the run that produced the accepted snapshot */
+  result: AgentResult;
+  attempts: AgentResult[];
+  /** Cost across all attempts */
+  costUSD: number;
+}
+
+export const MONITOR_AGENT: AgentConfig = {
+  name: "monitor",
+  task: "extraction",
+  tools: ["WebSearch", "WebFetch"],
+  maxTurns: 20,
+  systemPrompt: MONITOR_SYSTEM_PROMPT
+};
+
+/**
+ * Scans a competitor or market topic and returns a schema-validated
+ * snapshot of its pricing, launches, leadership and news.
+ *
+ * @throws StructuredOutputError when no valid snapshot was produced
+ * @throws AgentRunError when a run failed and retries could not recover it
+ */
+export class MonitorAgent {
+  private runtime: AgentRuntime;
+  private maxAttempts: number;
+  private retry: RetryOptions | undefined;
+
+  constructor(options: MonitorAgentOptions = {}) {
+    const { model, maxTurns, maxAttempts, retry, ...deps } = options;
+    this.runtime = new AgentRuntime(
+      { ...MONITOR_AGENT, ...(model && { model }), ...(maxTurns && { maxTurns }) },
+      deps
+    );
+    this.maxAttempts = maxAttempts ?? 3;
+    this.retry = retry === false ? undefined : (retry ?? { resume: true });
+  }
+
+  async scan(target: MonitorTarget, previous: MonitorSnapshot | null, run?: RunOptions): Promise<MonitorScan> {
+    const { data, result, attempts } = await runStructured(this.runtime, monitorPrompt(target, previous), monitorSnapshotSchema, {
+      maxAttempts: this.maxAttempts,
+      repairPrompt: monitorRepairPrompt,
+      retry: this.retry,
+      run
+    });
+
+    return {
+      target,
+      snapshot: { ...data, generatedAt: new Date().toISOString() },
+      result,
+      attempts,
+      costUSD: attempts.reduce((total, attempt) => total + attempt.stats.costUSD, 0)
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import type { MonitorSnapshot } from "./schema";
+
+/**
+ * Prompts for the monitoring agent: a recurring, narrow scan for what
+ * changed, rather than a full research pass.
+ */
+
+export const MONITOR_SYSTEM_PROMPT = `You are a competitive monitoring agent for the Phoenix OS product marketing team.
+
+You run on a schedule and record the current state of a competitor or market so it can be compared
+with the previous run. Focus on facts that change: published pricing, product launches, and
+leadership.
+
+Guidelines:
+- Only report facts you found in a source you actually fetched or searched
+- Every item must list the URL(s) it came from
+- Prefer the company's own pricing, newsroom and leadership pages, then press coverage
+- Record prices exactly as published, including the billing unit and period
+- Reuse the exact company, item, name and title wording of the previous snapshot for anything that
+  has not changed, so unchanged facts compare as equal
+- Leave a section as an empty array rather than guessing`;
+
+export interface MonitorTarget {
+  /** A competitor is one company; a topic is a market or theme to scan */
+  kind: "competitor" | "topic";
+  name: string;
+  /** The competitor's site, to start from */
+  website?: string;
+  /** Extra instructions, e.g. products or regions to focus on */
+  notes?: string;
+}
+
+const SNAPSHOT_SHAPE = `{
+  "subject": string,
+  "summary": string (two or three sentences on recent developments),
+  "pricing": [{ "company": string, "item": string (plan / tier / product), "price": string (as published), "sourceUrls": [url, ...] }, ...],
+  "launches": [{ "company": string, "name": string, "date": string (optional, ISO date or month), "summary": string, "sourceUrls": [url, ...] }, ...],
+  "leadership": [{ "company": string, "name": string, "title": string, "sourceUrls": [url, ...] }, ...],
+  "news": [{ "company": string (optional), "headline": string, "date": string (optional), "sourceUrls": [url, ...] }, ...]
+}`;
+
+function outputInstructions(): string {
+  return `When you are done, reply with ONLY a JSON object (no prose before or after, optionally inside a
+\`\`\`json fence) of this shape:
+
+${SNAPSHOT_SHAPE}`;
+}
+
+/** Compact listing of the previous snapshot so unchanged facts keep their wording */
+function previousContext(previous: MonitorSnapshot): string {
+  const lines = [
+    ...previous.pricing.map((point) => `- pricing: ${point.company} / ${point.item}: ${point.price}`),
+    ...previous.launches.map((launch) => `- launch: ${launch.company} / ${launch.name}${launch.date ? ` (${launch.date})` : ""}`),
+    ...previous.leadership.map((leader) => `- leadership: ${leader.company} / ${leader.title}: ${leader.name}`)
+  ];
+  const when = previous.generatedAt ? ` from ${previous.generatedAt.slice(0, 10)}` : "";
+  return `Previous snapshot${when} (check each item is still current; keep its wording if unchanged):
+${lines.length > 0 ? lines.join("\n") : "- (empty)"}`;
+}
+
+/**
+ * Task prompt for one scan, with the previous snapshot (if any) so the
+ * agent can confirm or update each known fact.
+ */
+export function monitorPrompt(target: MonitorTarget, previous: MonitorSnapshot | null): string {
+  const task =
+    target.kind === "competitor"
+      ? `Check the current state of the company "${target.name}"${target.website ? ` (${target.website})` : ""}. Record its
+published pricing for each plan or product, product and feature launches from the last 90 days, its
+leadership team (executives and key VPs), and other notable news from the last 30 days.`
+      : `Scan the "${target.name}" market for recent developments. Record pricing changes by notable vendors,
+product launches from the last 90 days, executive moves at key players, and other notable news from
+the last 30 days.`;
+
+  const notes = target.notes ? `\n\nAdditional context:\n${target.notes}` : "";
+  const known = previous ? `\n\n${previousContext(previous)}` : "";
+  return `${task}${notes}${known}\n\n${outputInstructions()}`;
+}
+
+/**
+ * Follow-up prompt sent when the previous answer failed validation.
+ */
+export function monitorRepairPrompt(issues: string[]): string {
+  return `Your previous answer could not be accepted:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Fix these problems and reply again.
+
+${outputInstructions()}`;
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+/**
+ * Snapshot schema for the monitoring agent.
+ *
+ * Unlike a research dossier, a snapshot is a set of keyed facts (a price
+ * per plan, a launch per product, a person per role) so two runs can be
+ * compared item by item. Every item carries its source URLs.
+ */
+
+const sourceUrls = z.array(z.string().url()).min(1, "Every item needs at least one source URL");
+
+export const pricePointSchema = z.object({
+  /** Company the price belongs to; for competitor entries, the competitor */
+  company: z.string().min(1),
+  /** Plan, tier or product, e.g. "Pro plan" */
+  item: z.string().min(1),
+  /** As published, e.g. "$49 per user per month, billed annually" */
+  price: z.string().min(1),
+  sourceUrls
+});
+
+export const launchSchema = z.object({
+  company: z.string().min(1),
+  /** Product, feature or offering name */
+  name: z.string().min(1),
+  /** ISO date or month if known */
+  date: z.string().optional(),
+  summary: z.string().min(1),
+  sourceUrls
+});
+
+export const leaderSchema = z.object({
+  company: z.string().min(1),
+  name: z.string().min(1),
+  title: z.string().min(1),
+  sourceUrls
+});
+
+export const newsItemSchema = z.object({
+  company: z.string().optional(),
+  headline: z.string().min(1),
+  date: z.string().optional(),
+  sourceUrls
+});
+
+export const monitorSnapshotSchema = z.object({
+  subject: z.string().min(1),
+  /** Two or three sentences on what changed recently */
+  summary: z.string().min(1),
+  pricing: z.array(pricePointSchema),
+  launches: z.array(launchSchema),
+  leadership: z.array(leaderSchema),
+  /** Other notable developments; reported in digests, never alerted on */
+  news: z.array(newsItemSchema),
+  generatedAt: z.string().optional()
+});
+
+export type PricePoint = z.infer<typeof pricePointSchema>;
+export type Launch = z.infer<typeof launchSchema>;
+export type Leader = z.infer<typeof leaderSchema>;
+export type NewsItem = z.infer<typeof newsItemSchema>;
+export type MonitorSnapshot = z.infer<typeof monitorSnapshotSchema>;
@@ -0,0 +1,16 @@
+export {
+  OrchestrationError,
+  ResearchOrchestrator,
+  type OrchestratedReport,
+  type OrchestratorOptions,
+  type SubagentReport,
+  type SubagentStatus
+} from "./orchestrator";
+export {
+  EXTRACTOR_SYSTEM_PROMPT,
+  PLANNER_SYSTEM_PROMPT,
+  RETRIEVER_SYSTEM_PROMPT,
+  SYNTHESIZER_SYSTEM_PROMPT
+} from "./prompts";
+export { SUBAGENTS } from "./subagents";
+export * from "./schema";
@@ -0,0 +1,288 @@
+import { SourceLedger } from "../../citations";
+import { getConfig } from "../../config";
+import { BudgetGovernor } from "../../budget";
+import { createKnowledgeMcpServer, KB_SERVER_NAME, KB_TOOLS, KnowledgeBase, priorFindingsContext } from "../../knowledge";
+import {
+  AgentRuntime,
+  mapConcurrent,
+  mergeEvents,
+  runStructured,
+  type AgentConfig,
+  type AgentEvents,
+  type AgentRuntimeDeps,
+  type RetryOptions,
+  type RunOptions,
+  type StructuredRun
+} from "../../runtime";
+import {
+  dossierSchemas,
+  loadPriorFindings,
+  rememberDossier,
+  repairPrompt,
+  type Dossier,
+  type ResearchReport,
+  type ResearchTarget
+} from "../research";
+import { planPrompt, retrievalPrompt, synthesisPrompt } from "./prompts";
+import {
+  researchPlanSchema,
+  taskFindingsSchema,
+  type ResearchPlan,
+  type SubagentRole,
+  type TaskFindings
+} from "./schema";
+import { SUBAGENTS } from "./subagents";
+
+export type SubagentStatus = "running" | "succeeded" | "failed";
+
+/**
+ * Cost and outcome of one subagent's work. Retrieval and extraction report
+ * once per task; the planner and synthesizer once per orchestrated run.
+ */
+export interface SubagentReport {
+  role: SubagentRole;
+  /** Planner task id for retrievers / extractors, null otherwise */
+  taskId: string | null;
+  agent: string;
+  model: string;
+  status: SubagentStatus;
+  /** Agent runs, including validation repairs and retried failures */
+  runs: number;
+  turns: number;
+  costUSD: number;
+  durationMs: number;
+  error: string | null;
+}
+
+export interface OrchestratorOptions extends AgentRuntimeDeps {
+  /** Retrieval tasks in flight at once (default SUBAGENT_CONCURRENCY) */
+  concurrency?: number;
+  /** Upper bound on planned tasks (default 8) */
+  maxTasks?: number;
+  /** Per-role overrides of the default definitions (model, tools, maxTurns, ...) */
+  subagents?: Partial<Record<SubagentRole, Partial<Omit<AgentConfig, "name">>>>;
+  /** Attempts at valid output per subagent run (default 2; the synthesizer gets one more) */
+  maxAttempts?: number;
+  /** Retries for overloaded / network failures; `false` fails on the first error */
+  retry?: RetryOptions | false;
+  /** Called whenever a subagent starts or finishes */
+  onStatus?: (report: SubagentReport) => void;
+  /**
+   * Prior findings for planning and synthesis, and `kb_search` / `kb_save`
+   * for retrievers. Defaults to the configured knowledge base when
+   * ENABLE_MEMORY_PERSISTENCE is on; `null` disables.
+   */
+  knowledge?: KnowledgeBase | null;
+}
+
+export interface OrchestratedReport extends ResearchReport {
+  plan: ResearchPlan;
+  /** Every subagent run in start order */
+  subagents: SubagentReport[];
+}
+
+/**
+ * Thrown when the orchestrated run could not produce a dossier: planning or
+ * synthesis failed, or every retrieval task did. `subagents` still carries
+ * what was spent; `cause` is the underlying error when there is one.
+ */
+export class OrchestrationError extends Error {
+  readonly subagents: SubagentReport[];
+
+  constructor(message: string, subagents: SubagentReport[], cause?: unknown) {
+    super(message, { cause });
+    this.name = "OrchestrationError";
+    this.subagents = subagents;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Research orchestrator: a planner splits the target into independent
+ * questions, web retrievers / document extractors answer them in parallel
+ * (bounded by `concurrency`), and a synthesizer turns their findings into a
+ * dossier validated against the same schemas as the single ResearchAgent.
+ *
+ * Each subagent is its own AgentRuntime run with its own prompt, tool
+ * allowlist, model and turn budget, so a large market scan no longer has to
+ * fit into one agent's `maxTurns`. RATE_LIMIT_USD_PER_RUN applies to each
+ * subagent run; the hourly and daily caps to all of them together.
+ *
+ * @throws OrchestrationError when no dossier could be produced
+ */
+export class ResearchOrchestrator {
+  private runtimes: Record<SubagentRole, AgentRuntime>;
+  private concurrency: number;
+  private maxTasks: number;
+  private maxAttempts: number;
+  private retry: RetryOptions | undefined;
+  private onStatus: ((report: SubagentReport) => void) | undefined;
+  private knowledge: KnowledgeBase | null;
+
+  constructor(options: OrchestratorOptions = {}) {
+    const { concurrency, maxTasks, subagents, maxAttempts, retry, onStatus, knowledge, ...deps } = options;
+    const appConfig = deps.appConfig ?? getConfig();
+    this.knowledge =
+      knowledge !== undefined ? knowledge : appConfig.features.memoryPersistence ? KnowledgeBase.fromConfig(appConfig) : null;
+    // One governor for all subagents so the request rate is paced across them
+    const shared: AgentRuntimeDeps = {
+      ...deps,
+      appConfig,
+      budget: deps.budget === undefined ? BudgetGovernor.fromConfig(appConfig) : deps.budget
+    };
+
+    const runtime = (role: SubagentRole) => {
+      const config: AgentConfig = { ...SUBAGENTS[role], ...subagents?.[role] };
+      // Retrievers check the knowledge base before searching and save what they verify
+      if (this.knowledge && (role === "retriever" || role === "extractor")) {
+        config.tools = [...config.tools, ...KB_TOOLS];
+        config.options = {
+          ...config.options,
+          mcpServers: { ...config.options?.mcpServers, [KB_SERVER_NAME]: createKnowledgeMcpServer(this.knowledge) }
+        };
+      }
+      return new AgentRuntime(config, shared);
+    };
+    this.runtimes = {
+      planner: runtime("planner"),
+      retriever: runtime("retriever"),
+      extractor: runtime("extractor"),
+      synthesizer: runtime("synthesizer")
+    };
+    this.concurrency = Math.max(1, concurrency ?? appConfig.agent.subagentConcurrency);
+    this.maxTasks = maxTasks ?? 8;
+    this.maxAttempts = maxAttempts ?? 2;
+    this.retry = retry === false ? undefined : (retry ?? { resume: true });
+    this.onStatus = onStatus;
+  }
+
+  async research(target: ResearchTarget, run?: RunOptions): Promise<OrchestratedReport> {
+    const reports: SubagentReport[] = [];
+    const ledger = new SourceLedger();
+    const priorFindings = this.knowledge ? await loadPriorFindings(this.knowledge, target) : [];
+    const prior = priorFindingsContext(priorFindings);
+
+    // ---- Plan ----
+    let plan: ResearchPlan;
+    try {
+      plan = await this.step("planner", null, reports, run, (events) =>
+        runStructured(this.runtimes.planner, planPrompt(target, this.maxTasks, prior), researchPlanSchema, {
+          maxAttempts: this.maxAttempts,
+          retry: this.retry,
+          run: { ...run, events }
+        }).then(({ data }) => data)
+      );
+    } catch (error) {
+      throw new OrchestrationError(`Planning failed: ${errorMessage(error)}`, reports, error);
+    }
+    const tasks = plan.tasks.slice(0, this.maxTasks);
+
+    // ---- Retrieve (in parallel) ----
+    const results = await mapConcurrent(tasks, this.concurrency, async (task) => {
+      const role: SubagentRole = task.kind === "document" ? "extractor" : "retriever";
+      try {
+        const findings = await this.step(role, task.id, reports, run, (events) =>
+          runStructured<TaskFindings>(this.runtimes[role], retrievalPrompt(task, target), taskFindingsSchema, {
+            maxAttempts: this.maxAttempts,
+            retry: this.retry,
+            run: { ...run, events: mergeEvents(events, ledger.events) }
+          }).then(({ data }) => data)
+        );
+        return { task, findings, error: null };
+      } catch (error) {
+        return { task, findings: null, error: errorMessage(error) };
+      }
+    });
+
+    if (results.every((result) => result.findings === null)) {
+      throw new OrchestrationError(`All ${tasks.length} retrieval task(s) failed`, reports);
+    }
+
+    // ---- Synthesize ----
+    let synthesis: StructuredRun<Dossier>;
+    try {
+      synthesis = await this.step("synthesizer", null, reports, run, (events) =>
+        runStructured<Dossier>(this.runtimes.synthesizer, synthesisPrompt(target, results, prior), dossierSchemas[target.mode], {
+          maxAttempts: this.maxAttempts + 1,
+          repairPrompt: (issues) => repairPrompt(target.mode, issues),
+          retry: this.retry,
+          run: { ...run, events }
+        })
+      );
+    } catch (error) {
+      throw new OrchestrationError(`Synthesis failed: ${errorMessage(error)}`, reports, error);
+    }
+
+    const dossier = { ...synthesis.data, generatedAt: synthesis.data.generatedAt ?? new Date().toISOString() };
+    if (this.knowledge) {
+      await rememberDossier(this.knowledge, dossier, synthesis.result.sessionId);
+    }
+
+    return {
+      target,
+      dossier,
+      result: synthesis.result,
+      attempts: synthesis.attempts,
+      ledger,
+      priorFindings,
+      plan: { tasks },
+      subagents: reports,
+      costUSD: reports.reduce((total, report) => total + report.costUSD, 0)
+    };
+  }
+
+  /**
+   * Runs one subagent step, keeping its report current: every finished agent
+   * run adds its turns and cost, and the status flips once the step settles.
+   */
+  private async step<T>(
+    role: SubagentRole,
+    taskId: string | null,
+    reports: SubagentReport[],
+    run: RunOptions | undefined,
+    body: (events: AgentEvents) => Promise<T>
+  ): Promise<T> {
+    const runtime = this.runtimes[role];
+    const report: SubagentReport = {
+      role,
+      taskId,
+      agent: runtime.config.name,
+      model: runtime.resolveModel(),
+      status: "running",
+      runs: 0,
+      turns: 0,
+      costUSD: 0,
+      durationMs: 0,
+      error: null
+    };
+    reports.push(report);
+    this.onStatus?.({ ...report });
+
+    const startedAt = Date.now();
+    const tracker: AgentEvents = {
+      onResult: (result) => {
+        // Escalation can move a step to a stronger model between runs
+        report.model = result.model;
+        report.runs++;
+        report.turns += result.stats.turns;
+        report.costUSD += result.stats.costUSD;
+      }
+    };
+
+    try {
+      const value = await body(mergeEvents(tracker, run?.events));
+      report.status = "succeeded";
+      return value;
+    } catch (error) {
+      report.status = "failed";
+      report.error = errorMessage(error);
+      throw error;
+    } finally {
+      report.durationMs = Date.now() - startedAt;
+      this.onStatus?.({ ...report });
+    }
+  }
+}
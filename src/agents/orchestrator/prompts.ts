@@ -0,0 +1,118 @@
+import { taskPrompt, type ResearchTarget } from "../research/prompts";
+import type { ResearchTask, TaskFindings } from "./schema";
+
+/**
+ * Prompts for the orchestrated research flow. The planner splits a research
+ * target into independent questions, retrievers and extractors answer one
+ * question each, and the synthesizer writes the dossier from their findings
+ * (and any prior findings from the knowledge base) without doing any
+ * research of its own.
+ */
+
+export const PLANNER_SYSTEM_PROMPT = `You are the planning agent of a research team for the Phoenix OS pre-sales group.
+
+You do not research anything yourself. You split a research brief into independent questions that
+other agents will answer in parallel, each with its own small budget.
+
+Guidelines:
+- One question per subtopic; questions must not depend on each other's answers
+- Make every question specific enough to answer in a handful of searches
+- Use a "document" task only when the brief names specific URLs or files to read closely
+- Cover every section the brief asks for`;
+
+export const RETRIEVER_SYSTEM_PROMPT = `You are a web research agent answering ONE question for a research team.
+
+1. Search broadly, then narrow down
+2. Fetch the most authoritative pages and read them
+3. Record each fact you verified with the URL(s) it came from
+
+Guidelines:
+- Stay on your question; other agents cover the rest of the brief
+- Only report facts you found in a source you actually fetched or searched
+- Prefer primary sources (company sites, filings, press releases) over aggregators
+- Mark facts you could not corroborate with confidence "low"
+- List what you could not find as gaps instead of guessing`;
+
+export const EXTRACTOR_SYSTEM_PROMPT = `You are a document extraction agent answering ONE question for a research team.
+
+Read the sources you are given closely (fetch URLs, read files) and extract the facts that answer
+the question, each with the source it came from. Do not search the web for other sources.
+Quote figures exactly as the source states them. List what the sources do not answer as gaps.`;
+
+export const SYNTHESIZER_SYSTEM_PROMPT = `You are the synthesis agent of a research team for the Phoenix OS pre-sales group.
+
+Other agents have already done the research. You turn their findings into one coherent dossier.
+
+Guidelines:
+- Use only the findings you are given (including prior findings); never add facts of your own
+- Keep each finding's source URLs; merge duplicates and keep all of their sources
+- When findings conflict, keep both and lower their confidence to "low"
+- Leave a section as an empty array when no finding covers it`;
+
+const FINDINGS_SHAPE = `{
+  "findings": [{ "statement": string, "sourceUrls": [url, ...], "confidence": "high" | "medium" | "low" }, ...],
+  "gaps": [string, ...]
+}`;
+
+/**
+ * `prior` is the knowledge base section (see priorFindingsContext); the
+ * planner uses it to skip questions recent findings already answer.
+ */
+export function planPrompt(target: ResearchTarget, maxTasks: number, prior = ""): string {
+  return `Plan the research for this brief. Split it into at most ${maxTasks} independent questions.
+Skip what the prior findings in the brief already answer, unless they are old or likely to have changed.
+
+--- BRIEF ---
+${taskPrompt(target, prior)}
+--- END BRIEF ---
+
+Reply with ONLY a JSON object (optionally inside a \`\`\`json fence) of this shape:
+
+{
+  "tasks": [{
+    "id": string (short slug, unique),
+    "kind": "web" | "document",
+    "question": string,
+    "sources": [url or file path, ...] (optional for web tasks)
+  }, ...]
+}`;
+}
+
+export function retrievalPrompt(task: ResearchTask, target: ResearchTarget): string {
+  const sources = task.sources.length > 0 ? `\n\nStart from these sources:\n${task.sources.map((source) => `- ${source}`).join("\n")}` : "";
+  const verb = task.kind === "document" ? "Extract from the sources below" : "Research";
+
+  return `${verb} the answer to this question, part of ${target.mode} research on "${target.subject}":
+
+${task.question}${sources}
+
+When you are done, reply with ONLY a JSON object (optionally inside a \`\`\`json fence) of this shape:
+
+${FINDINGS_SHAPE}`;
+}
+
+/**
+ * Task prompt for the synthesizer: the original brief and output contract,
+ * followed by every completed task's findings and what failed.
+ */
+export function synthesisPrompt(
+  target: ResearchTarget,
+  results: Array<{ task: ResearchTask; findings: TaskFindings | null; error: string | null }>,
+  prior = ""
+): string {
+  const sections = results.map(({ task, findings, error }) => {
+    const header = `### ${task.id}: ${task.question}`;
+    if (!findings) {
+      return `${header}\n(no findings: ${error ?? "task failed"})`;
+    }
+    return `${header}\n${JSON.stringify(findings, null, 2)}`;
+  });
+
+  return `Write the dossier for the brief below from the research team's findings.
+
+--- FINDINGS ---
+${sections.join("\n\n")}
+--- END FINDINGS ---
+
+${taskPrompt(target, prior)}`;
+}
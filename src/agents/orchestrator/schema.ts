@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { findingSchema } from "../research/schema";
+
+/**
+ * Contracts between the orchestrator's subagents: the planner's task list
+ * and what each retrieval task hands to the synthesizer.
+ */
+
+export const SUBAGENT_ROLES = ["planner", "retriever", "extractor", "synthesizer"] as const;
+export type SubagentRole = (typeof SUBAGENT_ROLES)[number];
+
+/**
+ * `web` tasks search and read the open web; `document` tasks read the given
+ * sources (URLs or local files) closely and extract facts from them.
+ */
+export const TASK_KINDS = ["web", "document"] as const;
+export type TaskKind = (typeof TASK_KINDS)[number];
+
+export const researchTaskSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(TASK_KINDS).default("web"),
+  question: z.string().min(1),
+  /** URLs or file paths to start from; required for document tasks */
+  sources: z.array(z.string().min(1)).default([])
+});
+
+export const researchPlanSchema = z.object({
+  tasks: z
+    .array(researchTaskSchema)
+    .min(1, "Plan at least one task")
+    .superRefine((tasks, ctx) => {
+      const seen = new Set<string>();
+      tasks.forEach((task, index) => {
+        if (seen.has(task.id)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: `Duplicate task id "${task.id}"` });
+        }
+        seen.add(task.id);
+        if (task.kind === "document" && task.sources.length === 0) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "sources"], message: "Document tasks need sources" });
+        }
+      });
+    })
+});
+
+export const taskFindingsSchema = z.object({
+  findings: z.array(findingSchema),
+  /** What the task could not answer, so the synthesizer can flag it */
+  gaps: z.array(z.string()).default([])
+});
+
+export type ResearchTask = z.infer<typeof researchTaskSchema>;
+export type ResearchPlan = z.infer<typeof researchPlanSchema>;
+export type TaskFindings = z.infer<typeof taskFindingsSchema>;
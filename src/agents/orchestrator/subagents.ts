@@ -0,0 +1,44 @@
+import type { AgentConfig } from "../../runtime";
+import {
+  EXTRACTOR_SYSTEM_PROMPT,
+  PLANNER_SYSTEM_PROMPT,
+  RETRIEVER_SYSTEM_PROMPT,
+  SYNTHESIZER_SYSTEM_PROMPT
+} from "./prompts";
+import type { SubagentRole } from "./schema";
+
+/**
+ * Default subagent definitions. Planning and synthesis are reasoning-heavy
+ * but tool-free; retrieval does the many cheap tool turns, so it is routed
+ * as a lookup (Haiku) with a turn budget sized for a single question.
+ */
+export const SUBAGENTS: Record<SubagentRole, AgentConfig> = {
+  planner: {
+    name: "research-planner",
+    task: "synthesis",
+    tools: [],
+    maxTurns: 3,
+    systemPrompt: PLANNER_SYSTEM_PROMPT
+  },
+  retriever: {
+    name: "research-retriever",
+    task: "lookup",
+    tools: ["WebSearch", "WebFetch"],
+    maxTurns: 15,
+    systemPrompt: RETRIEVER_SYSTEM_PROMPT
+  },
+  extractor: {
+    name: "research-extractor",
+    task: "extraction",
+    tools: ["WebFetch", "Read"],
+    maxTurns: 10,
+    systemPrompt: EXTRACTOR_SYSTEM_PROMPT
+  },
+  synthesizer: {
+    name: "research-synthesizer",
+    task: "synthesis",
+    tools: [],
+    maxTurns: 3,
+    systemPrompt: SYNTHESIZER_SYSTEM_PROMPT
+  }
+};
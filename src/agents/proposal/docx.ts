@@ -0,0 +1,204 @@
+import {
+  AlignmentType,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ParagraphChild
+} from "docx";
+
+/**
+ * Markdown → .docx for rendered proposals.
+ *
+ * Covers the subset the proposal template and drafting agent produce:
+ * headings (#-####), paragraphs, bullet and numbered lists (nested by
+ * indentation), pipe tables, **bold**, *italic*, `code` and [links](url).
+ */
+
+export interface DocxTheme {
+  font: string;
+  /** Body text size in points */
+  fontSize: number;
+  /** Hex colour for headings, without "#" */
+  headingColor: string;
+}
+
+export const DEFAULT_DOCX_THEME: DocxTheme = {
+  font: "Calibri",
+  fontSize: 11,
+  headingColor: "1F3864"
+};
+
+const HEADINGS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4];
+const NUMBERED = "numbered-list";
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/;
+
+function inlineRuns(text: string, style: { bold?: boolean } = {}): ParagraphChild[] {
+  return text
+    .split(INLINE)
+    .filter((part) => part.length > 0)
+    .map((part): ParagraphChild => {
+      if (/^(\*\*|__).+\1$/.test(part)) {
+        return new TextRun({ text: part.slice(2, -2), bold: true });
+      }
+      if (/^[*_].+[*_]$/.test(part)) {
+        return new TextRun({ text: part.slice(1, -1), italics: true, bold: style.bold });
+      }
+      if (/^`.+`$/.test(part)) {
+        return new TextRun({ text: part.slice(1, -1), font: "Consolas", bold: style.bold });
+      }
+      const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part);
+      if (link?.[1] && link[2]) {
+        return new ExternalHyperlink({ link: link[2], children: [new TextRun({ text: link[1], style: "Hyperlink" })] });
+      }
+      return new TextRun({ text: part, bold: style.bold });
+    });
+}
+
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+function markdownTable(lines: string[]): Table {
+  const [header, , ...body] = lines;
+  const rows = [header ?? "", ...body].map(tableCells);
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: rows.map(
+      (cells, index) =>
+        new TableRow({
+          tableHeader: index === 0,
+          children: cells.map(
+            (cell) =>
+              new TableCell({
+                children: [new Paragraph({ children: inlineRuns(cell, { bold: index === 0 }) })]
+              })
+          )
+        })
+    )
+  });
+}
+
+/** Paragraphs and tables for a Markdown document */
+export function markdownBlocks(markdown: string): Array<Paragraph | Table> {
+  const blocks: Array<Paragraph | Table> = [];
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  let paragraph: string[] = [];
+  // Each numbered list restarts at 1
+  let listInstance = 0;
+  let inNumberedList = false;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push(new Paragraph({ children: inlineRuns(paragraph.join(" ")), spacing: { after: 120 } }));
+      paragraph = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index] ?? "";
+    const heading = /^(#{1,4})\s+(.*)$/.exec(line);
+    const bullet = /^(\s*)[-*+]\s+(.*)$/.exec(line);
+    const numbered = /^(\s*)\d+[.)]\s+(.*)$/.exec(line);
+
+    if (!numbered) {
+      inNumberedList = false;
+    }
+
+    if (line.trim().length === 0 || /^\s*(-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+      flush();
+    } else if (heading?.[1] && heading[2] !== undefined) {
+      flush();
+      blocks.push(
+        new Paragraph({ heading: HEADINGS[heading[1].length - 1], children: inlineRuns(heading[2]) })
+      );
+    } else if (line.trim().startsWith("|") && /^\s*\|?\s*:?-{3,}/.test(lines[index + 1] ?? "")) {
+      flush();
+      const tableLines: string[] = [];
+      while (index < lines.length && (lines[index] ?? "").trim().startsWith("|")) {
+        tableLines.push(lines[index] ?? "");
+        index++;
+      }
+      index--;
+      blocks.push(markdownTable(tableLines));
+      blocks.push(new Paragraph({ children: [] }));
+    } else if (bullet?.[2] !== undefined) {
+      flush();
+      const level = Math.min(Math.floor((bullet[1] ?? "").length / 2), 3);
+      blocks.push(new Paragraph({ bullet: { level }, children: inlineRuns(bullet[2]) }));
+    } else if (numbered?.[2] !== undefined) {
+      flush();
+      if (!inNumberedList) {
+        listInstance++;
+        inNumberedList = true;
+      }
+      const level = Math.min(Math.floor((numbered[1] ?? "").length / 2), 3);
+      blocks.push(
+        new Paragraph({
+          numbering: { reference: NUMBERED, level, instance: listInstance },
+          children: inlineRuns(numbered[2])
+        })
+      );
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Renders Markdown to a .docx file buffer.
+ */
+export async function markdownToDocx(
+  markdown: string,
+  options: { title?: string; creator?: string; theme?: Partial<DocxTheme> } = {}
+): Promise<Buffer> {
+  const theme = { ...DEFAULT_DOCX_THEME, ...options.theme };
+  const headingRun = { font: theme.font, color: theme.headingColor, bold: true };
+
+  const document = new Document({
+    title: options.title,
+    creator: options.creator ?? "Phoenix OS Cockpit",
+    styles: {
+      default: {
+        document: { run: { font: theme.font, size: theme.fontSize * 2 } },
+        heading1: { run: { ...headingRun, size: (theme.fontSize + 9) * 2 }, paragraph: { spacing: { after: 240 } } },
+        heading2: { run: { ...headingRun, size: (theme.fontSize + 5) * 2 }, paragraph: { spacing: { before: 360, after: 160 } } },
+        heading3: { run: { ...headingRun, size: (theme.fontSize + 2) * 2 }, paragraph: { spacing: { before: 240, after: 120 } } },
+        heading4: { run: { ...headingRun, size: theme.fontSize * 2 } }
+      }
+    },
+    numbering: {
+      config: [
+        {
+          reference: NUMBERED,
+          levels: [0, 1, 2, 3].map((level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+          }))
+        }
+      ]
+    },
+    sections: [{ children: markdownBlocks(markdown) }]
+  });
+
+  return Packer.toBuffer(document);
+}
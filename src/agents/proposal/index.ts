@@ -0,0 +1,19 @@
+export { DEFAULT_DOCX_THEME, markdownToDocx, type DocxTheme } from "./docx";
+export { formatMoney, pricingSummary, pricingTableMarkdown, type PricingLine, type PricingSummary } from "./pricing";
+export { PROPOSAL_SYSTEM_PROMPT, sectionPrompt } from "./prompts";
+export {
+  DealBriefError,
+  parseDealBrief,
+  ProposalAgent,
+  PROPOSAL_AGENT,
+  type DraftOptions,
+  type ProposalAgentOptions
+} from "./proposal-agent";
+export {
+  DEFAULT_PROPOSAL_TEMPLATE,
+  renderProposalDocx,
+  renderProposalMarkdown,
+  TemplateError,
+  type ProposalRenderOptions
+} from "./render";
+export * from "./schema";
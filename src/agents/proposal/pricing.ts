@@ -0,0 +1,66 @@
+import type { DealBrief } from "./schema";
+
+export interface PricingLine {
+  item: string;
+  description?: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number;
+  total: number;
+}
+
+export interface PricingSummary {
+  currency: string;
+  lines: PricingLine[];
+  subtotal: number;
+  discountPercent: number;
+  discount: number;
+  total: number;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Totals for the brief's line items. Computed here rather than by the model
+ * so the numbers in a proposal are always exact.
+ */
+export function pricingSummary(brief: DealBrief): PricingSummary {
+  const lines = brief.pricing.lineItems.map((line) => ({
+    ...line,
+    total: roundCents(line.quantity * line.unitPrice)
+  }));
+  const subtotal = roundCents(lines.reduce((sum, line) => sum + line.total, 0));
+  const discount = roundCents((subtotal * brief.pricing.discountPercent) / 100);
+
+  return {
+    currency: brief.pricing.currency,
+    lines,
+    subtotal,
+    discountPercent: brief.pricing.discountPercent,
+    discount,
+    total: roundCents(subtotal - discount)
+  };
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+}
+
+/** Markdown table of the pricing summary */
+export function pricingTableMarkdown(summary: PricingSummary): string {
+  const money = (amount: number) => formatMoney(amount, summary.currency);
+  const rows = summary.lines.map((line) => {
+    const quantity = line.unit ? `${line.quantity} ${line.unit}` : String(line.quantity);
+    return `| ${line.item} | ${quantity} | ${money(line.unitPrice)} | ${money(line.total)} |`;
+  });
+
+  const totals = [`| **Subtotal** | | | ${money(summary.subtotal)} |`];
+  if (summary.discount > 0) {
+    totals.push(`| **Discount (${summary.discountPercent}%)** | | | -${money(summary.discount)} |`);
+  }
+  totals.push(`| **Total** | | | **${money(summary.total)}** |`);
+
+  return ["| Item | Quantity | Unit price | Total |", "| --- | --- | --- | --- |", ...rows, ...totals].join("\n");
+}
@@ -0,0 +1,73 @@
+import { formatMoney, pricingSummary } from "./pricing";
+import { SECTION_TITLES, type DealBrief, type ProposalSection, type ProposalSectionId } from "./schema";
+
+/**
+ * Prompts for the proposal drafting agent. Each section is drafted in its
+ * own run from the deal brief plus the sections written so far, so one
+ * section can be regenerated without touching the others.
+ */
+
+export const PROPOSAL_SYSTEM_PROMPT = `You are a senior pre-sales consultant at Phoenix OS writing a customer proposal.
+
+Guidelines:
+- Write for the customer's executives: clear, specific, confident, no hype
+- Use only facts from the deal brief; never invent customers, numbers, dates or commitments
+- Tie every claim back to a customer pain or an in-scope item
+- Keep each section consistent with the sections already written
+- Output GitHub-flavored Markdown only: no preamble, no closing remarks, no top-level heading`;
+
+const SECTION_GUIDES: Record<ProposalSectionId, string> = {
+  executive_summary:
+    "2-4 short paragraphs: the customer's situation and pains, what we propose, and the outcome they can expect. End with one sentence on why us.",
+  solution:
+    "Describe the solution as a set of capabilities mapped to the customer's pains. Use ### sub-headings per capability, list the deliverables, and state what is out of scope.",
+  timeline:
+    "Phased plan with milestones and week numbers as a Markdown table (Phase | Weeks | Milestones), followed by dependencies on the customer. Respect the brief's start date and duration when given.",
+  pricing:
+    "Explain the commercial model, what the price includes, payment terms and validity. Do NOT write a pricing table or restate line-item prices: the exact pricing table is inserted right after your text.",
+  assumptions:
+    "Bulleted list of assumptions and customer responsibilities the proposal depends on, including those in the brief. Finish with a short list of next steps."
+};
+
+function briefJson(brief: DealBrief): string {
+  return JSON.stringify(brief, null, 2);
+}
+
+function pricingFacts(brief: DealBrief): string {
+  const summary = pricingSummary(brief);
+  const money = (amount: number) => formatMoney(amount, summary.currency);
+  return [
+    `Pricing model: ${brief.pricing.model}`,
+    `Subtotal: ${money(summary.subtotal)}`,
+    summary.discount > 0 ? `Discount: ${summary.discountPercent}% (${money(summary.discount)})` : "Discount: none",
+    `Total: ${money(summary.total)}`,
+    brief.pricing.paymentTerms ? `Payment terms: ${brief.pricing.paymentTerms}` : "",
+    brief.pricing.validUntil ? `Valid until: ${brief.pricing.validUntil}` : ""
+  ]
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+export function sectionPrompt(
+  brief: DealBrief,
+  section: ProposalSectionId,
+  written: ProposalSection[],
+  instructions?: string
+): string {
+  const context = written
+    .filter((other) => other.id !== section)
+    .map((other) => `## ${other.title}\n\n${other.markdown}`)
+    .join("\n\n");
+
+  return [
+    `Write the "${SECTION_TITLES[section]}" section of a proposal to ${brief.customer.name} for "${brief.opportunity.title}".`,
+    `Deal brief:\n\`\`\`json\n${briefJson(brief)}\n\`\`\``,
+    section === "pricing" ? `Computed pricing (use these exact figures):\n${pricingFacts(brief)}` : "",
+    context ? `Sections already written (stay consistent with them):\n\n${context}` : "",
+    `What this section must contain: ${SECTION_GUIDES[section]}`,
+    instructions ? `Additional instructions from the pre-sales engineer: ${instructions}` : "",
+    `Return only the section body in Markdown, without the "${SECTION_TITLES[section]}" heading.`
+  ]
+    .filter((part) => part.length > 0)
+    .join("\n\n");
+}
@@ -0,0 +1,168 @@
+import {
+  AgentRuntime,
+  runWithRetry,
+  type AgentConfig,
+  type AgentRuntimeDeps,
+  type ModelAlias,
+  type RetryOptions,
+  type RunOptions
+} from "../../runtime";
+import { PROPOSAL_SYSTEM_PROMPT, sectionPrompt } from "./prompts";
+import {
+  dealBriefSchema,
+  PROPOSAL_SECTIONS,
+  SECTION_TITLES,
+  type DealBrief,
+  type DealBriefInput,
+  type Proposal,
+  type ProposalSection,
+  type ProposalSectionId
+} from "./schema";
+
+/**
+ * Thrown when a deal brief does not match the schema.
+ */
+export class DealBriefError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid deal brief:\n  - ${issues.join("\n  - ")}`);
+    this.name = "DealBriefError";
+    this.issues = issues;
+  }
+}
+
+export function parseDealBrief(input: unknown): DealBrief {
+  const parsed = dealBriefSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new DealBriefError(
+      parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+  return parsed.data;
+}
+
+export interface ProposalAgentOptions extends AgentRuntimeDeps {
+  model?: ModelAlias;
+  /** Retries for overloaded / network failures per section; `false` fails on the first error */
+  retry?: RetryOptions | false;
+}
+
+export interface DraftOptions {
+  run?: RunOptions;
+  /** Called as each section is finished, in order */
+  onSection?: (section: ProposalSection) => void;
+}
+
+export const PROPOSAL_AGENT: AgentConfig = {
+  name: "proposal",
+  task: "drafting",
+  tools: [],
+  maxTurns: 3,
+  systemPrompt: PROPOSAL_SYSTEM_PROMPT
+};
+
+/**
+ * Strips what models tend to wrap a section in: a ```markdown fence and a
+ * repeated section heading.
+ */
+function cleanSection(markdown: string, title: string): string {
+  let text = markdown.trim();
+  const fenced = /^```(?:markdown|md)?\s*\n([\s\S]*?)\n?```$/i.exec(text);
+  if (fenced?.[1] !== undefined) {
+    text = fenced[1].trim();
+  }
+  const heading = /^#{1,3}\s+(.+)\n+/.exec(text);
+  if (heading?.[1] && heading[1].trim().toLowerCase() === title.toLowerCase()) {
+    text = text.slice(heading[0].length).trim();
+  }
+  return text;
+}
+
+/**
+ * Drafts customer proposals from a deal brief, one section per run.
+ *
+ * Sections are written in order, each seeing the ones before it, and the
+ * finished proposal keeps the brief so any single section can later be
+ * regenerated against the rest.
+ *
+ * @throws DealBriefError when the brief is invalid
+ * @throws AgentRunError when a section run fails and retries could not recover it
+ */
+export class ProposalAgent {
+  private runtime: AgentRuntime;
+  private retry: RetryOptions;
+
+  constructor(options: ProposalAgentOptions = {}) {
+    const { model, retry, ...deps } = options;
+    this.runtime = new AgentRuntime({ ...PROPOSAL_AGENT, ...(model && { model }) }, deps);
+    this.retry = retry === false ? { maxAttempts: 1 } : (retry ?? {});
+  }
+
+  async draft(input: DealBriefInput, options: DraftOptions = {}): Promise<Proposal> {
+    const brief = parseDealBrief(input);
+    const sections: ProposalSection[] = [];
+    let costUSD = 0;
+
+    for (const id of PROPOSAL_SECTIONS) {
+      const drafted = await this.draftSection(brief, id, sections, undefined, options.run);
+      sections.push(drafted.section);
+      costUSD += drafted.costUSD;
+      options.onSection?.(drafted.section);
+    }
+
+    return { brief, sections, generatedAt: new Date().toISOString(), costUSD };
+  }
+
+  /**
+   * Redrafts one section, optionally with extra instructions, and returns
+   * a new proposal with every other section unchanged.
+   */
+  async regenerateSection(
+    proposal: Proposal,
+    id: ProposalSectionId,
+    instructions?: string,
+    run?: RunOptions
+  ): Promise<Proposal> {
+    const drafted = await this.draftSection(proposal.brief, id, proposal.sections, instructions, run);
+    const exists = proposal.sections.some((section) => section.id === id);
+    const sections = exists
+      ? proposal.sections.map((section) => (section.id === id ? drafted.section : section))
+      : PROPOSAL_SECTIONS.flatMap((sectionId) =>
+          sectionId === id ? [drafted.section] : proposal.sections.filter((section) => section.id === sectionId)
+        );
+
+    return {
+      ...proposal,
+      sections,
+      generatedAt: new Date().toISOString(),
+      costUSD: proposal.costUSD + drafted.costUSD
+    };
+  }
+
+  private async draftSection(
+    brief: DealBrief,
+    id: ProposalSectionId,
+    written: ProposalSection[],
+    instructions: string | undefined,
+    run: RunOptions | undefined
+  ): Promise<{ section: ProposalSection; costUSD: number }> {
+    let costUSD = 0;
+    const result = await runWithRetry(this.runtime, sectionPrompt(brief, id, written, instructions), {
+      ...this.retry,
+      run,
+      onAttempt: (attempt) => {
+        costUSD += attempt.stats.costUSD;
+        this.retry.onAttempt?.(attempt);
+      }
+    });
+
+    const title = SECTION_TITLES[id];
+    const markdown = cleanSection(result.output, title);
+    if (markdown.length === 0) {
+      throw new Error(`${this.runtime.name}: the ${title} section came back empty`);
+    }
+
+    return { section: { id, title, markdown, generatedAt: new Date().toISOString() }, costUSD };
+  }
+}
@@ -0,0 +1,98 @@
+import fs from "fs";
+import path from "path";
+import { markdownToDocx, type DocxTheme } from "./docx";
+import { formatMoney, pricingSummary, pricingTableMarkdown } from "./pricing";
+import { PROPOSAL_SECTIONS, type Proposal, type ProposalSectionId } from "./schema";
+
+/**
+ * Proposal templates are Markdown with `{{placeholders}}`:
+ *
+ * - `{{section:<id>}}`   the section with its `##` heading (ids in PROPOSAL_SECTIONS)
+ * - `{{pricing_table}}`  the computed line-item table
+ * - `{{total}}`          the formatted grand total
+ * - `{{date}}`           the proposal date
+ * - `{{a.b.c}}`          any field of the deal brief, e.g. `{{customer.name}}`
+ *
+ * The same filled-in Markdown is the .md output and the source of the .docx.
+ */
+
+export const DEFAULT_PROPOSAL_TEMPLATE = path.resolve(__dirname, "../../../templates/proposal.md");
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+export interface ProposalRenderOptions {
+  /** Template file path (default templates/proposal.md) */
+  templatePath?: string;
+  /** Template text; takes precedence over `templatePath` */
+  template?: string;
+}
+
+function briefField(proposal: Proposal, fieldPath: string): string | undefined {
+  let value: unknown = proposal.brief;
+  for (const key of fieldPath.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  if (value === undefined || value === null || typeof value === "object") {
+    return undefined;
+  }
+  return String(value);
+}
+
+function sectionMarkdown(proposal: Proposal, id: ProposalSectionId): string {
+  const section = proposal.sections.find((candidate) => candidate.id === id);
+  return section ? `## ${section.title}\n\n${section.markdown}` : "";
+}
+
+export function renderProposalMarkdown(proposal: Proposal, options: ProposalRenderOptions = {}): string {
+  const template = options.template ?? fs.readFileSync(options.templatePath ?? DEFAULT_PROPOSAL_TEMPLATE, "utf8");
+  const pricing = pricingSummary(proposal.brief);
+  const unknown = new Set<string>();
+
+  const filled = template.replace(/\{\{\s*([\w.:-]+)\s*\}\}/g, (placeholder, name: string) => {
+    if (name.startsWith("section:")) {
+      const id = name.slice("section:".length) as ProposalSectionId;
+      if (PROPOSAL_SECTIONS.includes(id)) {
+        return sectionMarkdown(proposal, id);
+      }
+    } else if (name === "pricing_table") {
+      return pricingTableMarkdown(pricing);
+    } else if (name === "total") {
+      return formatMoney(pricing.total, pricing.currency);
+    } else if (name === "date") {
+      return proposal.generatedAt.slice(0, 10);
+    } else {
+      const value = briefField(proposal, name);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+    unknown.add(placeholder);
+    return placeholder;
+  });
+
+  if (unknown.size > 0) {
+    throw new TemplateError(`Unknown template placeholder(s): ${Array.from(unknown).join(", ")}`);
+  }
+
+  // Placeholders for empty fields leave runs of blank lines behind
+  return `${filled.replace(/\n{3,}/g, "\n\n").trim()}\n`;
+}
+
+export async function renderProposalDocx(
+  proposal: Proposal,
+  options: ProposalRenderOptions & { theme?: Partial<DocxTheme> } = {}
+): Promise<Buffer> {
+  return markdownToDocx(renderProposalMarkdown(proposal, options), {
+    title: `${proposal.brief.opportunity.title} - ${proposal.brief.customer.name}`,
+    creator: proposal.brief.vendor.name,
+    theme: options.theme
+  });
+}
@@ -0,0 +1,118 @@
+import { z } from "zod";
+
+/**
+ * Deal brief and proposal schemas for the proposal generator.
+ *
+ * The brief is the only input: everything the drafting agent writes must be
+ * traceable to it. Prices are never left to the model; the pricing table is
+ * computed from the brief's line items (see pricing.ts).
+ */
+
+export const PROPOSAL_SECTIONS = ["executive_summary", "solution", "timeline", "pricing", "assumptions"] as const;
+export type ProposalSectionId = (typeof PROPOSAL_SECTIONS)[number];
+
+export const SECTION_TITLES: Record<ProposalSectionId, string> = {
+  executive_summary: "Executive Summary",
+  solution: "Proposed Solution",
+  timeline: "Timeline",
+  pricing: "Pricing",
+  assumptions: "Assumptions"
+};
+
+export const PRICING_MODELS = ["fixed_fee", "time_and_materials", "subscription"] as const;
+
+export const lineItemSchema = z.object({
+  item: z.string().min(1),
+  description: z.string().optional(),
+  quantity: z.number().positive().default(1),
+  /** e.g. "license", "day", "month" */
+  unit: z.string().optional(),
+  unitPrice: z.number().nonnegative()
+});
+
+export const dealBriefSchema = z.object({
+  customer: z.object({
+    name: z.string().min(1),
+    industry: z.string().optional(),
+    size: z.string().optional(),
+    website: z.string().url().optional()
+  }),
+  /** Our side of the deal */
+  vendor: z
+    .object({
+      name: z.string().min(1).default("Phoenix OS"),
+      contact: z.string().optional()
+    })
+    .default({}),
+  opportunity: z.object({
+    title: z.string().min(1),
+    summary: z.string().min(1)
+  }),
+  stakeholders: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        role: z.string().min(1)
+      })
+    )
+    .default([]),
+  pains: z
+    .array(
+      z.object({
+        pain: z.string().min(1),
+        impact: z.string().optional()
+      })
+    )
+    .min(1, "List at least one customer pain"),
+  scope: z.object({
+    inScope: z.array(z.string().min(1)).min(1, "List at least one in-scope item"),
+    outOfScope: z.array(z.string().min(1)).default([]),
+    deliverables: z.array(z.string().min(1)).default([])
+  }),
+  timeline: z
+    .object({
+      startDate: z.string().optional(),
+      durationWeeks: z.number().int().positive().optional(),
+      milestones: z
+        .array(
+          z.object({
+            name: z.string().min(1),
+            week: z.number().int().positive().optional()
+          })
+        )
+        .default([])
+    })
+    .default({}),
+  pricing: z.object({
+    currency: z.string().length(3).default("USD"),
+    model: z.enum(PRICING_MODELS),
+    lineItems: z.array(lineItemSchema).min(1, "Pricing needs at least one line item"),
+    discountPercent: z.number().min(0).max(100).default(0),
+    paymentTerms: z.string().optional(),
+    validUntil: z.string().optional()
+  }),
+  assumptions: z.array(z.string().min(1)).default([]),
+  /** Anything else the drafting agent should know (tone, competitors, ...) */
+  notes: z.string().optional()
+});
+
+export const proposalSectionSchema = z.object({
+  id: z.enum(PROPOSAL_SECTIONS),
+  title: z.string().min(1),
+  markdown: z.string().min(1),
+  generatedAt: z.string()
+});
+
+export const proposalSchema = z.object({
+  brief: dealBriefSchema,
+  sections: z.array(proposalSectionSchema),
+  generatedAt: z.string(),
+  costUSD: z.number().nonnegative().default(0)
+});
+
+/** Brief as written by hand (defaults not yet applied) */
+export type DealBriefInput = z.input<typeof dealBriefSchema>;
+export type DealBrief = z.infer<typeof dealBriefSchema>;
+export type LineItem = z.infer<typeof lineItemSchema>;
+export type ProposalSection = z.infer<typeof proposalSectionSchema>;
+export type Proposal = z.infer<typeof proposalSchema>;
@@ -0,0 +1,5 @@
+export { ResearchAgent, RESEARCH_AGENT, type ResearchAgentOptions, type ResearchReport } from "./research-agent";
+export { outputInstructions, repairPrompt, RESEARCH_SYSTEM_PROMPT, taskPrompt, type ResearchTarget } from "./prompts";
+export { dossierFindings, loadPriorFindings, rememberDossier } from "./knowledge";
+export { renderDossierMarkdown, type RenderOptions } from "./render";
+export * from "./schema";
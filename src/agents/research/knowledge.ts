@@ -0,0 +1,90 @@
+import type { FindingInput, KnowledgeBase, KnowledgeFinding } from "../../knowledge";
+import type { ResearchTarget } from "./prompts";
+import type { Dossier, Finding } from "./schema";
+
+/** Prior findings injected per entity before a run */
+const PRIOR_FINDINGS_PER_ENTITY = 25;
+
+function toInputs(entity: string, topic: string, findings: Finding[], runId: string | null): FindingInput[] {
+  return findings.map((finding) => ({ entity, topic, runId, ...finding }));
+}
+
+/**
+ * Flattens a dossier into knowledge base findings: one per finding, with
+ * the dossier section as topic. Competitor sections are filed under the
+ * competitor, everything else under the dossier subject.
+ */
+export function dossierFindings(dossier: Dossier, runId: string | null = null): FindingInput[] {
+  const { subject } = dossier;
+  const common = [
+    ...toInputs(subject, "overview", dossier.overview, runId),
+    ...toInputs(subject, "risks", dossier.risks, runId)
+  ];
+
+  switch (dossier.mode) {
+    case "company":
+      return [
+        ...common,
+        ...toInputs(subject, "products", dossier.products, runId),
+        ...toInputs(subject, "funding", dossier.funding, runId),
+        ...dossier.leadership.map((leader) => ({
+          entity: subject,
+          topic: "leadership",
+          statement: `${leader.name}: ${leader.title}`,
+          sourceUrls: leader.sourceUrls,
+          runId
+        }))
+      ];
+
+    case "market":
+      return [
+        ...common,
+        ...toInputs(subject, "size", dossier.size, runId),
+        ...toInputs(subject, "segments", dossier.segments, runId),
+        ...toInputs(subject, "key players", dossier.keyPlayers, runId),
+        ...toInputs(subject, "trends", dossier.trends, runId)
+      ];
+
+    case "competitive":
+      return [
+        ...common,
+        ...toInputs(subject, "differentiators", dossier.differentiators, runId),
+        ...dossier.competitors.flatMap((competitor) => [
+          ...toInputs(competitor.name, "positioning", competitor.positioning, runId),
+          ...toInputs(competitor.name, "products", competitor.products, runId),
+          ...toInputs(competitor.name, "pricing", competitor.pricing, runId),
+          ...toInputs(competitor.name, "strengths", competitor.strengths, runId),
+          ...toInputs(competitor.name, "weaknesses", competitor.weaknesses, runId)
+        ])
+      ];
+  }
+}
+
+/**
+ * What the knowledge base already holds on the target's subject (and
+ * competitors). A knowledge base that cannot be read is reported and
+ * skipped: the run can still research from scratch.
+ */
+export async function loadPriorFindings(kb: KnowledgeBase, target: ResearchTarget): Promise<KnowledgeFinding[]> {
+  const entities = Array.from(new Set([target.subject, ...(target.competitors ?? [])]));
+  try {
+    const perEntity = await Promise.all(entities.map((entity) => kb.recent(entity, { limit: PRIOR_FINDINGS_PER_ENTITY })));
+    return perEntity.flat();
+  } catch (error) {
+    console.error(`⚠️  Knowledge base unavailable, researching without prior findings: ${error instanceof Error ? error.message : error}`);
+    return [];
+  }
+}
+
+/**
+ * Saves a finished dossier's findings. Failing to save is reported but does
+ * not fail the run that produced the dossier.
+ */
+export async function rememberDossier(kb: KnowledgeBase, dossier: Dossier, runId: string | null): Promise<number> {
+  try {
+    return (await kb.save(dossierFindings(dossier, runId))).length;
+  } catch (error) {
+    console.error(`⚠️  Could not save findings to the knowledge base: ${error instanceof Error ? error.message : error}`);
+    return 0;
+  }
+}
@@ -0,0 +1,134 @@
+import type { ResearchMode } from "./schema";
+
+/**
+ * Prompts for the research agent, following the progressive research
+ * pattern from the learning plan: broad search first, then deeper searches
+ * on each subtopic, cross-checking before anything is reported.
+ */
+
+export const RESEARCH_SYSTEM_PROMPT = `You are a research agent for the Phoenix OS pre-sales team.
+
+When researching a topic:
+1. Start with a broad search
+2. Use initial results to identify key subtopics
+3. Conduct deeper searches on each subtopic
+4. Cross-reference and verify information
+5. Always cite sources
+
+Guidelines:
+- Only report facts you found in a source you actually fetched or searched
+- Every finding must list the URL(s) it came from
+- Prefer primary sources (company sites, filings, press releases) over aggregators
+- Mark findings you could not corroborate with confidence "low"
+- Leave a section as an empty array rather than guessing`;
+
+const FINDING_SHAPE = `{ "statement": string, "sourceUrls": [url, ...], "confidence": "high" | "medium" | "low" }`;
+
+const SHAPES: Record<ResearchMode, string> = {
+  company: `{
+  "mode": "company",
+  "subject": string,
+  "summary": string (executive summary, under 500 words),
+  "overview": [Finding, ...] (at least one),
+  "products": [Finding, ...],
+  "funding": [Finding, ...],
+  "leadership": [{ "name": string, "title": string, "sourceUrls": [url, ...] }, ...],
+  "risks": [Finding, ...]
+}`,
+  market: `{
+  "mode": "market",
+  "subject": string,
+  "summary": string (executive summary, under 500 words),
+  "overview": [Finding, ...] (at least one),
+  "size": [Finding, ...],
+  "segments": [Finding, ...],
+  "keyPlayers": [Finding, ...],
+  "trends": [Finding, ...],
+  "risks": [Finding, ...]
+}`,
+  competitive: `{
+  "mode": "competitive",
+  "subject": string,
+  "summary": string (executive summary, under 500 words),
+  "overview": [Finding, ...] (at least one),
+  "competitors": [{
+    "name": string,
+    "positioning": [Finding, ...],
+    "products": [Finding, ...],
+    "pricing": [Finding, ...],
+    "strengths": [Finding, ...],
+    "weaknesses": [Finding, ...]
+  }, ...] (at least one),
+  "differentiators": [Finding, ...],
+  "risks": [Finding, ...]
+}`
+};
+
+/**
+ * Output contract appended to every task prompt.
+ */
+export function outputInstructions(mode: ResearchMode): string {
+  return `When your research is complete, reply with ONLY a JSON object (no prose before or after,
+optionally inside a \`\`\`json fence) of this shape:
+
+${SHAPES[mode]}
+
+where Finding is ${FINDING_SHAPE}.`;
+}
+
+export interface ResearchTarget {
+  mode: ResearchMode;
+  /** Company or market name; for competitive mode, our own company */
+  subject: string;
+  /** Competitor names (competitive mode only) */
+  competitors?: string[];
+  /** Extra context from the caller, e.g. the deal or product line in question */
+  notes?: string;
+}
+
+/**
+ * Task prompt for a target. `prior` is the knowledge base section with what
+ * earlier runs found (see priorFindingsContext), placed ahead of the output
+ * contract.
+ */
+export function taskPrompt(target: ResearchTarget, prior = ""): string {
+  let task: string;
+
+  switch (target.mode) {
+    case "company":
+      task = `Research the company "${target.subject}". Cover its overview and history, products and services,
+funding and financials, leadership team and key decision makers, and risk factors.`;
+      break;
+
+    case "market":
+      task = `Analyze the "${target.subject}" market. Cover market size and growth, segments, key players,
+trends and risks.`;
+      break;
+
+    case "competitive": {
+      const competitors = target.competitors?.length
+        ? target.competitors.join(", ")
+        : "its main competitors (identify them first)";
+      task = `Run a competitive analysis for "${target.subject}" against ${competitors}. For each competitor cover
+positioning, products, pricing, strengths and weaknesses, then summarize our differentiators and risks.`;
+      break;
+    }
+  }
+
+  const notes = target.notes ? `\n\nAdditional context:\n${target.notes}` : "";
+  const known = prior ? `\n\n${prior}` : "";
+  return `${task}${notes}${known}\n\n${outputInstructions(target.mode)}`;
+}
+
+/**
+ * Follow-up prompt sent when the previous answer failed validation.
+ */
+export function repairPrompt(mode: ResearchMode, issues: string[]): string {
+  return `Your previous answer could not be accepted:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Fix these problems and reply again. Do not drop findings to get around a missing source; research
+the source instead.
+
+${outputInstructions(mode)}`;
+}
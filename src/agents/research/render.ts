@@ -0,0 +1,108 @@
+import type { SourceLedger } from "../../citations";
+import type { CompetitiveDossier, Dossier, Finding } from "./schema";
+
+export interface RenderOptions {
+  /**
+   * When given, findings cite `[n]` ids from the run's source ledger and a
+   * bibliography is appended; otherwise sources are inline links.
+   */
+  ledger?: SourceLedger;
+}
+
+type Cite = (urls: string[]) => string;
+
+/**
+ * Renders a dossier as Markdown with source citations.
+ */
+export function renderDossierMarkdown(dossier: Dossier, options: RenderOptions = {}): string {
+  const lines: string[] = [];
+  const { ledger } = options;
+  const cited = new Set<number>();
+  const sources: Cite = ledger
+    ? (urls) =>
+        urls
+          .map((url) => {
+            const id = ledger.idFor(url);
+            cited.add(id);
+            return `[${id}]`;
+          })
+          .join("")
+    : inlineLinks;
+
+  const title = {
+    company: `Company Dossier: ${dossier.subject}`,
+    market: `Market Analysis: ${dossier.subject}`,
+    competitive: `Competitive Analysis: ${dossier.subject}`
+  }[dossier.mode];
+
+  lines.push(`# ${title}`, "");
+  if (dossier.generatedAt) {
+    lines.push(`_Generated ${dossier.generatedAt}_`, "");
+  }
+  lines.push("## Executive Summary", "", dossier.summary, "");
+
+  switch (dossier.mode) {
+    case "company":
+      section(lines, sources, "Overview", dossier.overview);
+      section(lines, sources, "Products", dossier.products);
+      section(lines, sources, "Funding", dossier.funding);
+      lines.push("## Leadership", "");
+      if (dossier.leadership.length === 0) {
+        lines.push("_No findings._");
+      }
+      for (const person of dossier.leadership) {
+        lines.push(`- **${person.name}**, ${person.title} ${sources(person.sourceUrls)}`);
+      }
+      lines.push("");
+      section(lines, sources, "Risks", dossier.risks);
+      break;
+
+    case "market":
+      section(lines, sources, "Overview", dossier.overview);
+      section(lines, sources, "Market Size", dossier.size);
+      section(lines, sources, "Segments", dossier.segments);
+      section(lines, sources, "Key Players", dossier.keyPlayers);
+      section(lines, sources, "Trends", dossier.trends);
+      section(lines, sources, "Risks", dossier.risks);
+      break;
+
+    case "competitive":
+      section(lines, sources, "Overview", dossier.overview);
+      competitors(lines, sources, dossier.competitors);
+      section(lines, sources, "Our Differentiators", dossier.differentiators);
+      section(lines, sources, "Risks", dossier.risks);
+      break;
+  }
+
+  if (ledger && cited.size > 0) {
+    lines.push(ledger.bibliography(Array.from(cited)));
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+function inlineLinks(urls: string[]): string {
+  return urls.map((url, index) => `[${index + 1}](${url})`).join(" ");
+}
+
+function findingLine(finding: Finding, sources: Cite): string {
+  const confidence = finding.confidence === "low" ? " _(low confidence)_" : "";
+  return `- ${finding.statement}${confidence} ${sources(finding.sourceUrls)}`;
+}
+
+function section(lines: string[], sources: Cite, heading: string, findings: Finding[], level = 2): void {
+  lines.push(`${"#".repeat(level)} ${heading}`, "");
+  lines.push(...(findings.length > 0 ? findings.map((finding) => findingLine(finding, sources)) : ["_No findings._"]), "");
+}
+
+function competitors(lines: string[], sources: Cite, profiles: CompetitiveDossier["competitors"]): void {
+  lines.push("## Competitors", "");
+  for (const profile of profiles) {
+    lines.push(`### ${profile.name}`, "");
+    section(lines, sources, "Positioning", profile.positioning, 4);
+    section(lines, sources, "Products", profile.products, 4);
+    section(lines, sources, "Pricing", profile.pricing, 4);
+    section(lines, sources, "Strengths", profile.strengths, 4);
+    section(lines, sources, "Weaknesses", profile.weaknesses, 4);
+  }
+}
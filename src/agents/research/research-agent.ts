@@ -0,0 +1,146 @@
+import { SourceLedger } from "../../citations";
+import { getConfig } from "../../config";
+import {
+  createKnowledgeMcpServer,
+  KB_SERVER_NAME,
+  KB_TOOLS,
+  KnowledgeBase,
+  priorFindingsContext,
+  type KnowledgeFinding
+} from "../../knowledge";
+import {
+  AgentRuntime,
+  mergeEvents,
+  runStructured,
+  type AgentConfig,
+  type AgentResult,
+  type AgentRuntimeDeps,
+  type ModelAlias,
+  type RetryOptions,
+  type RunOptions
+} from "../../runtime";
+import { loadPriorFindings, rememberDossier } from "./knowledge";
+import { repairPrompt, RESEARCH_SYSTEM_PROMPT, taskPrompt, type ResearchTarget } from "./prompts";
+import { dossierSchemas, type Dossier } from "./schema";
+
+export interface ResearchAgentOptions extends AgentRuntimeDeps {
+  model?: ModelAlias;
+  maxTurns?: number;
+  /** Total attempts at producing a valid dossier (default 3) */
+  maxAttempts?: number;
+  /**
+   * Retries for overloaded / network failures. Defaults to resuming the
+   * interrupted session; `false` fails on the first error.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Where findings are remembered between runs. Defaults to the configured
+   * knowledge base when ENABLE_MEMORY_PERSISTENCE is on; `null` disables.
+   */
+  knowledge?: KnowledgeBase | null;
+}
+
+export interface ResearchReport<D extends Dossier = Dossier> {
+  target: ResearchTarget;
+  dossier: D;
+  /** Result of the run that produced the accepted dossier */
+  result: AgentResult;
+  attempts: AgentResult[];
+  /** Every URL the agent searched or fetched, with stable citation ids */
+  ledger: SourceLedger;
+  /** Knowledge base findings injected into the prompt before the run */
+  priorFindings: KnowledgeFinding[];
+  /** Cost across all attempts */
+  costUSD: number;
+}
+
+export const RESEARCH_AGENT: AgentConfig = {
+  name: "research",
+  task: "synthesis",
+  tools: ["WebSearch", "WebFetch"],
+  maxTurns: 30,
+  systemPrompt: RESEARCH_SYSTEM_PROMPT
+};
+
+/**
+ * Company / market / competitive research agent.
+ *
+ * Runs the progressive web research loop and returns a schema-validated
+ * dossier. Output that fails validation is sent back to the model with the
+ * list of problems until it passes or `maxAttempts` is exhausted.
+ *
+ * With a knowledge base, what earlier runs found about the subject is put
+ * into the prompt (with its age), the agent gets `kb_search` / `kb_save`,
+ * and the accepted dossier's findings are saved for the next run.
+ *
+ * @throws StructuredOutputError when no valid dossier was produced
+ * @throws AgentRunError when a run failed and retries could not recover it
+ */
+export class ResearchAgent {
+  private runtime: AgentRuntime;
+  private maxAttempts: number;
+  private retry: RetryOptions | undefined;
+  private knowledge: KnowledgeBase | null;
+
+  constructor(options: ResearchAgentOptions = {}) {
+    const { model, maxTurns, maxAttempts, retry, knowledge, ...deps } = options;
+    const appConfig = deps.appConfig ?? getConfig();
+    this.knowledge =
+      knowledge !== undefined ? knowledge : appConfig.features.memoryPersistence ? KnowledgeBase.fromConfig(appConfig) : null;
+
+    this.runtime = new AgentRuntime(
+      {
+        ...RESEARCH_AGENT,
+        ...(model && { model }),
+        ...(maxTurns && { maxTurns }),
+        ...(this.knowledge && {
+          tools: [...RESEARCH_AGENT.tools, ...KB_TOOLS],
+          options: { mcpServers: { [KB_SERVER_NAME]: createKnowledgeMcpServer(this.knowledge) } }
+        })
+      },
+      { ...deps, appConfig }
+    );
+    this.maxAttempts = maxAttempts ?? 3;
+    this.retry = retry === false ? undefined : (retry ?? { resume: true });
+  }
+
+  async research(target: ResearchTarget, run?: RunOptions): Promise<ResearchReport> {
+    const schema = dossierSchemas[target.mode];
+    const ledger = new SourceLedger();
+    const priorFindings = this.knowledge ? await loadPriorFindings(this.knowledge, target) : [];
+
+    const { data, result, attempts } = await runStructured<Dossier>(this.runtime, taskPrompt(target, priorFindingsContext(priorFindings)), schema, {
+      maxAttempts: this.maxAttempts,
+      repairPrompt: (issues) => repairPrompt(target.mode, issues),
+      retry: this.retry,
+      run: { ...run, events: mergeEvents(run?.events, ledger.events) }
+    });
+
+    const dossier = { ...data, generatedAt: data.generatedAt ?? new Date().toISOString() };
+    if (this.knowledge) {
+      await rememberDossier(this.knowledge, dossier, result.sessionId);
+    }
+
+    return {
+      target,
+      dossier,
+      result,
+      attempts,
+      ledger,
+      priorFindings,
+      costUSD: attempts.reduce((total, attempt) => total + attempt.stats.costUSD, 0)
+    };
+  }
+
+  company(name: string, notes?: string, run?: RunOptions): Promise<ResearchReport> {
+    return this.research({ mode: "company", subject: name, notes }, run);
+  }
+
+  market(name: string, notes?: string, run?: RunOptions): Promise<ResearchReport> {
+    return this.research({ mode: "market", subject: name, notes }, run);
+  }
+
+  competitive(ourCompany: string, competitors: string[], notes?: string, run?: RunOptions): Promise<ResearchReport> {
+    return this.research({ mode: "competitive", subject: ourCompany, competitors, notes }, run);
+  }
+}
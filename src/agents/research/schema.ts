@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+/**
+ * Dossier schemas for the research agent.
+ *
+ * Every finding carries at least one source URL so nothing in a report is
+ * unattributed. The model is asked to return exactly one JSON object matching
+ * the schema for its mode; anything else is rejected and re-prompted.
+ */
+
+export const RESEARCH_MODES = ["company", "market", "competitive"] as const;
+export type ResearchMode = (typeof RESEARCH_MODES)[number];
+
+export const findingSchema = z.object({
+  statement: z.string().min(1),
+  sourceUrls: z.array(z.string().url()).min(1, "Every finding needs at least one source URL"),
+  confidence: z.enum(["high", "medium", "low"]).default("medium")
+});
+
+const findings = z.array(findingSchema);
+
+const baseDossier = {
+  subject: z.string().min(1),
+  summary: z.string().min(1),
+  generatedAt: z.string().optional()
+};
+
+export const companyDossierSchema = z.object({
+  mode: z.literal("company"),
+  ...baseDossier,
+  overview: findings.min(1),
+  products: findings,
+  funding: findings,
+  leadership: z.array(
+    z.object({
+      name: z.string().min(1),
+      title: z.string().min(1),
+      sourceUrls: z.array(z.string().url()).min(1)
+    })
+  ),
+  risks: findings
+});
+
+export const marketDossierSchema = z.object({
+  mode: z.literal("market"),
+  ...baseDossier,
+  overview: findings.min(1),
+  size: findings,
+  segments: findings,
+  keyPlayers: findings,
+  trends: findings,
+  risks: findings
+});
+
+export const competitorProfileSchema = z.object({
+  name: z.string().min(1),
+  positioning: findings,
+  products: findings,
+  pricing: findings,
+  strengths: findings,
+  weaknesses: findings
+});
+
+export const competitiveDossierSchema = z.object({
+  mode: z.literal("competitive"),
+  ...baseDossier,
+  overview: findings.min(1),
+  competitors: z.array(competitorProfileSchema).min(1),
+  differentiators: findings,
+  risks: findings
+});
+
+export const dossierSchemas = {
+  company: companyDossierSchema,
+  market: marketDossierSchema,
+  competitive: competitiveDossierSchema
+} as const;
+
+export type Finding = z.infer<typeof findingSchema>;
+export type CompanyDossier = z.infer<typeof companyDossierSchema>;
+export type MarketDossier = z.infer<typeof marketDossierSchema>;
+export type CompetitiveDossier = z.infer<typeof competitiveDossierSchema>;
+export type Dossier = CompanyDossier | MarketDossier | CompetitiveDossier;
+
+export type DossierFor<M extends ResearchMode> = z.infer<(typeof dossierSchemas)[M]>;
@@ -0,0 +1,310 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { AppConfig, LogLevel } from "../config";
+
+/**
+ * Append-only JSONL audit log with a hash chain.
+ *
+ * Every record carries the hash of the record before it (`prev`) and its own
+ * hash over `prev` plus its canonical JSON, so editing, dropping or
+ * reordering any line breaks the chain from that point on. `verifyAuditLog`
+ * walks the rotated files oldest first and reports the first broken link.
+ *
+ * When the live file would grow past `maxBytes` it is renamed to `<path>.1`
+ * (older files shift to `.2`, `.3`, ...; anything past `maxFiles` is
+ * deleted) and the chain continues in a fresh file.
+ */
+
+export const AUDIT_RECORD_TYPES = [
+  "session_start",
+  "tool_use",
+  "tool_result",
+  "permission",
+  "result",
+  "run_error"
+] as const;
+
+export type AuditRecordType = (typeof AUDIT_RECORD_TYPES)[number];
+
+export interface AuditRecord {
+  /** Position in the chain, continuous across rotations */
+  seq: number;
+  timestamp: string;
+  level: LogLevel;
+  type: AuditRecordType;
+  /** Correlates every record of one `AgentRuntime.execute()` call */
+  runId: string | null;
+  sessionId: string | null;
+  agent: string | null;
+  data: Record<string, unknown>;
+  /** Hash of the previous record; GENESIS_HASH for the first one */
+  prev: string;
+  hash: string;
+}
+
+export type AuditEntry = Pick<AuditRecord, "level" | "type" | "data"> &
+  Partial<Pick<AuditRecord, "runId" | "sessionId" | "agent">>;
+
+export interface AuditLogOptions {
+  /**
+   * Detail level (LOG_LEVEL). Every record is written whatever its own
+   * level; at "debug" the writers add detail such as tool output.
+   */
+  level?: LogLevel;
+  maxBytes?: number;
+  maxFiles?: number;
+}
+
+export const GENESIS_HASH = "0".repeat(64);
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// Enough to hold the last record of any realistic log
+const TAIL_BYTES = 256 * 1024;
+
+function hashRecord(record: Omit<AuditRecord, "hash">): string {
+  return crypto.createHash("sha256").update(`${record.prev}\n${JSON.stringify(record)}`).digest("hex");
+}
+
+/** Last complete line of a file, without reading the whole file */
+function lastLine(filePath: string): string | null {
+  let fd: number;
+  try {
+    fd = fs.openSync(filePath, "r");
+  } catch {
+    return null;
+  }
+
+  try {
+    const size = fs.fstatSync(fd).size;
+    const length = Math.min(size, TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    fs.readSync(fd, buffer, 0, length, size - length);
+    const lines = buffer.toString("utf8").split("\n").filter((line) => line.trim().length > 0);
+    return lines[lines.length - 1] ?? null;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+/** The live file and its rotations, oldest first */
+export function auditLogFiles(filePath: string): string[] {
+  const dir = path.dirname(filePath);
+  const base = path.basename(filePath);
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+
+  const rotated = names
+    .map((name) => ({ name, index: name.startsWith(`${base}.`) ? Number(name.slice(base.length + 1)) : NaN }))
+    .filter((entry) => Number.isInteger(entry.index) && entry.index > 0)
+    .sort((a, b) => b.index - a.index)
+    .map((entry) => path.join(dir, entry.name));
+
+  return names.includes(base) ? [...rotated, filePath] : rotated;
+}
+
+export class AuditLog {
+  readonly filePath: string;
+  readonly level: LogLevel;
+  readonly maxBytes: number;
+  readonly maxFiles: number;
+
+  private seq = 0;
+  private prev = GENESIS_HASH;
+  /** File size after our last write; anything else means another writer appended */
+  private knownSize = -1;
+
+  private static shared = new Map<string, AuditLog>();
+
+  constructor(filePath: string, options: AuditLogOptions = {}) {
+    this.filePath = path.resolve(filePath);
+    this.level = options.level ?? "info";
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  /**
+   * One log per file per process, so every runtime appends to the same chain.
+   */
+  static fromConfig(config: AppConfig): AuditLog {
+    const filePath = path.resolve(config.logging.auditLogPath);
+    let log = AuditLog.shared.get(filePath);
+    if (!log) {
+      log = new AuditLog(filePath, {
+        level: config.logging.level,
+        maxBytes: config.logging.auditMaxBytes,
+        maxFiles: config.logging.auditMaxFiles
+      });
+      AuditLog.shared.set(filePath, log);
+    }
+    return log;
+  }
+
+  /** Whether detail logged at `level` should go into records */
+  enabled(level: LogLevel): boolean {
+    return LEVEL_RANK[level] >= LEVEL_RANK[this.level];
+  }
+
+  /**
+   * Appends one record and returns it. Records are never dropped for their
+   * level: the trail has to cover every run, tool call and decision.
+   */
+  append(entry: AuditEntry): AuditRecord {
+    this.syncTail();
+
+    const unsigned: Omit<AuditRecord, "hash"> = {
+      seq: this.seq + 1,
+      timestamp: new Date().toISOString(),
+      level: entry.level,
+      type: entry.type,
+      runId: entry.runId ?? null,
+      sessionId: entry.sessionId ?? null,
+      agent: entry.agent ?? null,
+      data: entry.data,
+      prev: this.prev
+    };
+    const record: AuditRecord = { ...unsigned, hash: hashRecord(unsigned) };
+    const line = `${JSON.stringify(record)}\n`;
+
+    if (this.knownSize > 0 && this.knownSize + Buffer.byteLength(line) > this.maxBytes) {
+      this.rotate();
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, line, { mode: 0o600 });
+
+    this.seq = record.seq;
+    this.prev = record.hash;
+    this.knownSize = fileSize(this.filePath);
+    return record;
+  }
+
+  /**
+   * Picks the chain up from the file when we have not written yet, or when
+   * another process appended since our last write.
+   */
+  private syncTail(): void {
+    const size = fileSize(this.filePath);
+    if (size === this.knownSize) {
+      return;
+    }
+
+    const files = auditLogFiles(this.filePath);
+    const newest = files[files.length - 1];
+    const line = newest ? lastLine(newest) : null;
+    if (line) {
+      try {
+        const last = JSON.parse(line) as AuditRecord;
+        this.seq = last.seq;
+        this.prev = last.hash;
+      } catch {
+        // A torn last line is left for verifyAuditLog to report; keep chaining from what we know
+      }
+    }
+    this.knownSize = size;
+  }
+
+  private rotate(): void {
+    const rotated = (index: number) => `${this.filePath}.${index}`;
+
+    fs.rmSync(rotated(this.maxFiles), { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(rotated(index))) {
+        fs.renameSync(rotated(index), rotated(index + 1));
+      }
+    }
+    fs.renameSync(this.filePath, rotated(1));
+    this.knownSize = 0;
+  }
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+export interface AuditVerification {
+  valid: boolean;
+  records: number;
+  files: string[];
+  /**
+   * False when the oldest surviving record does not start at the genesis
+   * hash, i.e. earlier rotations have been deleted. The chain is then only
+   * checked from that record on.
+   */
+  anchored: boolean;
+  error?: {
+    file: string;
+    line: number;
+    seq: number | null;
+    reason: string;
+  };
+}
+
+/**
+ * Re-computes the hash chain over the live log and all its rotations.
+ */
+export function verifyAuditLog(filePath: string): AuditVerification {
+  const files = auditLogFiles(path.resolve(filePath));
+  const verification: AuditVerification = { valid: true, records: 0, files, anchored: true };
+
+  let prev: string | null = null;
+  let seq: number | null = null;
+
+  for (const file of files) {
+    const lines = fs.readFileSync(file, "utf8").split("\n");
+
+    for (const [index, line] of lines.entries()) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+
+      const fail = (reason: string, recordSeq: number | null): AuditVerification => ({
+        ...verification,
+        valid: false,
+        error: { file, line: index + 1, seq: recordSeq, reason }
+      });
+
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line) as AuditRecord;
+      } catch {
+        return fail("line is not valid JSON", null);
+      }
+
+      const { hash, ...unsigned } = record;
+
+      if (prev === null) {
+        verification.anchored = record.prev === GENESIS_HASH;
+      } else if (record.prev !== prev) {
+        return fail("previous-hash link does not match the preceding record", record.seq);
+      }
+
+      if (seq !== null && record.seq !== seq + 1) {
+        return fail(`expected seq ${seq + 1}, found ${record.seq}`, record.seq);
+      }
+
+      if (hashRecord(unsigned) !== hash) {
+        return fail("record hash does not match its contents", record.seq);
+      }
+
+      prev = hash;
+      seq = record.seq;
+      verification.records++;
+    }
+  }
+
+  return verification;
+}
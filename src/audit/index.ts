@@ -0,0 +1,13 @@
+export {
+  AUDIT_RECORD_TYPES,
+  auditLogFiles,
+  AuditLog,
+  GENESIS_HASH,
+  verifyAuditLog,
+  type AuditEntry,
+  type AuditLogOptions,
+  type AuditRecord,
+  type AuditRecordType,
+  type AuditVerification
+} from "./audit-log";
+export { hashPrompt, RunAudit, type RunAuditContext } from "./run-audit";
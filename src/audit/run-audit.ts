@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import type { Options, SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { PermissionDecision } from "../permissions";
+import type { PromptStamp } from "../prompts";
+import type { AgentEvents, ToolCall } from "../runtime/agent-runtime";
+import type { AuditEntry, AuditLog } from "./audit-log";
+
+// Tool output is only kept at LOG_LEVEL=debug, and then only this much of it
+const MAX_RESULT_TEXT = 2000;
+
+export function hashPrompt(prompt: string): string {
+  return crypto.createHash("sha256").update(prompt).digest("hex");
+}
+
+export interface RunAuditContext {
+  agent: string;
+  prompt: string;
+  options: Options;
+  /** Registry template of the system prompt, when it came from one */
+  template?: PromptStamp | null;
+}
+
+/**
+ * Audit trail of a single agent run. Records the session start, every tool
+ * call and result, permission decisions and the final result, all tagged
+ * with one `runId`. The prompt itself is never written, only its hash.
+ */
+export class RunAudit {
+  readonly runId = crypto.randomUUID();
+  private log: AuditLog;
+  private agent: string;
+  private sessionId: string | null;
+
+  constructor(log: AuditLog, context: RunAuditContext) {
+    this.log = log;
+    this.agent = context.agent;
+    this.sessionId = context.options.resume ?? null;
+
+    this.write({
+      level: "info",
+      type: "session_start",
+      data: {
+        model: context.options.model ?? null,
+        allowedTools: context.options.allowedTools ?? [],
+        disallowedTools: context.options.disallowedTools ?? [],
+        cwd: context.options.cwd ?? process.cwd(),
+        promptHash: hashPrompt(context.prompt),
+        promptTemplate: context.template ?? null,
+        resume: context.options.resume ?? null,
+        forkSession: context.options.forkSession ?? false
+      }
+    });
+  }
+
+  /** Pass to `AgentRuntime` callbacks to audit the stream */
+  get events(): AgentEvents {
+    return {
+      onMessage: (message) => {
+        this.sessionId = message.session_id ?? this.sessionId;
+      },
+      onToolUse: (toolCall) => this.toolUse(toolCall),
+      onToolResult: (toolCall) => this.toolResult(toolCall),
+      onResult: (_result, message) => this.result(message)
+    };
+  }
+
+  toolUse(toolCall: ToolCall): void {
+    this.write({
+      level: "info",
+      type: "tool_use",
+      data: { toolUseId: toolCall.id, tool: toolCall.name, turn: toolCall.turn, input: toolCall.input }
+    });
+  }
+
+  toolResult(toolCall: ToolCall): void {
+    const isError = toolCall.result?.isError ?? false;
+    const data: Record<string, unknown> = {
+      toolUseId: toolCall.id,
+      tool: toolCall.name,
+      status: isError ? "error" : "ok",
+      bytes: Buffer.byteLength(toolCall.result?.text ?? "")
+    };
+
+    if (this.log.enabled("debug")) {
+      data.text = (toolCall.result?.text ?? "").slice(0, MAX_RESULT_TEXT);
+    }
+
+    this.write({ level: isError ? "warn" : "info", type: "tool_result", data });
+  }
+
+  decision(decision: PermissionDecision): void {
+    this.write({
+      level: decision.decision === "deny" ? "warn" : "info",
+      type: "permission",
+      sessionId: decision.sessionId ?? this.sessionId,
+      data: {
+        policy: decision.policy,
+        decision: decision.decision,
+        tool: decision.tool,
+        toolUseId: decision.toolUseId,
+        target: decision.target,
+        reason: decision.reason
+      }
+    });
+  }
+
+  result(message: SDKResultMessage): void {
+    this.write({
+      level: message.subtype === "success" ? "info" : "error",
+      type: "result",
+      data: {
+        subtype: message.subtype,
+        isError: message.is_error,
+        turns: message.num_turns,
+        costUSD: message.total_cost_usd,
+        durationMs: message.duration_ms,
+        durationApiMs: message.duration_api_ms,
+        usage: {
+          inputTokens: message.usage.input_tokens ?? 0,
+          outputTokens: message.usage.output_tokens ?? 0
+        },
+        permissionDenials: message.permission_denials.length,
+        errors: message.subtype === "success" ? [] : message.errors
+      }
+    });
+  }
+
+  /** A run that threw before (or instead of) producing a result message */
+  error(error: unknown): void {
+    this.write({
+      level: "error",
+      type: "run_error",
+      data: {
+        name: error instanceof Error ? error.name : "Error",
+        message: error instanceof Error ? error.message : String(error)
+      }
+    });
+  }
+
+  private write(entry: AuditEntry): void {
+    this.log.append({ runId: this.runId, agent: this.agent, sessionId: this.sessionId, ...entry });
+  }
+}
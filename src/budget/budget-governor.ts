@@ -0,0 +1,206 @@
+import crypto from "crypto";
+import type { SDKMessage, SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { AppConfig } from "../config";
+import { usageOf } from "../runtime/messages";
+import type { AgentEvents } from "../runtime/agent-runtime";
+import { sleep } from "../runtime/sleep";
+import { estimateCostUSD, totalTokens } from "./pricing";
+import { DAY_MS, emptyTotals, HOUR_MS, UsageLedger, type UsageTotals } from "./usage-ledger";
+
+export type BudgetWindow = "run" | "hour" | "day";
+export type BudgetUnit = "usd" | "tokens";
+
+/** Unset caps are not enforced */
+export interface BudgetLimits {
+  requestsPerMinute?: number;
+  tokensPerRun?: number;
+  tokensPerHour?: number;
+  tokensPerDay?: number;
+  usdPerRun?: number;
+  usdPerHour?: number;
+  usdPerDay?: number;
+}
+
+export interface BudgetExceeded {
+  window: BudgetWindow;
+  unit: BudgetUnit;
+  limit: number;
+  used: number;
+  message: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function formatAmount(unit: BudgetUnit, value: number): string {
+  return unit === "usd" ? `$${value.toFixed(4)}` : `${Math.round(value).toLocaleString("en-US")} tokens`;
+}
+
+function exceeded(window: BudgetWindow, unit: BudgetUnit, limit: number, used: number): BudgetExceeded {
+  return {
+    window,
+    unit,
+    limit,
+    used,
+    message: `Budget exceeded: per-${window} cap of ${formatAmount(unit, limit)} reached (${formatAmount(unit, used)} used)`
+  };
+}
+
+/**
+ * Enforces RATE_LIMIT_* caps around agent runs.
+ *
+ * Spend is estimated from per-turn usage as assistant messages stream in and
+ * reconciled with `total_cost_usd` when the result arrives. Every delta goes
+ * to a shared UsageLedger, so hourly and daily caps count all processes.
+ * When a cap is hit mid-run the run's AbortController is aborted.
+ */
+export class BudgetGovernor {
+  readonly limits: BudgetLimits;
+  readonly ledger: UsageLedger;
+
+  constructor(limits: BudgetLimits, ledger: UsageLedger) {
+    this.limits = limits;
+    this.ledger = ledger;
+  }
+
+  static fromConfig(config: AppConfig): BudgetGovernor {
+    const { statePath, ...limits } = config.rateLimit;
+    return new BudgetGovernor(limits, new UsageLedger(statePath));
+  }
+
+  /**
+   * First cap that `run` (this run's spend so far) or the shared hour / day
+   * totals have reached, if any.
+   */
+  check(run: UsageTotals = emptyTotals()): BudgetExceeded | null {
+    const { limits } = this;
+    const hour = this.ledger.totals(HOUR_MS);
+    const day = this.ledger.totals(DAY_MS);
+
+    const checks: Array<[BudgetWindow, BudgetUnit, number | undefined, number]> = [
+      ["run", "usd", limits.usdPerRun, run.costUSD],
+      ["run", "tokens", limits.tokensPerRun, run.tokens],
+      ["hour", "usd", limits.usdPerHour, hour.costUSD],
+      ["hour", "tokens", limits.tokensPerHour, hour.tokens],
+      ["day", "usd", limits.usdPerDay, day.costUSD],
+      ["day", "tokens", limits.tokensPerDay, day.tokens]
+    ];
+
+    for (const [window, unit, limit, used] of checks) {
+      if (limit !== undefined && used >= limit) {
+        return exceeded(window, unit, limit, used);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Waits until starting another request stays within
+   * RATE_LIMIT_REQUESTS_PER_MINUTE. A run's requests happen inside the SDK, so
+   * the limit is applied between runs, not between turns.
+   */
+  async waitForRequestSlot(signal?: AbortSignal): Promise<void> {
+    const limit = this.limits.requestsPerMinute;
+    if (limit === undefined) {
+      return;
+    }
+
+    while (!signal?.aborted) {
+      const now = Date.now();
+      const recent = this.ledger.requestTimes(MINUTE_MS, now);
+      if (recent.length < limit) {
+        return;
+      }
+      const oldest = recent[recent.length - limit] ?? now;
+      await sleep(Math.max(oldest + MINUTE_MS - now, 50), signal);
+    }
+  }
+
+  startRun(model: string, abortController: AbortController): RunBudget {
+    this.ledger.compact();
+    return new RunBudget(this, model, abortController);
+  }
+}
+
+/**
+ * Budget tracking for a single run; pass `events` to the runtime.
+ */
+export class RunBudget {
+  readonly runId = crypto.randomUUID();
+  /** Set when a cap stopped (or prevented) the run */
+  exceeded: BudgetExceeded | null;
+  readonly spent: UsageTotals = emptyTotals();
+
+  private governor: BudgetGovernor;
+  private model: string;
+  private abortController: AbortController;
+  /** Usage already counted per API message id; the SDK repeats it on every content block */
+  private seen = new Map<string, { tokens: number; costUSD: number }>();
+
+  constructor(governor: BudgetGovernor, model: string, abortController: AbortController) {
+    this.governor = governor;
+    this.model = model;
+    this.abortController = abortController;
+    this.exceeded = governor.check();
+  }
+
+  get events(): AgentEvents {
+    return {
+      onMessage: (message) => this.observe(message)
+    };
+  }
+
+  observe(message: SDKMessage): void {
+    if (message.type === "system" && message.subtype === "init") {
+      this.model = message.model;
+    } else if (message.type === "assistant") {
+      const usage = usageOf(message);
+      const messageId = message.message?.id;
+      if (!usage || !messageId) {
+        return;
+      }
+
+      const previous = this.seen.get(messageId);
+      const current = { tokens: totalTokens(usage), costUSD: estimateCostUSD(this.model, usage) };
+      this.seen.set(messageId, current);
+      this.record(previous ? "adjustment" : "request", current.tokens - (previous?.tokens ?? 0), current.costUSD - (previous?.costUSD ?? 0));
+      this.enforce();
+    } else if (message.type === "result") {
+      this.reconcile(message);
+    }
+  }
+
+  /** Replaces the running estimate with the SDK's own totals */
+  private reconcile(message: SDKResultMessage): void {
+    const modelUsage = Object.values(message.modelUsage ?? {});
+    const tokens =
+      modelUsage.length > 0
+        ? modelUsage.reduce((sum, usage) => sum + usage.inputTokens + usage.outputTokens + usage.cacheReadInputTokens + usage.cacheCreationInputTokens, 0)
+        : this.spent.tokens;
+
+    this.record("adjustment", tokens - this.spent.tokens, message.total_cost_usd - this.spent.costUSD);
+  }
+
+  private record(kind: "request" | "adjustment", tokens: number, costUSD: number): void {
+    if (kind === "adjustment" && tokens === 0 && costUSD === 0) {
+      return;
+    }
+
+    this.spent.tokens += tokens;
+    this.spent.costUSD += costUSD;
+    if (kind === "request") {
+      this.spent.requests++;
+    }
+
+    this.governor.ledger.append({ at: new Date().toISOString(), runId: this.runId, kind, tokens, costUSD });
+  }
+
+  private enforce(): void {
+    if (this.exceeded) {
+      return;
+    }
+    this.exceeded = this.governor.check(this.spent);
+    if (this.exceeded) {
+      this.abortController.abort();
+    }
+  }
+}
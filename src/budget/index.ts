@@ -0,0 +1,10 @@
+export {
+  BudgetGovernor,
+  RunBudget,
+  type BudgetExceeded,
+  type BudgetLimits,
+  type BudgetUnit,
+  type BudgetWindow
+} from "./budget-governor";
+export { estimateCostUSD, priceFor, totalTokens } from "./pricing";
+export { DAY_MS, emptyTotals, HOUR_MS, UsageLedger, type UsageEntry, type UsageTotals } from "./usage-ledger";
@@ -0,0 +1,43 @@
+import type { TokenUsage } from "../runtime/messages";
+
+/**
+ * List prices in USD per million tokens, used to estimate spend while a run
+ * is still going. The result message's `total_cost_usd` replaces the
+ * estimate once the run ends.
+ */
+interface ModelPrice {
+  match: RegExp;
+  input: number;
+  output: number;
+}
+
+const PRICES: ModelPrice[] = [
+  { match: /opus/, input: 15, output: 75 },
+  { match: /sonnet/, input: 3, output: 15 },
+  { match: /haiku-4-5/, input: 1, output: 5 },
+  { match: /haiku/, input: 0.8, output: 4 }
+];
+
+// Unknown models are priced like the most expensive one, so estimates err on the safe side
+const FALLBACK_PRICE = PRICES[0] as ModelPrice;
+
+const CACHE_READ_MULTIPLIER = 0.1;
+const CACHE_WRITE_MULTIPLIER = 1.25;
+
+export function priceFor(model: string): ModelPrice {
+  return PRICES.find((price) => price.match.test(model)) ?? FALLBACK_PRICE;
+}
+
+export function estimateCostUSD(model: string, usage: TokenUsage): number {
+  const price = priceFor(model);
+  const inputEquivalent =
+    usage.inputTokens +
+    usage.cacheReadInputTokens * CACHE_READ_MULTIPLIER +
+    usage.cacheCreationInputTokens * CACHE_WRITE_MULTIPLIER;
+  return (inputEquivalent * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/** Tokens counted against budgets: everything the model read or wrote */
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadInputTokens + usage.cacheCreationInputTokens;
+}
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Append-only JSONL record of spend, shared by every process that points at
+ * the same RATE_LIMIT_STATE_PATH. Hourly and daily totals are sums over the
+ * entries inside the window, so caps hold across restarts and parallel runs.
+ */
+
+export interface UsageEntry {
+  at: string;
+  runId: string;
+  /** "request" is one API call; "adjustment" reconciles estimates with the final result */
+  kind: "request" | "adjustment";
+  tokens: number;
+  costUSD: number;
+}
+
+export interface UsageTotals {
+  tokens: number;
+  costUSD: number;
+  requests: number;
+}
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+// Entries older than the longest window are dropped once the file grows past this
+const COMPACT_BYTES = 1024 * 1024;
+
+export function emptyTotals(): UsageTotals {
+  return { tokens: 0, costUSD: 0, requests: 0 };
+}
+
+export class UsageLedger {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  append(entry: UsageEntry): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+
+  entries(): UsageEntry[] {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch {
+      return [];
+    }
+
+    const entries: UsageEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as UsageEntry);
+      } catch {
+        // A line torn by a concurrent write only loses that entry
+      }
+    }
+    return entries;
+  }
+
+  /** Totals of every entry newer than `windowMs` */
+  totals(windowMs: number, now = Date.now()): UsageTotals {
+    const since = now - windowMs;
+    const totals = emptyTotals();
+    for (const entry of this.entries()) {
+      if (Date.parse(entry.at) < since) {
+        continue;
+      }
+      totals.tokens += entry.tokens;
+      totals.costUSD += entry.costUSD;
+      if (entry.kind === "request") {
+        totals.requests++;
+      }
+    }
+    return totals;
+  }
+
+  /** Timestamps of API requests newer than `windowMs`, oldest first */
+  requestTimes(windowMs: number, now = Date.now()): number[] {
+    return this.entries()
+      .filter((entry) => entry.kind === "request")
+      .map((entry) => Date.parse(entry.at))
+      .filter((at) => at >= now - windowMs)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Drops entries older than a day once the file is large. Written to a temp
+   * file and renamed so readers never see a partial ledger.
+   */
+  compact(now = Date.now()): void {
+    let size: number;
+    try {
+      size = fs.statSync(this.filePath).size;
+    } catch {
+      return;
+    }
+    if (size < COMPACT_BYTES) {
+      return;
+    }
+
+    const kept = this.entries().filter((entry) => Date.parse(entry.at) >= now - DAY_MS);
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, kept.map((entry) => `${JSON.stringify(entry)}\n`).join(""));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
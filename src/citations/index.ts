@@ -0,0 +1,8 @@
+export {
+  normalizeUrl,
+  parseSearchResults,
+  SourceLedger,
+  type CiteOptions,
+  type SourceEntry,
+  type SourceOrigin
+} from "./source-ledger";
@@ -0,0 +1,255 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { AgentEvents } from "../runtime/agent-runtime";
+import { toolResultBlocks, toolResultText, toolUseBlocks, type ToolUseBlock } from "../runtime/messages";
+
+/**
+ * How a source entered the ledger:
+ * - WebFetch: the agent fetched the page
+ * - WebSearch: the page appeared in search results the agent saw
+ * - report: cited in the final report but never touched by a tool
+ */
+export type SourceOrigin = "WebFetch" | "WebSearch" | "report";
+
+export interface SourceEntry {
+  /** Stable citation number, assigned in first-seen order */
+  id: number;
+  url: string;
+  title: string;
+  origin: SourceOrigin;
+  /** True once a WebFetch of the URL returned successfully */
+  fetched: boolean;
+  /** ISO timestamp of the first successful fetch (or of first sight for search results) */
+  fetchedAt: string | null;
+  excerpt: string;
+  /** Tool calls that touched this URL */
+  toolUseIds: string[];
+}
+
+export interface CiteOptions {
+  /** Heading for the appended bibliography (default "Sources") */
+  heading?: string;
+}
+
+const EXCERPT_LENGTH = 280;
+
+// Bare URLs, stopping before trailing punctuation that usually ends a sentence
+const URL_PATTERN = /https?:\/\/[^\s<>()\[\]"'`]+[^\s<>()\[\]"'`.,;:!?]/g;
+const MARKDOWN_LINK = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+/**
+ * Normalizes a URL so trivially different spellings share one citation:
+ * lower-case host, no fragment, no trailing slash.
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.hostname = parsed.hostname.toLowerCase();
+    const normalized = parsed.toString();
+    return normalized.endsWith("/") ? normalized.slice(0, -1) : normalized;
+  } catch {
+    return url.trim();
+  }
+}
+
+function excerptOf(text: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > EXCERPT_LENGTH ? `${collapsed.slice(0, EXCERPT_LENGTH - 1)}…` : collapsed;
+}
+
+function titleOf(text: string, url: string): string {
+  const heading = /^\s*#{1,3}\s+(.+)$/m.exec(text)?.[1] ?? /<title>([^<]+)<\/title>/i.exec(text)?.[1];
+  if (heading) {
+    return heading.trim();
+  }
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Parses the `Links: [{"title","url"}, ...]` lines of a WebSearch tool result.
+ */
+export function parseSearchResults(text: string): Array<{ title: string; url: string }> {
+  const links: Array<{ title: string; url: string }> = [];
+  for (const line of text.split("\n")) {
+    if (!line.startsWith("Links: ")) {
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(line.slice("Links: ".length)) as Array<{ title?: string; url?: string }>;
+      for (const link of parsed) {
+        if (typeof link.url === "string") {
+          links.push({ title: link.title ?? link.url, url: link.url });
+        }
+      }
+    } catch {
+      // Not JSON after all - fall through to plain URL scanning below
+    }
+  }
+  if (links.length === 0) {
+    for (const url of text.match(URL_PATTERN) ?? []) {
+      links.push({ title: url, url });
+    }
+  }
+  return links;
+}
+
+/**
+ * Tracks every URL a research run touched via WebSearch / WebFetch and turns
+ * URLs in the final report into numbered citations with a bibliography.
+ *
+ * Feed it SDK messages with `observe()`, or pass `ledger.events` to an
+ * `AgentRuntime` run.
+ */
+export class SourceLedger {
+  private entries = new Map<string, SourceEntry>();
+  private pending = new Map<string, ToolUseBlock>();
+  private now: () => Date;
+
+  constructor(now: () => Date = () => new Date()) {
+    this.now = now;
+  }
+
+  /** Runtime hooks that route the message stream into this ledger */
+  get events(): AgentEvents {
+    return { onMessage: (message) => this.observe(message) };
+  }
+
+  /** All sources in citation order */
+  get sources(): SourceEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.id - b.id);
+  }
+
+  observe(message: SDKMessage): void {
+    if (message.type === "assistant") {
+      for (const block of toolUseBlocks(message)) {
+        if (block.name === "WebFetch" || block.name === "WebSearch") {
+          this.pending.set(block.id, block);
+        }
+      }
+      return;
+    }
+
+    if (message.type !== "user") {
+      return;
+    }
+
+    for (const block of toolResultBlocks(message)) {
+      const toolUse = this.pending.get(block.tool_use_id);
+      if (!toolUse) {
+        continue;
+      }
+      this.pending.delete(block.tool_use_id);
+
+      const text = toolResultText(block);
+      if (toolUse.name === "WebFetch") {
+        this.recordFetch(toolUse, text, block.is_error === true);
+      } else if (block.is_error !== true) {
+        for (const link of parseSearchResults(text)) {
+          this.register(link.url, "WebSearch", link.title, toolUse.id);
+        }
+      }
+    }
+  }
+
+  /** Citation id for a URL, registering it as a report-only source if unseen */
+  idFor(url: string): number {
+    return this.register(url, "report").id;
+  }
+
+  get(url: string): SourceEntry | undefined {
+    return this.entries.get(normalizeUrl(url));
+  }
+
+  /**
+   * Rewrites a report so every linked or bare URL becomes a `[n]` citation,
+   * then appends a bibliography of the cited sources.
+   */
+  cite(report: string, options: CiteOptions = {}): string {
+    const cited = new Set<number>();
+
+    const withLinks = report.replace(MARKDOWN_LINK, (_match, text: string, url: string) => {
+      const id = this.idFor(url);
+      cited.add(id);
+      return `${text} [${id}]`;
+    });
+
+    const withUrls = withLinks.replace(URL_PATTERN, (url) => {
+      const id = this.idFor(url);
+      cited.add(id);
+      return `[${id}]`;
+    });
+
+    if (cited.size === 0) {
+      return report;
+    }
+
+    return `${withUrls.trimEnd()}\n\n${this.bibliography(Array.from(cited), options)}`;
+  }
+
+  /** Markdown bibliography for the given citation ids (all sources by default) */
+  bibliography(ids: number[] = this.sources.map((source) => source.id), options: CiteOptions = {}): string {
+    const wanted = new Set(ids);
+    const lines = [`## ${options.heading ?? "Sources"}`, ""];
+
+    for (const source of this.sources.filter((entry) => wanted.has(entry.id))) {
+      const retrieved = source.fetched
+        ? `retrieved ${source.fetchedAt?.slice(0, 10)}`
+        : source.origin === "WebSearch"
+          ? "seen in search results"
+          : "not retrieved during research";
+      lines.push(`[${source.id}] ${source.title}. ${source.url} (${retrieved})`);
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  toJSON(): SourceEntry[] {
+    return this.sources;
+  }
+
+  private recordFetch(toolUse: ToolUseBlock, text: string, isError: boolean): void {
+    const url = typeof toolUse.input.url === "string" ? toolUse.input.url : undefined;
+    if (!url) {
+      return;
+    }
+
+    const entry = this.register(url, "WebFetch", isError ? undefined : titleOf(text, url), toolUse.id);
+    if (!isError && !entry.fetched) {
+      entry.fetched = true;
+      entry.fetchedAt = this.now().toISOString();
+      entry.origin = "WebFetch";
+      entry.excerpt = excerptOf(text);
+    }
+  }
+
+  private register(url: string, origin: SourceOrigin, title?: string, toolUseId?: string): SourceEntry {
+    const key = normalizeUrl(url);
+    let entry = this.entries.get(key);
+
+    if (!entry) {
+      entry = {
+        id: this.entries.size + 1,
+        url: key,
+        title: title ?? titleOf("", key),
+        origin,
+        fetched: false,
+        fetchedAt: origin === "WebSearch" ? this.now().toISOString() : null,
+        excerpt: "",
+        toolUseIds: []
+      };
+      this.entries.set(key, entry);
+    } else if (title && (origin === "WebFetch" || entry.origin === "report")) {
+      // Prefer titles from fetched pages over search results and bare hostnames
+      entry.title = title;
+    }
+
+    if (toolUseId && !entry.toolUseIds.includes(toolUseId)) {
+      entry.toolUseIds.push(toolUseId);
+    }
+    return entry;
+  }
+}
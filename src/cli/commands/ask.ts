@@ -0,0 +1,157 @@
+import type { Options } from "@anthropic-ai/claude-agent-sdk";
+import { cockpitAgent } from "../../agents/cockpit";
+import { getConfig } from "../../config";
+import { TerminalRenderer } from "../../render";
+import { TASK_CLASSES, type TaskClass } from "../../routing";
+import { AgentRunError, AgentRuntime, runWithRetry, type AgentResult } from "../../runtime";
+import { SessionStore } from "../../sessions";
+import { CliError, exitCodeForSubtype, type ExitCode } from "../exit-codes";
+import { AGENT_OPTIONS, maxTurnsFlag, modelFlag, OUTPUT_OPTIONS, outputFor, parseCommand, toolsFlag } from "../flags";
+
+export const ASK_USAGE = `
+Usage:
+  cockpit ask [prompt...]                 Run the cockpit agent on a prompt
+  cockpit ask --resume <id> [prompt...]   Continue a saved session
+  cockpit ask --fork <id> [prompt...]     Branch a saved session into a new one
+  echo "prompt" | cockpit ask             Read the prompt from stdin (or pass "-")
+
+Flags:
+  --model haiku|sonnet|opus   --max-turns <n>   --tools Read,Grep,...
+  --task lookup|extraction|synthesis|drafting   Task class for model routing (guessed from the prompt)
+  -v, --verbose               Show full tool inputs and results
+  --json | --format text|json|markdown
+`;
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8").trim();
+}
+
+/**
+ * The prompt from the arguments, or from stdin when the only argument is
+ * "-" or when input is piped and no prompt was given.
+ */
+async function readPrompt(positionals: string[]): Promise<string> {
+  if (positionals.length === 1 && positionals[0] === "-") {
+    return readStdin();
+  }
+  if (positionals.length === 0 && !process.stdin.isTTY) {
+    return readStdin();
+  }
+  return positionals.join(" ").trim();
+}
+
+/**
+ * `cockpit ask` - general-purpose agent run, with session resume / fork.
+ * Overloaded / network failures are retried by resuming the same session.
+ */
+export async function askCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, {
+    ...OUTPUT_OPTIONS,
+    ...AGENT_OPTIONS,
+    resume: { type: "string" },
+    fork: { type: "string" },
+    task: { type: "string" }
+  });
+  if (values.help) {
+    console.log(ASK_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const model = modelFlag(values.model);
+  const maxTurns = maxTurnsFlag(values["max-turns"]);
+  const tools = toolsFlag(values.tools);
+  if (values.task !== undefined && !TASK_CLASSES.includes(values.task as TaskClass)) {
+    throw new CliError(`--task must be one of ${TASK_CLASSES.join(", ")}`);
+  }
+  const renderer = new TerminalRenderer({ stream: output.progress, verbose: values.verbose });
+  if (values.resume && values.fork) {
+    throw new CliError("Use either --resume or --fork, not both");
+  }
+
+  const config = getConfig();
+  const store = SessionStore.fromConfig(config);
+  const sessionOptions: Options = {};
+
+  // Resume in the session's own directory: the SDK looks sessions up per project
+  const from = values.resume ?? values.fork;
+  if (from) {
+    const session = store.resolve(from);
+    Object.assign(sessionOptions, { resume: session.id, forkSession: values.fork !== undefined, cwd: session.cwd });
+    output.info(`${values.fork ? "🌿 Forking" : "⏯️  Resuming"} session ${session.id}: ${session.title}`);
+  }
+
+  const prompt = (await readPrompt(positionals)) || (from ? "Continue where we left off." : "");
+  if (!prompt) {
+    throw new CliError("No prompt given (pass it as arguments or on stdin)");
+  }
+
+  const agent = new AgentRuntime(
+    cockpitAgent(prompt, { model, maxTurns, tools, task: values.task as TaskClass | undefined }),
+    {
+      appConfig: config,
+      sessions: config.sessions.persistenceEnabled ? store : null,
+      events: renderer.events
+    }
+  );
+
+  output.info("🚀 Starting Phoenix OS Cockpit Agent");
+  output.info("📝 Prompt:", prompt);
+  const routing = agent.route();
+  output.info("🧠 Model:", agent.resolveModel(routing), routing ? `(${routing.task}: ${routing.detail})` : "");
+  output.info("=" + "=".repeat(50));
+
+  let result: AgentResult;
+  try {
+    result = await runWithRetry(agent, prompt, {
+      resume: true,
+      run: { options: { ...renderer.runOptions, ...sessionOptions }, ...(routing && { routing }) },
+      onRetry: (info) => {
+        if (!info.escalatedTo) {
+          renderer.log(`\n🔁 Attempt ${info.attempt} failed (${info.kind}), retrying in ${(info.delayMs / 1000).toFixed(1)}s`);
+        }
+      }
+    });
+  } catch (error) {
+    renderer.stop();
+    const sessionId = error instanceof AgentRunError ? error.lastResult.sessionId : null;
+    if (sessionId && config.sessions.persistenceEnabled) {
+      output.error(`💾 Session kept: ${sessionId} (continue with: cockpit ask --resume ${sessionId.slice(0, 8)})`);
+    }
+    throw error;
+  } finally {
+    renderer.stop();
+  }
+
+  output.result(
+    {
+      success: result.success,
+      subtype: result.subtype,
+      output: result.output,
+      error: result.error,
+      sessionId: result.sessionId,
+      model: result.model,
+      routing: result.routing,
+      stats: result.stats
+    },
+    () => {
+      if (output.format === "markdown") {
+        console.log(result.output);
+        return;
+      }
+      if (!result.success) {
+        console.log(`\n⚠️  Run ended with ${result.subtype ?? "an error"}: ${result.error}`);
+      }
+      console.log(`📊 Turns: ${result.stats.turns}, Cost: $${result.stats.costUSD.toFixed(6)}, Duration: ${result.stats.durationMs}ms`);
+      if (result.sessionId && config.sessions.persistenceEnabled) {
+        console.log(`💾 Session saved: ${result.sessionId} (continue with: cockpit ask --resume ${result.sessionId.slice(0, 8)})`);
+      }
+    }
+  );
+
+  return exitCodeForSubtype(result.subtype);
+}
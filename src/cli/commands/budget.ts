@@ -0,0 +1,56 @@
+import { BudgetGovernor, DAY_MS, HOUR_MS, type UsageTotals } from "../../budget";
+import { getConfig } from "../../config";
+import type { ExitCode } from "../exit-codes";
+import { OUTPUT_OPTIONS, outputFor, parseCommand } from "../flags";
+
+export const BUDGET_USAGE = `
+Usage:
+  cockpit budget   Show the configured caps and what the shared usage ledger has recorded
+
+Flags:
+  --json
+`;
+
+function formatLimit(used: number, limit: number | undefined, format: (value: number) => string): string {
+  if (limit === undefined) {
+    return `${format(used)} (no cap)`;
+  }
+  const percent = limit > 0 ? Math.round((used / limit) * 100) : 100;
+  return `${format(used)} of ${format(limit)} (${percent}%)`;
+}
+
+const usd = (value: number) => `$${value.toFixed(4)}`;
+const tokens = (value: number) => `${Math.round(value).toLocaleString("en-US")} tokens`;
+
+/**
+ * `cockpit budget` - spend in the last hour / day against the RATE_LIMIT_* caps
+ */
+export async function budgetCommand(args: string[]): Promise<ExitCode> {
+  const { values } = parseCommand(args, OUTPUT_OPTIONS);
+  if (values.help) {
+    console.log(BUDGET_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const governor = BudgetGovernor.fromConfig(getConfig());
+  const { limits } = governor;
+  const usage: Record<"hour" | "day", UsageTotals> = {
+    hour: governor.ledger.totals(HOUR_MS),
+    day: governor.ledger.totals(DAY_MS)
+  };
+
+  output.result({ limits, usage, ledger: governor.ledger.filePath }, () => {
+    console.log(`💰 Budget (${governor.ledger.filePath})`);
+    console.log("=" + "=".repeat(50));
+    console.log(`   Per run:    ${limits.usdPerRun !== undefined ? usd(limits.usdPerRun) : "no USD cap"}, ${limits.tokensPerRun !== undefined ? tokens(limits.tokensPerRun) : "no token cap"}`);
+    console.log(`   Last hour:  ${formatLimit(usage.hour.costUSD, limits.usdPerHour, usd)}`);
+    console.log(`               ${formatLimit(usage.hour.tokens, limits.tokensPerHour, tokens)}, ${usage.hour.requests} request(s)`);
+    console.log(`   Last day:   ${formatLimit(usage.day.costUSD, limits.usdPerDay, usd)}`);
+    console.log(`               ${formatLimit(usage.day.tokens, limits.tokensPerDay, tokens)}, ${usage.day.requests} request(s)`);
+    if (limits.requestsPerMinute !== undefined) {
+      console.log(`   Pacing:     ${limits.requestsPerMinute} request(s) per minute`);
+    }
+  });
+  return 0;
+}
@@ -0,0 +1,124 @@
+import path from "path";
+import {
+  ComplianceMatrixBuilder,
+  loadCatalog,
+  writeComplianceMatrix,
+  type BatchReport,
+  type ComplianceMatrix
+} from "../../compliance";
+import { getConfig } from "../../config";
+import { CliError, EXIT_CODES, type ExitCode } from "../exit-codes";
+import { modelFlag, OUTPUT_OPTIONS, outputFor, parseCommand, positiveIntFlag } from "../flags";
+import type { Output } from "../output";
+
+/**
+ * `cockpit compliance` - extracts the requirements from RFP documents and
+ * classifies each one against the capability catalog, writing the
+ * compliance matrix as CSV and XLSX (see src/compliance).
+ */
+
+export const COMPLIANCE_USAGE = `
+Usage:
+  cockpit compliance <rfp dir or file...>   Build a compliance matrix for the RFP documents
+
+Flags:
+  --catalog <path>        Capability catalog file or directory (default: CAPABILITY_CATALOG_PATH)
+  --out <dir>             Where the .csv / .xlsx / .json are written (default: reports)
+  --batch <n>             Requirements per assessment run (default: COMPLIANCE_BATCH_SIZE)
+  --concurrency <n>       Runs in flight at once (default: INGEST_CONCURRENCY)
+  --model haiku|sonnet|opus
+  --json | --format text|json
+
+Examples:
+  cockpit compliance rfps/acme
+  cockpit compliance rfps/acme/rfp.pdf --catalog config/capabilities --out reports/acme
+`;
+
+const REPORTS_DIR = "reports";
+
+const STATUS_ICONS: Record<string, string> = {
+  compliant: "✅",
+  partial: "🟡",
+  roadmap: "🗺️ ",
+  not_supported: "❌",
+  unassessed: "⚠️ "
+};
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "rfp";
+}
+
+function printBatch(output: Output, report: BatchReport) {
+  if (report.status === "running") {
+    return;
+  }
+  const icon = report.status === "succeeded" ? "✅" : "❌";
+  const detail = report.error ? ` - ${report.error.split("\n")[0]}` : `, $${report.costUSD.toFixed(4)}`;
+  output.info(`   ${icon} batch ${report.batch} (${report.requirements} requirement(s)) in ${(report.durationMs / 1000).toFixed(1)}s${detail}`);
+}
+
+function printMatrix(matrix: ComplianceMatrix) {
+  console.log("");
+  for (const row of matrix.rows) {
+    console.log(`${STATUS_ICONS[row.status ?? "unassessed"]} ${row.id.padEnd(8)} ${row.requirement}`);
+    console.log(`    ↳ ${row.justification}${row.capabilities.length > 0 ? ` [${row.capabilities.join(", ")}]` : ""}`);
+  }
+  const counts = Object.entries(matrix.summary)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status.replace("_", " ")}`);
+  console.log(
+    `\n📊 ${matrix.rows.length} requirement(s): ${counts.join(", ") || "none"} in ${(matrix.durationMs / 1000).toFixed(1)}s, $${matrix.costUSD.toFixed(4)}`
+  );
+  for (const failure of matrix.failures) {
+    console.log(`   ❌ ${failure.document}: ${failure.error.split("\n")[0]}`);
+  }
+}
+
+export async function complianceCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, {
+    ...OUTPUT_OPTIONS,
+    catalog: { type: "string" },
+    out: { type: "string" },
+    batch: { type: "string" },
+    concurrency: { type: "string" },
+    model: { type: "string" }
+  });
+  if (values.help) {
+    console.log(COMPLIANCE_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  if (positionals.length === 0) {
+    throw new CliError("Missing RFP directory or file");
+  }
+
+  const catalog = loadCatalog(values.catalog ?? getConfig().compliance.catalogPath);
+  output.info(`📚 Catalog: ${catalog.capabilities.length} capability(ies) from ${catalog.files.length} file(s) in ${catalog.root}`);
+
+  const builder = new ComplianceMatrixBuilder({
+    catalog,
+    batchSize: positiveIntFlag("batch", values.batch),
+    concurrency: positiveIntFlag("concurrency", values.concurrency),
+    model: modelFlag(values.model),
+    onDocument: (document, outcome) =>
+      output.info(outcome instanceof Error ? `   ⚠️  ${outcome.message.split("\n")[0]}` : `   📄 ${document} (${outcome.format})`),
+    onBatch: (report) => printBatch(output, report)
+  });
+
+  output.info(`📂 Extracting requirements from ${positionals.join(", ")}`);
+  const matrix = await builder.build(positionals);
+  if (matrix.documents.length === 0) {
+    throw new CliError(`No readable documents in ${positionals.join(", ")}`, EXIT_CODES.invalidInput);
+  }
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const name = slugify(path.parse(positionals[0] as string).name);
+  const files = await writeComplianceMatrix(matrix, path.join(values.out ?? REPORTS_DIR, `compliance-${name}-${stamp}`));
+
+  output.result({ ...matrix, files }, () => {
+    printMatrix(matrix);
+    console.log(`\n💾 ${files.xlsx}\n   ${files.csv}\n   ${files.json}`);
+  });
+  return matrix.failures.length > 0 || matrix.summary.unassessed > 0 ? EXIT_CODES.execution : 0;
+}
@@ -0,0 +1,117 @@
+import { ConfigError, loadConfig, type AppConfig } from "../../config";
+import { DEFAULT_ROUTING_POLICY, TASK_CLASSES, type TaskClass } from "../../routing";
+import { MODEL_IDS } from "../../runtime";
+import { CliError, EXIT_CODES, type ExitCode } from "../exit-codes";
+import { OUTPUT_OPTIONS, outputFor, parseCommand } from "../flags";
+
+export const CONFIG_USAGE = `
+Usage:
+  cockpit config check   Validate .env (plus NODE_ENV overlays) and print the resulting settings
+
+Exits with ${EXIT_CODES.config} when the configuration is invalid.
+
+Flags:
+  --json
+`;
+
+function redact(secret: string | undefined): string | undefined {
+  return secret === undefined ? undefined : `${secret.slice(0, 7)}…`;
+}
+
+/** Password stripped from the connection string */
+function redactUrl(url: string | undefined): string | undefined {
+  if (url === undefined) {
+    return undefined;
+  }
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) {
+      parsed.password = "***";
+    }
+    return parsed.toString();
+  } catch {
+    return "***";
+  }
+}
+
+/** The configuration with API keys, client secrets and passwords masked */
+/**
+ * Model a run of each task class starts on, for agents without a model of
+ * their own: a set CLAUDE_MODEL, else the routing policy, else the default.
+ */
+function modelsByTask(config: AppConfig): Record<TaskClass, string> {
+  const routed = config.routing.enabled && !config.agent.modelPinned;
+  return Object.fromEntries(
+    TASK_CLASSES.map((task) => [task, routed ? MODEL_IDS[DEFAULT_ROUTING_POLICY.models[task]] : config.agent.model])
+  ) as Record<TaskClass, string>;
+}
+
+function describeModel(config: AppConfig): string {
+  if (config.agent.modelPinned) {
+    return `${config.agent.model} (CLAUDE_MODEL, overrides routing)`;
+  }
+  if (!config.routing.enabled) {
+    return `${config.agent.model} (default, routing off)`;
+  }
+  const models = TASK_CLASSES.map((task) => `${task} ${DEFAULT_ROUTING_POLICY.models[task]}`);
+  return `routed by task (${models.join(", ")}; escalates up to ${config.routing.ceiling})`;
+}
+
+function redactConfig(config: AppConfig): AppConfig {
+  return {
+    ...config,
+    anthropicApiKey: redact(config.anthropicApiKey),
+    databaseUrl: redactUrl(config.databaseUrl),
+    crm: {
+      ...config.crm,
+      hubspotApiKey: redact(config.crm.hubspotApiKey),
+      salesforce: config.crm.salesforce && { ...config.crm.salesforce, clientSecret: "***" }
+    },
+    api: { ...config.api, token: config.api.token && "***" }
+  };
+}
+
+/**
+ * `cockpit config check` - validates the environment the way every command
+ * would, but reports the problems instead of failing on them
+ */
+export async function configCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, OUTPUT_OPTIONS);
+  if (values.help) {
+    console.log(CONFIG_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const [action] = positionals;
+  if (action !== "check") {
+    throw new CliError(action ? `Unknown config action "${action}"` : "Missing config action");
+  }
+
+  let config: AppConfig;
+  try {
+    config = loadConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    output.result({ ok: false, issues: error.issues }, () => {
+      console.error("❌ Invalid configuration:");
+      error.issues.forEach((issue) => console.error(`   - ${issue}`));
+    });
+    return EXIT_CODES.config;
+  }
+
+  const redacted = redactConfig(config);
+  output.result({ ok: true, issues: [], config: redacted, models: modelsByTask(config) }, () => {
+    console.log(`✅ Configuration is valid (${config.nodeEnv})`);
+    console.log(`   🧠 Model: ${describeModel(config)}, max ${config.agent.maxTurns} turn(s)`);
+    console.log(`   🔑 API key: ${redacted.anthropicApiKey ?? (config.replay.mode === "replay" ? "not needed (replaying cassettes)" : "not set")}`);
+    console.log(`   🤝 CRM: ${config.crm.provider}`);
+    console.log(`   🧠 Knowledge base: ${redacted.databaseUrl ?? config.knowledge.dbPath}`);
+    console.log(`   💾 Sessions: ${config.sessions.persistenceEnabled ? config.sessions.storagePath : "off"}`);
+    const features = Object.entries(config.features).map(([name, enabled]) => `${name} ${enabled ? "on" : "off"}`);
+    console.log(`   🚩 Features: ${features.join(", ")}`);
+  });
+  return 0;
+}
@@ -0,0 +1,187 @@
+import fs from "fs";
+import path from "path";
+import {
+  compareRuns,
+  CURRENT_VARIANT,
+  EvalRunner,
+  loadDataset,
+  loadVariant,
+  readRun,
+  renderComparisonMarkdown,
+  renderRunMarkdown,
+  type CaseResult,
+  type EvalComparison,
+  type EvalDataset,
+  type EvalRun,
+  type EvalVariant
+} from "../../evals";
+import { CliError, EXIT_CODES, type ExitCode } from "../exit-codes";
+import { modelFlag, OUTPUT_OPTIONS, outputFor, parseCommand, positiveIntFlag } from "../flags";
+import type { Output } from "../output";
+
+/**
+ * `cockpit eval` - runs golden datasets against agent variants and
+ * compares the results (see src/evals). Prompt and agent config changes
+ * go through `eval compare` before merging.
+ */
+
+export const EVAL_USAGE = `
+Usage:
+  cockpit eval run <dataset> [--variant <file>]                 Run a dataset and save the results
+  cockpit eval compare <dataset> --baseline <file|current> --candidate <file>
+                                                                Run both variants and compare them
+  cockpit eval diff <baseline-run.json> <candidate-run.json>    Compare two saved runs, no API calls
+
+Flags:
+  --variant <file>        Agent variant (YAML/JSON); default "current", the cockpit agent as configured
+  --baseline, --candidate compare: the two variants ("current" for the configured agent)
+  --judge                 Also grade rubrics with the LLM judge
+  --judge-model haiku|sonnet|opus
+  --record                Record the runs to the variants' cassettes instead of replaying them
+  --only <ids,tags>       Only these cases (by id or tag)
+  --concurrency <n>       Cases in flight at once (default: 2)
+  --out <dir>             Where runs and reports are written (default: reports/evals)
+  --json | --format text|json|markdown
+
+Exits with ${EXIT_CODES.evalFailed} when a case fails (run) or regresses (compare, diff).
+
+Examples:
+  cockpit eval run evals/datasets/cockpit.yaml
+  cockpit eval compare evals/datasets/cockpit.yaml --baseline current --candidate evals/variants/cockpit-concise.yaml --judge
+  cockpit eval diff reports/evals/cockpit-current-2026-10-01.json reports/evals/cockpit-cockpit-concise-2026-10-19.json
+`;
+
+const EVAL_ACTIONS = ["run", "compare", "diff"];
+const EVALS_DIR = path.join("reports", "evals");
+
+const STATUS_ICONS: Record<CaseResult["status"], string> = { passed: "✅", failed: "❌", error: "⚠️ " };
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "eval";
+}
+
+function variantFrom(value: string | undefined): EvalVariant {
+  return value === undefined || value === "current" ? CURRENT_VARIANT : loadVariant(value);
+}
+
+function printCase(output: Output, result: CaseResult) {
+  const judge = result.judge ? `, judge ${Math.round(result.judge.score * 100)}%` : "";
+  const detail = result.error
+    ? ` - ${result.error.split("\n")[0]}`
+    : `: checks ${Math.round(result.score * 100)}%${judge}, ${result.turns} turn(s), $${result.costUSD.toFixed(4)}`;
+  output.info(`   ${STATUS_ICONS[result.status]} ${result.id}${detail}`);
+}
+
+function saveRun(run: EvalRun, dir: string): string {
+  const stamp = run.startedAt.slice(0, 10);
+  const base = path.join(dir, `${slugify(run.dataset)}-${slugify(run.variant.name)}-${stamp}`);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(`${base}.json`, JSON.stringify(run, null, 2));
+  fs.writeFileSync(`${base}.md`, renderRunMarkdown(run));
+  return `${base}.json`;
+}
+
+function saveComparison(comparison: EvalComparison, dir: string): string {
+  const stamp = new Date().toISOString().slice(0, 10);
+  const file = path.join(
+    dir,
+    `${slugify(comparison.dataset)}-${slugify(comparison.baseline.name)}-vs-${slugify(comparison.candidate.name)}-${stamp}.md`
+  );
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, renderComparisonMarkdown(comparison));
+  return file;
+}
+
+function printComparison(output: Output, comparison: EvalComparison, file: string | null) {
+  output.result(comparison, () => {
+    const report = renderComparisonMarkdown(comparison);
+    if (output.format === "markdown") {
+      console.log(report);
+      return;
+    }
+    console.log(`\n${report}`);
+    if (file) {
+      console.log(`💾 ${file}`);
+    }
+  });
+}
+
+async function runVariant(
+  output: Output,
+  runner: EvalRunner,
+  dataset: EvalDataset,
+  variant: EvalVariant,
+  options: { record: boolean; only: string[] }
+): Promise<EvalRun> {
+  output.info(`\n🧪 ${dataset.name} on ${variant.name}${variant.cassette && !options.record ? " (replayed)" : ""}`);
+  return runner.run(dataset, variant, { ...options, onCase: (result) => printCase(output, result) });
+}
+
+export async function evalCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, {
+    ...OUTPUT_OPTIONS,
+    variant: { type: "string" },
+    baseline: { type: "string" },
+    candidate: { type: "string" },
+    judge: { type: "boolean" },
+    "judge-model": { type: "string" },
+    record: { type: "boolean" },
+    only: { type: "string" },
+    concurrency: { type: "string" },
+    out: { type: "string" }
+  });
+  if (values.help) {
+    console.log(EVAL_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const [action, ...files] = positionals;
+  if (!action || !EVAL_ACTIONS.includes(action)) {
+    throw new CliError(action ? `Unknown eval action "${action}"` : "Missing eval action");
+  }
+  const dir = values.out ?? EVALS_DIR;
+
+  if (action === "diff") {
+    const [baselineFile, candidateFile] = files;
+    if (!baselineFile || !candidateFile) {
+      throw new CliError("eval diff needs a baseline and a candidate run file");
+    }
+    const comparison = compareRuns(readRun(baselineFile), readRun(candidateFile));
+    printComparison(output, comparison, null);
+    return comparison.regressed > 0 ? EXIT_CODES.evalFailed : 0;
+  }
+
+  const [datasetFile] = files;
+  if (!datasetFile) {
+    throw new CliError("Missing dataset file");
+  }
+  const dataset = loadDataset(datasetFile);
+  const runner = new EvalRunner({
+    concurrency: positiveIntFlag("concurrency", values.concurrency),
+    judge: values.judge,
+    judgeModel: modelFlag(values["judge-model"])
+  });
+  const options = { record: values.record ?? false, only: values.only?.split(",").map((item) => item.trim()) ?? [] };
+
+  if (action === "run") {
+    const run = await runVariant(output, runner, dataset, variantFrom(values.variant), options);
+    const file = saveRun(run, dir);
+    output.result(run, () => {
+      const report = renderRunMarkdown(run);
+      console.log(output.format === "markdown" ? report : `\n${report}\n💾 ${file}`);
+    });
+    return run.totals.passed === run.totals.cases ? 0 : EXIT_CODES.evalFailed;
+  }
+
+  if (!values.candidate) {
+    throw new CliError("eval compare needs --candidate <variant file>");
+  }
+  const baseline = await runVariant(output, runner, dataset, variantFrom(values.baseline), options);
+  const candidate = await runVariant(output, runner, dataset, variantFrom(values.candidate), options);
+  saveRun(baseline, dir);
+  saveRun(candidate, dir);
+  const comparison = compareRuns(baseline, candidate);
+  printComparison(output, comparison, saveComparison(comparison, dir));
+  return comparison.regressed > 0 ? EXIT_CODES.evalFailed : 0;
+}
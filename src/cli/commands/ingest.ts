@@ -0,0 +1,129 @@
+import { EXTRACTION_PRESETS } from "../../agents/extraction";
+import {
+  describeSource,
+  ExtractionPipeline,
+  renderExtractionMarkdown,
+  summarizeCorpus,
+  type ChunkReport,
+  type ExtractionResult
+} from "../../ingestion";
+import { CliError, EXIT_CODES, type ExitCode } from "../exit-codes";
+import { modelFlag, OUTPUT_OPTIONS, outputFor, parseCommand, positiveIntFlag } from "../flags";
+import type { Output } from "../output";
+
+/**
+ * `cockpit ingest` - converts folders of PDF / DOCX / XLSX / HTML /
+ * Markdown files to text chunks and, with --extract, runs extraction
+ * agents over the chunks in parallel (see src/ingestion).
+ */
+
+export const INGEST_USAGE = `
+Usage:
+  cockpit ingest <dir or file...>                       List the documents and chunks found
+  cockpit ingest <dir or file...> --extract <preset>    Extract items from every chunk in parallel
+
+Flags:
+  --extract <preset>      What to extract: ${Object.keys(EXTRACTION_PRESETS).join(", ")}
+  --concurrency <n>       Extraction runs in flight at once (default: INGEST_CONCURRENCY)
+  --chunk-chars <n>       Chunk size in characters (default: INGEST_CHUNK_CHARS)
+  --model haiku|sonnet|opus
+  --json | --format text|json|markdown
+
+Examples:
+  cockpit ingest rfps/acme
+  cockpit ingest rfps/acme --extract requirements --format markdown > acme-requirements.md
+`;
+
+function printChunk(output: Output, report: ChunkReport) {
+  if (report.status === "running") {
+    return;
+  }
+  const icon = report.status === "succeeded" ? "✅" : "❌";
+  const detail = report.error ? ` - ${report.error.split("\n")[0]}` : `, ${report.items} item(s)`;
+  output.info(`   ${icon} ${report.chunk} in ${(report.durationMs / 1000).toFixed(1)}s${detail}`);
+}
+
+/** One line per item: its scalar fields, then where it was found */
+function printItems(result: ExtractionResult<unknown>) {
+  for (const item of result.items) {
+    const value = item.value;
+    const fields =
+      value !== null && typeof value === "object"
+        ? Object.values(value).filter((field) => typeof field === "string" || typeof field === "number")
+        : [value];
+    console.log(`• ${fields.join(" · ")}`);
+    console.log(`    ↳ ${item.sources.map(describeSource).join("; ")}`);
+  }
+}
+
+export async function ingestCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, {
+    ...OUTPUT_OPTIONS,
+    extract: { type: "string" },
+    concurrency: { type: "string" },
+    "chunk-chars": { type: "string" },
+    model: { type: "string" }
+  });
+  if (values.help) {
+    console.log(INGEST_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  if (positionals.length === 0) {
+    throw new CliError("Missing directory or file to ingest");
+  }
+  const spec = values.extract === undefined ? null : EXTRACTION_PRESETS[values.extract];
+  if (spec === undefined) {
+    throw new CliError(`Unknown --extract preset "${values.extract}" (known: ${Object.keys(EXTRACTION_PRESETS).join(", ")})`);
+  }
+
+  const pipeline = new ExtractionPipeline({
+    concurrency: positiveIntFlag("concurrency", values.concurrency),
+    maxChars: positiveIntFlag("chunk-chars", values["chunk-chars"]),
+    model: modelFlag(values.model),
+    onDocument: (document, outcome) =>
+      output.info(outcome instanceof Error ? `   ⚠️  ${outcome.message.split("\n")[0]}` : `   📄 ${document} (${outcome.format})`),
+    onChunk: (report) => printChunk(output, report)
+  });
+
+  output.info(`📂 Reading ${positionals.join(", ")}`);
+  const corpus = await pipeline.ingest(positionals);
+  if (corpus.documents.length === 0) {
+    throw new CliError(`No readable documents in ${positionals.join(", ")}`, EXIT_CODES.invalidInput);
+  }
+
+  if (spec === null) {
+    const documents = summarizeCorpus(corpus);
+    output.result({ documents, chunks: corpus.chunks.length, failures: corpus.failures }, () => {
+      console.log(`\n📚 ${documents.length} document(s), ${corpus.chunks.length} chunk(s)`);
+      for (const doc of documents) {
+        const pages = doc.pages !== null ? `${doc.pages} ${doc.format === "xlsx" ? "sheet(s)" : "page(s)"}, ` : "";
+        console.log(`   ${doc.document.padEnd(40)} ${doc.format.padEnd(9)} ${pages}${doc.sections} section(s), ${doc.chunks} chunk(s)`);
+      }
+      for (const failure of corpus.failures) {
+        console.log(`   ❌ ${failure.document}: ${failure.error.split("\n")[0]}`);
+      }
+    });
+    return corpus.failures.length > 0 ? EXIT_CODES.invalidInput : 0;
+  }
+
+  output.info(`\n🧩 Extracting ${spec.name} from ${corpus.chunks.length} chunk(s)`);
+  const result = await pipeline.extract(corpus, spec);
+
+  output.result(result, () => {
+    if (output.format === "markdown") {
+      console.log(renderExtractionMarkdown(result));
+      return;
+    }
+    console.log("");
+    printItems(result);
+    console.log(
+      `\n📊 ${result.items.length} item(s) from ${result.documents.length} document(s) in ${(result.durationMs / 1000).toFixed(1)}s, $${result.costUSD.toFixed(4)}`
+    );
+    for (const failure of result.failures) {
+      console.log(`   ❌ ${failure.document}: ${failure.error.split("\n")[0]}`);
+    }
+  });
+  return result.chunks.some((report) => report.status === "failed") ? EXIT_CODES.execution : 0;
+}
@@ -0,0 +1,56 @@
+import { getConfig } from "../../config";
+import { aggregateSpans, parseSince, readSpans, renderMetricsMarkdown } from "../../telemetry";
+import { CliError, type ExitCode } from "../exit-codes";
+import { OUTPUT_OPTIONS, outputFor, parseCommand } from "../flags";
+
+export const METRICS_USAGE = `
+Usage:
+  cockpit metrics [--since 24h] [--agent <name>]   Aggregate the spans in TELEMETRY_FILE_PATH
+
+Cost per agent, run duration and error rate, tool latency (p50 / p95),
+outcomes by result subtype and spend per model. Spans are written there
+when TELEMETRY_EXPORTERS includes jsonl (the default).
+
+Flags:
+  --since <window>        30m, 24h, 7d or an ISO date (default: everything in the file)
+  --agent <name>          Only this agent's runs
+  --file <path>           Another span file
+  --json | --format text|json|markdown
+
+Examples:
+  cockpit metrics --since 7d
+  cockpit metrics --agent cockpit --json > metrics.json
+`;
+
+/**
+ * `cockpit metrics` - the run telemetry aggregated, as a data source for
+ * dashboards (--json) or a quick look in the terminal
+ */
+export async function metricsCommand(args: string[]): Promise<ExitCode> {
+  const { values } = parseCommand(args, {
+    ...OUTPUT_OPTIONS,
+    since: { type: "string" },
+    agent: { type: "string" },
+    file: { type: "string" }
+  });
+  if (values.help) {
+    console.log(METRICS_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const since = values.since === undefined ? undefined : parseSince(values.since);
+  if (since === null) {
+    throw new CliError(`--since must be like 30m, 24h, 7d or an ISO date, got "${values.since}"`);
+  }
+  const filePath = values.file ?? getConfig().telemetry.filePath;
+  const spans = readSpans(filePath, since).filter((span) => !values.agent || span.attributes["gen_ai.agent.name"] === values.agent);
+  const metrics = aggregateSpans(spans);
+
+  output.result({ file: filePath, since: since?.toISOString() ?? null, ...metrics }, () => {
+    const title = `Agent run metrics${values.agent ? `: ${values.agent}` : ""}`;
+    const report = renderMetricsMarkdown(metrics, title);
+    console.log(output.format === "markdown" ? report : `📈 ${filePath}\n\n${report}`);
+  });
+  return 0;
+}
@@ -0,0 +1,184 @@
+import { getConfig } from "../../config";
+import {
+  describeChange,
+  loadWatchlist,
+  MonitorScheduler,
+  type ScanRecord,
+  type WatchlistEntry
+} from "../../monitoring";
+import { TerminalRenderer } from "../../render";
+import { CliError, EXIT_CODES, type ExitCode } from "../exit-codes";
+import { OUTPUT_OPTIONS, outputFor, parseCommand } from "../flags";
+
+/**
+ * `cockpit monitor` - scheduled competitive monitoring over a watchlist
+ * (see src/monitoring). `run` is a single pass for cron; `watch` stays up
+ * and runs each entry on its own cadence.
+ */
+
+export const MONITOR_USAGE = `
+Usage:
+  cockpit monitor status              Watchlist entries with their last scan and next due time
+  cockpit monitor run [ids...]        Scan the entries that are due (or these ones, due or not)
+  cockpit monitor watch               Keep running: scan entries and send digests as they come due
+  cockpit monitor digest              Send the digest of the last days' scans now
+
+Flags:
+  --watchlist <file>    Watchlist JSON (default: MONITOR_WATCHLIST_PATH)
+  --all                 run: scan every enabled entry, due or not
+  --days <n>            digest: days covered (default: the watchlist's digest.days, else 7)
+  --dry-run             digest: print it without sending it to the sinks
+  -v, --verbose         Show full tool inputs and results
+  --json
+
+Alerts go to the watchlist's sinks only when a scan finds a material change (new or changed
+pricing, a new launch, a leadership change). The first scan of an entry records a baseline.
+`;
+
+const MONITOR_ACTIONS = ["status", "run", "watch", "digest"];
+
+const STATUS_ICONS: Record<ScanRecord["status"], string> = {
+  baseline: "📌",
+  unchanged: "✅",
+  changed: "🚨",
+  failed: "❌"
+};
+
+function printScan(print: (line: string) => void, record: ScanRecord) {
+  const material = record.changes.filter((change) => change.material);
+  const detail =
+    record.status === "failed"
+      ? ` - ${record.error?.split("\n")[0]}`
+      : record.status === "changed"
+        ? `, ${material.length} material change(s)`
+        : "";
+  print(`${STATUS_ICONS[record.status]} ${record.name}: ${record.status}${detail} ($${record.costUSD.toFixed(4)})`);
+  for (const change of material) {
+    print(`   • ${describeChange(change)}`);
+  }
+}
+
+function entriesById(scheduler: MonitorScheduler, ids: string[]): WatchlistEntry[] {
+  return ids.map((id) => {
+    const entry = scheduler.watchlist.entries.find((candidate) => candidate.id === id);
+    if (!entry) {
+      throw new CliError(`No watchlist entry "${id}" (known: ${scheduler.watchlist.entries.map((known) => known.id).join(", ")})`);
+    }
+    return entry;
+  });
+}
+
+function waitForSignal(): Promise<void> {
+  return new Promise((resolve) => {
+    const stop = () => {
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      resolve();
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+  });
+}
+
+export async function monitorCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, {
+    ...OUTPUT_OPTIONS,
+    watchlist: { type: "string" },
+    all: { type: "boolean" },
+    days: { type: "string" },
+    "dry-run": { type: "boolean" },
+    verbose: { type: "boolean", short: "v" }
+  });
+  if (values.help) {
+    console.log(MONITOR_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const [action, ...ids] = positionals;
+  if (!action || !MONITOR_ACTIONS.includes(action)) {
+    throw new CliError(action ? `Unknown monitor action "${action}"` : "Missing monitor action");
+  }
+  const config = getConfig();
+  const watchlist = loadWatchlist(values.watchlist ?? config.monitoring.watchlistPath);
+
+  // The agent answers in JSON for the snapshot parser, so only tool calls and status are shown
+  const renderer = new TerminalRenderer({ stream: output.progress, verbose: values.verbose, showText: false });
+  const scheduler = new MonitorScheduler({
+    appConfig: config,
+    watchlist,
+    events: renderer.events,
+    onScanStart: (entry) => renderer.log(`\n🔭 Scanning ${entry.name} (${entry.kind})`),
+    onScan: (record) => printScan((line) => renderer.log(line), record)
+  });
+
+  switch (action) {
+    case "status": {
+      const entries = scheduler.watchlist.entries.map((entry) => ({
+        ...entry,
+        last: scheduler.store.entryState(entry.id),
+        nextRunAt: entry.enabled ? scheduler.nextRunAt(entry).toISOString() : null
+      }));
+      const lastDigestAt = scheduler.store.lastDigestAt()?.toISOString() ?? null;
+      output.result({ entries, digest: watchlist.digest ?? null, lastDigestAt, sinks: scheduler.sinks.map((sink) => sink.name) }, () => {
+        console.log(`🔭 Watchlist: ${entries.length} entr${entries.length === 1 ? "y" : "ies"}, alerts to ${scheduler.sinks.map((sink) => sink.name).join(", ") || "nowhere"}`);
+        for (const entry of entries) {
+          const last = entry.last ? `${STATUS_ICONS[entry.last.lastStatus]} ${entry.last.lastStatus} ${entry.last.lastRunAt.slice(0, 16)}` : "never scanned";
+          const next = entry.nextRunAt ? `next ${entry.nextRunAt.slice(0, 16)}` : "disabled";
+          console.log(`   ${entry.id.padEnd(20)} ${entry.cadence.padEnd(14)} ${last.padEnd(36)} ${next}`);
+        }
+        if (watchlist.digest) {
+          console.log(`📰 Digest: ${watchlist.digest.cadence}, last sent ${lastDigestAt?.slice(0, 16) ?? "never"}`);
+        }
+      });
+      return 0;
+    }
+
+    case "run": {
+      const entries = ids.length > 0 ? entriesById(scheduler, ids) : values.all ? scheduler.entries : scheduler.due();
+      if (entries.length === 0) {
+        output.info("✅ Nothing is due");
+      }
+      let records: ScanRecord[];
+      try {
+        records = await scheduler.runDue(entries);
+      } finally {
+        renderer.stop();
+      }
+      output.result({ scans: records }, () => {
+        const changed = records.filter((record) => record.status === "changed").length;
+        console.log(`\n📊 ${records.length} scan(s), ${changed} with material changes, $${records.reduce((total, record) => total + record.costUSD, 0).toFixed(4)}`);
+      });
+      return records.some((record) => record.status === "failed") ? EXIT_CODES.execution : 0;
+    }
+
+    case "watch": {
+      const abortController = new AbortController();
+      output.info(`🔭 Watching ${scheduler.entries.length} entr${scheduler.entries.length === 1 ? "y" : "ies"} (Ctrl+C to stop)`);
+      const watching = scheduler.watch(abortController);
+      await Promise.race([watching, waitForSignal()]);
+      output.info("\n🛑 Stopping");
+      abortController.abort();
+      await watching;
+      renderer.stop();
+      return 0;
+    }
+
+    case "digest": {
+      const days = values.days === undefined ? undefined : Number(values.days);
+      if (days !== undefined && (!Number.isInteger(days) || days < 1)) {
+        throw new CliError("--days must be a positive integer");
+      }
+      const digest = values["dry-run"] ? scheduler.buildDigest(undefined, days) : await scheduler.sendDigest(undefined, days);
+      output.result(digest, () => {
+        if (values["dry-run"]) {
+          console.log(digest.markdown);
+        } else {
+          console.log(`📰 Digest sent to ${scheduler.sinks.map((sink) => sink.name).join(", ")}: ${digest.scans} scan(s), ${digest.changes} material change(s)`);
+        }
+      });
+      return 0;
+    }
+  }
+  return 0;
+}
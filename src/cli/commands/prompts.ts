@@ -0,0 +1,115 @@
+import { getPromptRegistry, type PromptValue, type PromptValues, type PromptVariable } from "../../prompts";
+import { CliError, type ExitCode } from "../exit-codes";
+import { OUTPUT_OPTIONS, outputFor, parseCommand } from "../flags";
+
+export const PROMPTS_USAGE = `
+Usage:
+  cockpit prompts [list]                        List the prompt templates and their versions
+  cockpit prompts show <id[@version]>           Show a template's metadata, variables and source
+  cockpit prompts render <id[@version]> [--var name=value ...]
+                                                Render a template as an agent would get it
+
+Templates are loaded from PROMPTS_DIR and checked on load; an invalid
+library exits with 65 and lists every problem.
+
+Flags:
+  --var name=value        A variable; lists are comma-separated, booleans true|false
+  --json | --format text|json|markdown
+
+Examples:
+  cockpit prompts show cockpit/system@1.0.0
+  cockpit prompts render examples/typescript-tutor --var level=beginner --var topics=generics,enums
+`;
+
+function parseVar(assignment: string, declared: Record<string, PromptVariable>): [string, PromptValue] {
+  const equals = assignment.indexOf("=");
+  if (equals < 1) {
+    throw new CliError(`--var must look like name=value, got "${assignment}"`);
+  }
+  const name = assignment.slice(0, equals);
+  const raw = assignment.slice(equals + 1);
+  switch (declared[name]?.type) {
+    case "number": {
+      const value = Number(raw);
+      if (raw.trim() === "" || !Number.isFinite(value)) {
+        throw new CliError(`--var ${name} must be a number`);
+      }
+      return [name, value];
+    }
+    case "boolean":
+      if (raw !== "true" && raw !== "false") {
+        throw new CliError(`--var ${name} must be true or false`);
+      }
+      return [name, raw === "true"];
+    case "list":
+      return [name, raw.split(",").map((item) => item.trim()).filter(Boolean)];
+    default:
+      // Unknown names are reported by render() along with the other problems
+      return [name, raw];
+  }
+}
+
+/**
+ * `cockpit prompts list|show|render` - inspect the prompt library in PROMPTS_DIR
+ */
+export async function promptsCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, { ...OUTPUT_OPTIONS, var: { type: "string", multiple: true } });
+  if (values.help) {
+    console.log(PROMPTS_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const registry = getPromptRegistry();
+  const [action = "list", ref] = positionals;
+  if (action !== "list" && !ref) {
+    throw new CliError(`prompts ${action} needs a prompt id`);
+  }
+
+  switch (action) {
+    case "list": {
+      const templates = registry.list().map(({ id, version, description, model, task, file }) => ({ id, version, description, model, task, file }));
+      output.result(templates, () => {
+        console.log(`📚 ${templates.length} template(s) in ${registry.root}`);
+        for (const template of templates) {
+          const hints = [template.model, template.task].filter(Boolean).join(", ");
+          console.log(`   ${template.id}@${template.version}${hints ? ` (${hints})` : ""}  ${template.description ?? ""}`.trimEnd());
+        }
+      });
+      return 0;
+    }
+
+    case "show": {
+      const template = registry.get(ref ?? "");
+      const { nodes: _nodes, ...shown } = { ...template, variables: registry.variables(ref ?? "") };
+      output.result(shown, () => {
+        console.log(`📝 ${template.id}@${template.version} (${template.file})`);
+        if (template.description) {
+          console.log(`   ${template.description}`);
+        }
+        for (const [name, variable] of Object.entries(shown.variables)) {
+          const requirement = variable.default !== undefined ? `default ${JSON.stringify(variable.default)}` : variable.required ? "required" : "optional";
+          console.log(`   {{${name}}}: ${variable.type}, ${requirement}${variable.description ? ` - ${variable.description}` : ""}`);
+        }
+        console.log(`\n${template.body}`);
+      });
+      return 0;
+    }
+
+    case "render": {
+      const declared = registry.variables(ref ?? "");
+      const variables: PromptValues = Object.fromEntries((values.var ?? []).map((assignment) => parseVar(assignment, declared)));
+      const rendered = registry.render(ref ?? "", variables);
+      output.result(rendered, () => {
+        if (output.format !== "markdown") {
+          console.log(`📝 ${rendered.stamp.id}@${rendered.stamp.version} #${rendered.stamp.hash}\n`);
+        }
+        console.log(rendered.text);
+      });
+      return 0;
+    }
+
+    default:
+      throw new CliError(`Unknown prompts action "${action}"`);
+  }
+}
@@ -0,0 +1,179 @@
+import fs from "fs";
+import path from "path";
+import {
+  PROPOSAL_SECTIONS,
+  proposalSchema,
+  ProposalAgent,
+  renderProposalDocx,
+  renderProposalMarkdown,
+  type DealBriefInput,
+  type Proposal,
+  type ProposalSectionId
+} from "../../agents/proposal";
+import type { ModelAlias } from "../../runtime";
+import { CliError, EXIT_CODES, type ExitCode } from "../exit-codes";
+import { modelFlag, OUTPUT_OPTIONS, outputFor, parseCommand } from "../flags";
+import type { Output } from "../output";
+
+/**
+ * `cockpit proposal` - drafts customer proposals from a deal brief.
+ *
+ * `draft` writes the proposal as JSON (brief + sections), Markdown and .docx
+ * to ./proposals. `regenerate` redrafts one section of a saved proposal and
+ * `render` re-renders it after a template change, without any model calls.
+ */
+
+export const PROPOSAL_USAGE = `
+Usage:
+  cockpit proposal draft <brief.json>
+  cockpit proposal regenerate <proposal.json> <section> [instructions...]
+  cockpit proposal render <proposal.json>
+
+Sections: ${PROPOSAL_SECTIONS.join(", ")}
+
+Flags:
+  --template <file.md>        Markdown template for the rendered proposal
+  --out <dir>                 Where drafts are written (default: proposals)
+  --model haiku|sonnet|opus
+  --json | --format text|json|markdown
+
+Examples:
+  cockpit proposal draft examples/briefs/acme-revenue-intelligence.json
+  cockpit proposal regenerate proposals/acme-corp-revenue-intelligence-rollout-<date>.json pricing "Emphasise the annual prepay discount"
+`;
+
+const PROPOSALS_DIR = "proposals";
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "proposal";
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new CliError(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`, EXIT_CODES.invalidInput);
+  }
+}
+
+function readProposal(file: string): Proposal {
+  const parsed = proposalSchema.safeParse(readJson(file));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new CliError(`${file} is not a saved proposal:\n${issues.join("\n")}`, EXIT_CODES.invalidInput);
+  }
+  return parsed.data;
+}
+
+function requireFile(file: string | undefined, what: string): string {
+  if (!file) {
+    throw new CliError(`Missing ${what} file`);
+  }
+  return file;
+}
+
+interface SavedProposal {
+  json: string;
+  markdown: string;
+  docx: string;
+}
+
+async function saveProposal(proposal: Proposal, base: string, templatePath?: string): Promise<{ files: SavedProposal; markdown: string }> {
+  const markdown = renderProposalMarkdown(proposal, { templatePath });
+  fs.mkdirSync(path.dirname(base), { recursive: true });
+  fs.writeFileSync(`${base}.json`, JSON.stringify(proposal, null, 2));
+  fs.writeFileSync(`${base}.md`, markdown);
+  fs.writeFileSync(`${base}.docx`, await renderProposalDocx(proposal, { templatePath }));
+
+  return { files: { json: `${base}.json`, markdown: `${base}.md`, docx: `${base}.docx` }, markdown };
+}
+
+function agent(output: Output, model: ModelAlias | undefined): ProposalAgent {
+  return new ProposalAgent({
+    model,
+    retry: {
+      onRetry: (info) =>
+        output.info(
+          info.escalatedTo
+            ? `   ⬆️  Escalating to ${info.escalatedTo} after ${info.kind}`
+            : `   🔁 Attempt ${info.attempt} failed (${info.kind}), retrying in ${(info.delayMs / 1000).toFixed(1)}s`
+        )
+    }
+  });
+}
+
+export async function proposalCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, {
+    ...OUTPUT_OPTIONS,
+    model: { type: "string" },
+    template: { type: "string" },
+    out: { type: "string" }
+  });
+  if (values.help) {
+    console.log(PROPOSAL_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const model = modelFlag(values.model);
+  const [action, file, section, ...rest] = positionals;
+
+  let proposal: Proposal;
+  let base: string;
+  switch (action) {
+    case "draft": {
+      const briefFile = requireFile(file, "deal brief");
+      output.info(`📝 Drafting proposal from ${briefFile}`);
+      output.info("=" + "=".repeat(50));
+
+      proposal = await agent(output, model).draft(readJson(briefFile) as DealBriefInput, {
+        onSection: (drafted) => output.info(`   ✍️  ${drafted.title} (${drafted.markdown.split(/\s+/).length} words)`)
+      });
+      const stamp = new Date().toISOString().slice(0, 10);
+      base = path.join(values.out ?? PROPOSALS_DIR, `${slugify(proposal.brief.customer.name)}-${slugify(proposal.brief.opportunity.title)}-${stamp}`);
+
+      output.info("=" + "=".repeat(50));
+      output.info(`💰 Drafting cost: $${proposal.costUSD.toFixed(4)}`);
+      break;
+    }
+
+    case "regenerate": {
+      const proposalFile = requireFile(file, "proposal");
+      if (!PROPOSAL_SECTIONS.includes(section as ProposalSectionId)) {
+        throw new CliError(section ? `Unknown section "${section}"` : "Missing section");
+      }
+      const instructions = rest.join(" ") || undefined;
+      output.info(`🔄 Regenerating "${section}" of ${proposalFile}`);
+      if (instructions) {
+        output.info(`   📌 ${instructions}`);
+      }
+
+      proposal = await agent(output, model).regenerateSection(readProposal(proposalFile), section as ProposalSectionId, instructions);
+      base = proposalFile.replace(/\.json$/, "");
+      output.info(`💰 Total drafting cost: $${proposal.costUSD.toFixed(4)}`);
+      break;
+    }
+
+    case "render": {
+      const proposalFile = requireFile(file, "proposal");
+      proposal = readProposal(proposalFile);
+      base = proposalFile.replace(/\.json$/, "");
+      break;
+    }
+
+    default:
+      throw new CliError(action ? `Unknown proposal action "${action}"` : "Missing proposal action");
+  }
+
+  const { files, markdown } = await saveProposal(proposal, base, values.template);
+  output.result({ proposal, files }, () => {
+    if (output.format === "markdown") {
+      console.log(markdown);
+      return;
+    }
+    console.log(`📄 Saved: ${files.markdown}`);
+    console.log(`📄 Saved: ${files.docx}`);
+    console.log(`📄 Saved: ${files.json}`);
+  });
+  return 0;
+}
@@ -0,0 +1,227 @@
+import fs from "fs";
+import path from "path";
+import { getConfig } from "../../config";
+import { TerminalRenderer } from "../../render";
+import { StructuredOutputError, type RetryOptions } from "../../runtime";
+import {
+  OrchestrationError,
+  ResearchOrchestrator,
+  SUBAGENT_ROLES,
+  type OrchestratorOptions,
+  type SubagentReport
+} from "../../agents/orchestrator";
+import {
+  ResearchAgent,
+  renderDossierMarkdown,
+  type ResearchReport,
+  type ResearchTarget
+} from "../../agents/research";
+import { CliError, type ExitCode } from "../exit-codes";
+import { maxTurnsFlag, modelFlag, OUTPUT_OPTIONS, outputFor, parseCommand } from "../flags";
+
+/**
+ * `cockpit research` - company, market and competitive research with
+ * schema-validated dossiers.
+ *
+ * Each run writes the dossier as JSON and Markdown (with numbered citations
+ * and a bibliography) plus the source ledger to ./reports.
+ *
+ * With ENABLE_SUBAGENTS=true the research is split across planner,
+ * retriever and synthesizer subagents (see src/agents/orchestrator);
+ * otherwise, or with --single, a single research agent does all of it.
+ */
+
+export const RESEARCH_USAGE = `
+Usage:
+  cockpit research company <name> [notes...]
+  cockpit research market <market or industry> [notes...]
+  cockpit research competitive <our company> <competitor, competitor, ...>
+
+Flags:
+  --out <dir>                 Where reports are written (default: reports)
+  --single                    One research agent instead of subagents
+  --model haiku|sonnet|opus   Model for the research agent (every subagent with subagents on)
+  --max-turns <n>             Turn budget of the research agent (each retriever with subagents on)
+  -v, --verbose               Show full tool inputs and results
+  --json | --format text|json|markdown
+
+Examples:
+  cockpit research company "Acme Corp"
+  cockpit research market "revenue intelligence software"
+  cockpit research competitive "Acme Corp" "Globex, Initech"
+  cockpit research company "Acme Corp" --format markdown > acme.md
+`;
+
+const REPORTS_DIR = "reports";
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "report";
+}
+
+function saveReport(report: ResearchReport, dir: string): { json: string; markdown: string; sources: string } {
+  const stamp = new Date().toISOString().slice(0, 10);
+  const base = path.join(dir, `${report.target.mode}-${slugify(report.target.subject)}-${stamp}`);
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(`${base}.json`, JSON.stringify(report.dossier, null, 2));
+  fs.writeFileSync(`${base}.md`, renderDossierMarkdown(report.dossier, { ledger: report.ledger }));
+  fs.writeFileSync(`${base}.sources.json`, JSON.stringify(report.ledger, null, 2));
+
+  return { json: `${base}.json`, markdown: `${base}.md`, sources: `${base}.sources.json` };
+}
+
+function subagentLabel(report: SubagentReport): string {
+  return report.taskId ? `${report.role}:${report.taskId}` : report.role;
+}
+
+function printSubagentStatus(renderer: TerminalRenderer, report: SubagentReport) {
+  if (report.status === "running") {
+    renderer.log(`   🤖 ${subagentLabel(report)} started (${report.model})`);
+  } else {
+    const icon = report.status === "succeeded" ? "✅" : "⚠️ ";
+    renderer.log(`   ${icon} ${subagentLabel(report)} ${report.status} in ${(report.durationMs / 1000).toFixed(1)}s, $${report.costUSD.toFixed(4)}`);
+  }
+}
+
+function printSubagentSummary(print: (line: string) => void, reports: SubagentReport[]) {
+  print("\n🤖 Subagents:");
+  for (const report of reports) {
+    const icon = report.status === "succeeded" ? "✅" : report.status === "failed" ? "❌" : "⏳";
+    const error = report.error ? ` - ${report.error.split("\n")[0]}` : "";
+    print(`   ${icon} ${subagentLabel(report).padEnd(28)} ${report.model.padEnd(28)} ${report.turns} turn(s)  $${report.costUSD.toFixed(4)}${error}`);
+  }
+}
+
+/** `company <name> [notes...]`, `market <name> [notes...]` or `competitive <ours> <a, b, ...>` */
+function parseTarget([mode, subject, ...rest]: string[]): ResearchTarget {
+  if (mode !== "company" && mode !== "market" && mode !== "competitive") {
+    throw new CliError(mode ? `Unknown research mode "${mode}"` : "Missing research mode");
+  }
+  if (!subject) {
+    throw new CliError(`Missing ${mode === "market" ? "market or industry" : "company name"}`);
+  }
+  if (mode !== "competitive") {
+    return { mode, subject, notes: rest.join(" ") || undefined };
+  }
+
+  // run-research.sh passes the comma-separated list unquoted, so rejoin and split on commas
+  const competitors = rest
+    .join(" ")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+  if (competitors.length === 0) {
+    throw new CliError("Competitive research needs at least one competitor");
+  }
+  return { mode, subject, competitors };
+}
+
+export async function researchCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, {
+    ...OUTPUT_OPTIONS,
+    model: { type: "string" },
+    "max-turns": { type: "string" },
+    verbose: { type: "boolean", short: "v" },
+    out: { type: "string" },
+    single: { type: "boolean" }
+  });
+  if (values.help) {
+    console.log(RESEARCH_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const model = modelFlag(values.model);
+  const maxTurns = maxTurnsFlag(values["max-turns"]);
+  const target = parseTarget(positionals);
+
+  output.info(`🔍 Starting ${target.mode} research: ${target.subject}`);
+  if (target.competitors?.length) {
+    output.info(`⚔️  Competitors: ${target.competitors.join(", ")}`);
+  }
+  output.info("=" + "=".repeat(50));
+
+  // The agents answer in JSON for the dossier parser, so only tool calls and status are shown
+  const renderer = new TerminalRenderer({ stream: output.progress, verbose: values.verbose, showText: false });
+  const retry: RetryOptions = {
+    resume: true,
+    onRetry: (info) => {
+      // Escalations are shown by the renderer as the new run starts
+      if (!info.escalatedTo) {
+        renderer.log(`   🔁 Attempt ${info.attempt} failed (${info.kind}), retrying in ${(info.delayMs / 1000).toFixed(1)}s`);
+      }
+    }
+  };
+  const { events } = renderer;
+
+  let report: ResearchReport;
+  let subagents: SubagentReport[] | null = null;
+  try {
+    if (getConfig().features.subagents && !values.single) {
+      const overrides: OrchestratorOptions["subagents"] = {};
+      for (const role of SUBAGENT_ROLES) {
+        overrides[role] = {
+          ...(model && { model }),
+          ...(maxTurns && (role === "retriever" || role === "extractor") && { maxTurns })
+        };
+      }
+      const orchestrated = await new ResearchOrchestrator({
+        retry,
+        events,
+        subagents: overrides,
+        onStatus: (status) => printSubagentStatus(renderer, status)
+      }).research(target);
+      report = orchestrated;
+      subagents = orchestrated.subagents;
+    } else {
+      report = await new ResearchAgent({ retry, events, model, maxTurns }).research(target);
+    }
+  } catch (error) {
+    renderer.stop();
+    if (error instanceof OrchestrationError) {
+      printSubagentSummary((line) => output.error(line), error.subagents);
+    } else if (error instanceof StructuredOutputError) {
+      output.error(`\n❌ Could not produce a valid dossier after ${error.attempts} attempt(s):`);
+      error.issues.forEach((issue) => output.error(`   - ${issue}`));
+    }
+    throw error;
+  } finally {
+    renderer.stop();
+  }
+
+  const files = saveReport(report, values.out ?? REPORTS_DIR);
+  const markdown = renderDossierMarkdown(report.dossier, { ledger: report.ledger });
+
+  output.result(
+    {
+      target: report.target,
+      dossier: report.dossier,
+      sources: report.ledger.sources,
+      attempts: report.attempts.length,
+      priorFindings: report.priorFindings.length,
+      costUSD: report.costUSD,
+      files,
+      ...(subagents && { subagents })
+    },
+    () => {
+      if (output.format === "markdown") {
+        console.log(markdown);
+        return;
+      }
+      console.log("\n" + markdown);
+      console.log("=" + "=".repeat(50));
+      console.log(`✅ Dossier validated after ${report.attempts.length} attempt(s)`);
+      if (subagents) {
+        printSubagentSummary((line) => console.log(line), subagents);
+      }
+      if (report.priorFindings.length > 0) {
+        console.log(`🧠 Started from ${report.priorFindings.length} prior finding(s) in the knowledge base`);
+      }
+      console.log(`💰 Cost: $${report.costUSD.toFixed(4)}`);
+      console.log(`📄 Saved: ${files.markdown}`);
+      console.log(`📄 Saved: ${files.json}`);
+      console.log(`📚 Sources: ${report.ledger.sources.length} (${files.sources})`);
+    }
+  );
+  return 0;
+}
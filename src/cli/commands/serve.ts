@@ -0,0 +1,88 @@
+import { getConfig } from "../../config";
+import { ApiServer, JobQueue, agentJobRunner, type JobSnapshot } from "../../server";
+import { CliError, EXIT_CODES, type ExitCode } from "../exit-codes";
+import { OUTPUT_OPTIONS, parseCommand, positiveIntFlag } from "../flags";
+
+export const SERVE_USAGE = `
+Usage:
+  cockpit serve   Run the HTTP API: submit agent runs as jobs and stream their messages over SSE
+
+Flags:
+  --host <host>          Interface to listen on (default: API_HOST, 127.0.0.1)
+  --port <port>          Port to listen on (default: API_PORT, 8787)
+  --concurrency <n>      Jobs running at once (default: API_CONCURRENCY)
+
+Endpoints:
+  GET  /health                   POST /runs              GET /runs?status=&limit=
+  GET  /runs/<id>                GET  /runs/<id>/events  POST /runs/<id>/cancel
+
+Example:
+  curl -s localhost:8787/runs -H 'Content-Type: application/json' -d '{"agent":"cockpit","prompt":"What can you do?","model":"haiku"}'
+`;
+
+function printStatus(job: JobSnapshot) {
+  const icons: Record<JobSnapshot["status"], string> = {
+    queued: "📥",
+    running: "🚀",
+    succeeded: "✅",
+    failed: "❌",
+    cancelled: "🛑"
+  };
+  const cost = job.status === "queued" || job.status === "running" ? "" : ` ($${job.costUSD.toFixed(4)})`;
+  const error = job.error ? ` - ${job.error.split("\n")[0]}` : "";
+  console.log(`${icons[job.status]} ${job.id.slice(0, 8)} ${job.agent} ${job.status}${cost}${error}`);
+}
+
+/**
+ * `cockpit serve` - the local HTTP API (see src/server). Runs until
+ * SIGINT / SIGTERM, then cancels running jobs and exits cleanly.
+ */
+export async function serveCommand(args: string[]): Promise<ExitCode> {
+  const { values } = parseCommand(args, {
+    ...OUTPUT_OPTIONS,
+    host: { type: "string" },
+    port: { type: "string" },
+    concurrency: { type: "string" }
+  });
+  if (values.help) {
+    console.log(SERVE_USAGE);
+    return 0;
+  }
+
+  const config = getConfig();
+  const host = values.host ?? config.api.host;
+  const port = positiveIntFlag("port", values.port) ?? config.api.port;
+  const concurrency = positiveIntFlag("concurrency", values.concurrency) ?? config.api.concurrency;
+
+  const loopback = host === "127.0.0.1" || host === "localhost" || host === "::1";
+  if (!config.api.token && !loopback) {
+    throw new CliError(`Set API_TOKEN to listen on ${host}: without it anyone who can reach the port can run agents`, EXIT_CODES.config);
+  }
+
+  const queue = new JobQueue(agentJobRunner(config), {
+    concurrency,
+    history: config.api.jobHistory,
+    onStatus: printStatus
+  });
+  const server = new ApiServer({ appConfig: config, queue });
+  const address = await server.listen(port, host);
+
+  console.log(`🌐 Phoenix OS Cockpit API on http://${host}:${address.port} (${concurrency} job(s) at a time)`);
+  if (!config.api.token) {
+    console.log("⚠️  No API_TOKEN: any local process can run agents through this server");
+  }
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      resolve();
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+  });
+
+  console.log("\n🛑 Shutting down: cancelling running jobs");
+  await server.close();
+  return 0;
+}
@@ -0,0 +1,78 @@
+import { getConfig } from "../../config";
+import { SessionStore } from "../../sessions";
+import { CliError, type ExitCode } from "../exit-codes";
+import { OUTPUT_OPTIONS, outputFor, parseCommand } from "../flags";
+
+export const SESSIONS_USAGE = `
+Usage:
+  cockpit sessions [list]        List saved sessions
+  cockpit sessions show <id>     Show a session's metadata and prompts
+  cockpit sessions delete <id>   Delete a saved session
+
+Session ids can be shortened to any unique prefix of at least 4 characters.
+
+Flags:
+  --json
+`;
+
+/**
+ * `cockpit sessions list|show|delete` - manage sessions saved under SESSION_STORAGE_PATH
+ */
+export async function sessionsCommand(args: string[]): Promise<ExitCode> {
+  const { values, positionals } = parseCommand(args, OUTPUT_OPTIONS);
+  if (values.help) {
+    console.log(SESSIONS_USAGE);
+    return 0;
+  }
+
+  const output = outputFor(values);
+  const store = SessionStore.fromConfig(getConfig());
+  const [action = "list", id] = positionals;
+
+  switch (action) {
+    case "list": {
+      const sessions = store.list();
+      output.result(sessions, () => {
+        if (sessions.length === 0) {
+          console.log(`📭 No saved sessions in ${store.dir}`);
+          return;
+        }
+        for (const session of sessions) {
+          const fork = session.parentId ? ` (fork of ${session.parentId.slice(0, 8)})` : "";
+          console.log(`💾 ${session.id}  ${session.updatedAt.slice(0, 16).replace("T", " ")}  ${session.agent}${fork}`);
+          console.log(`   ${session.title}`);
+          console.log(`   ${session.runs} run(s), ${session.turns} turn(s), $${session.costUSD.toFixed(4)}, last: ${session.lastSubtype ?? "-"}`);
+        }
+      });
+      return 0;
+    }
+
+    case "show": {
+      if (!id) {
+        throw new CliError("Missing session id: cockpit sessions show <id>");
+      }
+      const session = store.resolve(id);
+      const prompts = store.transcript(session.id).flatMap((entry) => (entry.type === "prompt" ? [{ at: entry.at, prompt: entry.prompt }] : []));
+      output.result({ ...session, prompts }, () => {
+        console.log(JSON.stringify(session, null, 2));
+        for (const entry of prompts) {
+          console.log(`\n📝 ${entry.at}: ${entry.prompt}`);
+        }
+      });
+      return 0;
+    }
+
+    case "delete": {
+      if (!id) {
+        throw new CliError("Missing session id: cockpit sessions delete <id>");
+      }
+      const session = store.resolve(id);
+      store.delete(session.id);
+      output.result({ deleted: session.id }, () => console.log(`🗑️  Deleted session ${session.id}`));
+      return 0;
+    }
+
+    default:
+      throw new CliError(`Unknown sessions action "${action}"`);
+  }
+}
@@ -0,0 +1,118 @@
+import type { SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
+import { OrchestrationError } from "../agents/orchestrator";
+import { DealBriefError, TemplateError } from "../agents/proposal";
+import { CatalogError } from "../compliance";
+import { ConfigError } from "../config";
+import { EvalError } from "../evals";
+import { IngestionError } from "../ingestion";
+import { WatchlistError } from "../monitoring";
+import { PromptError } from "../prompts";
+import { AgentRunError, StructuredOutputError, type FailureKind } from "../runtime";
+import { SessionError } from "../sessions";
+
+/**
+ * Process exit codes of the `cockpit` CLI, stable for scripts and CI.
+ * 64+ follow sysexits.h where one fits.
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  /** Anything not covered below */
+  failure: 1,
+  /** Unknown command, bad flag or missing argument */
+  usage: 2,
+  maxTurns: 3,
+  /** A RATE_LIMIT_* cap or maxBudgetUsd stopped the run */
+  budget: 4,
+  /** error_during_execution */
+  execution: 5,
+  /** The model never produced output that passed validation */
+  invalidOutput: 6,
+  auth: 7,
+  timeout: 8,
+  /** Overloaded, rate limited or network failures that outlasted the retries */
+  unavailable: 9,
+  /** `cockpit eval`: a case failed, or the candidate regressed */
+  evalFailed: 10,
+  aborted: 130,
+  /** Input file is malformed (deal brief, template, watchlist, ...) */
+  invalidInput: 65,
+  /** .env failed validation */
+  config: 78
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+/**
+ * Thrown by commands for problems with how they were invoked. The message
+ * is shown as-is, followed by the command's usage for usage errors.
+ */
+export class CliError extends Error {
+  readonly exitCode: ExitCode;
+
+  constructor(message: string, exitCode: ExitCode = EXIT_CODES.usage) {
+    super(message);
+    this.name = "CliError";
+    this.exitCode = exitCode;
+  }
+}
+
+export function exitCodeForSubtype(subtype: SDKResultMessage["subtype"] | null): ExitCode {
+  switch (subtype) {
+    case "success":
+      return EXIT_CODES.ok;
+    case "error_max_turns":
+      return EXIT_CODES.maxTurns;
+    case "error_max_budget_usd":
+      return EXIT_CODES.budget;
+    case "error_during_execution":
+      return EXIT_CODES.execution;
+    default:
+      return EXIT_CODES.failure;
+  }
+}
+
+const FAILURE_EXIT_CODES: Record<FailureKind, ExitCode> = {
+  timeout: EXIT_CODES.timeout,
+  aborted: EXIT_CODES.aborted,
+  overloaded: EXIT_CODES.unavailable,
+  network: EXIT_CODES.unavailable,
+  auth: EXIT_CODES.auth,
+  budget: EXIT_CODES.budget,
+  max_turns: EXIT_CODES.maxTurns,
+  execution: EXIT_CODES.execution,
+  unknown: EXIT_CODES.failure
+};
+
+/** Exit code for an error that ended a command */
+export function exitCodeForError(error: unknown): ExitCode {
+  if (error instanceof CliError) {
+    return error.exitCode;
+  }
+  if (error instanceof ConfigError) {
+    return EXIT_CODES.config;
+  }
+  if (error instanceof AgentRunError) {
+    return FAILURE_EXIT_CODES[error.kind];
+  }
+  if (error instanceof StructuredOutputError) {
+    return error.lastResult.success ? EXIT_CODES.invalidOutput : exitCodeForSubtype(error.lastResult.subtype);
+  }
+  if (error instanceof OrchestrationError) {
+    return error.cause !== undefined ? exitCodeForError(error.cause) : EXIT_CODES.failure;
+  }
+  if (
+    error instanceof DealBriefError ||
+    error instanceof TemplateError ||
+    error instanceof WatchlistError ||
+    error instanceof IngestionError ||
+    error instanceof CatalogError ||
+    error instanceof EvalError ||
+    error instanceof PromptError
+  ) {
+    return EXIT_CODES.invalidInput;
+  }
+  if (error instanceof SessionError) {
+    return EXIT_CODES.usage;
+  }
+  return EXIT_CODES.failure;
+}
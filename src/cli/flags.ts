@@ -0,0 +1,79 @@
+import { parseArgs, type ParseArgsOptionsConfig } from "util";
+import { MODEL_ALIASES, type ModelAlias } from "../config";
+import { CliError } from "./exit-codes";
+import { OUTPUT_FORMATS, Output, type OutputFormat } from "./output";
+
+/** Flags every command accepts */
+export const OUTPUT_OPTIONS = {
+  json: { type: "boolean" },
+  format: { type: "string" },
+  help: { type: "boolean", short: "h" }
+} as const satisfies ParseArgsOptionsConfig;
+
+/** Flags of commands that run an agent */
+export const AGENT_OPTIONS = {
+  model: { type: "string" },
+  "max-turns": { type: "string" },
+  tools: { type: "string" },
+  verbose: { type: "boolean", short: "v" }
+} as const satisfies ParseArgsOptionsConfig;
+
+/**
+ * Strict `util.parseArgs` for one command: unknown flags and missing values
+ * become usage errors (exit 2) instead of being ignored.
+ */
+export function parseCommand<const O extends ParseArgsOptionsConfig>(args: string[], options: O) {
+  try {
+    return parseArgs({ args, options, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** `--json` wins over `--format`; text by default */
+export function outputFor(values: { json?: boolean; format?: string }): Output {
+  if (values.json) {
+    return new Output("json");
+  }
+  if (values.format !== undefined && !OUTPUT_FORMATS.includes(values.format as OutputFormat)) {
+    throw new CliError(`--format must be one of ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  return new Output((values.format as OutputFormat | undefined) ?? "text");
+}
+
+export function modelFlag(value: string | undefined): ModelAlias | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!(MODEL_ALIASES as readonly string[]).includes(value)) {
+    throw new CliError(`--model must be one of ${MODEL_ALIASES.join(", ")}`);
+  }
+  return value as ModelAlias;
+}
+
+/** Value of `--<name>`, which must be a positive integer when given */
+export function positiveIntFlag(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new CliError(`--${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+export function maxTurnsFlag(value: string | undefined): number | undefined {
+  return positiveIntFlag("max-turns", value);
+}
+
+/** Comma-separated tool names, e.g. `--tools Read,Grep,WebSearch` */
+export function toolsFlag(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+}
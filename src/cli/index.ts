@@ -0,0 +1,157 @@
+import { getConfig } from "../config";
+import { Tracer } from "../telemetry";
+import { askCommand, ASK_USAGE } from "./commands/ask";
+import { budgetCommand, BUDGET_USAGE } from "./commands/budget";
+import { complianceCommand, COMPLIANCE_USAGE } from "./commands/compliance";
+import { configCommand, CONFIG_USAGE } from "./commands/config";
+import { evalCommand, EVAL_USAGE } from "./commands/eval";
+import { ingestCommand, INGEST_USAGE } from "./commands/ingest";
+import { metricsCommand, METRICS_USAGE } from "./commands/metrics";
+import { monitorCommand, MONITOR_USAGE } from "./commands/monitor";
+import { promptsCommand, PROMPTS_USAGE } from "./commands/prompts";
+import { proposalCommand, PROPOSAL_USAGE } from "./commands/proposal";
+import { researchCommand, RESEARCH_USAGE } from "./commands/research";
+import { serveCommand, SERVE_USAGE } from "./commands/serve";
+import { sessionsCommand, SESSIONS_USAGE } from "./commands/sessions";
+import { CliError, EXIT_CODES, exitCodeForError, type ExitCode } from "./exit-codes";
+import { OUTPUT_OPTIONS } from "./flags";
+
+export { CliError, EXIT_CODES, exitCodeForError, exitCodeForSubtype, type ExitCode } from "./exit-codes";
+export { Output, OUTPUT_FORMATS, type OutputFormat } from "./output";
+
+export const USAGE = `
+Phoenix OS Cockpit
+==================
+
+Usage:
+  cockpit <command> [flags]
+
+Commands:
+  ask [prompt...]                      Run the cockpit agent (prompt from stdin with "-" or a pipe)
+  research company|market|competitive  Research dossier with citations
+  proposal draft|regenerate|render     Customer proposal from a deal brief
+  monitor status|run|watch|digest      Competitive monitoring over a watchlist, with alerts
+  ingest <dir or file...>              Read PDF/DOCX/XLSX/HTML/Markdown files and extract from them
+  compliance <rfp dir or file...>      RFP compliance matrix (CSV/XLSX) against the capability catalog
+  eval run|compare|diff                Score agent variants on golden datasets, side by side
+  prompts list|show|render             Versioned prompt templates in PROMPTS_DIR
+  sessions list|show|delete            Saved sessions
+  budget                               Spend against the RATE_LIMIT_* caps
+  metrics                              Cost, latency and error rates from the run telemetry
+  config check                         Validate .env
+  serve                                HTTP API for agent runs, with server-sent events
+
+Flags:
+  --json                  Machine-readable result on stdout, progress on stderr
+  --format <format>       text (default), json or markdown
+  -h, --help              Help for a command
+
+Run \`cockpit <command> --help\` for the command's flags.
+`;
+
+interface Command {
+  run: (args: string[]) => Promise<ExitCode>;
+  usage: string;
+}
+
+const COMMANDS: Record<string, Command> = {
+  ask: { run: askCommand, usage: ASK_USAGE },
+  research: { run: researchCommand, usage: RESEARCH_USAGE },
+  proposal: { run: proposalCommand, usage: PROPOSAL_USAGE },
+  monitor: { run: monitorCommand, usage: MONITOR_USAGE },
+  ingest: { run: ingestCommand, usage: INGEST_USAGE },
+  compliance: { run: complianceCommand, usage: COMPLIANCE_USAGE },
+  eval: { run: evalCommand, usage: EVAL_USAGE },
+  prompts: { run: promptsCommand, usage: PROMPTS_USAGE },
+  sessions: { run: sessionsCommand, usage: SESSIONS_USAGE },
+  budget: { run: budgetCommand, usage: BUDGET_USAGE },
+  metrics: { run: metricsCommand, usage: METRICS_USAGE },
+  config: { run: configCommand, usage: CONFIG_USAGE },
+  serve: { run: serveCommand, usage: SERVE_USAGE }
+};
+
+/** Errors follow the output format even when the command failed before parsing its flags */
+function wantsJson(args: string[]): boolean {
+  const format = args.indexOf("--format");
+  return args.includes("--json") || args.includes("--format=json") || (format >= 0 && args[format + 1] === "json");
+}
+
+/** DEBUG from the config; off when loading the config is what failed */
+function debugEnabled(): boolean {
+  try {
+    return getConfig().debug;
+  } catch {
+    return false;
+  }
+}
+
+/** Global flags followed by a value, e.g. `--format json` */
+const VALUE_FLAGS = Object.entries(OUTPUT_OPTIONS)
+  .filter(([, option]) => option.type === "string")
+  .map(([name]) => `--${name}`);
+
+/** Position of the first argument that is neither a flag nor a global flag's value, or -1 */
+function commandIndex(argv: string[]): number {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] as string;
+    if (!arg.startsWith("-")) {
+      return i;
+    }
+    if (VALUE_FLAGS.includes(arg)) {
+      i++;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Runs one `cockpit` invocation and returns its exit code instead of
+ * exiting, so it can be driven from scripts and smoke tests.
+ *
+ * The command is the first argument that isn't a flag or the value of
+ * --format, so the global flags may also come before it. Errors are
+ * reported on stderr (or as `{ ok: false, error, exitCode }` on stdout
+ * under --json) and mapped to EXIT_CODES.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const index = commandIndex(argv);
+  const name = index >= 0 ? argv[index] : undefined;
+  const args = index >= 0 ? [...argv.slice(0, index), ...argv.slice(index + 1)] : argv;
+  const json = wantsJson(args);
+
+  if (name === undefined || name === "help") {
+    if (name === undefined && !args.includes("--help") && !args.includes("-h")) {
+      console.error(USAGE);
+      return EXIT_CODES.usage;
+    }
+    console.log(USAGE);
+    return EXIT_CODES.ok;
+  }
+
+  const command = COMMANDS[name];
+  try {
+    if (!command) {
+      throw new CliError(`Unknown command "${name}"`);
+    }
+    return await command.run(args);
+  } catch (error) {
+    const exitCode = exitCodeForError(error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (json) {
+      process.stdout.write(`${JSON.stringify({ ok: false, error: message, exitCode }, null, 2)}\n`);
+    } else {
+      console.error(`❌ ${message}`);
+      if (error instanceof CliError && exitCode === EXIT_CODES.usage) {
+        console.error(command?.usage ?? USAGE);
+      }
+    }
+    if (exitCode === EXIT_CODES.failure && !(error instanceof CliError) && debugEnabled()) {
+      console.error(error);
+    }
+    return exitCode;
+  } finally {
+    // Spans of the command's runs may still be on their way to a collector
+    await Tracer.flushAll();
+  }
+}
@@ -0,0 +1,49 @@
+export const OUTPUT_FORMATS = ["text", "json", "markdown"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Where a command writes. Progress is for humans: it goes to stdout in text
+ * mode and to stderr otherwise, so with `--json` / `--format markdown`
+ * stdout carries only the result and can be piped.
+ */
+export class Output {
+  readonly format: OutputFormat;
+
+  constructor(format: OutputFormat = "text") {
+    this.format = format;
+  }
+
+  get json(): boolean {
+    return this.format === "json";
+  }
+
+  /** Where progress goes, for writers that need the stream itself */
+  get progress(): NodeJS.WriteStream {
+    return this.format === "text" ? process.stdout : process.stderr;
+  }
+
+  /** Progress and status lines */
+  info(...args: unknown[]): void {
+    if (this.format === "text") {
+      console.log(...args);
+    } else {
+      console.error(...args);
+    }
+  }
+
+  error(...args: unknown[]): void {
+    console.error(...args);
+  }
+
+  /**
+   * The command's result: `value` as JSON under --json, otherwise whatever
+   * `human` prints (Markdown or text).
+   */
+  result(value: unknown, human: () => void): void {
+    if (this.json) {
+      process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+    } else {
+      human();
+    }
+  }
+}
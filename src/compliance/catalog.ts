@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { bm25Scores } from "../knowledge";
+
+/**
+ * The product capability catalog that RFP requirements are matched
+ * against: YAML or JSON files (one file or a directory of them) listing
+ * what the product does, how well, and where that is documented.
+ */
+
+export const CAPABILITY_STATUSES = ["available", "partial", "roadmap", "unsupported"] as const;
+
+const capabilitySchema = z
+  .object({
+    id: z.string().regex(/^[A-Za-z0-9_.-]+$/, "Use letters, digits, ., - and _"),
+    name: z.string().min(1),
+    description: z.string().min(1),
+    status: z.enum(CAPABILITY_STATUSES).default("available"),
+    /** Extra words requirements may use for this capability */
+    keywords: z.array(z.string()).default([]),
+    /** What is not covered, for partial answers */
+    limitations: z.string().optional(),
+    /** Planned release for roadmap items, e.g. "2026-Q3" */
+    roadmap: z.string().optional(),
+    /** Documentation, certificates or contract clauses backing the claim */
+    evidence: z.array(z.string()).default([])
+  })
+  .strict();
+
+const catalogFileSchema = z
+  .object({
+    product: z.string().optional(),
+    capabilities: z.array(capabilitySchema).min(1)
+  })
+  .strict();
+
+export type CapabilityStatus = (typeof CAPABILITY_STATUSES)[number];
+
+export interface Capability extends z.infer<typeof capabilitySchema> {
+  /** Catalog file the capability is defined in, relative to the catalog root */
+  file: string;
+}
+
+export interface CapabilityCatalog {
+  /** Directory the matching agent may read */
+  root: string;
+  files: string[];
+  products: string[];
+  capabilities: Capability[];
+}
+
+export class CatalogError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid capability catalog ${source}:\n  - ${issues.join("\n  - ")}`);
+    this.name = "CatalogError";
+    this.issues = issues;
+  }
+}
+
+const CATALOG_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+
+function catalogFiles(root: string): string[] {
+  const files: string[] = [];
+  const visit = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith(".")) {
+        continue;
+      }
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(fullPath);
+      } else if (entry.isFile() && CATALOG_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        files.push(path.relative(root, fullPath));
+      }
+    }
+  };
+  visit(root);
+  return files.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Loads a catalog file, or every .yaml / .yml / .json file under a
+ * directory. Capability ids must be unique across files.
+ *
+ * @throws CatalogError listing every problem found
+ */
+export function loadCatalog(catalogPath: string): CapabilityCatalog {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(catalogPath);
+  } catch {
+    throw new CatalogError(catalogPath, ["File or directory not found (set CAPABILITY_CATALOG_PATH)"]);
+  }
+  const root = path.resolve(stat.isDirectory() ? catalogPath : path.dirname(catalogPath));
+  const files = stat.isDirectory() ? catalogFiles(root) : [path.basename(catalogPath)];
+  if (files.length === 0) {
+    throw new CatalogError(catalogPath, ["No .yaml, .yml or .json files"]);
+  }
+
+  const issues: string[] = [];
+  const products: string[] = [];
+  const capabilities: Capability[] = [];
+  for (const file of files) {
+    let raw: unknown;
+    try {
+      const text = fs.readFileSync(path.join(root, file), "utf8");
+      raw = path.extname(file).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      issues.push(`${file}: cannot parse: ${error instanceof Error ? error.message.split("\n")[0] : String(error)}`);
+      continue;
+    }
+    const parsed = catalogFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      issues.push(...parsed.error.issues.map((issue) => `${file}: ${issue.path.join(".") || "(root)"}: ${issue.message}`));
+      continue;
+    }
+    if (parsed.data.product && !products.includes(parsed.data.product)) {
+      products.push(parsed.data.product);
+    }
+    capabilities.push(...parsed.data.capabilities.map((capability) => ({ ...capability, file })));
+  }
+
+  const seen = new Map<string, string>();
+  for (const capability of capabilities) {
+    const first = seen.get(capability.id);
+    if (first) {
+      issues.push(`${capability.file}: duplicate capability id "${capability.id}" (also in ${first})`);
+    }
+    seen.set(capability.id, capability.file);
+  }
+  if (issues.length > 0) {
+    throw new CatalogError(catalogPath, issues);
+  }
+  return { root, files, products, capabilities };
+}
+
+function searchText(capability: Capability): string {
+  return [capability.name, capability.description, capability.keywords.join(" "), capability.limitations ?? ""].join(" ");
+}
+
+/** Candidates scoring below this share of the best match are dropped as incidental word overlap */
+const MIN_RELATIVE_SCORE = 0.25;
+
+/** The `limit` capabilities that best match a requirement's wording (BM25), best first */
+export function candidateCapabilities(catalog: CapabilityCatalog, requirement: string, limit = 5): Capability[] {
+  const scores = bm25Scores(requirement, catalog.capabilities.map(searchText));
+  const threshold = Math.max(0, ...scores) * MIN_RELATIVE_SCORE;
+  return catalog.capabilities
+    .map((capability, index) => ({ capability, score: scores[index] ?? 0 }))
+    .filter(({ score }) => score > 0 && score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ capability }) => capability);
+}
@@ -0,0 +1,207 @@
+import fs from "fs";
+import path from "path";
+import JSZip from "jszip";
+import type { ComplianceMatrix } from "./matrix";
+
+/**
+ * CSV and XLSX exports of a compliance matrix. The XLSX is written as
+ * plain OOXML parts (inline strings, one style for the header row) so no
+ * spreadsheet library is needed.
+ */
+
+const COLUMNS = [
+  { header: "ID", width: 10 },
+  { header: "Requirement", width: 60 },
+  { header: "Category", width: 14 },
+  { header: "Priority", width: 13 },
+  { header: "Status", width: 14 },
+  { header: "Justification", width: 60 },
+  { header: "Capabilities", width: 24 },
+  { header: "Evidence", width: 40 },
+  { header: "Source", width: 36 }
+] as const;
+
+const STATUS_LABELS: Record<string, string> = {
+  compliant: "Compliant",
+  partial: "Partial",
+  roadmap: "Roadmap",
+  not_supported: "Not supported",
+  unassessed: "Not assessed"
+};
+
+/** Header row, then one row per requirement */
+export function matrixTable(matrix: ComplianceMatrix): string[][] {
+  return [
+    COLUMNS.map((column) => column.header),
+    ...matrix.rows.map((row) => [
+      row.id,
+      row.requirement,
+      row.category,
+      row.priority,
+      STATUS_LABELS[row.status ?? "unassessed"] ?? "",
+      row.justification,
+      row.capabilities.join(", "),
+      row.evidence.join("; "),
+      row.source
+    ])
+  ];
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvCell(value: string): string {
+  // RFP text is untrusted: keep spreadsheets from evaluating it as a formula
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** RFC 4180 CSV with CRLF line ends and a BOM so Excel reads it as UTF-8 */
+export function toCsv(table: string[][]): string {
+  return "\ufeff" + table.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/** A worksheet of inline strings; the first row is styled as a frozen, filterable header */
+function worksheetXml(table: string[][], widths: number[]): string {
+  const lastCell = `${columnName(Math.max(0, (table[0]?.length ?? 1) - 1))}${Math.max(1, table.length)}`;
+  const rows = table.map((cells, rowIndex) => {
+    const style = rowIndex === 0 ? 1 : 2;
+    const xml = cells
+      .map(
+        (value, column) =>
+          `<c r="${columnName(column)}${rowIndex + 1}" t="inlineStr" s="${style}"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+      )
+      .join("");
+    return `<row r="${rowIndex + 1}">${xml}</row>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    `<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join("")}</cols>`,
+    `<sheetData>${rows.join("")}</sheetData>`,
+    `<autoFilter ref="A1:${lastCell}"/>`,
+    "</worksheet>"
+  ].join("");
+}
+
+const STYLES_XML = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf></cellXfs>',
+  "</styleSheet>"
+].join("");
+
+/** Workbook with the matrix sheet and a per-status summary sheet */
+export async function toXlsx(matrix: ComplianceMatrix): Promise<Buffer> {
+  const sheets = [
+    { name: "Compliance Matrix", table: matrixTable(matrix), widths: COLUMNS.map((column) => column.width) },
+    {
+      name: "Summary",
+      table: [
+        ["Status", "Requirements"],
+        ...Object.entries(matrix.summary).map(([status, count]) => [STATUS_LABELS[status] ?? status, String(count)])
+      ],
+      widths: [16, 14]
+    }
+  ];
+
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+      '<Default Extension="xml" ContentType="application/xml"/>',
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+      ...sheets.map(
+        (_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ),
+      "</Types>"
+    ].join("")
+  );
+  zip.file(
+    "_rels/.rels",
+    [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+      "</Relationships>"
+    ].join("")
+  );
+  zip.file(
+    "xl/workbook.xml",
+    [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+      `<sheets>${sheets.map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join("")}</sheets>`,
+      // Excel needs the filter range as a hidden defined name to show the dropdowns
+      `<definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">'Compliance Matrix'!$A$1:$${columnName(COLUMNS.length - 1)}$${Math.max(1, matrix.rows.length + 1)}</definedName></definedNames>`,
+      "</workbook>"
+    ].join("")
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      ...sheets.map(
+        (_, index) =>
+          `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      ),
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+      "</Relationships>"
+    ].join("")
+  );
+  zip.file("xl/styles.xml", STYLES_XML);
+  sheets.forEach((sheet, index) => zip.file(`xl/worksheets/sheet${index + 1}.xml`, worksheetXml(sheet.table, sheet.widths)));
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+/**
+ * Writes `<basePath>.csv`, `<basePath>.xlsx` and `<basePath>.json` (the
+ * full matrix, for re-rendering) and returns their paths.
+ */
+export async function writeComplianceMatrix(
+  matrix: ComplianceMatrix,
+  basePath: string
+): Promise<{ csv: string; xlsx: string; json: string }> {
+  fs.mkdirSync(path.dirname(basePath), { recursive: true });
+  const files = { csv: `${basePath}.csv`, xlsx: `${basePath}.xlsx`, json: `${basePath}.json` };
+  fs.writeFileSync(files.csv, toCsv(matrixTable(matrix)), "utf8");
+  fs.writeFileSync(files.xlsx, await toXlsx(matrix));
+  fs.writeFileSync(files.json, JSON.stringify(matrix, null, 2), "utf8");
+  return files;
+}
@@ -0,0 +1,17 @@
+export {
+  candidateCapabilities,
+  CAPABILITY_STATUSES,
+  CatalogError,
+  loadCatalog,
+  type Capability,
+  type CapabilityCatalog,
+  type CapabilityStatus
+} from "./catalog";
+export { matrixTable, toCsv, toXlsx, writeComplianceMatrix } from "./export";
+export {
+  ComplianceMatrixBuilder,
+  type BatchReport,
+  type ComplianceMatrix,
+  type ComplianceMatrixOptions,
+  type ComplianceRow
+} from "./matrix";
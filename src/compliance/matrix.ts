@@ -0,0 +1,232 @@
+import {
+  ComplianceAgent,
+  COMPLIANCE_STATUSES,
+  type ComplianceStatus,
+  type RequirementForAssessment
+} from "../agents/compliance";
+import { RFP_REQUIREMENTS, type RfpRequirement } from "../agents/extraction";
+import { BudgetGovernor } from "../budget";
+import { getConfig } from "../config";
+import {
+  describeSource,
+  ExtractionPipeline,
+  type ChunkReport,
+  type DocumentSummary,
+  type ExtractedItem,
+  type IngestFailure,
+  type IngestionError,
+  type ParsedDocument
+} from "../ingestion";
+import {
+  AgentRunError,
+  mapConcurrent,
+  StructuredOutputError,
+  type AgentRuntimeDeps,
+  type ModelAlias,
+  type RetryOptions,
+  type RunOptions
+} from "../runtime";
+import { candidateCapabilities, type CapabilityCatalog } from "./catalog";
+
+export interface ComplianceRow {
+  /** The RFP's own numbering, or R-001, R-002, ... in document order */
+  id: string;
+  requirement: string;
+  category: RfpRequirement["category"];
+  priority: RfpRequirement["priority"];
+  /** Where the requirement was read, e.g. "rfp.pdf, page 12 · 4.2 Security" */
+  source: string;
+  /** null when the requirement's batch could not be assessed */
+  status: ComplianceStatus | null;
+  justification: string;
+  capabilities: string[];
+  evidence: string[];
+}
+
+export interface ComplianceMatrix {
+  generatedAt: string;
+  documents: DocumentSummary[];
+  catalog: { root: string; files: string[]; products: string[] };
+  rows: ComplianceRow[];
+  /** Rows per status; `unassessed` counts rows whose batch failed */
+  summary: Record<ComplianceStatus | "unassessed", number>;
+  /** Unreadable files, failed extraction chunks and failed assessment batches */
+  failures: IngestFailure[];
+  costUSD: number;
+  durationMs: number;
+}
+
+export interface BatchReport {
+  batch: number;
+  requirements: number;
+  status: "running" | "succeeded" | "failed";
+  costUSD: number;
+  durationMs: number;
+  error: string | null;
+}
+
+export interface ComplianceMatrixOptions extends AgentRuntimeDeps {
+  catalog: CapabilityCatalog;
+  /** Extraction and assessment runs in flight at once (default INGEST_CONCURRENCY) */
+  concurrency?: number;
+  /** Requirements per assessment run (default COMPLIANCE_BATCH_SIZE) */
+  batchSize?: number;
+  /** Chunk size for extraction (default INGEST_CHUNK_CHARS) */
+  maxChars?: number;
+  /** Model for the assessments; extraction is routed on its own */
+  model?: ModelAlias;
+  /** Retries for overloaded / network failures; `false` fails on the first error */
+  retry?: RetryOptions | false;
+  onDocument?: (document: string, outcome: ParsedDocument | IngestionError) => void;
+  onChunk?: (report: ChunkReport) => void;
+  onBatch?: (report: BatchReport) => void;
+}
+
+/** Candidate capabilities shown with each requirement */
+const CANDIDATES_PER_REQUIREMENT = 5;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** What the runs behind a failed assessment cost, as far as the error tells */
+function failedCost(error: unknown): number {
+  const runs = error instanceof AgentRunError ? error.attempts : error instanceof StructuredOutputError ? error.results : [];
+  return runs.reduce((total, attempt) => total + attempt.stats.costUSD, 0);
+}
+
+/**
+ * RFP compliance matrix workflow:
+ *
+ * 1. the ingestion pipeline extracts every requirement from the RFP files,
+ *    with the page / section it was read from
+ * 2. each requirement gets its closest catalog capabilities by BM25
+ * 3. compliance agents, confined to the catalog directory, classify the
+ *    requirements in batches (in parallel) as compliant, partial, roadmap
+ *    or not supported, with a justification and evidence
+ *
+ * A batch that fails leaves its rows unassessed and is listed in
+ * `failures`; the rest of the matrix is still built.
+ */
+export class ComplianceMatrixBuilder {
+  readonly catalog: CapabilityCatalog;
+  private pipeline: ExtractionPipeline;
+  private agent: ComplianceAgent;
+  private concurrency: number;
+  private batchSize: number;
+  private onBatch: ((report: BatchReport) => void) | undefined;
+
+  constructor(options: ComplianceMatrixOptions) {
+    const { catalog, concurrency, batchSize, maxChars, model, retry, onDocument, onChunk, onBatch, ...deps } = options;
+    const appConfig = deps.appConfig ?? getConfig();
+    // One governor for every run so the request rate is paced across them
+    const shared: AgentRuntimeDeps = {
+      ...deps,
+      appConfig,
+      budget: deps.budget === undefined ? BudgetGovernor.fromConfig(appConfig) : deps.budget
+    };
+    this.catalog = catalog;
+    this.concurrency = Math.max(1, concurrency ?? appConfig.ingestion.concurrency);
+    this.batchSize = Math.max(1, batchSize ?? appConfig.compliance.batchSize);
+    this.pipeline = new ExtractionPipeline({ ...shared, concurrency: this.concurrency, maxChars, retry, onDocument, onChunk });
+    this.agent = new ComplianceAgent(catalog, { ...shared, model, retry });
+    this.onBatch = onBatch;
+  }
+
+  /** Extracts the requirements from the RFP files and assesses them */
+  async build(inputs: string[], run?: RunOptions): Promise<ComplianceMatrix> {
+    const started = Date.now();
+    const extraction = await this.pipeline.run(inputs, RFP_REQUIREMENTS, run);
+    const assessed = await this.assess(extraction.items, run);
+    return {
+      ...assessed,
+      documents: extraction.documents,
+      failures: [...extraction.failures, ...assessed.failures],
+      costUSD: extraction.costUSD + assessed.costUSD,
+      durationMs: Date.now() - started
+    };
+  }
+
+  /** Assesses already extracted requirements */
+  async assess(items: Array<ExtractedItem<RfpRequirement>>, run?: RunOptions): Promise<ComplianceMatrix> {
+    const started = Date.now();
+    const rows: ComplianceRow[] = items.map((item, index) => ({
+      id: item.value.id ?? `R-${String(index + 1).padStart(3, "0")}`,
+      requirement: item.value.requirement,
+      category: item.value.category,
+      priority: item.value.priority,
+      source: item.sources.map(describeSource).join("; "),
+      status: null,
+      justification: "",
+      capabilities: [],
+      evidence: []
+    }));
+
+    const batches: Array<Array<{ row: ComplianceRow; input: RequirementForAssessment }>> = [];
+    items.forEach((item, index) => {
+      if (index % this.batchSize === 0) {
+        batches.push([]);
+      }
+      const candidates = candidateCapabilities(this.catalog, item.value.requirement, CANDIDATES_PER_REQUIREMENT);
+      batches[batches.length - 1]?.push({ row: rows[index] as ComplianceRow, input: { requirement: item.value, candidates } });
+    });
+
+    const failures: IngestFailure[] = [];
+    const costs = await mapConcurrent(batches, this.concurrency, async (batch, index) => {
+      const report: BatchReport = {
+        batch: index + 1,
+        requirements: batch.length,
+        status: "running",
+        costUSD: 0,
+        durationMs: 0,
+        error: null
+      };
+      const batchStarted = Date.now();
+      this.onBatch?.({ ...report });
+      try {
+        const { assessments, costUSD } = await this.agent.assess(
+          batch.map(({ input }) => input),
+          run
+        );
+        for (const assessment of assessments) {
+          const row = batch[assessment.ref - 1]?.row;
+          if (row) {
+            row.status = assessment.status;
+            row.justification = assessment.justification;
+            row.capabilities = assessment.capabilityIds;
+            row.evidence = assessment.evidence;
+          }
+        }
+        report.status = "succeeded";
+        report.costUSD = costUSD;
+      } catch (error) {
+        report.status = "failed";
+        report.error = errorMessage(error);
+        report.costUSD = failedCost(error);
+        failures.push({ document: `assessment batch ${index + 1} (${batch.map(({ row }) => row.id).join(", ")})`, error: report.error });
+        for (const { row } of batch) {
+          row.justification = `Not assessed: ${report.error.replace(/\s*\n\s*(?:- )?/g, " ")}`;
+        }
+      }
+      report.durationMs = Date.now() - batchStarted;
+      this.onBatch?.({ ...report });
+      return report.costUSD;
+    });
+
+    const summary = Object.fromEntries([...COMPLIANCE_STATUSES, "unassessed"].map((status) => [status, 0])) as ComplianceMatrix["summary"];
+    for (const row of rows) {
+      summary[row.status ?? "unassessed"]++;
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      documents: [],
+      catalog: { root: this.catalog.root, files: this.catalog.files, products: this.catalog.products },
+      rows,
+      summary,
+      failures,
+      costUSD: costs.reduce((total, cost) => total + cost, 0),
+      durationMs: Date.now() - started
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+
+/**
+ * Resolves the ordered list of env files for an environment.
+ *
+ * Later files override earlier ones:
+ *   .env → .env.local → .env.<NODE_ENV> → .env.<NODE_ENV>.local
+ *
+ * `.env.local` is skipped for NODE_ENV=test so test runs stay reproducible.
+ */
+export function envFileChain(nodeEnv: string): string[] {
+  const files = [".env"];
+  if (nodeEnv !== "test") {
+    files.push(".env.local");
+  }
+  files.push(`.env.${nodeEnv}`, `.env.${nodeEnv}.local`);
+  return files;
+}
+
+function readEnvFile(filePath: string): Record<string, string> {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+  return dotenv.parse(fs.readFileSync(filePath));
+}
+
+export interface LoadedEnvFiles {
+  values: Record<string, string>;
+  loadedFiles: string[];
+}
+
+/**
+ * Reads `.env` plus the per-environment overlays from `cwd`.
+ *
+ * NODE_ENV is taken from the process environment first, then from the base
+ * `.env` file, so the overlay for the active environment is always applied.
+ */
+export function loadEnvFiles(cwd: string, processEnv: NodeJS.ProcessEnv): LoadedEnvFiles {
+  const base = readEnvFile(path.join(cwd, ".env"));
+  const nodeEnv = processEnv.NODE_ENV || base.NODE_ENV || "development";
+
+  const values: Record<string, string> = {};
+  const loadedFiles: string[] = [];
+
+  for (const file of envFileChain(nodeEnv)) {
+    const filePath = path.join(cwd, file);
+    if (fs.existsSync(filePath)) {
+      Object.assign(values, readEnvFile(filePath));
+      loadedFiles.push(file);
+    }
+  }
+
+  return { values, loadedFiles };
+}
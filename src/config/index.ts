@@ -0,0 +1,125 @@
+import type { Options } from "@anthropic-ai/claude-agent-sdk";
+import type { ZodIssue } from "zod";
+import { loadEnvFiles } from "./env-files";
+import { envSchema, toAppConfig, type AppConfig } from "./schema";
+
+export type { AppConfig, CassetteMode, CrmProvider, LogLevel, ModelAlias, NodeEnv, TelemetryExporterName } from "./schema";
+export { DEFAULT_CLAUDE_MODEL, MODEL_ALIASES, TELEMETRY_EXPORTERS } from "./schema";
+export { envFileChain } from "./env-files";
+
+/**
+ * Thrown when the environment fails validation.
+ * `issues` holds one human-readable line per invalid or missing key.
+ */
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+function formatIssue(issue: ZodIssue): string {
+  const key = issue.path.join(".") || "(root)";
+  return `${key}: ${issue.message}`;
+}
+
+export interface LoadConfigOptions {
+  /** Directory containing the .env files (defaults to process.cwd()) */
+  cwd?: string;
+  /**
+   * Environment to read from. Defaults to process.env, which is also
+   * populated with the file values (without overriding existing keys) so the
+   * SDK subprocess inherits ANTHROPIC_API_KEY and friends.
+   */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Loads `.env` and its NODE_ENV overlays, validates every key and returns the
+ * typed configuration. Real environment variables always win over files.
+ *
+ * @throws ConfigError listing every invalid or missing key
+ */
+export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
+  const cwd = options.cwd ?? process.cwd();
+  const processEnv = options.env ?? process.env;
+  const { values } = loadEnvFiles(cwd, processEnv);
+
+  const merged: NodeJS.ProcessEnv = { ...values, ...processEnv };
+
+  if (!options.env) {
+    for (const [key, value] of Object.entries(values)) {
+      if (process.env[key] === undefined) {
+        process.env[key] = value;
+      }
+    }
+  }
+
+  const parsed = envSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new ConfigError(parsed.error.issues.map(formatIssue));
+  }
+
+  return toAppConfig(parsed.data);
+}
+
+let cachedConfig: AppConfig | undefined;
+
+/**
+ * Returns the process-wide configuration, loading it on first use.
+ */
+export function getConfig(): AppConfig {
+  if (!cachedConfig) {
+    cachedConfig = loadConfig();
+  }
+  return cachedConfig;
+}
+
+const WEB_TOOLS = ["WebSearch", "WebFetch"];
+const SUBAGENT_TOOLS = ["Task"];
+
+/**
+ * Builds SDK `Options` from configuration.
+ *
+ * Model, turn, thinking and per-run USD limits come from config unless overridden; feature
+ * flags turn into `disallowedTools` (ENABLE_WEB_SEARCH, ENABLE_SUBAGENTS) or
+ * drop `agents` / `mcpServers` (ENABLE_SUBAGENTS, ENABLE_MCP_SERVERS).
+ */
+export function buildQueryOptions(config: AppConfig, overrides: Options = {}): Options {
+  const options: Options = {
+    model: config.agent.model,
+    maxTurns: config.agent.maxTurns,
+    ...(config.agent.maxThinkingTokens !== undefined && {
+      maxThinkingTokens: config.agent.maxThinkingTokens
+    }),
+    ...(config.rateLimit.usdPerRun !== undefined && {
+      maxBudgetUsd: config.rateLimit.usdPerRun
+    }),
+    ...overrides
+  };
+
+  const blocked = [
+    ...(config.features.webSearch ? [] : WEB_TOOLS),
+    ...(config.features.subagents ? [] : SUBAGENT_TOOLS)
+  ];
+
+  if (blocked.length > 0) {
+    options.disallowedTools = Array.from(new Set([...(options.disallowedTools ?? []), ...blocked]));
+    if (options.allowedTools) {
+      options.allowedTools = options.allowedTools.filter((tool) => !blocked.includes(tool));
+    }
+  }
+
+  if (!config.features.subagents) {
+    delete options.agents;
+  }
+
+  if (!config.features.mcpServers) {
+    delete options.mcpServers;
+  }
+
+  return options;
+}
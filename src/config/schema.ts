@@ -0,0 +1,516 @@
+import path from "path";
+import { z } from "zod";
+
+/**
+ * Environment schema for Phoenix OS Cockpit.
+ *
+ * Every key documented in `.env.example` is declared here. Values arrive as
+ * raw strings from `.env` files / `process.env` and are coerced into typed
+ * values; empty strings are treated as "not set" so `HUBSPOT_API_KEY=` in a
+ * copied template behaves like an omitted key.
+ */
+
+const PLACEHOLDER_API_KEY = "your_api_key_here";
+
+// Treat "" (and whitespace-only) values as missing before validation
+const blankAsUndefined = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? undefined : value;
+
+const optionalString = z.preprocess(blankAsUndefined, z.string().trim().optional());
+
+const optionalUrl = z.preprocess(blankAsUndefined, z.string().trim().url().optional());
+
+const booleanFlag = (defaultValue: boolean) =>
+  z.preprocess(
+    blankAsUndefined,
+    z
+      .enum(["true", "false", "1", "0", "yes", "no", "on", "off"], {
+        errorMap: () => ({ message: "Expected a boolean (true/false, 1/0, yes/no, on/off)" })
+      })
+      .default(defaultValue ? "true" : "false")
+      .transform((value) => ["true", "1", "yes", "on"].includes(value))
+  );
+
+const positiveInt = () =>
+  z.coerce
+    .number({ invalid_type_error: "Expected an integer" })
+    .int("Expected an integer")
+    .positive("Expected a positive integer");
+
+const intWithDefault = (defaultValue: number) =>
+  z.preprocess(blankAsUndefined, positiveInt().default(defaultValue));
+
+const optionalInt = () => z.preprocess(blankAsUndefined, positiveInt().optional());
+
+const optionalUsd = () =>
+  z.preprocess(
+    blankAsUndefined,
+    z.coerce.number({ invalid_type_error: "Expected a USD amount" }).positive("Expected a positive USD amount").optional()
+  );
+
+// "name=value,name=value" (the OTEL_EXPORTER_OTLP_HEADERS format)
+const headerList = z.preprocess(
+  blankAsUndefined,
+  z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      const headers: Record<string, string> = {};
+      for (const pair of (value ?? "").split(",").filter((item) => item.trim().length > 0)) {
+        const equals = pair.indexOf("=");
+        if (equals < 1) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected name=value, got "${pair.trim()}"` });
+          return z.NEVER;
+        }
+        headers[pair.slice(0, equals).trim()] = decodeURIComponent(pair.slice(equals + 1).trim());
+      }
+      return headers;
+    })
+);
+
+const domainList = z.preprocess(
+  blankAsUndefined,
+  z
+    .string()
+    .optional()
+    .transform((value) =>
+      (value ?? "")
+        .split(",")
+        .map((domain) => domain.trim().toLowerCase())
+        .filter((domain) => domain.length > 0)
+    )
+);
+
+export const NODE_ENVS = ["development", "test", "production"] as const;
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export const CASSETTE_MODES = ["off", "record", "replay"] as const;
+export const CRM_PROVIDERS = ["auto", "hubspot", "salesforce", "fixture"] as const;
+export const TELEMETRY_EXPORTERS = ["console", "jsonl", "otlp"] as const;
+/** Model aliases, cheapest first */
+export const MODEL_ALIASES = ["haiku", "sonnet", "opus"] as const;
+/** Model of unrouted runs when CLAUDE_MODEL is not set */
+export const DEFAULT_CLAUDE_MODEL = "claude-sonnet-4-5-20250929";
+
+// Comma-separated exporter names; "none" turns telemetry off
+const telemetryExporters = z.preprocess(
+  blankAsUndefined,
+  z
+    .string()
+    .default("jsonl")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((name) => name.trim().toLowerCase())
+        .filter((name) => name.length > 0 && name !== "none")
+    )
+    .pipe(z.array(z.enum(TELEMETRY_EXPORTERS, { errorMap: () => ({ message: `Expected ${TELEMETRY_EXPORTERS.join(", ")} or none` }) })))
+);
+
+export const envSchema = z
+  .object({
+    // Claude API Configuration
+    // Required unless AGENT_CASSETTE_MODE=replay (checked below)
+    ANTHROPIC_API_KEY: z.preprocess(
+      blankAsUndefined,
+      z
+        .string()
+        .trim()
+        .refine((value) => value !== PLACEHOLDER_API_KEY, "Still set to the .env.example placeholder")
+        .optional()
+    ),
+
+    // Model Selection
+    // Unset: routed per task class (or DEFAULT_CLAUDE_MODEL with routing off); set: used for every run
+    CLAUDE_MODEL: optionalString,
+
+    // Model Routing
+    // Picks a model per task class and escalates on failure, up to the ceiling
+    ENABLE_MODEL_ROUTING: booleanFlag(true),
+    MODEL_ROUTING_CEILING: z.preprocess(blankAsUndefined, z.enum(MODEL_ALIASES).default("opus")),
+    // Below this share of an hourly / daily cap, routing steps down a tier and stops escalating
+    MODEL_ROUTING_LOW_BUDGET_PERCENT: z.preprocess(
+      blankAsUndefined,
+      z.coerce
+        .number({ invalid_type_error: "Expected a percentage" })
+        .min(0, "Expected a percentage from 0 to 100")
+        .max(100, "Expected a percentage from 0 to 100")
+        .default(20)
+    ),
+
+    // Agent Configuration
+    MAX_TURNS: intWithDefault(20),
+    MAX_THINKING_TOKENS: optionalInt(),
+    // Parallel retrieval subagents per orchestrated run (ENABLE_SUBAGENTS)
+    SUBAGENT_CONCURRENCY: intWithDefault(3),
+
+    // CRM Integration
+    HUBSPOT_API_KEY: optionalString,
+    SALESFORCE_CLIENT_ID: optionalString,
+    SALESFORCE_CLIENT_SECRET: optionalString,
+    SALESFORCE_INSTANCE_URL: optionalUrl,
+    // "auto" picks HubSpot, then Salesforce, then the fixture file, by which credentials are set
+    CRM_PROVIDER: z.preprocess(blankAsUndefined, z.enum(CRM_PROVIDERS).default("auto")),
+    CRM_FIXTURE_PATH: z.preprocess(blankAsUndefined, z.string().default("./fixtures/crm.json")),
+
+    // Document Ingestion
+    // Extraction runs in flight at once; each chunk is one run
+    INGEST_CONCURRENCY: intWithDefault(4),
+    INGEST_CHUNK_CHARS: intWithDefault(8000),
+
+    // Pre-sales Tools
+    LEAD_SCORING_RULES_PATH: z.preprocess(blankAsUndefined, z.string().default("./config/lead-scoring.json")),
+
+    // Compliance Matrix
+    // A catalog file or a directory of .yaml / .yml / .json files
+    CAPABILITY_CATALOG_PATH: z.preprocess(blankAsUndefined, z.string().default("./config/capabilities")),
+    COMPLIANCE_BATCH_SIZE: intWithDefault(8),
+
+    // Prompt Library
+    // Versioned system prompt templates and their shared fragments; the default
+    // is the prompts/ shipped with the package, so the CLI works from any directory
+    PROMPTS_DIR: z.preprocess(blankAsUndefined, z.string().default(path.resolve(__dirname, "../../prompts"))),
+
+    // Database Configuration
+    // Knowledge base: Postgres when DATABASE_URL is set, else this SQLite file
+    DATABASE_URL: optionalUrl,
+    KNOWLEDGE_DB_PATH: z.preprocess(blankAsUndefined, z.string().default("./data/knowledge.db")),
+
+    // Web Search
+    SEARCH_DOMAINS_WHITELIST: domainList,
+    SEARCH_DOMAINS_BLACKLIST: domainList,
+
+    // Monitoring & Logging
+    LOG_LEVEL: z.preprocess(blankAsUndefined, z.enum(LOG_LEVELS).default("info")),
+    AUDIT_LOG_PATH: z.preprocess(blankAsUndefined, z.string().default("./logs/audit.log")),
+    AUDIT_LOG_MAX_BYTES: intWithDefault(10 * 1024 * 1024),
+    AUDIT_LOG_MAX_FILES: intWithDefault(5),
+    // Run / turn / tool-call spans
+    TELEMETRY_EXPORTERS: telemetryExporters,
+    TELEMETRY_FILE_PATH: z.preprocess(blankAsUndefined, z.string().default("./logs/telemetry.jsonl")),
+    OTEL_EXPORTER_OTLP_ENDPOINT: z.preprocess(blankAsUndefined, z.string().trim().url().default("http://localhost:4318")),
+    // name=value pairs, comma-separated, e.g. "authorization=Bearer abc"
+    OTEL_EXPORTER_OTLP_HEADERS: headerList,
+    OTEL_SERVICE_NAME: z.preprocess(blankAsUndefined, z.string().trim().default("phoenix-os-cockpit")),
+
+    // Session Management
+    SESSION_STORAGE_PATH: z.preprocess(blankAsUndefined, z.string().default("./sessions")),
+    ENABLE_SESSION_PERSISTENCE: booleanFlag(true),
+
+    // Rate Limiting
+    RATE_LIMIT_REQUESTS_PER_MINUTE: intWithDefault(60),
+    RATE_LIMIT_TOKENS_PER_HOUR: intWithDefault(1_000_000),
+    RATE_LIMIT_TOKENS_PER_RUN: optionalInt(),
+    RATE_LIMIT_TOKENS_PER_DAY: optionalInt(),
+    RATE_LIMIT_USD_PER_RUN: optionalUsd(),
+    RATE_LIMIT_USD_PER_HOUR: optionalUsd(),
+    RATE_LIMIT_USD_PER_DAY: optionalUsd(),
+    RATE_LIMIT_STATE_PATH: z.preprocess(blankAsUndefined, z.string().default("./logs/usage.jsonl")),
+
+    // Competitive Monitoring (`cockpit monitor`)
+    MONITOR_WATCHLIST_PATH: z.preprocess(blankAsUndefined, z.string().default("./watchlist.json")),
+    // Latest snapshot per entry, scan history and schedule state
+    MONITOR_STATE_PATH: z.preprocess(blankAsUndefined, z.string().default("./data/monitoring")),
+
+    // API Server (`cockpit serve`)
+    API_HOST: z.preprocess(blankAsUndefined, z.string().trim().default("127.0.0.1")),
+    API_PORT: intWithDefault(8787),
+    // Jobs running at once; the rest wait in the queue
+    API_CONCURRENCY: intWithDefault(2),
+    // Finished jobs kept in memory for GET /runs
+    API_JOB_HISTORY: intWithDefault(200),
+    // Required as "Authorization: Bearer <token>" when set
+    API_TOKEN: optionalString,
+    // Access-Control-Allow-Origin for browser dashboards on another origin
+    API_CORS_ORIGIN: optionalString,
+
+    // Feature Flags
+    ENABLE_WEB_SEARCH: booleanFlag(true),
+    ENABLE_MCP_SERVERS: booleanFlag(true),
+    ENABLE_SUBAGENTS: booleanFlag(true),
+    ENABLE_MEMORY_PERSISTENCE: booleanFlag(true),
+
+    // Record / Replay
+    AGENT_CASSETTE_MODE: z.preprocess(blankAsUndefined, z.enum(CASSETTE_MODES).default("off")),
+    AGENT_CASSETTE_PATH: z.preprocess(blankAsUndefined, z.string().default("./cassettes/default.jsonl")),
+    AGENT_CASSETTE_STRICT: booleanFlag(true),
+
+    // Development
+    NODE_ENV: z.preprocess(blankAsUndefined, z.enum(NODE_ENVS).default("development")),
+    DEBUG: booleanFlag(false)
+  })
+  .superRefine((env, ctx) => {
+    // Replaying cassettes never reaches the API, so no key is needed
+    if (env.ANTHROPIC_API_KEY === undefined && env.AGENT_CASSETTE_MODE !== "replay") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["ANTHROPIC_API_KEY"],
+        message: "Required - get a key from https://console.anthropic.com"
+      });
+    }
+
+    if (env.CRM_PROVIDER === "hubspot" && env.HUBSPOT_API_KEY === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["HUBSPOT_API_KEY"],
+        message: "Required when CRM_PROVIDER=hubspot"
+      });
+    }
+    if (env.CRM_PROVIDER === "salesforce" && env.SALESFORCE_CLIENT_ID === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["SALESFORCE_CLIENT_ID"],
+        message: "Required when CRM_PROVIDER=salesforce"
+      });
+    }
+
+    // Salesforce credentials only make sense as a complete set
+    const salesforceKeys = ["SALESFORCE_CLIENT_ID", "SALESFORCE_CLIENT_SECRET", "SALESFORCE_INSTANCE_URL"] as const;
+    const provided = salesforceKeys.filter((key) => env[key] !== undefined);
+    if (provided.length > 0 && provided.length < salesforceKeys.length) {
+      for (const key of salesforceKeys) {
+        if (env[key] === undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: `Required when ${provided.join(", ")} ${provided.length === 1 ? "is" : "are"} set`
+          });
+        }
+      }
+    }
+  });
+
+export type RawEnv = z.infer<typeof envSchema>;
+
+export type NodeEnv = (typeof NODE_ENVS)[number];
+export type LogLevel = (typeof LOG_LEVELS)[number];
+export type TelemetryExporterName = (typeof TELEMETRY_EXPORTERS)[number];
+export type CassetteMode = (typeof CASSETTE_MODES)[number];
+export type CrmProvider = (typeof CRM_PROVIDERS)[number];
+export type ModelAlias = (typeof MODEL_ALIASES)[number];
+
+/**
+ * Typed application configuration derived from the environment.
+ */
+export interface AppConfig {
+  nodeEnv: NodeEnv;
+  debug: boolean;
+  /** Undefined only when replaying cassettes */
+  anthropicApiKey?: string;
+  agent: {
+    /** CLAUDE_MODEL, or DEFAULT_CLAUDE_MODEL when it is not set */
+    model: string;
+    /** CLAUDE_MODEL was set: it overrides the routing policy for agents without a model of their own */
+    modelPinned: boolean;
+    maxTurns: number;
+    maxThinkingTokens?: number;
+    subagentConcurrency: number;
+  };
+  routing: {
+    enabled: boolean;
+    /** Strongest model escalation may reach */
+    ceiling: ModelAlias;
+    /** 0-1; below this share of any hourly / daily cap, routing prefers cheaper models */
+    lowBudgetShare: number;
+  };
+  crm: {
+    provider: CrmProvider;
+    fixturePath: string;
+    hubspotApiKey?: string;
+    salesforce?: {
+      clientId: string;
+      clientSecret: string;
+      instanceUrl: string;
+    };
+  };
+  ingestion: {
+    concurrency: number;
+    /** Upper bound on the text of one extraction chunk */
+    chunkChars: number;
+  };
+  presales: {
+    /** Weighted rules for the score_lead tool */
+    leadScoringRulesPath: string;
+  };
+  compliance: {
+    /** Capability catalog RFP requirements are matched against */
+    catalogPath: string;
+    /** Requirements classified per agent run */
+    batchSize: number;
+  };
+  prompts: {
+    /** Directory of versioned prompt templates (see src/prompts) */
+    dir: string;
+  };
+  databaseUrl?: string;
+  knowledge: {
+    /** SQLite file used when no DATABASE_URL is set */
+    dbPath: string;
+  };
+  search: {
+    domainWhitelist: string[];
+    domainBlacklist: string[];
+  };
+  logging: {
+    level: LogLevel;
+    auditLogPath: string;
+    /** Rotate the audit log once it would grow past this many bytes */
+    auditMaxBytes: number;
+    /** Rotated audit files kept next to the live one */
+    auditMaxFiles: number;
+  };
+  telemetry: {
+    /** Where run / turn / tool spans are exported; empty turns tracing off */
+    exporters: TelemetryExporterName[];
+    /** File of the jsonl exporter, read by `cockpit metrics` */
+    filePath: string;
+    /** OTLP/HTTP collector base URL (spans are POSTed to <endpoint>/v1/traces) */
+    otlpEndpoint: string;
+    otlpHeaders: Record<string, string>;
+    serviceName: string;
+  };
+  sessions: {
+    storagePath: string;
+    persistenceEnabled: boolean;
+  };
+  rateLimit: {
+    requestsPerMinute: number;
+    tokensPerHour: number;
+    tokensPerRun?: number;
+    tokensPerDay?: number;
+    usdPerRun?: number;
+    usdPerHour?: number;
+    usdPerDay?: number;
+    /** Usage ledger shared by every process, so hourly / daily caps hold across runs */
+    statePath: string;
+  };
+  monitoring: {
+    watchlistPath: string;
+    /** Directory with snapshots, scan history and schedule state */
+    statePath: string;
+  };
+  api: {
+    host: string;
+    port: number;
+    concurrency: number;
+    /** Finished jobs kept in memory, oldest dropped first */
+    jobHistory: number;
+    token?: string;
+    corsOrigin?: string;
+  };
+  features: {
+    webSearch: boolean;
+    mcpServers: boolean;
+    subagents: boolean;
+    memoryPersistence: boolean;
+  };
+  replay: {
+    mode: CassetteMode;
+    cassettePath: string;
+    strict: boolean;
+  };
+}
+
+export function toAppConfig(env: RawEnv): AppConfig {
+  return {
+    nodeEnv: env.NODE_ENV,
+    debug: env.DEBUG,
+    anthropicApiKey: env.ANTHROPIC_API_KEY,
+    agent: {
+      model: env.CLAUDE_MODEL ?? DEFAULT_CLAUDE_MODEL,
+      modelPinned: env.CLAUDE_MODEL !== undefined,
+      maxTurns: env.MAX_TURNS,
+      maxThinkingTokens: env.MAX_THINKING_TOKENS,
+      subagentConcurrency: env.SUBAGENT_CONCURRENCY
+    },
+    routing: {
+      enabled: env.ENABLE_MODEL_ROUTING,
+      ceiling: env.MODEL_ROUTING_CEILING,
+      lowBudgetShare: env.MODEL_ROUTING_LOW_BUDGET_PERCENT / 100
+    },
+    crm: {
+      provider: env.CRM_PROVIDER,
+      fixturePath: env.CRM_FIXTURE_PATH,
+      hubspotApiKey: env.HUBSPOT_API_KEY,
+      salesforce:
+        env.SALESFORCE_CLIENT_ID && env.SALESFORCE_CLIENT_SECRET && env.SALESFORCE_INSTANCE_URL
+          ? {
+              clientId: env.SALESFORCE_CLIENT_ID,
+              clientSecret: env.SALESFORCE_CLIENT_SECRET,
+              instanceUrl: env.SALESFORCE_INSTANCE_URL
+            }
+          : undefined
+    },
+    ingestion: {
+      concurrency: env.INGEST_CONCURRENCY,
+      chunkChars: env.INGEST_CHUNK_CHARS
+    },
+    presales: {
+      leadScoringRulesPath: env.LEAD_SCORING_RULES_PATH
+    },
+    compliance: {
+      catalogPath: env.CAPABILITY_CATALOG_PATH,
+      batchSize: env.COMPLIANCE_BATCH_SIZE
+    },
+    prompts: {
+      dir: env.PROMPTS_DIR
+    },
+    databaseUrl: env.DATABASE_URL,
+    knowledge: {
+      dbPath: env.KNOWLEDGE_DB_PATH
+    },
+    search: {
+      domainWhitelist: env.SEARCH_DOMAINS_WHITELIST,
+      domainBlacklist: env.SEARCH_DOMAINS_BLACKLIST
+    },
+    logging: {
+      level: env.LOG_LEVEL,
+      auditLogPath: env.AUDIT_LOG_PATH,
+      auditMaxBytes: env.AUDIT_LOG_MAX_BYTES,
+      auditMaxFiles: env.AUDIT_LOG_MAX_FILES
+    },
+    telemetry: {
+      exporters: env.TELEMETRY_EXPORTERS,
+      filePath: env.TELEMETRY_FILE_PATH,
+      otlpEndpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT,
+      otlpHeaders: env.OTEL_EXPORTER_OTLP_HEADERS,
+      serviceName: env.OTEL_SERVICE_NAME
+    },
+    sessions: {
+      storagePath: env.SESSION_STORAGE_PATH,
+      persistenceEnabled: env.ENABLE_SESSION_PERSISTENCE
+    },
+    rateLimit: {
+      requestsPerMinute: env.RATE_LIMIT_REQUESTS_PER_MINUTE,
+      tokensPerHour: env.RATE_LIMIT_TOKENS_PER_HOUR,
+      tokensPerRun: env.RATE_LIMIT_TOKENS_PER_RUN,
+      tokensPerDay: env.RATE_LIMIT_TOKENS_PER_DAY,
+      usdPerRun: env.RATE_LIMIT_USD_PER_RUN,
+      usdPerHour: env.RATE_LIMIT_USD_PER_HOUR,
+      usdPerDay: env.RATE_LIMIT_USD_PER_DAY,
+      statePath: env.RATE_LIMIT_STATE_PATH
+    },
+    monitoring: {
+      watchlistPath: env.MONITOR_WATCHLIST_PATH,
+      statePath: env.MONITOR_STATE_PATH
+    },
+    api: {
+      host: env.API_HOST,
+      port: env.API_PORT,
+      concurrency: env.API_CONCURRENCY,
+      jobHistory: env.API_JOB_HISTORY,
+      token: env.API_TOKEN,
+      corsOrigin: env.API_CORS_ORIGIN
+    },
+    features: {
+      webSearch: env.ENABLE_WEB_SEARCH,
+      mcpServers: env.ENABLE_MCP_SERVERS,
+      subagents: env.ENABLE_SUBAGENTS,
+      memoryPersistence: env.ENABLE_MEMORY_PERSISTENCE
+    },
+    replay: {
+      mode: env.AGENT_CASSETTE_MODE,
+      cassettePath: env.AGENT_CASSETTE_PATH,
+      strict: env.AGENT_CASSETTE_STRICT
+    }
+  };
+}
@@ -0,0 +1,94 @@
+import readline from "readline";
+import type { HookCallback, HookJSONOutput } from "@anthropic-ai/claude-agent-sdk";
+import type { HookMap } from "../runtime/hooks";
+import { logDecision, type DecisionListener, type PermissionDecision } from "../permissions";
+import { CRM_WRITE_TOOLS } from "./tools";
+
+const POLICY = "crm-write";
+
+export interface CrmWriteRequest {
+  sessionId: string | null;
+  /** Full tool name, e.g. mcp__crm__crm_update_deal_stage */
+  tool: string;
+  input: Record<string, unknown>;
+}
+
+/** Answers whether a CRM write may go ahead */
+export type CrmWriteConfirmer = (request: CrmWriteRequest) => boolean | Promise<boolean>;
+
+/** Default confirmer: without someone to ask, CRM writes are refused */
+export const denyCrmWrites: CrmWriteConfirmer = () => false;
+
+/**
+ * Asks on the terminal (prompt on stderr, answer on stdin). Refuses when
+ * stdin is not interactive, so piped and scheduled runs never write.
+ */
+export const confirmOnTerminal: CrmWriteConfirmer = async ({ tool, input }) => {
+  if (!process.stdin.isTTY) {
+    return false;
+  }
+
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await new Promise<string>((resolve) =>
+      prompt.question(`\n✋ Allow ${tool.replace(/^mcp__crm__/, "")}?\n${JSON.stringify(input, null, 2)}\n[y/N] `, resolve)
+    );
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    prompt.close();
+  }
+};
+
+function describe(tool: string, input: Record<string, unknown>): string {
+  if (tool.endsWith("crm_update_deal_stage")) {
+    return `deal ${String(input.dealId)} -> ${String(input.stage)}`;
+  }
+  const target = input.dealId ?? input.companyId ?? input.contactId ?? "?";
+  return `${String(input.type)} on ${String(target)}: ${String(input.subject)}`;
+}
+
+/**
+ * PreToolUse hook that holds every CRM write tool for explicit confirmation.
+ * Denied writes are reported back to the model so it can tell the user what
+ * it would have changed instead of retrying. Read tools are not affected.
+ */
+export function createCrmConfirmationHooks(
+  confirm: CrmWriteConfirmer = denyCrmWrites,
+  onDecision: DecisionListener = logDecision
+): HookMap {
+  const decide = (decision: Omit<PermissionDecision, "timestamp" | "policy">) =>
+    onDecision({ ...decision, timestamp: new Date().toISOString(), policy: POLICY });
+
+  const beforeWrite: HookCallback = async (input, toolUseId): Promise<HookJSONOutput> => {
+    if (input.hook_event_name !== "PreToolUse") {
+      return {};
+    }
+
+    const toolInput = (input.tool_input ?? {}) as Record<string, unknown>;
+    const allowed = await confirm({ sessionId: input.session_id, tool: input.tool_name, input: toolInput });
+    const reason = allowed
+      ? "CRM write confirmed by user"
+      : "CRM write not confirmed by user; do not retry, summarise the intended change instead";
+
+    decide({
+      sessionId: input.session_id,
+      tool: input.tool_name,
+      toolUseId: toolUseId ?? null,
+      decision: allowed ? "allow" : "deny",
+      target: describe(input.tool_name, toolInput),
+      reason
+    });
+
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: allowed ? "allow" : "deny",
+        permissionDecisionReason: reason
+      }
+    };
+  };
+
+  return {
+    PreToolUse: CRM_WRITE_TOOLS.map((tool) => ({ matcher: tool, hooks: [beforeWrite] }))
+  };
+}
@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  CrmError,
+  type ActivityInput,
+  type CompanyQuery,
+  type CrmActivity,
+  type CrmAdapter,
+  type CrmCompany,
+  type CrmContact,
+  type CrmDeal
+} from "./types";
+
+export interface CrmFixture {
+  companies: CrmCompany[];
+  contacts: CrmContact[];
+  deals: CrmDeal[];
+  activities: CrmActivity[];
+}
+
+function normalizeDomain(domain: string): string {
+  return domain
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/\/.*$/, "");
+}
+
+/**
+ * CRM backed by a local JSON file, for building and testing presales flows
+ * without touching a production CRM. Writes (activities, stage changes) are
+ * saved back to the file.
+ */
+export class FixtureCrmAdapter implements CrmAdapter {
+  readonly provider = "fixture";
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async findCompany(query: CompanyQuery): Promise<CrmCompany | null> {
+    const { companies } = this.load();
+    const domain = query.domain ? normalizeDomain(query.domain) : undefined;
+    const name = query.name?.trim().toLowerCase();
+
+    return (
+      companies.find((company) => domain !== undefined && company.domain !== undefined && normalizeDomain(company.domain) === domain) ??
+      companies.find((company) => name !== undefined && company.name.toLowerCase() === name) ??
+      companies.find((company) => name !== undefined && company.name.toLowerCase().includes(name)) ??
+      null
+    );
+  }
+
+  async listContacts(companyId: string): Promise<CrmContact[]> {
+    return this.load().contacts.filter((contact) => contact.companyId === companyId);
+  }
+
+  async listDeals(companyId?: string): Promise<CrmDeal[]> {
+    const { deals } = this.load();
+    return companyId ? deals.filter((deal) => deal.companyId === companyId) : deals;
+  }
+
+  async logActivity(activity: ActivityInput): Promise<CrmActivity> {
+    const fixture = this.load();
+    const logged: CrmActivity = {
+      ...activity,
+      id: `act-${crypto.randomUUID().slice(0, 8)}`,
+      occurredAt: activity.occurredAt ?? new Date().toISOString()
+    };
+    fixture.activities.push(logged);
+    this.save(fixture);
+    return logged;
+  }
+
+  async updateDealStage(dealId: string, stage: string): Promise<CrmDeal> {
+    const fixture = this.load();
+    const deal = fixture.deals.find((candidate) => candidate.id === dealId);
+    if (!deal) {
+      throw new CrmError(this.provider, `No deal with id ${dealId}`);
+    }
+    deal.stage = stage;
+    this.save(fixture);
+    return deal;
+  }
+
+  private load(): CrmFixture {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch {
+      throw new CrmError(this.provider, `Fixture file not found: ${this.filePath} (set CRM_FIXTURE_PATH)`);
+    }
+
+    const parsed = JSON.parse(raw) as Partial<CrmFixture>;
+    return {
+      companies: parsed.companies ?? [],
+      contacts: parsed.contacts ?? [],
+      deals: parsed.deals ?? [],
+      activities: parsed.activities ?? []
+    };
+  }
+
+  private save(fixture: CrmFixture): void {
+    fs.writeFileSync(this.filePath, `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+}
@@ -0,0 +1,200 @@
+import {
+  CrmError,
+  type ActivityInput,
+  type ActivityType,
+  type CompanyQuery,
+  type CrmActivity,
+  type CrmAdapter,
+  type CrmCompany,
+  type CrmContact,
+  type CrmDeal
+} from "./types";
+
+const BASE_URL = "https://api.hubapi.com";
+
+const COMPANY_PROPERTIES = ["name", "domain", "industry", "numberofemployees", "city", "country"];
+const CONTACT_PROPERTIES = ["firstname", "lastname", "email", "jobtitle", "phone"];
+const DEAL_PROPERTIES = ["dealname", "dealstage", "amount", "closedate"];
+
+interface HubSpotObject {
+  id: string;
+  properties: Record<string, string | null | undefined>;
+}
+
+/**
+ * Engagement object per activity type, with its body/title properties and
+ * HubSpot-defined association type ids to company, deal and contact.
+ * Emails are logged as notes: the email object needs headers we don't have.
+ */
+const ENGAGEMENTS: Record<
+  ActivityType,
+  { object: string; title?: string; body: string; associations: { company: number; deal: number; contact: number } }
+> = {
+  note: { object: "notes", body: "hs_note_body", associations: { company: 190, deal: 214, contact: 202 } },
+  email: { object: "notes", body: "hs_note_body", associations: { company: 190, deal: 214, contact: 202 } },
+  call: { object: "calls", title: "hs_call_title", body: "hs_call_body", associations: { company: 182, deal: 206, contact: 194 } },
+  meeting: {
+    object: "meetings",
+    title: "hs_meeting_title",
+    body: "hs_meeting_body",
+    associations: { company: 188, deal: 212, contact: 200 }
+  }
+};
+
+function optional(value: string | null | undefined): string | undefined {
+  return value === null || value === undefined || value === "" ? undefined : value;
+}
+
+/**
+ * HubSpot CRM v3 adapter. Authenticates with a private app access token
+ * (HUBSPOT_API_KEY) that needs the crm.objects companies / contacts / deals
+ * read and write scopes.
+ */
+export class HubSpotAdapter implements CrmAdapter {
+  readonly provider = "hubspot";
+  private token: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(token: string, fetchImpl: typeof fetch = fetch) {
+    this.token = token;
+    this.fetchImpl = fetchImpl;
+  }
+
+  async findCompany(query: CompanyQuery): Promise<CrmCompany | null> {
+    const filters = query.domain
+      ? [{ propertyName: "domain", operator: "EQ", value: query.domain.replace(/^https?:\/\/(www\.)?/, "").replace(/\/.*$/, "") }]
+      : [{ propertyName: "name", operator: "CONTAINS_TOKEN", value: query.name ?? "" }];
+
+    const response = await this.request<{ results: HubSpotObject[] }>("POST", "/crm/v3/objects/companies/search", {
+      filterGroups: [{ filters }],
+      properties: COMPANY_PROPERTIES,
+      limit: 1
+    });
+
+    const company = response.results[0];
+    return company ? this.toCompany(company) : null;
+  }
+
+  async listContacts(companyId: string): Promise<CrmContact[]> {
+    const ids = await this.associatedIds("companies", companyId, "contacts");
+    const contacts = await this.batchRead("contacts", ids, CONTACT_PROPERTIES);
+    return contacts.map((contact) => ({
+      id: contact.id,
+      companyId,
+      name: [contact.properties.firstname, contact.properties.lastname].filter(Boolean).join(" ") || "(no name)",
+      email: optional(contact.properties.email),
+      title: optional(contact.properties.jobtitle),
+      phone: optional(contact.properties.phone)
+    }));
+  }
+
+  async listDeals(companyId?: string): Promise<CrmDeal[]> {
+    if (!companyId) {
+      const response = await this.request<{ results: HubSpotObject[] }>(
+        "GET",
+        `/crm/v3/objects/deals?limit=50&properties=${DEAL_PROPERTIES.join(",")}`
+      );
+      return response.results.map((deal) => this.toDeal(deal, null));
+    }
+
+    const ids = await this.associatedIds("companies", companyId, "deals");
+    const deals = await this.batchRead("deals", ids, DEAL_PROPERTIES);
+    return deals.map((deal) => this.toDeal(deal, companyId));
+  }
+
+  async logActivity(activity: ActivityInput): Promise<CrmActivity> {
+    const engagement = ENGAGEMENTS[activity.type];
+    const occurredAt = activity.occurredAt ?? new Date().toISOString();
+    const body = engagement.title ? activity.body : `<strong>${activity.subject}</strong><br>${activity.body}`;
+
+    const targets: Array<[string | undefined, number]> = [
+      [activity.companyId, engagement.associations.company],
+      [activity.dealId, engagement.associations.deal],
+      [activity.contactId, engagement.associations.contact]
+    ];
+
+    const created = await this.request<HubSpotObject>("POST", `/crm/v3/objects/${engagement.object}`, {
+      properties: {
+        hs_timestamp: occurredAt,
+        [engagement.body]: body,
+        ...(engagement.title && { [engagement.title]: activity.subject })
+      },
+      associations: targets
+        .filter((target): target is [string, number] => target[0] !== undefined)
+        .map(([id, typeId]) => ({
+          to: { id },
+          types: [{ associationCategory: "HUBSPOT_DEFINED", associationTypeId: typeId }]
+        }))
+    });
+
+    return { ...activity, id: created.id, occurredAt };
+  }
+
+  async updateDealStage(dealId: string, stage: string): Promise<CrmDeal> {
+    const deal = await this.request<HubSpotObject>("PATCH", `/crm/v3/objects/deals/${encodeURIComponent(dealId)}`, {
+      properties: { dealstage: stage }
+    });
+    return this.toDeal(deal, null);
+  }
+
+  private async associatedIds(fromObject: string, id: string, toObject: string): Promise<string[]> {
+    const response = await this.request<{ results: Array<{ toObjectId: string | number }> }>(
+      "GET",
+      `/crm/v4/objects/${fromObject}/${encodeURIComponent(id)}/associations/${toObject}?limit=100`
+    );
+    return response.results.map((association) => String(association.toObjectId));
+  }
+
+  private async batchRead(object: string, ids: string[], properties: string[]): Promise<HubSpotObject[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const response = await this.request<{ results: HubSpotObject[] }>("POST", `/crm/v3/objects/${object}/batch/read`, {
+      properties,
+      inputs: ids.map((id) => ({ id }))
+    });
+    return response.results;
+  }
+
+  private toCompany(company: HubSpotObject): CrmCompany {
+    const { properties } = company;
+    const employees = Number(properties.numberofemployees);
+    return {
+      id: company.id,
+      name: properties.name ?? "(no name)",
+      domain: optional(properties.domain),
+      industry: optional(properties.industry),
+      employees: Number.isFinite(employees) && employees > 0 ? employees : undefined,
+      location: [properties.city, properties.country].filter(Boolean).join(", ") || undefined
+    };
+  }
+
+  private toDeal(deal: HubSpotObject, companyId: string | null): CrmDeal {
+    const amount = Number(deal.properties.amount);
+    return {
+      id: deal.id,
+      companyId,
+      name: deal.properties.dealname ?? "(no name)",
+      stage: deal.properties.dealstage ?? "",
+      amount: deal.properties.amount && Number.isFinite(amount) ? amount : undefined,
+      closeDate: optional(deal.properties.closedate)
+    };
+  }
+
+  private async request<T>(method: string, requestPath: string, body?: unknown): Promise<T> {
+    const response = await this.fetchImpl(`${BASE_URL}${requestPath}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json"
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new CrmError(this.provider, `${method} ${requestPath} failed with ${response.status}: ${detail.slice(0, 500)}`, response.status);
+    }
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,53 @@
+import type { AppConfig } from "../config";
+import { FixtureCrmAdapter } from "./fixture-adapter";
+import { HubSpotAdapter } from "./hubspot-adapter";
+import { SalesforceAdapter } from "./salesforce-adapter";
+import { CrmError, type CrmAdapter } from "./types";
+
+export {
+  confirmOnTerminal,
+  createCrmConfirmationHooks,
+  denyCrmWrites,
+  type CrmWriteConfirmer,
+  type CrmWriteRequest
+} from "./confirmation";
+export { FixtureCrmAdapter, type CrmFixture } from "./fixture-adapter";
+export { HubSpotAdapter } from "./hubspot-adapter";
+export { SalesforceAdapter, type SalesforceCredentials } from "./salesforce-adapter";
+export { CRM_READ_TOOLS, CRM_SERVER_NAME, CRM_TOOLS, CRM_WRITE_TOOLS, createCrmMcpServer } from "./tools";
+export {
+  ACTIVITY_TYPES,
+  CrmError,
+  type ActivityInput,
+  type ActivityType,
+  type CompanyQuery,
+  type CrmActivity,
+  type CrmAdapter,
+  type CrmCompany,
+  type CrmContact,
+  type CrmDeal
+} from "./types";
+
+/**
+ * Picks the CRM adapter for CRM_PROVIDER:
+ * - hubspot / salesforce: the live CRM (credentials are checked by the config schema)
+ * - fixture: the JSON file at CRM_FIXTURE_PATH
+ * - auto: HubSpot, then Salesforce, by which credentials are set, else the fixture
+ */
+export function crmAdapterFromConfig(config: AppConfig): CrmAdapter {
+  const { provider, hubspotApiKey, salesforce, fixturePath } = config.crm;
+
+  if (provider === "hubspot" || (provider === "auto" && hubspotApiKey)) {
+    if (!hubspotApiKey) {
+      throw new CrmError("hubspot", "HUBSPOT_API_KEY is not set");
+    }
+    return new HubSpotAdapter(hubspotApiKey);
+  }
+  if (provider === "salesforce" || (provider === "auto" && salesforce)) {
+    if (!salesforce) {
+      throw new CrmError("salesforce", "SALESFORCE_CLIENT_ID, SALESFORCE_CLIENT_SECRET and SALESFORCE_INSTANCE_URL must all be set");
+    }
+    return new SalesforceAdapter(salesforce);
+  }
+  return new FixtureCrmAdapter(fixturePath);
+}
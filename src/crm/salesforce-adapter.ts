@@ -0,0 +1,196 @@
+import {
+  CrmError,
+  type ActivityInput,
+  type CompanyQuery,
+  type CrmActivity,
+  type CrmAdapter,
+  type CrmCompany,
+  type CrmContact,
+  type CrmDeal
+} from "./types";
+
+const API_VERSION = "v60.0";
+
+export interface SalesforceCredentials {
+  clientId: string;
+  clientSecret: string;
+  /** My Domain URL, e.g. https://acme.my.salesforce.com */
+  instanceUrl: string;
+}
+
+type SalesforceRecord = Record<string, unknown> & { Id: string };
+
+const TASK_SUBTYPES: Record<ActivityInput["type"], string> = {
+  note: "Task",
+  call: "Call",
+  meeting: "Task",
+  email: "Email"
+};
+
+function escapeSoql(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+}
+
+/** Quotes a value for a SOQL string literal */
+function soqlString(value: string): string {
+  return `'${escapeSoql(value)}'`;
+}
+
+/** Quotes a value for a SOQL LIKE "contains" pattern; % and _ in the value match literally */
+function soqlLike(value: string): string {
+  return `'%${escapeSoql(value).replace(/[%_]/g, (wildcard) => `\\${wildcard}`)}%'`;
+}
+
+function text(record: SalesforceRecord, field: string): string | undefined {
+  const value = record[field];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Salesforce REST adapter using the OAuth 2.0 client credentials flow
+ * (SALESFORCE_CLIENT_ID / SECRET of a connected app with a run-as user).
+ * Companies are Accounts, deals are Opportunities and activities are Tasks.
+ */
+export class SalesforceAdapter implements CrmAdapter {
+  readonly provider = "salesforce";
+  private credentials: SalesforceCredentials;
+  private fetchImpl: typeof fetch;
+  private accessToken: string | null = null;
+
+  constructor(credentials: SalesforceCredentials, fetchImpl: typeof fetch = fetch) {
+    this.credentials = { ...credentials, instanceUrl: credentials.instanceUrl.replace(/\/$/, "") };
+    this.fetchImpl = fetchImpl;
+  }
+
+  async findCompany(query: CompanyQuery): Promise<CrmCompany | null> {
+    const where = query.domain
+      ? `Website LIKE ${soqlLike(query.domain.replace(/^https?:\/\/(www\.)?/, "").replace(/\/.*$/, ""))}`
+      : `Name LIKE ${soqlLike(query.name ?? "")}`;
+
+    const [account] = await this.query(
+      `SELECT Id, Name, Website, Industry, NumberOfEmployees, BillingCity, BillingCountry FROM Account WHERE ${where} ORDER BY LastModifiedDate DESC LIMIT 1`
+    );
+    if (!account) {
+      return null;
+    }
+
+    return {
+      id: account.Id,
+      name: text(account, "Name") ?? "(no name)",
+      domain: text(account, "Website")?.replace(/^https?:\/\/(www\.)?/, "").replace(/\/.*$/, ""),
+      industry: text(account, "Industry"),
+      employees: typeof account.NumberOfEmployees === "number" ? account.NumberOfEmployees : undefined,
+      location: [text(account, "BillingCity"), text(account, "BillingCountry")].filter(Boolean).join(", ") || undefined,
+      url: `${this.credentials.instanceUrl}/${account.Id}`
+    };
+  }
+
+  async listContacts(companyId: string): Promise<CrmContact[]> {
+    const contacts = await this.query(
+      `SELECT Id, Name, Email, Title, Phone FROM Contact WHERE AccountId = ${soqlString(companyId)} ORDER BY Name LIMIT 200`
+    );
+    return contacts.map((contact) => ({
+      id: contact.Id,
+      companyId,
+      name: text(contact, "Name") ?? "(no name)",
+      email: text(contact, "Email"),
+      title: text(contact, "Title"),
+      phone: text(contact, "Phone")
+    }));
+  }
+
+  async listDeals(companyId?: string): Promise<CrmDeal[]> {
+    const where = companyId ? `WHERE AccountId = ${soqlString(companyId)} ` : "";
+    const deals = await this.query(
+      `SELECT Id, Name, StageName, Amount, CloseDate, AccountId FROM Opportunity ${where}ORDER BY LastModifiedDate DESC LIMIT 50`
+    );
+    return deals.map((deal) => this.toDeal(deal));
+  }
+
+  async logActivity(activity: ActivityInput): Promise<CrmActivity> {
+    const occurredAt = activity.occurredAt ?? new Date().toISOString();
+    const created = await this.request<{ id: string }>("POST", `/services/data/${API_VERSION}/sobjects/Task`, {
+      Subject: activity.subject,
+      Description: activity.body,
+      Status: "Completed",
+      ActivityDate: occurredAt.slice(0, 10),
+      TaskSubtype: TASK_SUBTYPES[activity.type],
+      ...(activity.type === "meeting" && { Type: "Meeting" }),
+      // A Task relates to one record; the deal is more specific than the account
+      ...((activity.dealId ?? activity.companyId) && { WhatId: activity.dealId ?? activity.companyId }),
+      ...(activity.contactId && { WhoId: activity.contactId })
+    });
+    return { ...activity, id: created.id, occurredAt };
+  }
+
+  async updateDealStage(dealId: string, stage: string): Promise<CrmDeal> {
+    const path = `/services/data/${API_VERSION}/sobjects/Opportunity/${encodeURIComponent(dealId)}`;
+    await this.request("PATCH", path, { StageName: stage });
+    const deal = await this.request<SalesforceRecord>("GET", `${path}?fields=Id,Name,StageName,Amount,CloseDate,AccountId`);
+    return this.toDeal(deal);
+  }
+
+  private toDeal(deal: SalesforceRecord): CrmDeal {
+    return {
+      id: deal.Id,
+      companyId: text(deal, "AccountId") ?? null,
+      name: text(deal, "Name") ?? "(no name)",
+      stage: text(deal, "StageName") ?? "",
+      amount: typeof deal.Amount === "number" ? deal.Amount : undefined,
+      closeDate: text(deal, "CloseDate")
+    };
+  }
+
+  private async query(soql: string): Promise<SalesforceRecord[]> {
+    const response = await this.request<{ records: SalesforceRecord[] }>(
+      "GET",
+      `/services/data/${API_VERSION}/query?q=${encodeURIComponent(soql)}`
+    );
+    return response.records;
+  }
+
+  private async authenticate(): Promise<string> {
+    const response = await this.fetchImpl(`${this.credentials.instanceUrl}/services/oauth2/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "client_credentials",
+        client_id: this.credentials.clientId,
+        client_secret: this.credentials.clientSecret
+      }).toString()
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new CrmError(this.provider, `authentication failed with ${response.status}: ${detail.slice(0, 500)}`, response.status);
+    }
+
+    const { access_token: token } = (await response.json()) as { access_token: string };
+    this.accessToken = token;
+    return token;
+  }
+
+  /** Authenticated request; re-authenticates once when the token has expired */
+  private async request<T>(method: string, requestPath: string, body?: unknown, retried = false): Promise<T> {
+    const token = this.accessToken ?? (await this.authenticate());
+    const response = await this.fetchImpl(`${this.credentials.instanceUrl}${requestPath}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json"
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (response.status === 401 && !retried) {
+      this.accessToken = null;
+      return this.request<T>(method, requestPath, body, true);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new CrmError(this.provider, `${method} ${requestPath} failed with ${response.status}: ${detail.slice(0, 500)}`, response.status);
+    }
+    // PATCH answers 204 No Content
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+}
@@ -0,0 +1,101 @@
+import { createSdkMcpServer, tool, type McpSdkServerConfigWithInstance } from "@anthropic-ai/claude-agent-sdk";
+import { z } from "zod";
+import { ACTIVITY_TYPES, CrmError, type CrmAdapter } from "./types";
+
+/** MCP server name; tools reach the model as `mcp__crm__<tool>` */
+export const CRM_SERVER_NAME = "crm";
+
+const toolName = (name: string) => `mcp__${CRM_SERVER_NAME}__${name}`;
+
+export const CRM_READ_TOOLS = ["crm_find_company", "crm_list_contacts", "crm_list_deals"].map(toolName);
+/** Tools that change CRM records; these need confirmation (see createCrmConfirmationHooks) */
+export const CRM_WRITE_TOOLS = ["crm_log_activity", "crm_update_deal_stage"].map(toolName);
+export const CRM_TOOLS = [...CRM_READ_TOOLS, ...CRM_WRITE_TOOLS];
+
+type ToolResult = { content: Array<{ type: "text"; text: string }>; isError?: boolean };
+
+/**
+ * Runs a tool body and returns its value as JSON text. CRM failures come
+ * back as tool errors the model can read and react to; anything else throws.
+ */
+async function respond(body: () => Promise<unknown>): Promise<ToolResult> {
+  try {
+    const value = await body();
+    return { content: [{ type: "text", text: JSON.stringify(value ?? null, null, 2) }] };
+  } catch (error) {
+    if (error instanceof CrmError) {
+      return { content: [{ type: "text", text: error.message }], isError: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * In-process MCP server exposing a CrmAdapter to agents. Pass it as
+ * `options.mcpServers` and list CRM_TOOLS (or just CRM_READ_TOOLS) in the
+ * agent's tools.
+ */
+export function createCrmMcpServer(adapter: CrmAdapter): McpSdkServerConfigWithInstance {
+  return createSdkMcpServer({
+    name: CRM_SERVER_NAME,
+    version: "1.0.0",
+    tools: [
+      tool(
+        "crm_find_company",
+        `Look up a company in the ${adapter.provider} CRM by website domain (preferred) or name. Returns null when there is no match.`,
+        {
+          domain: z.string().optional().describe("Website domain, e.g. acme.com"),
+          name: z.string().optional().describe("Company name, used when no domain is known")
+        },
+        async ({ domain, name }) =>
+          respond(async () => {
+            if (!domain && !name) {
+              throw new CrmError(adapter.provider, "Provide a domain or a name");
+            }
+            return adapter.findCompany({ domain, name });
+          })
+      ),
+      tool(
+        "crm_list_contacts",
+        "List the contacts associated with a CRM company.",
+        { companyId: z.string().describe("Company id from crm_find_company") },
+        async ({ companyId }) => respond(() => adapter.listContacts(companyId))
+      ),
+      tool(
+        "crm_list_deals",
+        "List the deals of a CRM company, or the most recently updated deals when no company is given.",
+        { companyId: z.string().optional().describe("Company id from crm_find_company") },
+        async ({ companyId }) => respond(() => adapter.listDeals(companyId))
+      ),
+      tool(
+        "crm_log_activity",
+        "Log a note, call, meeting or email against a company, deal and/or contact. Requires user confirmation.",
+        {
+          type: z.enum(ACTIVITY_TYPES),
+          subject: z.string().min(1).max(200),
+          body: z.string().min(1),
+          companyId: z.string().optional(),
+          dealId: z.string().optional(),
+          contactId: z.string().optional(),
+          occurredAt: z.string().datetime().optional().describe("ISO timestamp; defaults to now")
+        },
+        async (activity) =>
+          respond(async () => {
+            if (!activity.companyId && !activity.dealId && !activity.contactId) {
+              throw new CrmError(adapter.provider, "An activity needs a companyId, dealId or contactId");
+            }
+            return adapter.logActivity(activity);
+          })
+      ),
+      tool(
+        "crm_update_deal_stage",
+        "Move a deal to another pipeline stage (use the CRM's stage id or name). Requires user confirmation.",
+        {
+          dealId: z.string().describe("Deal id from crm_list_deals"),
+          stage: z.string().min(1).describe("Target stage")
+        },
+        async ({ dealId, stage }) => respond(() => adapter.updateDealStage(dealId, stage))
+      )
+    ]
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * Provider-neutral CRM records. Adapters map HubSpot / Salesforce objects
+ * onto these so agents see the same shapes whichever CRM is configured.
+ */
+
+export interface CrmCompany {
+  id: string;
+  name: string;
+  domain?: string;
+  industry?: string;
+  employees?: number;
+  location?: string;
+  url?: string;
+}
+
+export interface CrmContact {
+  id: string;
+  companyId: string | null;
+  name: string;
+  email?: string;
+  title?: string;
+  phone?: string;
+}
+
+export interface CrmDeal {
+  id: string;
+  companyId: string | null;
+  name: string;
+  stage: string;
+  amount?: number;
+  closeDate?: string;
+}
+
+export const ACTIVITY_TYPES = ["note", "call", "meeting", "email"] as const;
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+export interface ActivityInput {
+  type: ActivityType;
+  subject: string;
+  body: string;
+  companyId?: string;
+  dealId?: string;
+  contactId?: string;
+  /** ISO timestamp; defaults to now */
+  occurredAt?: string;
+}
+
+export interface CrmActivity extends ActivityInput {
+  id: string;
+  occurredAt: string;
+}
+
+export interface CompanyQuery {
+  name?: string;
+  domain?: string;
+}
+
+export interface CrmAdapter {
+  /** Provider name, e.g. "hubspot" */
+  readonly provider: string;
+  findCompany(query: CompanyQuery): Promise<CrmCompany | null>;
+  listContacts(companyId: string): Promise<CrmContact[]>;
+  /** Deals of one company, or the most recent deals overall */
+  listDeals(companyId?: string): Promise<CrmDeal[]>;
+  logActivity(activity: ActivityInput): Promise<CrmActivity>;
+  updateDealStage(dealId: string, stage: string): Promise<CrmDeal>;
+}
+
+/**
+ * Thrown by adapters for failed CRM calls. `status` is the HTTP status when
+ * the CRM answered, null for local failures (missing record, bad fixture).
+ */
+export class CrmError extends Error {
+  readonly provider: string;
+  readonly status: number | null;
+
+  constructor(provider: string, message: string, status: number | null = null) {
+    super(`${provider}: ${message}`);
+    this.name = "CrmError";
+    this.provider = provider;
+    this.status = status;
+  }
+}
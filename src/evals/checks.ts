@@ -0,0 +1,136 @@
+import { extractJson, type AgentResult } from "../runtime";
+import type { EvalAssertion } from "./dataset";
+
+/**
+ * Deterministic checks: each assertion scores an agent result between 0
+ * and 1 without calling a model, so the same output always scores the same.
+ */
+
+export interface AssertionResult {
+  type: EvalAssertion["type"];
+  label: string;
+  passed: boolean;
+  /** 0-1; partial credit for json_fields and citations */
+  score: number;
+  weight: number;
+  /** What was found, for failed checks */
+  detail: string | null;
+}
+
+export type CheckedResult = Pick<AgentResult, "output" | "toolCalls" | "stats">;
+
+function values(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function quoteList(items: string[]): string {
+  return items.map((item) => `"${item}"`).join(" or ");
+}
+
+export function assertionLabel(assertion: EvalAssertion): string {
+  if (assertion.description) {
+    return assertion.description;
+  }
+  switch (assertion.type) {
+    case "contains":
+      return `mentions ${quoteList(values(assertion.value))}`;
+    case "not_contains":
+      return `does not mention ${quoteList(values(assertion.value))}`;
+    case "regex":
+      return `matches /${assertion.pattern}/${assertion.flags ?? ""}`;
+    case "json_fields":
+      return `JSON with ${assertion.fields.join(", ")}`;
+    case "citations":
+      return `at least ${assertion.min} citation(s)`;
+    case "tool_called":
+      return `calls ${assertion.tool}`;
+    case "max_turns":
+      return `at most ${assertion.value} turn(s)`;
+    case "max_cost":
+      return `costs at most $${assertion.value}`;
+  }
+}
+
+/** The first candidate found in the text, case and whitespace folded unless caseSensitive */
+function findAny(text: string, candidates: string[], caseSensitive: boolean): string | null {
+  const fold = (value: string) => {
+    const collapsed = value.replace(/\s+/g, " ");
+    return caseSensitive ? collapsed : collapsed.toLowerCase();
+  };
+  const haystack = fold(text);
+  return candidates.find((candidate) => haystack.includes(fold(candidate))) ?? null;
+}
+
+function hasPath(value: unknown, dottedPath: string): boolean {
+  let current = value;
+  for (const key of dottedPath.split(".")) {
+    if (current === null || typeof current !== "object" || !(key in current)) {
+      return false;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current !== undefined && current !== null;
+}
+
+/** [n] markers (distinct numbers) plus distinct http(s) links */
+export function countCitations(text: string): number {
+  const markers = new Set([...text.matchAll(/\[(\d{1,3})\](?!\()/g)].map((match) => match[1]));
+  const links = new Set([...text.matchAll(/https?:\/\/[^\s)\]>"']+/g)].map((match) => match[0].replace(/[.,;:]+$/, "")));
+  return markers.size + links.size;
+}
+
+function toolMatches(name: string, tool: string): boolean {
+  return name === tool || name.endsWith(`__${tool}`);
+}
+
+export function checkAssertion(assertion: EvalAssertion, result: CheckedResult): AssertionResult {
+  const outcome = (passed: boolean, detail: string | null, score = passed ? 1 : 0): AssertionResult => ({
+    type: assertion.type,
+    label: assertionLabel(assertion),
+    passed,
+    score,
+    weight: assertion.weight,
+    detail: passed ? null : detail
+  });
+  const output = result.output;
+
+  switch (assertion.type) {
+    case "contains":
+      return outcome(findAny(output, values(assertion.value), assertion.caseSensitive) !== null, "not found in the output");
+    case "not_contains": {
+      const found = findAny(output, values(assertion.value), assertion.caseSensitive);
+      return outcome(found === null, `found "${found}"`);
+    }
+    case "regex":
+      return outcome(new RegExp(assertion.pattern, assertion.flags).test(output), "no match");
+    case "json_fields": {
+      let json: unknown;
+      try {
+        json = extractJson(output);
+      } catch (error) {
+        return outcome(false, `no JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const missing = assertion.fields.filter((field) => !hasPath(json, field));
+      return outcome(missing.length === 0, `missing ${missing.join(", ")}`, 1 - missing.length / assertion.fields.length);
+    }
+    case "citations": {
+      const count = countCitations(output);
+      return outcome(count >= assertion.min, `${count} found`, Math.min(1, count / assertion.min));
+    }
+    case "tool_called": {
+      const called = result.toolCalls.some((call) => toolMatches(call.name, assertion.tool));
+      const names = Array.from(new Set(result.toolCalls.map((call) => call.name)));
+      return outcome(called, names.length > 0 ? `called ${names.join(", ")}` : "no tool calls");
+    }
+    case "max_turns":
+      return outcome(result.stats.turns <= assertion.value, `${result.stats.turns} turn(s)`);
+    case "max_cost":
+      return outcome(result.stats.costUSD <= assertion.value, `$${result.stats.costUSD.toFixed(4)}`);
+  }
+}
+
+/** Weighted mean of the assertion scores, 1 when there are none */
+export function weightedScore(results: AssertionResult[]): number {
+  const total = results.reduce((sum, result) => sum + result.weight, 0);
+  return total === 0 ? 1 : results.reduce((sum, result) => sum + result.score * result.weight, 0) / total;
+}
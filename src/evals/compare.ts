@@ -0,0 +1,98 @@
+import fs from "fs";
+import { EvalError } from "./dataset";
+import type { CaseResult, CaseStatus, EvalRun, EvalTotals } from "./runner";
+
+export type CaseChange = "improved" | "regressed" | "unchanged" | "added" | "removed";
+
+export interface CaseComparison {
+  id: string;
+  baseline: CaseResult | null;
+  candidate: CaseResult | null;
+  /** Candidate minus baseline check score; null unless both ran */
+  scoreDelta: number | null;
+  judgeDelta: number | null;
+  change: CaseChange;
+}
+
+export interface EvalComparison {
+  dataset: string;
+  baseline: EvalRun["variant"];
+  candidate: EvalRun["variant"];
+  cases: CaseComparison[];
+  totals: { baseline: EvalTotals; candidate: EvalTotals };
+  improved: number;
+  regressed: number;
+}
+
+/** Score moves smaller than this are noise, not a change */
+const SCORE_TOLERANCE = 0.05;
+
+const STATUS_RANK: Record<CaseStatus, number> = { error: 0, failed: 1, passed: 2 };
+
+function delta(candidate: number | undefined, baseline: number | undefined): number | null {
+  return candidate === undefined || baseline === undefined ? null : candidate - baseline;
+}
+
+function classify(baseline: CaseResult, candidate: CaseResult, scoreDelta: number | null, judgeDelta: number | null): CaseChange {
+  const rank = STATUS_RANK[candidate.status] - STATUS_RANK[baseline.status];
+  if (rank !== 0) {
+    return rank > 0 ? "improved" : "regressed";
+  }
+  const moves = [scoreDelta, judgeDelta].filter((move): move is number => move !== null && Math.abs(move) >= SCORE_TOLERANCE);
+  if (moves.some((move) => move < 0)) {
+    return "regressed";
+  }
+  return moves.length > 0 ? "improved" : "unchanged";
+}
+
+/**
+ * Lines two runs of the same dataset up case by case. A case regresses
+ * when its status drops (passed > failed > error) or, at the same status,
+ * its check or judge score falls by 0.05 or more.
+ */
+export function compareRuns(baseline: EvalRun, candidate: EvalRun): EvalComparison {
+  const baselineCases = new Map(baseline.cases.map((result) => [result.id, result]));
+  const candidateCases = new Map(candidate.cases.map((result) => [result.id, result]));
+  const ids = [...baselineCases.keys(), ...[...candidateCases.keys()].filter((id) => !baselineCases.has(id))];
+
+  const cases = ids.map((id): CaseComparison => {
+    const before = baselineCases.get(id) ?? null;
+    const after = candidateCases.get(id) ?? null;
+    if (!before || !after) {
+      return { id, baseline: before, candidate: after, scoreDelta: null, judgeDelta: null, change: before ? "removed" : "added" };
+    }
+    const ran = before.status !== "error" && after.status !== "error";
+    const scoreDelta = ran ? after.score - before.score : null;
+    const judgeDelta = delta(after.judge?.score, before.judge?.score);
+    return { id, baseline: before, candidate: after, scoreDelta, judgeDelta, change: classify(before, after, scoreDelta, judgeDelta) };
+  });
+
+  return {
+    dataset: candidate.dataset,
+    baseline: baseline.variant,
+    candidate: candidate.variant,
+    cases,
+    totals: { baseline: baseline.totals, candidate: candidate.totals },
+    improved: cases.filter((comparison) => comparison.change === "improved").length,
+    regressed: cases.filter((comparison) => comparison.change === "regressed").length
+  };
+}
+
+/**
+ * Reads an eval run saved as JSON by `cockpit eval run`.
+ *
+ * @throws EvalError when the file is missing or is not an eval run
+ */
+export function readRun(filePath: string): EvalRun {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new EvalError(filePath, [`Cannot read: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  const run = raw as Partial<EvalRun> | null;
+  if (!run || typeof run.dataset !== "string" || !run.variant || !Array.isArray(run.cases) || !run.totals) {
+    throw new EvalError(filePath, ["Not an eval run (expected the .json written by `cockpit eval run`)"]);
+  }
+  return run as EvalRun;
+}
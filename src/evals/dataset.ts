@@ -0,0 +1,254 @@
+import fs from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { MODEL_ALIASES, type ModelAlias } from "../config";
+import { TASK_CLASSES, type TaskClass } from "../routing";
+
+/**
+ * Golden datasets (prompts with the facts and properties their answers
+ * must have) and the agent configurations ("variants") they are run
+ * against. Both are YAML or JSON files.
+ */
+
+// ============================================================================
+// DATASETS
+// ============================================================================
+
+const weighting = {
+  /** Share of the case score relative to the other assertions (default 1) */
+  weight: z.number().positive().default(1),
+  /** Shown in reports instead of the generated label */
+  description: z.string().optional()
+};
+
+const textMatch = {
+  /** Any one of the values satisfies the assertion */
+  value: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  caseSensitive: z.boolean().default(false)
+};
+
+const assertionSchema = z.discriminatedUnion("type", [
+  /** An expected fact: the output mentions one of the values */
+  z.object({ type: z.literal("contains"), ...textMatch, ...weighting }).strict(),
+  z.object({ type: z.literal("not_contains"), ...textMatch, ...weighting }).strict(),
+  z.object({ type: z.literal("regex"), pattern: z.string().min(1), flags: z.string().optional(), ...weighting }).strict(),
+  /** The output is (or contains) JSON with these dot-separated paths present */
+  z.object({ type: z.literal("json_fields"), fields: z.array(z.string().min(1)).min(1), ...weighting }).strict(),
+  /** At least `min` citations: [n] markers or links */
+  z.object({ type: z.literal("citations"), min: z.number().int().min(1).default(1), ...weighting }).strict(),
+  /** The agent called this tool (exact name, or the tool part of an mcp__server__tool name) */
+  z.object({ type: z.literal("tool_called"), tool: z.string().min(1), ...weighting }).strict(),
+  z.object({ type: z.literal("max_turns"), value: z.number().int().min(1), ...weighting }).strict(),
+  z.object({ type: z.literal("max_cost"), value: z.number().positive(), ...weighting }).strict()
+]);
+
+const judgeSettingsSchema = z
+  .object({
+    /** Criteria applied to every case that has none of its own */
+    rubric: z.array(z.string().min(1)).default([]),
+    /** 0-1; a case whose judge score is below this fails */
+    threshold: z.number().min(0).max(1).default(0.6)
+  })
+  .strict();
+
+const caseSchema = z
+  .object({
+    id: z.string().regex(/^[A-Za-z0-9_.-]+$/, "Use letters, digits, ., - and _"),
+    prompt: z.string().min(1),
+    tags: z.array(z.string()).default([]),
+    assertions: z.array(assertionSchema).default([]),
+    /** Criteria for the LLM judge (replaces the dataset rubric) */
+    rubric: z.array(z.string().min(1)).optional()
+  })
+  .strict();
+
+const datasetSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    judge: judgeSettingsSchema.default({}),
+    cases: z.array(caseSchema).min(1)
+  })
+  .strict();
+
+export type EvalAssertion = z.infer<typeof assertionSchema>;
+export type EvalCase = z.infer<typeof caseSchema>;
+export type EvalDataset = z.infer<typeof datasetSchema>;
+
+export class EvalError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid eval file ${source}:\n  - ${issues.join("\n  - ")}`);
+    this.name = "EvalError";
+    this.issues = issues;
+  }
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+function readDataFile(filePath: string): unknown {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, "utf8");
+  } catch {
+    throw new EvalError(filePath, ["File not found"]);
+  }
+  try {
+    return path.extname(filePath).toLowerCase() === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new EvalError(filePath, [`Cannot parse: ${error instanceof Error ? error.message.split("\n")[0] : String(error)}`]);
+  }
+}
+
+/**
+ * Validates a dataset: unique case ids, compilable patterns, and something
+ * to score on every case (an assertion, or a rubric for the judge).
+ *
+ * @throws EvalError listing every problem found
+ */
+export function parseDataset(raw: unknown, source = "dataset"): EvalDataset {
+  const parsed = datasetSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new EvalError(source, formatIssues(parsed.error));
+  }
+
+  const dataset = parsed.data;
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  dataset.cases.forEach((evalCase, index) => {
+    if (seen.has(evalCase.id)) {
+      issues.push(`cases.${index}.id: duplicate case id "${evalCase.id}"`);
+    }
+    seen.add(evalCase.id);
+    evalCase.assertions.forEach((assertion, position) => {
+      if (assertion.type === "regex") {
+        try {
+          new RegExp(assertion.pattern, assertion.flags);
+        } catch (error) {
+          issues.push(`cases.${index}.assertions.${position}.pattern: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    });
+    if (evalCase.assertions.length === 0 && (evalCase.rubric ?? dataset.judge.rubric).length === 0) {
+      issues.push(`cases.${index}: needs at least one assertion or a rubric`);
+    }
+  });
+  if (issues.length > 0) {
+    throw new EvalError(source, issues);
+  }
+  return dataset;
+}
+
+export function loadDataset(filePath: string): EvalDataset {
+  return parseDataset(readDataFile(filePath), filePath);
+}
+
+// ============================================================================
+// VARIANTS
+// ============================================================================
+
+/** Agent configurations a variant can start from */
+export const EVAL_AGENTS = ["cockpit"] as const;
+
+const variantSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    agent: z.enum(EVAL_AGENTS).default("cockpit"),
+    /** Replaces the agent's system prompt */
+    systemPrompt: z.string().min(1).optional(),
+    /** Same, read from a file relative to the variant file */
+    systemPromptFile: z.string().min(1).optional(),
+    /** Version of the agent's registry prompt to run instead of the latest, e.g. "1.0.0" */
+    promptVersion: z.string().regex(/^\d+\.\d+\.\d+$/, "Use major.minor.patch").optional(),
+    model: z.enum(MODEL_ALIASES).optional(),
+    task: z.enum(TASK_CLASSES).optional(),
+    tools: z.array(z.string()).optional(),
+    maxTurns: z.number().int().min(1).optional(),
+    /** Cassette (relative to the variant file) to replay the runs from, or to record them to */
+    cassette: z.string().min(1).optional()
+  })
+  .strict()
+  .refine((variant) => !(variant.systemPrompt && variant.systemPromptFile), {
+    message: "Set systemPrompt or systemPromptFile, not both",
+    path: ["systemPromptFile"]
+  })
+  .refine((variant) => !(variant.promptVersion && (variant.systemPrompt || variant.systemPromptFile)), {
+    message: "promptVersion picks a registry prompt; it cannot be combined with systemPrompt or systemPromptFile",
+    path: ["promptVersion"]
+  });
+
+export type EvalAgent = (typeof EVAL_AGENTS)[number];
+
+export interface EvalVariant {
+  name: string;
+  description: string | null;
+  agent: EvalAgent;
+  /** null keeps the agent's own prompt */
+  systemPrompt: string | null;
+  /** null runs the latest version of the agent's registry prompt */
+  promptVersion: string | null;
+  model: ModelAlias | null;
+  task: TaskClass | null;
+  tools: string[] | null;
+  maxTurns: number | null;
+  /** Absolute cassette path, or null to run live */
+  cassette: string | null;
+}
+
+/** The agent as it is configured in the tree */
+export const CURRENT_VARIANT: EvalVariant = {
+  name: "current",
+  description: "The cockpit agent as configured in src/agents/cockpit",
+  agent: "cockpit",
+  systemPrompt: null,
+  promptVersion: null,
+  model: null,
+  task: null,
+  tools: null,
+  maxTurns: null,
+  cassette: null
+};
+
+/**
+ * Validates a variant; relative `systemPromptFile` and `cassette` paths
+ * resolve against `baseDir`.
+ *
+ * @throws EvalError listing every problem found
+ */
+export function parseVariant(raw: unknown, source = "variant", baseDir = process.cwd()): EvalVariant {
+  const parsed = variantSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new EvalError(source, formatIssues(parsed.error));
+  }
+
+  const variant = parsed.data;
+  let systemPrompt = variant.systemPrompt ?? null;
+  if (variant.systemPromptFile) {
+    try {
+      systemPrompt = fs.readFileSync(path.resolve(baseDir, variant.systemPromptFile), "utf8").trim();
+    } catch {
+      throw new EvalError(source, [`systemPromptFile: cannot read ${variant.systemPromptFile}`]);
+    }
+  }
+  return {
+    name: variant.name,
+    description: variant.description ?? null,
+    agent: variant.agent,
+    systemPrompt,
+    promptVersion: variant.promptVersion ?? null,
+    model: variant.model ?? null,
+    task: variant.task ?? null,
+    tools: variant.tools ?? null,
+    maxTurns: variant.maxTurns ?? null,
+    cassette: variant.cassette ? path.resolve(baseDir, variant.cassette) : null
+  };
+}
+
+export function loadVariant(filePath: string): EvalVariant {
+  return parseVariant(readDataFile(filePath), filePath, path.dirname(path.resolve(filePath)));
+}
@@ -0,0 +1,29 @@
+export { assertionLabel, checkAssertion, countCitations, weightedScore, type AssertionResult, type CheckedResult } from "./checks";
+export { compareRuns, readRun, type CaseChange, type CaseComparison, type EvalComparison } from "./compare";
+export {
+  CURRENT_VARIANT,
+  EVAL_AGENTS,
+  EvalError,
+  loadDataset,
+  loadVariant,
+  parseDataset,
+  parseVariant,
+  type EvalAgent,
+  type EvalAssertion,
+  type EvalCase,
+  type EvalDataset,
+  type EvalVariant
+} from "./dataset";
+export { renderComparisonMarkdown, renderRunMarkdown } from "./render";
+export {
+  EvalRunner,
+  summarizeCases,
+  variantAgentConfig,
+  variantFingerprint,
+  type CaseResult,
+  type CaseStatus,
+  type EvalRun,
+  type EvalRunnerOptions,
+  type EvalRunOptions,
+  type EvalTotals
+} from "./runner";
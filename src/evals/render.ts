@@ -0,0 +1,128 @@
+import type { CaseComparison, EvalComparison } from "./compare";
+import type { CaseResult, EvalRun, EvalTotals } from "./runner";
+
+/**
+ * Markdown reports for eval runs and comparisons. They hold no timestamps
+ * or durations, so two reports of the same outputs are identical and a
+ * report checked in next to a prompt change diffs cleanly.
+ */
+
+const STATUS_ICONS: Record<CaseResult["status"], string> = { passed: "✅", failed: "❌", error: "⚠️" };
+
+const CHANGE_ICONS: Record<CaseComparison["change"], string> = {
+  improved: "⬆️ improved",
+  regressed: "⬇️ regressed",
+  unchanged: "unchanged",
+  added: "➕ added",
+  removed: "➖ removed"
+};
+
+function cell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function percent(score: number | null | undefined): string {
+  return score === null || score === undefined ? "-" : `${Math.round(score * 100)}%`;
+}
+
+function signed(value: number | null): string {
+  if (value === null) {
+    return "-";
+  }
+  const points = Math.round(value * 100);
+  return points === 0 ? "0" : `${points > 0 ? "+" : ""}${points}`;
+}
+
+function costChange(before: number, after: number): string {
+  const change = after - before;
+  return `${change < 0 ? "-" : "+"}$${Math.abs(change).toFixed(4)}`;
+}
+
+function variantLabel(variant: EvalRun["variant"]): string {
+  const prompt = variant.prompt ? `, ${variant.prompt.id}@${variant.prompt.version}` : "";
+  return `${variant.name} (${variant.fingerprint}${prompt}${variant.replayed ? ", replayed" : ""})`;
+}
+
+function totalsLine(totals: EvalTotals): string {
+  const judge = totals.judgeScore !== null ? `, judge ${percent(totals.judgeScore)}` : "";
+  return `${totals.passed}/${totals.cases} passed (${totals.failed} failed, ${totals.errored} errors), checks ${percent(totals.score)}${judge}, ${totals.turns} turn(s), $${totals.costUSD.toFixed(4)} (+ $${totals.judgeCostUSD.toFixed(4)} judging)`;
+}
+
+/** Failed checks, judge grades below 4 and errors of one case */
+function caseFindings(result: CaseResult): string[] {
+  if (result.error) {
+    return [`error: ${result.error.split("\n")[0]}`];
+  }
+  return [
+    ...result.checks.filter((check) => !check.passed).map((check) => `${check.label}: ${check.detail ?? "failed"}`),
+    ...(result.judge?.grades ?? []).filter((grade) => grade.score < 4).map((grade) => `judge ${grade.score}/5 "${grade.criterion}": ${grade.reason}`)
+  ];
+}
+
+export function renderRunMarkdown(run: EvalRun): string {
+  const lines = [
+    `# Eval: ${run.dataset} on ${variantLabel(run.variant)}`,
+    "",
+    totalsLine(run.totals),
+    "",
+    "| Case | Status | Checks | Judge | Turns | Cost |",
+    "|---|---|---|---|---|---|",
+    ...run.cases.map(
+      (result) =>
+        `| ${result.id} | ${STATUS_ICONS[result.status]} ${result.status} | ${percent(result.score)} | ${percent(result.judge?.score)} | ${result.turns} | $${result.costUSD.toFixed(4)} |`
+    ),
+    ""
+  ];
+
+  const findings = run.cases.filter((result) => result.status !== "passed");
+  if (findings.length > 0) {
+    lines.push("## Findings", "");
+    for (const result of findings) {
+      lines.push(`### ${result.id}`, "", ...caseFindings(result).map((finding) => `- ${cell(finding)}`), "");
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Side-by-side report: one row per case with both variants' status,
+ * scores, turns and cost, then what changed in the cases that moved.
+ */
+export function renderComparisonMarkdown(comparison: EvalComparison): string {
+  const { baseline, candidate } = comparison.totals;
+  const side = (result: CaseResult | null) =>
+    result
+      ? [`${STATUS_ICONS[result.status]} ${percent(result.score)}`, percent(result.judge?.score), String(result.turns), `$${result.costUSD.toFixed(4)}`]
+      : ["-", "-", "-", "-"];
+
+  const lines = [
+    `# Eval comparison: ${comparison.dataset}`,
+    "",
+    `- Baseline: ${variantLabel(comparison.baseline)}: ${totalsLine(baseline)}`,
+    `- Candidate: ${variantLabel(comparison.candidate)}: ${totalsLine(candidate)}`,
+    `- ${comparison.improved} improved, ${comparison.regressed} regressed; cost ${costChange(baseline.costUSD, candidate.costUSD)}, turns ${candidate.turns - baseline.turns >= 0 ? "+" : ""}${candidate.turns - baseline.turns}`,
+    "",
+    "| Case | Change | Baseline | Candidate | Δ checks | Baseline judge | Candidate judge | Δ judge | Turns | Cost |",
+    "|---|---|---|---|---|---|---|---|---|---|",
+    ...comparison.cases.map((row) => {
+      const [beforeStatus, beforeJudge, beforeTurns, beforeCost] = side(row.baseline);
+      const [afterStatus, afterJudge, afterTurns, afterCost] = side(row.candidate);
+      return `| ${row.id} | ${CHANGE_ICONS[row.change]} | ${beforeStatus} | ${afterStatus} | ${signed(row.scoreDelta)} | ${beforeJudge} | ${afterJudge} | ${signed(row.judgeDelta)} | ${beforeTurns} → ${afterTurns} | ${beforeCost} → ${afterCost} |`;
+    }),
+    ""
+  ];
+
+  const moved = comparison.cases.filter((row) => row.change === "improved" || row.change === "regressed");
+  if (moved.length > 0) {
+    lines.push("## Changes", "");
+    for (const row of moved) {
+      lines.push(`### ${row.id} (${row.change})`, "");
+      for (const [label, result] of [["baseline", row.baseline], ["candidate", row.candidate]] as const) {
+        const findings = result ? caseFindings(result) : [];
+        lines.push(`- ${label}: ${findings.length > 0 ? findings.map(cell).join("; ") : "all checks passed"}`);
+      }
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,264 @@
+import crypto from "crypto";
+import fs from "fs";
+import { cockpitAgent } from "../agents/cockpit";
+import { JudgeAgent, type Judgement } from "../agents/judge";
+import { BudgetGovernor } from "../budget";
+import { getConfig } from "../config";
+import type { PromptStamp } from "../prompts";
+import { RecordingTransport, ReplayTransport } from "../replay";
+import {
+  AgentRuntime,
+  mapConcurrent,
+  runWithRetry,
+  type AgentConfig,
+  type AgentRuntimeDeps,
+  type ModelAlias,
+  type RunOptions
+} from "../runtime";
+import { checkAssertion, weightedScore, type AssertionResult } from "./checks";
+import { EvalError, type EvalCase, type EvalDataset, type EvalVariant } from "./dataset";
+
+export type CaseStatus = "passed" | "failed" | "error";
+
+export interface CaseResult {
+  id: string;
+  tags: string[];
+  prompt: string;
+  /** passed: every check passed and the judge score met the threshold; error: the run (or judge) failed */
+  status: CaseStatus;
+  /** Weighted share of the deterministic checks met, 0-1 */
+  score: number;
+  checks: AssertionResult[];
+  /** null when judging is off or the case has no rubric */
+  judge: Judgement | null;
+  output: string;
+  error: string | null;
+  model: string | null;
+  turns: number;
+  costUSD: number;
+  judgeCostUSD: number;
+  durationMs: number;
+}
+
+export interface EvalTotals {
+  cases: number;
+  passed: number;
+  failed: number;
+  errored: number;
+  /** Mean check score over the cases that ran */
+  score: number;
+  /** Mean judge score over the judged cases, null when none were judged */
+  judgeScore: number | null;
+  turns: number;
+  costUSD: number;
+  judgeCostUSD: number;
+}
+
+export interface EvalRun {
+  dataset: string;
+  variant: {
+    name: string;
+    description: string | null;
+    /** Hash of the effective system prompt, tools, model and turn limit */
+    fingerprint: string;
+    /** Registry prompt the variant ran; null when it replaces the system prompt */
+    prompt: PromptStamp | null;
+    model: string | null;
+    replayed: boolean;
+  };
+  startedAt: string;
+  durationMs: number;
+  cases: CaseResult[];
+  totals: EvalTotals;
+}
+
+export interface EvalRunnerOptions extends AgentRuntimeDeps {
+  /** Cases in flight at once (default 2) */
+  concurrency?: number;
+  /** Grade cases that have a rubric with the LLM judge (default false) */
+  judge?: boolean;
+  judgeModel?: ModelAlias;
+}
+
+export interface EvalRunOptions {
+  /** Record the runs to the variant's cassette instead of replaying it */
+  record?: boolean;
+  /** Only the cases with one of these ids or tags */
+  only?: string[];
+  onCase?: (result: CaseResult) => void;
+  run?: RunOptions;
+}
+
+/** The agent config a variant runs a case prompt with */
+export function variantAgentConfig(variant: EvalVariant, prompt: string): AgentConfig {
+  const base = cockpitAgent(prompt, {
+    ...(variant.promptVersion && { promptVersion: variant.promptVersion }),
+    ...(variant.model && { model: variant.model }),
+    ...(variant.task && { task: variant.task }),
+    ...(variant.maxTurns && { maxTurns: variant.maxTurns }),
+    ...(variant.tools && { tools: variant.tools })
+  });
+  // A replaced system prompt is no longer the registry prompt the agent stamps
+  return variant.systemPrompt ? { ...base, systemPrompt: variant.systemPrompt, prompt: undefined } : base;
+}
+
+export function variantFingerprint(variant: EvalVariant): string {
+  const config = variantAgentConfig(variant, "");
+  const identity = JSON.stringify([config.systemPrompt, config.tools, config.model ?? null, config.maxTurns]);
+  return crypto.createHash("sha256").update(identity).digest("hex").slice(0, 12);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+export function summarizeCases(cases: CaseResult[]): EvalTotals {
+  const ran = cases.filter((result) => result.status !== "error");
+  return {
+    cases: cases.length,
+    passed: cases.filter((result) => result.status === "passed").length,
+    failed: cases.filter((result) => result.status === "failed").length,
+    errored: cases.length - ran.length,
+    score: mean(ran.map((result) => result.score)) ?? 0,
+    judgeScore: mean(cases.flatMap((result) => (result.judge ? [result.judge.score] : []))),
+    turns: cases.reduce((total, result) => total + result.turns, 0),
+    costUSD: cases.reduce((total, result) => total + result.costUSD, 0),
+    judgeCostUSD: cases.reduce((total, result) => total + result.judgeCostUSD, 0)
+  };
+}
+
+/**
+ * Runs a golden dataset against one agent variant: each case prompt is run
+ * (live, or replayed from the variant's cassette), scored with the
+ * deterministic checks and, when judging is on, graded on its rubric by
+ * the LLM judge. A case that fails to run is recorded as an error and the
+ * rest still run.
+ */
+export class EvalRunner {
+  private deps: AgentRuntimeDeps;
+  private concurrency: number;
+  private judge: JudgeAgent | null;
+
+  constructor(options: EvalRunnerOptions = {}) {
+    const { concurrency, judge, judgeModel, ...deps } = options;
+    const appConfig = deps.appConfig ?? getConfig();
+    // One governor for every run so the request rate is paced across them;
+    // eval runs are not worth resuming, so they stay out of the session store
+    this.deps = {
+      ...deps,
+      appConfig,
+      sessions: deps.sessions === undefined ? null : deps.sessions,
+      budget: deps.budget === undefined ? BudgetGovernor.fromConfig(appConfig) : deps.budget
+    };
+    this.concurrency = Math.max(1, concurrency ?? 2);
+    this.judge = judge ? new JudgeAgent({ ...this.deps, model: judgeModel }) : null;
+  }
+
+  /**
+   * @throws EvalError when the variant's cassette is missing in replay mode
+   */
+  async run(dataset: EvalDataset, variant: EvalVariant, options: EvalRunOptions = {}): Promise<EvalRun> {
+    const started = Date.now();
+    const startedAt = new Date(started).toISOString();
+    let transport = this.deps.transport;
+    if (variant.cassette) {
+      if (!options.record && !fs.existsSync(variant.cassette)) {
+        throw new EvalError(variant.name, [`cassette: ${variant.cassette} not found (record it first)`]);
+      }
+      transport = options.record ? new RecordingTransport(variant.cassette) : new ReplayTransport(variant.cassette);
+    }
+
+    const only = options.only && options.only.length > 0 ? new Set(options.only) : null;
+    const cases = only
+      ? dataset.cases.filter((evalCase) => only.has(evalCase.id) || evalCase.tags.some((tag) => only.has(tag)))
+      : dataset.cases;
+
+    const results = await mapConcurrent(cases, this.concurrency, async (evalCase) => {
+      const result = await this.runCase(dataset, evalCase, variant, { ...this.deps, transport }, options.run);
+      options.onCase?.(result);
+      return result;
+    });
+
+    return {
+      dataset: dataset.name,
+      variant: {
+        name: variant.name,
+        description: variant.description,
+        fingerprint: variantFingerprint(variant),
+        prompt: variantAgentConfig(variant, "").prompt ?? null,
+        model: variant.model,
+        replayed: variant.cassette !== null && !options.record
+      },
+      startedAt,
+      durationMs: Date.now() - started,
+      cases: results,
+      totals: summarizeCases(results)
+    };
+  }
+
+  private async runCase(
+    dataset: EvalDataset,
+    evalCase: EvalCase,
+    variant: EvalVariant,
+    deps: AgentRuntimeDeps,
+    run: RunOptions | undefined
+  ): Promise<CaseResult> {
+    const started = Date.now();
+    const caseResult: CaseResult = {
+      id: evalCase.id,
+      tags: evalCase.tags,
+      prompt: evalCase.prompt,
+      status: "error",
+      score: 0,
+      checks: [],
+      judge: null,
+      output: "",
+      error: null,
+      model: null,
+      turns: 0,
+      costUSD: 0,
+      judgeCostUSD: 0,
+      durationMs: 0
+    };
+
+    try {
+      const agent = new AgentRuntime(variantAgentConfig(variant, evalCase.prompt), deps);
+      const result = await runWithRetry(agent, evalCase.prompt, { run });
+      caseResult.output = result.output;
+      caseResult.model = result.model;
+      caseResult.turns = result.stats.turns;
+      caseResult.costUSD = result.stats.costUSD;
+      if (!result.success) {
+        caseResult.error = result.error ?? `Run ended with ${result.subtype ?? "no result"}`;
+        return caseResult;
+      }
+
+      caseResult.checks = evalCase.assertions.map((assertion) => checkAssertion(assertion, result));
+      caseResult.score = weightedScore(caseResult.checks);
+      let passed = caseResult.checks.every((check) => check.passed);
+
+      const rubric = evalCase.rubric ?? dataset.judge.rubric;
+      if (this.judge && rubric.length > 0) {
+        try {
+          caseResult.judge = await this.judge.judge({ task: evalCase.prompt, answer: result.output, criteria: rubric }, run);
+          caseResult.judgeCostUSD = caseResult.judge.costUSD;
+          passed &&= caseResult.judge.score >= dataset.judge.threshold;
+        } catch (error) {
+          caseResult.error = `judge: ${errorMessage(error)}`;
+          return caseResult;
+        }
+      }
+      caseResult.status = passed ? "passed" : "failed";
+      return caseResult;
+    } catch (error) {
+      caseResult.error = errorMessage(error);
+      return caseResult;
+    } finally {
+      caseResult.durationMs = Date.now() - started;
+    }
+  }
+}
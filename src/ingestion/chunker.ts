@@ -0,0 +1,94 @@
+import type { DocumentChunk, DocumentSection, ParsedDocument, SourceLocation } from "./types";
+
+export interface ChunkOptions {
+  /** Upper bound on the text of one chunk, markers excluded (default INGEST_CHUNK_CHARS) */
+  maxChars: number;
+}
+
+/** Marker line before each part, e.g. "[2] page 4 · 3 Requirements > 3.2 Security" */
+export function locationLabel(location: Omit<SourceLocation, "document">): string {
+  const parts = [
+    location.page !== null ? `page ${location.page}` : null,
+    location.sheet !== null ? `sheet "${location.sheet}"${location.rows ? ` rows ${location.rows}` : ""}` : null,
+    location.section
+  ].filter((part): part is string => part !== null && part.length > 0);
+  return parts.length > 0 ? parts.join(" · ") : "text";
+}
+
+/**
+ * Splits text longer than `maxChars` at paragraph, then line, then
+ * sentence or word boundaries.
+ */
+function split(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) {
+    return [text];
+  }
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const cut = [window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(". "), window.lastIndexOf(" ")].find(
+      (index) => index > maxChars / 2
+    );
+    const end = cut !== undefined ? cut + 1 : maxChars;
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest.length > 0) {
+    pieces.push(rest);
+  }
+  return pieces;
+}
+
+/**
+ * Packs a document's sections into chunks of up to `maxChars`. Sections
+ * are kept whole where they fit, so small sections share a chunk; each one
+ * is introduced by a numbered marker that `parts` resolves to its location.
+ */
+export function chunkDocument(doc: ParsedDocument, options: ChunkOptions): DocumentChunk[] {
+  const maxChars = Math.max(500, options.maxChars);
+  const chunks: DocumentChunk[] = [];
+  let text: string[] = [];
+  let parts: SourceLocation[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (parts.length > 0) {
+      chunks.push({
+        id: `${doc.document}#${chunks.length + 1}`,
+        document: doc.document,
+        format: doc.format,
+        index: chunks.length,
+        text: text.join("\n\n"),
+        parts
+      });
+    }
+    text = [];
+    parts = [];
+    size = 0;
+  };
+
+  const add = (sectionPart: DocumentSection, body: string) => {
+    if (size > 0 && size + body.length > maxChars) {
+      flush();
+    }
+    const location: SourceLocation = {
+      document: doc.document,
+      page: sectionPart.page,
+      section: sectionPart.section,
+      sheet: sectionPart.sheet,
+      rows: sectionPart.rows
+    };
+    parts.push(location);
+    text.push(`[${parts.length}] ${locationLabel(location)}\n${body}`);
+    size += body.length;
+  };
+
+  for (const sectionPart of doc.sections) {
+    for (const piece of split(sectionPart.text, maxChars)) {
+      add(sectionPart, piece);
+    }
+  }
+  flush();
+  return chunks;
+}
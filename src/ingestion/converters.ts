@@ -0,0 +1,250 @@
+import fs from "fs";
+import path from "path";
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+import { decodeEntities, htmlToSections, normalizeText } from "./html";
+import { FORMAT_EXTENSIONS, IngestionError, type DocumentFormat, type DocumentSection, type ParsedDocument } from "./types";
+
+/**
+ * File converters: each format becomes a list of sections of plain text
+ * with their page, heading path or sheet, so extracted facts can be traced
+ * back to where they were read.
+ */
+
+/** Spreadsheet rows per section; each section repeats the header row */
+const SHEET_ROWS_PER_SECTION = 50;
+
+export function formatOf(filePath: string): DocumentFormat | null {
+  return FORMAT_EXTENSIONS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+function section(text: string, location: Partial<Omit<DocumentSection, "text">> = {}): DocumentSection {
+  return { text, page: null, section: null, sheet: null, rows: null, ...location };
+}
+
+// ============================================================================
+// PDF / DOCX / HTML / MARKDOWN
+// ============================================================================
+
+async function pdfSections(buffer: Buffer): Promise<{ sections: DocumentSection[]; pages: number }> {
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const result = await parser.getText();
+    const sections = result.pages
+      .map((page) => section(normalizeText(page.text), { page: page.num }))
+      .filter((part) => part.text.length > 0);
+    return { sections, pages: result.total };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function docxSections(buffer: Buffer): Promise<DocumentSection[]> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+  return htmlToSections(html).map((part) => section(part.text, { section: part.section }));
+}
+
+function htmlSections(html: string): DocumentSection[] {
+  return htmlToSections(html).map((part) => section(part.text, { section: part.section }));
+}
+
+/** Splits at ATX headings (`#`, `##`, ...) outside code fences */
+function markdownSections(markdown: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  const headings: string[] = [];
+  let current: string | null = null;
+  let lines: string[] = [];
+  let fenced = false;
+
+  const flush = () => {
+    const text = normalizeText(lines.join("\n"));
+    if (text.length > 0) {
+      sections.push(section(text, { section: current }));
+    }
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      fenced = !fenced;
+    }
+    const heading = fenced ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (!heading) {
+      lines.push(line);
+      continue;
+    }
+    flush();
+    const level = (heading[1] as string).length;
+    headings.length = Math.min(headings.length, level - 1);
+    headings[level - 1] = (heading[2] as string).trim();
+    current = headings.filter((part) => part && part.length > 0).join(" > ") || null;
+  }
+  flush();
+  return sections;
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+function xmlText(xml: string): string {
+  return decodeEntities([...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => match[1] ?? "").join(""));
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  return new RegExp(`\\s${name}="([^"]*)"`).exec(tag)?.[1];
+}
+
+/** "B12" -> 1 (zero-based column) */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? "A";
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Reads cell values straight from the OOXML parts: shared strings, inline
+ * strings, booleans and numbers as stored (formulas by their cached value).
+ */
+async function xlsxSections(buffer: Buffer, filePath: string): Promise<{ sections: DocumentSection[]; pages: number }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const read = async (name: string) => (await zip.file(name)?.async("string")) ?? null;
+
+  const workbook = await read("xl/workbook.xml");
+  if (workbook === null) {
+    throw new IngestionError(filePath, "Not a spreadsheet: xl/workbook.xml is missing");
+  }
+  const relations = new Map<string, string>();
+  for (const match of ((await read("xl/_rels/workbook.xml.rels")) ?? "").matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attribute(match[0], "Id");
+    const target = attribute(match[0], "Target");
+    if (id && target) {
+      relations.set(id, target.startsWith("/") ? target.slice(1) : `xl/${target}`);
+    }
+  }
+  const sharedStrings = [...((await read("xl/sharedStrings.xml")) ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) =>
+    xmlText(match[1] ?? "")
+  );
+
+  const sections: DocumentSection[] = [];
+  const sheets = [...workbook.matchAll(/<sheet\b[^>]*>/g)];
+  for (const sheet of sheets) {
+    const name = decodeEntities(attribute(sheet[0], "name") ?? "Sheet");
+    const target = relations.get(attribute(sheet[0], "r:id") ?? "");
+    const xml = target ? await read(target) : null;
+    if (xml === null) {
+      continue;
+    }
+
+    const rows: Array<{ number: number; cells: string[] }> = [];
+    for (const row of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const cells: string[] = [];
+      for (const cell of (row[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const attributes = cell[1] ?? "";
+        const body = cell[2] ?? "";
+        const type = attribute(attributes, "t");
+        const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+        let value: string;
+        if (type === "s") {
+          value = sharedStrings[Number(raw)] ?? "";
+        } else if (type === "inlineStr") {
+          value = xmlText(body);
+        } else if (type === "b") {
+          value = raw === "1" ? "TRUE" : "FALSE";
+        } else {
+          value = decodeEntities(raw ?? "");
+        }
+        cells[columnIndex(attribute(attributes, "r") ?? "A")] = value.replace(/\s+/g, " ").trim();
+      }
+      if (cells.some((value) => value && value.length > 0)) {
+        rows.push({ number: Number(attribute(row[1] ?? "", "r") ?? rows.length + 1), cells });
+      }
+    }
+
+    const [header, ...body] = rows;
+    if (!header) {
+      continue;
+    }
+    const line = (cells: string[]) => Array.from(cells, (value) => value ?? "").join("\t");
+    if (body.length === 0) {
+      sections.push(section(line(header.cells), { sheet: name, rows: String(header.number) }));
+    }
+    for (let start = 0; start < body.length; start += SHEET_ROWS_PER_SECTION) {
+      const slice = body.slice(start, start + SHEET_ROWS_PER_SECTION);
+      const first = slice[0] as (typeof body)[number];
+      const last = slice[slice.length - 1] as (typeof body)[number];
+      sections.push(
+        section([line(header.cells), ...slice.map((row) => line(row.cells))].join("\n"), {
+          sheet: name,
+          rows: `${first.number}-${last.number}`
+        })
+      );
+    }
+  }
+  return { sections, pages: sheets.length };
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Converts one file to sections of normalized text.
+ *
+ * @param document Name used in provenance (defaults to the file name)
+ * @throws IngestionError for unsupported, unreadable or malformed files
+ */
+export async function parseDocument(filePath: string, document = path.basename(filePath)): Promise<ParsedDocument> {
+  const format = formatOf(filePath);
+  if (format === null) {
+    throw new IngestionError(filePath, `Unsupported file type (supported: ${Object.keys(FORMAT_EXTENSIONS).join(", ")})`);
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = fs.readFileSync(filePath);
+  } catch (error) {
+    throw new IngestionError(filePath, "Cannot read file", { cause: error });
+  }
+
+  let sections: DocumentSection[];
+  let pages: number | null = null;
+  try {
+    switch (format) {
+      case "pdf":
+        ({ sections, pages } = await pdfSections(buffer));
+        break;
+      case "docx":
+        sections = await docxSections(buffer);
+        break;
+      case "xlsx":
+        ({ sections, pages } = await xlsxSections(buffer, filePath));
+        break;
+      case "html":
+        sections = htmlSections(buffer.toString("utf8"));
+        break;
+      case "markdown":
+        sections = markdownSections(buffer.toString("utf8"));
+        break;
+      case "text":
+        sections = [section(normalizeText(buffer.toString("utf8")))].filter((part) => part.text.length > 0);
+        break;
+    }
+  } catch (error) {
+    if (error instanceof IngestionError) {
+      throw error;
+    }
+    throw new IngestionError(filePath, `Cannot convert ${format}: ${error instanceof Error ? error.message : String(error)}`, {
+      cause: error
+    });
+  }
+
+  return {
+    path: filePath,
+    document,
+    format,
+    pages,
+    sections,
+    chars: sections.reduce((total, part) => total + part.text.length, 0)
+  };
+}
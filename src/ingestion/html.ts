@@ -0,0 +1,94 @@
+/**
+ * Minimal HTML to text for ingestion: drops scripts, styles and markup,
+ * keeps paragraphs, list items and table rows on their own lines, and
+ * splits the text at headings so each part knows its heading path. Used
+ * for .html files and for DOCX (converted to HTML by mammoth).
+ */
+
+export interface HtmlSection {
+  /** Heading path, e.g. "3 Requirements > 3.2 Security"; null before the first heading */
+  section: string | null;
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  bull: "•",
+  copy: "©",
+  reg: "®",
+  trade: "™"
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1]?.toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Collapses whitespace within lines and blank lines between them */
+export function normalizeText(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t\f\v\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function blockText(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(td|th)>\s*(?=<t[dh]\b)/gi, " | ")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/tr>/gi, "\n")
+    .replace(/<\/(p|div|table|ul|ol|section|article|blockquote|pre|dd|dt)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+  return normalizeText(decodeEntities(text));
+}
+
+export function htmlToSections(html: string): HtmlSection[] {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, "");
+
+  const sections: HtmlSection[] = [];
+  const headings: string[] = [];
+  const heading = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi;
+  let cursor = 0;
+  let current: string | null = null;
+
+  const flush = (until: number) => {
+    const text = blockText(body.slice(cursor, until));
+    if (text.length > 0) {
+      sections.push({ section: current, text });
+    }
+  };
+
+  for (let match = heading.exec(body); match !== null; match = heading.exec(body)) {
+    flush(match.index);
+    const level = Number(match[1]);
+    const title = blockText(match[2] ?? "").replace(/\s+/g, " ");
+    headings.length = Math.min(headings.length, level - 1);
+    headings[level - 1] = title;
+    current = headings.filter((part) => part && part.length > 0).join(" > ") || null;
+    cursor = match.index + match[0].length;
+  }
+  flush(body.length);
+  return sections;
+}
@@ -0,0 +1,30 @@
+export { chunkDocument, locationLabel, type ChunkOptions } from "./chunker";
+export { formatOf, parseDocument } from "./converters";
+export { decodeEntities, htmlToSections, normalizeText, type HtmlSection } from "./html";
+export {
+  ingestDocuments,
+  summarizeCorpus,
+  walkDocuments,
+  type DocumentSummary,
+  type IngestedCorpus,
+  type IngestFailure,
+  type IngestOptions
+} from "./loader";
+export {
+  ExtractionPipeline,
+  type ChunkReport,
+  type ExtractedItem,
+  type ExtractionPipelineOptions,
+  type ExtractionResult
+} from "./pipeline";
+export { describeSource, renderExtractionMarkdown } from "./render";
+export {
+  DOCUMENT_FORMATS,
+  FORMAT_EXTENSIONS,
+  IngestionError,
+  type DocumentChunk,
+  type DocumentFormat,
+  type DocumentSection,
+  type ParsedDocument,
+  type SourceLocation
+} from "./types";
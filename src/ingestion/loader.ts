@@ -0,0 +1,145 @@
+import fs from "fs";
+import path from "path";
+import { mapConcurrent } from "../runtime";
+import { chunkDocument } from "./chunker";
+import { formatOf, parseDocument } from "./converters";
+import { IngestionError, type DocumentChunk, type DocumentFormat, type ParsedDocument } from "./types";
+
+export interface IngestOptions {
+  /** Chunk size in characters */
+  maxChars: number;
+  /** Files converted at once (default 4) */
+  concurrency?: number;
+  /** Called after each file, converted or not */
+  onDocument?: (document: string, outcome: ParsedDocument | IngestionError) => void;
+}
+
+export interface IngestFailure {
+  document: string;
+  error: string;
+}
+
+export interface IngestedCorpus {
+  documents: ParsedDocument[];
+  chunks: DocumentChunk[];
+  failures: IngestFailure[];
+}
+
+export interface DocumentSummary {
+  document: string;
+  format: DocumentFormat;
+  pages: number | null;
+  sections: number;
+  chars: number;
+  chunks: number;
+}
+
+/** Directories never descended into */
+const SKIPPED_DIRS = new Set(["node_modules", ".git"]);
+
+/**
+ * Supported files under `dir`, sorted, with paths relative to it. Hidden
+ * files and directories, node_modules and Office lock files (`~$...`) are
+ * skipped.
+ */
+export function walkDocuments(dir: string): string[] {
+  const files: string[] = [];
+  const visit = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      if (entry.name.startsWith(".") || entry.name.startsWith("~$")) {
+        continue;
+      }
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) {
+          visit(fullPath);
+        }
+      } else if (entry.isFile() && formatOf(entry.name) !== null) {
+        files.push(path.relative(dir, fullPath));
+      }
+    }
+  };
+  visit(dir);
+  return files.sort((a, b) => a.localeCompare(b));
+}
+
+/** Path relative to the working directory with forward slashes, e.g. "rfps/acme/rfp.pdf" */
+function workingPath(filePath: string): string {
+  return path.relative(process.cwd(), path.resolve(filePath)).split(path.sep).join("/");
+}
+
+/**
+ * Converts and chunks every supported file under the given directories and
+ * files. With one input, files inside a directory are named relative to it
+ * and a file given directly keeps its name. With several, every document is
+ * named by its path from the working directory, so `a/rfp.pdf` and
+ * `b/rfp.pdf` stay apart; a file reached through two inputs is read once.
+ * A file that fails to convert is reported in `failures` and the rest carry on.
+ *
+ * @throws IngestionError when an input does not exist
+ */
+export async function ingestDocuments(inputs: string[], options: IngestOptions): Promise<IngestedCorpus> {
+  const qualify = inputs.length > 1;
+  const seen = new Set<string>();
+  const files: Array<{ filePath: string; document: string }> = [];
+  const add = (filePath: string, name: string) => {
+    const resolved = path.resolve(filePath);
+    if (!seen.has(resolved)) {
+      seen.add(resolved);
+      files.push({ filePath, document: qualify ? workingPath(filePath) : name });
+    }
+  };
+
+  for (const input of inputs) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(input);
+    } catch {
+      throw new IngestionError(input, "No such file or directory");
+    }
+    if (stat.isDirectory()) {
+      walkDocuments(input).forEach((relative) => add(path.join(input, relative), relative));
+    } else {
+      add(input, path.basename(input));
+    }
+  }
+
+  const outcomes = await mapConcurrent(files, Math.max(1, options.concurrency ?? 4), async ({ filePath, document }) => {
+    let outcome: ParsedDocument | IngestionError;
+    try {
+      outcome = await parseDocument(filePath, document);
+    } catch (error) {
+      outcome = error instanceof IngestionError ? error : new IngestionError(filePath, String(error), { cause: error });
+    }
+    options.onDocument?.(document, outcome);
+    return { document, outcome };
+  });
+
+  const documents: ParsedDocument[] = [];
+  const failures: IngestFailure[] = [];
+  for (const { document, outcome } of outcomes) {
+    if (outcome instanceof IngestionError) {
+      failures.push({ document, error: outcome.message });
+    } else if (outcome.sections.length === 0) {
+      failures.push({ document, error: "No text found (scanned PDFs need OCR first)" });
+    } else {
+      documents.push(outcome);
+    }
+  }
+  return {
+    documents,
+    chunks: documents.flatMap((doc) => chunkDocument(doc, { maxChars: options.maxChars })),
+    failures
+  };
+}
+
+export function summarizeCorpus(corpus: IngestedCorpus): DocumentSummary[] {
+  return corpus.documents.map((doc) => ({
+    document: doc.document,
+    format: doc.format,
+    pages: doc.pages,
+    sections: doc.sections.length,
+    chars: doc.chars,
+    chunks: corpus.chunks.filter((chunk) => chunk.document === doc.document).length
+  }));
+}
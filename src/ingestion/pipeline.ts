@@ -0,0 +1,183 @@
+import { ExtractionAgent, type ExtractionSpec } from "../agents/extraction";
+import { BudgetGovernor } from "../budget";
+import { getConfig } from "../config";
+import { mapConcurrent, type AgentRuntimeDeps, type ModelAlias, type RetryOptions, type RunOptions } from "../runtime";
+import {
+  ingestDocuments,
+  summarizeCorpus,
+  type DocumentSummary,
+  type IngestedCorpus,
+  type IngestFailure
+} from "./loader";
+import type { DocumentChunk, IngestionError, ParsedDocument, SourceLocation } from "./types";
+
+export interface ExtractionPipelineOptions extends AgentRuntimeDeps {
+  /** Extraction runs (and file conversions) in flight at once (default INGEST_CONCURRENCY) */
+  concurrency?: number;
+  /** Chunk size in characters (default INGEST_CHUNK_CHARS) */
+  maxChars?: number;
+  model?: ModelAlias;
+  /** Attempts at valid output per chunk (default 2) */
+  maxAttempts?: number;
+  /** Retries for overloaded / network failures; `false` fails on the first error */
+  retry?: RetryOptions | false;
+  /** Called after each file is converted (or failed to) */
+  onDocument?: (document: string, outcome: ParsedDocument | IngestionError) => void;
+  /** Called when a chunk's extraction starts and when it finishes */
+  onChunk?: (report: ChunkReport) => void;
+}
+
+export interface ChunkReport {
+  chunk: string;
+  document: string;
+  status: "running" | "succeeded" | "failed";
+  items: number;
+  costUSD: number;
+  durationMs: number;
+  error: string | null;
+}
+
+/** One merged item with every place it was found */
+export interface ExtractedItem<T> {
+  value: T;
+  sources: SourceLocation[];
+}
+
+export interface ExtractionResult<T> {
+  spec: string;
+  items: Array<ExtractedItem<T>>;
+  documents: DocumentSummary[];
+  chunks: ChunkReport[];
+  /** Files that could not be converted and chunks whose extraction failed */
+  failures: IngestFailure[];
+  costUSD: number;
+  durationMs: number;
+}
+
+const defaultKey = (value: unknown) => JSON.stringify(value).toLowerCase().replace(/\s+/g, " ");
+
+const sameLocation = (a: SourceLocation, b: SourceLocation) =>
+  a.document === b.document && a.page === b.page && a.section === b.section && a.sheet === b.sheet && a.rows === b.rows;
+
+/**
+ * Document ingestion plus parallel extraction: converts every file under
+ * the inputs to chunks with provenance, runs an ExtractionAgent over the
+ * chunks with at most `concurrency` runs in flight, and merges the items
+ * into one list in document order, each with the pages / sections / sheets
+ * it was read from.
+ *
+ * A file or chunk that fails is reported in `failures`; the rest of the
+ * corpus is still extracted. RATE_LIMIT_USD_PER_RUN applies to each chunk
+ * run, the hourly and daily caps to all of them together.
+ */
+export class ExtractionPipeline {
+  private agent: ExtractionAgent;
+  private concurrency: number;
+  private maxChars: number;
+  private onDocument: ExtractionPipelineOptions["onDocument"];
+  private onChunk: ExtractionPipelineOptions["onChunk"];
+
+  constructor(options: ExtractionPipelineOptions = {}) {
+    const { concurrency, maxChars, model, maxAttempts, retry, onDocument, onChunk, ...deps } = options;
+    const appConfig = deps.appConfig ?? getConfig();
+    // One governor for all chunk runs so the request rate is paced across them
+    this.agent = new ExtractionAgent({
+      ...deps,
+      appConfig,
+      budget: deps.budget === undefined ? BudgetGovernor.fromConfig(appConfig) : deps.budget,
+      model,
+      maxAttempts,
+      retry
+    });
+    this.concurrency = Math.max(1, concurrency ?? appConfig.ingestion.concurrency);
+    this.maxChars = maxChars ?? appConfig.ingestion.chunkChars;
+    this.onDocument = onDocument;
+    this.onChunk = onChunk;
+  }
+
+  /** Converts and chunks the inputs without calling a model */
+  ingest(inputs: string[]): Promise<IngestedCorpus> {
+    return ingestDocuments(inputs, { maxChars: this.maxChars, concurrency: this.concurrency, onDocument: this.onDocument });
+  }
+
+  /** Ingests the directories / files and extracts `spec` from them */
+  async run<T>(inputs: string[], spec: ExtractionSpec<T>, run?: RunOptions): Promise<ExtractionResult<T>> {
+    const started = Date.now();
+    const result = await this.extract(await this.ingest(inputs), spec, run);
+    return { ...result, durationMs: Date.now() - started };
+  }
+
+  /** Extracts `spec` from an already ingested corpus */
+  async extract<T>(corpus: IngestedCorpus, spec: ExtractionSpec<T>, run?: RunOptions): Promise<ExtractionResult<T>> {
+    const started = Date.now();
+    const outcomes = await mapConcurrent(corpus.chunks, this.concurrency, (chunk) => this.extractChunk(chunk, spec, run));
+
+    const key = spec.key ?? defaultKey;
+    const merged = new Map<string, ExtractedItem<T>>();
+    for (const { chunk, items } of outcomes) {
+      for (const { part, value } of items) {
+        const source = chunk.parts[part] as SourceLocation;
+        const id = key(value);
+        const existing = merged.get(id);
+        if (!existing) {
+          merged.set(id, { value, sources: [source] });
+          continue;
+        }
+        existing.value = spec.merge ? spec.merge(existing.value, value) : existing.value;
+        if (!existing.sources.some((known) => sameLocation(known, source))) {
+          existing.sources.push(source);
+        }
+      }
+    }
+
+    const chunks = outcomes.map((outcome) => outcome.report);
+    return {
+      spec: spec.name,
+      items: [...merged.values()],
+      documents: summarizeCorpus(corpus),
+      chunks,
+      failures: [
+        ...corpus.failures,
+        ...chunks
+          .filter((report) => report.status === "failed")
+          .map((report) => ({ document: report.chunk, error: report.error ?? "unknown error" }))
+      ],
+      costUSD: chunks.reduce((total, report) => total + report.costUSD, 0),
+      durationMs: Date.now() - started
+    };
+  }
+
+  private async extractChunk<T>(chunk: DocumentChunk, spec: ExtractionSpec<T>, run?: RunOptions) {
+    const started = Date.now();
+    const report: ChunkReport = {
+      chunk: chunk.id,
+      document: chunk.document,
+      status: "running",
+      items: 0,
+      costUSD: 0,
+      durationMs: 0,
+      error: null
+    };
+    this.onChunk?.({ ...report });
+
+    let items: Array<{ part: number; value: T }> = [];
+    if (run?.options?.abortController?.signal.aborted) {
+      report.status = "failed";
+      report.error = "Aborted";
+    } else {
+      try {
+        const extraction = await this.agent.extract(chunk, spec, run);
+        items = extraction.items;
+        report.status = "succeeded";
+        report.items = items.length;
+        report.costUSD = extraction.costUSD;
+      } catch (error) {
+        report.status = "failed";
+        report.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+    report.durationMs = Date.now() - started;
+    this.onChunk?.({ ...report });
+    return { chunk, items, report };
+  }
+}
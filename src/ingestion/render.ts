@@ -0,0 +1,56 @@
+import { locationLabel } from "./chunker";
+import type { ExtractionResult } from "./pipeline";
+import type { SourceLocation } from "./types";
+
+/** "rfp.pdf, page 3 · 2.1 Security" */
+export function describeSource(source: SourceLocation): string {
+  const where = locationLabel(source);
+  return where === "text" ? source.document : `${source.document}, ${where}`;
+}
+
+function cell(value: unknown): string {
+  const text = value === undefined || value === null ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * Markdown report of an extraction: one table row per item with a column
+ * per field and the sources last, then the documents read and any
+ * failures.
+ */
+export function renderExtractionMarkdown<T>(result: ExtractionResult<T>): string {
+  const columns = [
+    ...new Set(
+      result.items.flatMap((item) =>
+        item.value !== null && typeof item.value === "object" && !Array.isArray(item.value) ? Object.keys(item.value) : ["value"]
+      )
+    )
+  ];
+  const row = (value: T) =>
+    columns.map((column) =>
+      value !== null && typeof value === "object" && !Array.isArray(value)
+        ? cell((value as Record<string, unknown>)[column])
+        : cell(value)
+    );
+
+  const lines = [
+    `# Extracted ${result.spec}`,
+    "",
+    `${result.items.length} item(s) from ${result.documents.length} document(s), ${result.chunks.length} chunk(s), $${result.costUSD.toFixed(2)}.`,
+    ""
+  ];
+  if (result.items.length > 0) {
+    lines.push(
+      `| ${[...columns, "source"].join(" | ")} |`,
+      `|${[...columns, "source"].map(() => "---").join("|")}|`,
+      ...result.items.map((item) => `| ${[...row(item.value), cell(item.sources.map(describeSource).join("; "))].join(" | ")} |`),
+      ""
+    );
+  }
+
+  lines.push("## Documents", "", ...result.documents.map((doc) => `- ${doc.document} (${doc.format}, ${doc.chunks} chunk(s))`), "");
+  if (result.failures.length > 0) {
+    lines.push("## Failures", "", ...result.failures.map((failure) => `- ${failure.document}: ${failure.error.split("\n")[0]}`), "");
+  }
+  return lines.join("\n");
+}
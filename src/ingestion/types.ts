@@ -0,0 +1,81 @@
+export const DOCUMENT_FORMATS = ["pdf", "docx", "xlsx", "html", "markdown", "text"] as const;
+
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+/** File extensions picked up when walking a directory */
+export const FORMAT_EXTENSIONS: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".xlsx": "xlsx",
+  ".html": "html",
+  ".htm": "html",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text"
+};
+
+/**
+ * Where a piece of text came from. `page` is set for PDFs, `sheet` for
+ * spreadsheets (with `rows`, e.g. "2-40"), `section` for anything with
+ * headings (the heading path, e.g. "3 Requirements > 3.2 Security").
+ */
+export interface SourceLocation {
+  /** The document's id, see ParsedDocument.document */
+  document: string;
+  page: number | null;
+  section: string | null;
+  sheet: string | null;
+  rows: string | null;
+}
+
+/** A run of text with one location, as produced by the converters */
+export interface DocumentSection {
+  text: string;
+  page: number | null;
+  section: string | null;
+  sheet: string | null;
+  rows: string | null;
+}
+
+export interface ParsedDocument {
+  path: string;
+  /**
+   * Id used in provenance: relative to the ingested directory (the file
+   * name for a single file), or to the working directory when several
+   * inputs were ingested together
+   */
+  document: string;
+  format: DocumentFormat;
+  /** Page count for PDFs, sheet count for spreadsheets, null otherwise */
+  pages: number | null;
+  sections: DocumentSection[];
+  chars: number;
+}
+
+/**
+ * Text handed to one extraction run. `text` carries numbered markers
+ * ("[1] page 3 · 2.1 Security") before each part; `parts[n - 1]` is the
+ * location of marker n, so extracted items can point at their source.
+ */
+export interface DocumentChunk {
+  id: string;
+  document: string;
+  format: DocumentFormat;
+  index: number;
+  text: string;
+  parts: SourceLocation[];
+}
+
+/**
+ * Thrown when a file cannot be read or converted. During directory
+ * ingestion these are collected per file instead of stopping the run.
+ */
+export class IngestionError extends Error {
+  readonly filePath: string;
+
+  constructor(filePath: string, message: string, options?: { cause?: unknown }) {
+    super(`${filePath}: ${message}`, options);
+    this.name = "IngestionError";
+    this.filePath = filePath;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Okapi BM25 over a small in-memory corpus. The knowledge base ranks the
+ * candidate rows of each query with it, so search needs no embeddings and
+ * behaves the same on every backend.
+ */
+
+const STOPWORDS = new Set(
+  "a an and are as at be by for from has have in is it its of on or that the their this to was were what which who with".split(" ")
+);
+
+/** Lowercased word tokens without stopwords, with plural "s" stripped */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((token) => !STOPWORDS.has(token))
+    .map((token) => (token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token));
+}
+
+export interface Bm25Options {
+  /** Term frequency saturation (default 1.2) */
+  k1?: number;
+  /** Length normalisation (default 0.75) */
+  b?: number;
+}
+
+/**
+ * BM25 score of every document for `query`, in document order. Documents
+ * sharing no term with the query score 0.
+ */
+export function bm25Scores(query: string, documents: string[], options: Bm25Options = {}): number[] {
+  const k1 = options.k1 ?? 1.2;
+  const b = options.b ?? 0.75;
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const docs = documents.map((document) => {
+    const frequencies = new Map<string, number>();
+    const tokens = tokenize(document);
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    return { length: tokens.length, frequencies };
+  });
+
+  const averageLength = docs.reduce((total, doc) => total + doc.length, 0) / docs.length || 1;
+  const idf = new Map(
+    terms.map((term) => {
+      const containing = docs.filter((doc) => doc.frequencies.has(term)).length;
+      return [term, Math.log(1 + (docs.length - containing + 0.5) / (containing + 0.5))];
+    })
+  );
+
+  return docs.map((doc) =>
+    terms.reduce((score, term) => {
+      const frequency = doc.frequencies.get(term) ?? 0;
+      if (frequency === 0) {
+        return score;
+      }
+      const norm = frequency + k1 * (1 - b + (b * doc.length) / averageLength);
+      return score + (idf.get(term) ?? 0) * ((frequency * (k1 + 1)) / norm);
+    }, 0)
+  );
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += (a[index] ?? 0) * (b[index] ?? 0);
+    normA += (a[index] ?? 0) ** 2;
+    normB += (b[index] ?? 0) ** 2;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,50 @@
+import type { KnowledgeFinding } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** "today", "3 days ago", "5 months ago", ... */
+export function formatAge(timestamp: string, now: Date = new Date()): string {
+  const days = Math.max(0, Math.floor((now.getTime() - new Date(timestamp).getTime()) / DAY_MS));
+  if (days === 0) {
+    return "today";
+  }
+  if (days < 60) {
+    return days === 1 ? "1 day ago" : `${days} days ago`;
+  }
+  const months = Math.floor(days / 30);
+  return months < 24 ? `${months} months ago` : `${Math.floor(days / 365)} years ago`;
+}
+
+/**
+ * Prior findings as a prompt section, grouped by entity, each line showing
+ * when it was last confirmed so the model can decide what to re-check.
+ * Returns "" when there is nothing to inject.
+ */
+export function priorFindingsContext(findings: KnowledgeFinding[], now: Date = new Date()): string {
+  if (findings.length === 0) {
+    return "";
+  }
+
+  const byEntity = new Map<string, KnowledgeFinding[]>();
+  for (const finding of findings) {
+    byEntity.set(finding.entity, [...(byEntity.get(finding.entity) ?? []), finding]);
+  }
+
+  const sections = Array.from(byEntity, ([entity, entityFindings]) =>
+    [
+      `### ${entity}`,
+      ...entityFindings.map(
+        (finding) =>
+          `- [${finding.topic}, ${formatAge(finding.updatedAt, now)}] ${finding.statement} (${finding.sourceUrls.join(", ")})`
+      )
+    ].join("\n")
+  );
+
+  return `## Prior findings
+
+Earlier runs already established the following. Ages show when each finding was last confirmed.
+Reuse recent findings with their sources instead of researching them again; re-verify old ones and
+anything likely to have changed (funding, leadership, pricing, headcount).
+
+${sections.join("\n\n")}`;
+}
@@ -0,0 +1,16 @@
+export { bm25Scores, cosineSimilarity, tokenize, type Bm25Options } from "./bm25";
+export { formatAge, priorFindingsContext } from "./context";
+export { KnowledgeBase, type KnowledgeBaseOptions } from "./knowledge-base";
+export { PostgresKnowledgeBackend } from "./postgres-backend";
+export { SqliteKnowledgeBackend } from "./sqlite-backend";
+export { createKnowledgeMcpServer, KB_SERVER_NAME, KB_TOOLS } from "./tools";
+export {
+  KnowledgeError,
+  type CandidateFilter,
+  type Embedder,
+  type FindingInput,
+  type KnowledgeBackend,
+  type KnowledgeFinding,
+  type KnowledgeHit,
+  type KnowledgeQuery
+} from "./types";
@@ -0,0 +1,172 @@
+import crypto from "crypto";
+import path from "path";
+import type { AppConfig } from "../config";
+import { bm25Scores, cosineSimilarity } from "./bm25";
+import { PostgresKnowledgeBackend } from "./postgres-backend";
+import { SqliteKnowledgeBackend } from "./sqlite-backend";
+import {
+  KnowledgeError,
+  type Embedder,
+  type FindingInput,
+  type KnowledgeBackend,
+  type KnowledgeFinding,
+  type KnowledgeHit,
+  type KnowledgeQuery
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Reciprocal rank fusion constant for combining BM25 and vector rankings */
+const RRF_K = 60;
+
+export interface KnowledgeBaseOptions {
+  /** Enables vector search next to BM25; findings are embedded as they are saved */
+  embedder?: Embedder;
+  now?: () => Date;
+}
+
+function normalizeStatement(statement: string): string {
+  return statement.trim().toLowerCase().replace(/\s+/g, " ").replace(/[.;,\s]+$/, "");
+}
+
+/** Same entity + same statement is the same finding, however often it is saved */
+function findingKey(entity: string, statement: string): string {
+  return crypto.createHash("sha256").update(`${entity.trim().toLowerCase()}\n${normalizeStatement(statement)}`).digest("hex");
+}
+
+function rankOf(scores: number[]): Map<number, number> {
+  return new Map(
+    scores
+      .map((score, index) => ({ score, index }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(({ index }, rank) => [index, rank + 1])
+  );
+}
+
+/**
+ * Findings remembered across runs, so agents start from what earlier
+ * research already established.
+ *
+ * Search is BM25 over topic and statement, so it works without any model or
+ * embedding service; with an `embedder` it is fused with cosine similarity.
+ * Stored in SQLite (KNOWLEDGE_DB_PATH) or Postgres when DATABASE_URL is set.
+ */
+export class KnowledgeBase {
+  private static shared = new Map<string, KnowledgeBase>();
+  private backend: KnowledgeBackend;
+  private embedder: Embedder | undefined;
+  private now: () => Date;
+
+  constructor(backend: KnowledgeBackend, options: KnowledgeBaseOptions = {}) {
+    this.backend = backend;
+    this.embedder = options.embedder;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Knowledge base for the configured database, shared per location */
+  static fromConfig(config: AppConfig): KnowledgeBase {
+    const location = config.databaseUrl ?? path.resolve(config.knowledge.dbPath);
+    let kb = KnowledgeBase.shared.get(location);
+    if (!kb) {
+      kb = new KnowledgeBase(
+        config.databaseUrl ? new PostgresKnowledgeBackend(config.databaseUrl) : new SqliteKnowledgeBackend(config.knowledge.dbPath)
+      );
+      KnowledgeBase.shared.set(location, kb);
+    }
+    return kb;
+  }
+
+  get kind(): KnowledgeBackend["kind"] {
+    return this.backend.kind;
+  }
+
+  /**
+   * Saves findings. A finding already known for the entity is refreshed
+   * (its sources merged and its age reset) instead of duplicated.
+   */
+  async save(inputs: FindingInput[]): Promise<KnowledgeFinding[]> {
+    const valid = inputs.filter((input) => input.entity.trim() && input.statement.trim());
+    if (valid.length === 0) {
+      return [];
+    }
+
+    const now = this.now().toISOString();
+    const embeddings = this.embedder ? await this.embedder(valid.map((input) => `${input.topic}: ${input.statement}`)) : null;
+
+    return this.backend.upsert(
+      valid.map((input, index) => ({
+        id: crypto.randomUUID(),
+        key: findingKey(input.entity, input.statement),
+        entity: input.entity.trim(),
+        topic: input.topic.trim() || "general",
+        statement: input.statement.trim(),
+        sourceUrls: input.sourceUrls,
+        confidence: input.confidence ?? "medium",
+        createdAt: now,
+        updatedAt: now,
+        runId: input.runId ?? null,
+        embedding: embeddings?.[index] ?? null
+      }))
+    );
+  }
+
+  /**
+   * Findings ranked by relevance to `query.text`. Findings with no term in
+   * common with the query (and, with an embedder, no similarity) are left out.
+   */
+  async search(query: KnowledgeQuery): Promise<KnowledgeHit[]> {
+    if (!query.text.trim()) {
+      throw new KnowledgeError("Search text is empty");
+    }
+
+    const candidates = await this.backend.candidates({
+      entity: query.entity,
+      topic: query.topic,
+      since: query.maxAgeDays !== undefined ? new Date(this.now().getTime() - query.maxAgeDays * DAY_MS).toISOString() : undefined
+    });
+    const limit = query.limit ?? 10;
+
+    // Without an entity filter the entity name is part of what can match
+    const documents = candidates.map((finding) =>
+      query.entity ? `${finding.topic} ${finding.statement}` : `${finding.entity} ${finding.topic} ${finding.statement}`
+    );
+    const lexical = bm25Scores(query.text, documents);
+
+    let scores = lexical;
+    if (this.embedder && candidates.some((finding) => finding.embedding)) {
+      const [queryVector = []] = await this.embedder([query.text]);
+      const semantic = candidates.map((finding) => (finding.embedding ? Math.max(0, cosineSimilarity(queryVector, finding.embedding)) : 0));
+      const lexicalRank = rankOf(lexical);
+      const semanticRank = rankOf(semantic);
+      scores = candidates.map((_finding, index) => {
+        const byLexical = lexicalRank.get(index);
+        const bySemantic = semanticRank.get(index);
+        return (byLexical ? 1 / (RRF_K + byLexical) : 0) + (bySemantic ? 1 / (RRF_K + bySemantic) : 0);
+      });
+    }
+
+    return candidates
+      .map(({ embedding: _embedding, ...finding }, index) => ({ finding, score: scores[index] ?? 0 }))
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score || b.finding.updatedAt.localeCompare(a.finding.updatedAt))
+      .slice(0, limit);
+  }
+
+  /** Most recently confirmed findings about an entity */
+  async recent(entity: string, options: { limit?: number; maxAgeDays?: number } = {}): Promise<KnowledgeFinding[]> {
+    const candidates = await this.backend.candidates({
+      entity,
+      since: options.maxAgeDays !== undefined ? new Date(this.now().getTime() - options.maxAgeDays * DAY_MS).toISOString() : undefined
+    });
+    return candidates.slice(0, options.limit ?? 30).map(({ embedding: _embedding, ...finding }) => finding);
+  }
+
+  async close(): Promise<void> {
+    for (const [location, kb] of KnowledgeBase.shared) {
+      if (kb === this) {
+        KnowledgeBase.shared.delete(location);
+      }
+    }
+    await this.backend.close();
+  }
+}
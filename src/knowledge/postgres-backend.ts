@@ -0,0 +1,149 @@
+import { Pool } from "pg";
+import { KnowledgeError, type CandidateFilter, type KnowledgeBackend, type KnowledgeFinding } from "./types";
+
+interface FindingRow {
+  id: string;
+  entity: string;
+  topic: string;
+  statement: string;
+  source_urls: string[];
+  confidence: KnowledgeFinding["confidence"];
+  created_at: Date;
+  updated_at: Date;
+  run_id: string | null;
+  embedding: number[] | null;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS kb_findings (
+  id TEXT PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  entity TEXT NOT NULL,
+  entity_key TEXT NOT NULL,
+  topic TEXT NOT NULL,
+  statement TEXT NOT NULL,
+  source_urls JSONB NOT NULL,
+  confidence TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  run_id TEXT,
+  embedding JSONB
+);
+CREATE INDEX IF NOT EXISTS kb_findings_entity ON kb_findings (entity_key, updated_at);
+`;
+
+function fromRow(row: FindingRow): KnowledgeFinding & { embedding: number[] | null } {
+  return {
+    id: row.id,
+    entity: row.entity,
+    topic: row.topic,
+    statement: row.statement,
+    sourceUrls: row.source_urls,
+    confidence: row.confidence,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+    runId: row.run_id,
+    embedding: row.embedding
+  };
+}
+
+/**
+ * Knowledge backend in Postgres (DATABASE_URL), for teams sharing one
+ * knowledge base. The table is created on first use.
+ */
+export class PostgresKnowledgeBackend implements KnowledgeBackend {
+  readonly kind = "postgres";
+  private pool: Pool;
+  private ready: Promise<void> | null = null;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString, max: 4 });
+  }
+
+  async upsert(findings: Array<KnowledgeFinding & { key: string; embedding: number[] | null }>): Promise<KnowledgeFinding[]> {
+    await this.init();
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      const saved: KnowledgeFinding[] = [];
+      for (const finding of findings) {
+        const { rows } = await client.query<FindingRow>(
+          `INSERT INTO kb_findings (id, key, entity, entity_key, topic, statement, source_urls, confidence, created_at, updated_at, run_id, embedding)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+           ON CONFLICT (key) DO UPDATE SET
+             topic = EXCLUDED.topic,
+             source_urls = (
+               SELECT jsonb_agg(DISTINCT url) FROM jsonb_array_elements(kb_findings.source_urls || EXCLUDED.source_urls) AS url
+             ),
+             confidence = EXCLUDED.confidence,
+             updated_at = EXCLUDED.updated_at,
+             run_id = EXCLUDED.run_id,
+             embedding = COALESCE(EXCLUDED.embedding, kb_findings.embedding)
+           RETURNING *`,
+          [
+            finding.id,
+            finding.key,
+            finding.entity,
+            finding.entity.trim().toLowerCase(),
+            finding.topic,
+            finding.statement,
+            JSON.stringify(finding.sourceUrls),
+            finding.confidence,
+            finding.createdAt,
+            finding.updatedAt,
+            finding.runId,
+            finding.embedding ? JSON.stringify(finding.embedding) : null
+          ]
+        );
+        const { embedding: _embedding, ...row } = fromRow(rows[0] as FindingRow);
+        saved.push(row);
+      }
+      await client.query("COMMIT");
+      return saved;
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw new KnowledgeError(`Saving findings failed: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    } finally {
+      client.release();
+    }
+  }
+
+  async candidates(filter: CandidateFilter): Promise<Array<KnowledgeFinding & { embedding: number[] | null }>> {
+    await this.init();
+    const clauses: string[] = [];
+    const params: string[] = [];
+    if (filter.entity) {
+      params.push(filter.entity.trim().toLowerCase());
+      clauses.push(`entity_key = $${params.length}`);
+    }
+    if (filter.topic) {
+      params.push(filter.topic.trim().toLowerCase());
+      clauses.push(`lower(topic) = $${params.length}`);
+    }
+    if (filter.since) {
+      params.push(filter.since);
+      clauses.push(`updated_at >= $${params.length}`);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const { rows } = await this.pool.query<FindingRow>(`SELECT * FROM kb_findings ${where} ORDER BY updated_at DESC`, params);
+    return rows.map(fromRow);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private init(): Promise<void> {
+    this.ready ??= this.pool.query(SCHEMA).then(
+      () => undefined,
+      (error: unknown) => {
+        this.ready = null;
+        throw new KnowledgeError(`Cannot reach the knowledge database: ${error instanceof Error ? error.message : String(error)}`, {
+          cause: error
+        });
+      }
+    );
+    return this.ready;
+  }
+}
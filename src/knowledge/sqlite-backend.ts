@@ -0,0 +1,136 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { CandidateFilter, KnowledgeBackend, KnowledgeFinding } from "./types";
+
+interface FindingRow {
+  id: string;
+  entity: string;
+  topic: string;
+  statement: string;
+  source_urls: string;
+  confidence: KnowledgeFinding["confidence"];
+  created_at: string;
+  updated_at: string;
+  run_id: string | null;
+  embedding: string | null;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS findings (
+  id TEXT PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  entity TEXT NOT NULL,
+  entity_key TEXT NOT NULL,
+  topic TEXT NOT NULL,
+  statement TEXT NOT NULL,
+  source_urls TEXT NOT NULL,
+  confidence TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  run_id TEXT,
+  embedding TEXT
+);
+CREATE INDEX IF NOT EXISTS findings_entity ON findings (entity_key, updated_at);
+`;
+
+function fromRow(row: FindingRow): KnowledgeFinding & { embedding: number[] | null } {
+  return {
+    id: row.id,
+    entity: row.entity,
+    topic: row.topic,
+    statement: row.statement,
+    sourceUrls: JSON.parse(row.source_urls) as string[],
+    confidence: row.confidence,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    runId: row.run_id,
+    embedding: row.embedding ? (JSON.parse(row.embedding) as number[]) : null
+  };
+}
+
+/**
+ * Knowledge backend in a local SQLite file (KNOWLEDGE_DB_PATH), created on
+ * first use. WAL mode lets several processes read while one writes.
+ */
+export class SqliteKnowledgeBackend implements KnowledgeBackend {
+  readonly kind = "sqlite";
+  readonly filePath: string;
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    this.filePath = filePath === ":memory:" ? filePath : path.resolve(filePath);
+    if (this.filePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    }
+    this.db = new Database(this.filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  async upsert(findings: Array<KnowledgeFinding & { key: string; embedding: number[] | null }>): Promise<KnowledgeFinding[]> {
+    const existing = this.db.prepare<[string], { source_urls: string }>("SELECT source_urls FROM findings WHERE key = ?");
+    const write = this.db.prepare<unknown[], FindingRow>(`
+      INSERT INTO findings (id, key, entity, entity_key, topic, statement, source_urls, confidence, created_at, updated_at, run_id, embedding)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (key) DO UPDATE SET
+        topic = excluded.topic,
+        source_urls = excluded.source_urls,
+        confidence = excluded.confidence,
+        updated_at = excluded.updated_at,
+        run_id = excluded.run_id,
+        embedding = COALESCE(excluded.embedding, findings.embedding)
+      RETURNING *
+    `);
+
+    const save = this.db.transaction((batch: typeof findings) =>
+      batch.map((finding) => {
+        const previous = existing.get(finding.key);
+        const sources = Array.from(new Set([...(previous ? (JSON.parse(previous.source_urls) as string[]) : []), ...finding.sourceUrls]));
+        const row = write.get(
+          finding.id,
+          finding.key,
+          finding.entity,
+          finding.entity.trim().toLowerCase(),
+          finding.topic,
+          finding.statement,
+          JSON.stringify(sources),
+          finding.confidence,
+          finding.createdAt,
+          finding.updatedAt,
+          finding.runId,
+          finding.embedding ? JSON.stringify(finding.embedding) : null
+        );
+        const { embedding: _embedding, ...saved } = fromRow(row as FindingRow);
+        return saved;
+      })
+    );
+
+    return save(findings);
+  }
+
+  async candidates(filter: CandidateFilter): Promise<Array<KnowledgeFinding & { embedding: number[] | null }>> {
+    const clauses: string[] = [];
+    const params: string[] = [];
+    if (filter.entity) {
+      clauses.push("entity_key = ?");
+      params.push(filter.entity.trim().toLowerCase());
+    }
+    if (filter.topic) {
+      clauses.push("lower(topic) = ?");
+      params.push(filter.topic.trim().toLowerCase());
+    }
+    if (filter.since) {
+      clauses.push("updated_at >= ?");
+      params.push(filter.since);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const rows = this.db.prepare<string[], FindingRow>(`SELECT * FROM findings ${where} ORDER BY updated_at DESC`).all(...params);
+    return rows.map(fromRow);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -0,0 +1,76 @@
+import { createSdkMcpServer, tool, type McpSdkServerConfigWithInstance } from "@anthropic-ai/claude-agent-sdk";
+import { z } from "zod";
+import { formatAge } from "./context";
+import type { KnowledgeBase } from "./knowledge-base";
+import { KnowledgeError } from "./types";
+
+/** MCP server name; tools reach the model as `mcp__kb__<tool>` */
+export const KB_SERVER_NAME = "kb";
+
+export const KB_TOOLS = ["kb_search", "kb_save"].map((name) => `mcp__${KB_SERVER_NAME}__${name}`);
+
+type ToolResult = { content: Array<{ type: "text"; text: string }>; isError?: boolean };
+
+async function respond(body: () => Promise<unknown>): Promise<ToolResult> {
+  try {
+    const value = await body();
+    return { content: [{ type: "text", text: JSON.stringify(value, null, 2) }] };
+  } catch (error) {
+    if (error instanceof KnowledgeError) {
+      return { content: [{ type: "text", text: error.message }], isError: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * In-process MCP server over a KnowledgeBase: `kb_search` to check what
+ * earlier runs found before researching, `kb_save` to remember new findings.
+ */
+export function createKnowledgeMcpServer(kb: KnowledgeBase): McpSdkServerConfigWithInstance {
+  return createSdkMcpServer({
+    name: KB_SERVER_NAME,
+    version: "1.0.0",
+    tools: [
+      tool(
+        "kb_search",
+        "Search findings saved by earlier research runs. Check here before researching a company or topic; each hit shows when it was last confirmed.",
+        {
+          query: z.string().min(1).describe("Keywords, e.g. 'Acme funding round'"),
+          entity: z.string().optional().describe("Only findings about this company / market"),
+          topic: z.string().optional(),
+          maxAgeDays: z.number().int().positive().optional().describe("Ignore findings older than this"),
+          limit: z.number().int().min(1).max(50).optional()
+        },
+        async ({ query, ...filters }) =>
+          respond(async () => {
+            const hits = await kb.search({ text: query, ...filters });
+            return hits.map(({ finding }) => ({
+              entity: finding.entity,
+              topic: finding.topic,
+              statement: finding.statement,
+              sourceUrls: finding.sourceUrls,
+              confidence: finding.confidence,
+              lastConfirmed: `${finding.updatedAt.slice(0, 10)} (${formatAge(finding.updatedAt)})`
+            }));
+          })
+      ),
+      tool(
+        "kb_save",
+        "Remember a verified finding for future runs. Save only facts you found in a source, with that source's URL.",
+        {
+          entity: z.string().min(1).describe("Company / market the finding is about"),
+          topic: z.string().min(1).describe("e.g. funding, products, leadership, pricing"),
+          statement: z.string().min(1),
+          sourceUrls: z.array(z.string().url()).min(1),
+          confidence: z.enum(["high", "medium", "low"]).optional()
+        },
+        async (finding) =>
+          respond(async () => {
+            const [saved] = await kb.save([finding]);
+            return { saved: saved?.id ?? null };
+          })
+      )
+    ]
+  });
+}
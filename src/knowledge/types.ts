@@ -0,0 +1,82 @@
+/**
+ * A fact learned by a past run, kept so later runs can start from it
+ * instead of researching it again.
+ */
+export interface KnowledgeFinding {
+  id: string;
+  /** Company, market or product the fact is about, e.g. "Acme Corp" */
+  entity: string;
+  /** Dossier section or free-form topic, e.g. "funding" */
+  topic: string;
+  statement: string;
+  sourceUrls: string[];
+  confidence: "high" | "medium" | "low";
+  /** First time the fact was saved */
+  createdAt: string;
+  /** Last time a run saved (re-confirmed) the fact */
+  updatedAt: string;
+  /** Agent run that last saved it, when known */
+  runId: string | null;
+}
+
+export interface FindingInput {
+  entity: string;
+  topic: string;
+  statement: string;
+  sourceUrls: string[];
+  confidence?: KnowledgeFinding["confidence"];
+  runId?: string | null;
+}
+
+export interface KnowledgeQuery {
+  /** Free text; matched with BM25 (and vectors when an embedder is set) */
+  text: string;
+  /** Only findings about this entity (case-insensitive) */
+  entity?: string;
+  topic?: string;
+  /** Ignore findings not confirmed within this many days */
+  maxAgeDays?: number;
+  /** Default 10 */
+  limit?: number;
+}
+
+export interface KnowledgeHit {
+  finding: KnowledgeFinding;
+  score: number;
+}
+
+/** Row filter the backends apply before ranking */
+export interface CandidateFilter {
+  entity?: string;
+  topic?: string;
+  /** ISO timestamp; only findings updated at or after it */
+  since?: string;
+}
+
+/**
+ * Storage for findings. Backends only store and filter; ranking happens in
+ * KnowledgeBase so SQLite and Postgres return the same results.
+ */
+export interface KnowledgeBackend {
+  readonly kind: "sqlite" | "postgres";
+  /**
+   * Inserts findings, or refreshes the existing row (sources, confidence,
+   * updatedAt) when the same statement about the same entity was saved before.
+   */
+  upsert(findings: Array<KnowledgeFinding & { key: string; embedding: number[] | null }>): Promise<KnowledgeFinding[]>;
+  candidates(filter: CandidateFilter): Promise<Array<KnowledgeFinding & { embedding: number[] | null }>>;
+  close(): Promise<void>;
+}
+
+/** Turns texts into vectors for optional semantic search */
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+/**
+ * Thrown for knowledge store failures (unreachable database, bad input).
+ */
+export class KnowledgeError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "KnowledgeError";
+  }
+}
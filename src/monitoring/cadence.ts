@@ -0,0 +1,141 @@
+/**
+ * Cron-like cadences for watchlist entries: five fields (minute, hour,
+ * day of month, month, day of week) with `*`, lists, ranges and steps, in
+ * local time, or one of the aliases below.
+ */
+
+export const CADENCE_ALIASES: Record<string, string> = {
+  hourly: "0 * * * *",
+  daily: "0 8 * * *",
+  weekly: "0 8 * * 1",
+  monthly: "0 8 1 * *"
+};
+
+/**
+ * Thrown when a cadence expression cannot be parsed.
+ */
+export class CadenceError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cadence "${expression}": ${reason}`);
+    this.name = "CadenceError";
+  }
+}
+
+export interface Cadence {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday; 7 is accepted and folded into 0 */
+  weekdays: Set<number>;
+  /** Cron matches either day field when both are restricted */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }
+] as const;
+
+// Enough to find the next match of any valid expression (e.g. "0 0 29 2 *" needs up to 8 years)
+const SEARCH_LIMIT_DAYS = 366 * 8;
+
+function parseField(expression: string, part: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const item of part.split(",")) {
+    const [range, stepText] = item.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CadenceError(expression, `bad step in ${field.name} field "${item}"`);
+    }
+
+    let from: number = field.min;
+    let to: number = field.max;
+    if (range !== "*") {
+      const [start, end] = (range ?? "").split("-");
+      from = Number(start);
+      to = end === undefined ? (stepText === undefined ? from : field.max) : Number(end);
+    }
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < field.min || to > field.max || from > to) {
+      throw new CadenceError(expression, `${field.name} field "${item}" is outside ${field.min}-${field.max}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCadence(expression: string): Cadence {
+  const resolved = CADENCE_ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = resolved.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new CadenceError(expression, `expected ${FIELDS.length} fields or one of ${Object.keys(CADENCE_ALIASES).join(", ")}`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = FIELDS.map((field, index) =>
+    parseField(expression, parts[index] as string, field)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: parts[2] !== "*",
+    weekdaysRestricted: parts[4] !== "*"
+  };
+}
+
+function dayMatches(cadence: Cadence, date: Date): boolean {
+  if (!cadence.months.has(date.getMonth() + 1)) {
+    return false;
+  }
+  const day = cadence.days.has(date.getDate());
+  const weekday = cadence.weekdays.has(date.getDay());
+  if (cadence.daysRestricted && cadence.weekdaysRestricted) {
+    return day || weekday;
+  }
+  return day && weekday;
+}
+
+/** First time strictly after `after` that matches the cadence */
+export function nextRun(cadence: Cadence, after: Date): Date {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = after.getTime() + SEARCH_LIMIT_DAYS * 24 * 60 * 60 * 1000;
+  while (candidate.getTime() <= limit) {
+    if (!dayMatches(cadence, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cadence.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cadence.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+  throw new CadenceError(cadence.expression, "never matches a real date");
+}
+
+/** Never-run entries are due at once; others once their next run after the last one has passed */
+export function isDue(cadence: Cadence, lastRunAt: Date | null, now: Date): boolean {
+  return lastRunAt === null || nextRun(cadence, lastRunAt).getTime() <= now.getTime();
+}
@@ -0,0 +1,206 @@
+import type { MonitorSnapshot } from "../agents/monitor";
+
+export const CHANGE_CATEGORIES = ["pricing", "launch", "leadership", "news"] as const;
+export type ChangeCategory = (typeof CHANGE_CATEGORIES)[number];
+
+export interface MonitorChange {
+  category: ChangeCategory;
+  kind: "added" | "removed" | "changed";
+  company: string;
+  /** What changed: the plan, product, role or headline */
+  item: string;
+  before: string | null;
+  after: string | null;
+  /**
+   * Worth an alert: a new or changed price, a new launch, a new person in a
+   * role. Removals are never material on their own, since a scan can simply
+   * miss an item it found last time; news only goes into digests.
+   */
+  material: boolean;
+  sourceUrls: string[];
+}
+
+interface Keyed {
+  key: string;
+  company: string;
+  item: string;
+  value: string;
+  sourceUrls: string[];
+}
+
+/** Case, whitespace and punctuation differences are not changes */
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.,;:!]+$/g, "")
+    .trim();
+}
+
+function itemKey(company: string, item: string): string {
+  return `${normalize(company)}\u0000${normalize(item)}`;
+}
+
+function keyed(company: string, item: string, value: string, sourceUrls: string[]): Keyed {
+  return { key: itemKey(company, item), company, item, value, sourceUrls };
+}
+
+function compare(
+  category: ChangeCategory,
+  previousItems: Keyed[],
+  currentItems: Keyed[],
+  material: { added: boolean; changed: boolean }
+): MonitorChange[] {
+  const previous = new Map(previousItems.map((entry) => [entry.key, entry]));
+  const current = new Map(currentItems.map((entry) => [entry.key, entry]));
+  const changes: MonitorChange[] = [];
+
+  const change = (kind: MonitorChange["kind"], entry: Keyed, before: string | null, after: string | null, isMaterial: boolean) =>
+    changes.push({ category, kind, company: entry.company, item: entry.item, before, after, material: isMaterial, sourceUrls: entry.sourceUrls });
+
+  for (const [key, entry] of current) {
+    const old = previous.get(key);
+    if (!old) {
+      change("added", entry, null, entry.value, material.added);
+    } else if (normalize(old.value) !== normalize(entry.value)) {
+      change("changed", entry, old.value, entry.value, material.changed);
+    }
+  }
+  for (const [key, entry] of previous) {
+    if (!current.has(key)) {
+      change("removed", entry, entry.value, null, false);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Item-by-item comparison of two snapshots of the same entry. Items are
+ * matched on company plus plan / product / role / headline, so the
+ * monitoring prompt asks the agent to keep that wording stable.
+ */
+export function diffSnapshots(previous: MonitorSnapshot, current: MonitorSnapshot): MonitorChange[] {
+  return [
+    ...compare(
+      "pricing",
+      previous.pricing.map((point) => keyed(point.company, point.item, point.price, point.sourceUrls)),
+      current.pricing.map((point) => keyed(point.company, point.item, point.price, point.sourceUrls)),
+      { added: true, changed: true }
+    ),
+    ...compare(
+      "launch",
+      previous.launches.map((launch) => keyed(launch.company, launch.name, launch.summary, launch.sourceUrls)),
+      current.launches.map((launch) => keyed(launch.company, launch.name, launch.summary, launch.sourceUrls)),
+      // Reworded summaries of a known launch are not news
+      { added: true, changed: false }
+    ),
+    ...compare(
+      "leadership",
+      previous.leadership.map((leader) => keyed(leader.company, leader.title, leader.name, leader.sourceUrls)),
+      current.leadership.map((leader) => keyed(leader.company, leader.title, leader.name, leader.sourceUrls)),
+      { added: true, changed: true }
+    ),
+    ...compare(
+      "news",
+      previous.news.map((news) => keyed(news.company ?? "", news.headline, news.date ?? "", news.sourceUrls)),
+      current.news.map((news) => keyed(news.company ?? "", news.headline, news.date ?? "", news.sourceUrls)),
+      { added: false, changed: false }
+    )
+  ];
+}
+
+/** One line per change, e.g. "pricing: Globex Pro plan $49 → $59 per user/month" */
+export function describeChange(change: MonitorChange): string {
+  const subject = [change.company, change.item].filter(Boolean).join(" ");
+  switch (change.kind) {
+    case "added":
+      return change.category === "leadership"
+        ? `${change.category}: ${change.after} is now ${subject}`
+        : `${change.category}: ${subject}${change.category === "pricing" ? ` at ${change.after}` : ""} (new)`;
+    case "changed":
+      return `${change.category}: ${subject} ${change.before} → ${change.after}`;
+    case "removed":
+      return `${change.category}: ${subject} no longer found`;
+  }
+}
+
+// ============================================================================
+// CARRYING MISSED ITEMS FORWARD
+// ============================================================================
+
+/** Scans in a row an item may be missing from before it counts as removed */
+export const MISSED_SCANS_BEFORE_REMOVAL = 3;
+
+/**
+ * The baseline the next scan is compared against: the latest scan plus the
+ * items earlier scans found and the recent ones missed.
+ */
+export interface CarriedSnapshot {
+  snapshot: MonitorSnapshot;
+  /** Carried items (see changeKey) and how many scans in a row missed them */
+  missed: Record<string, number>;
+}
+
+/** Identifies the item a change is about across scans, as used in `CarriedSnapshot.missed` */
+export function changeKey(change: Pick<MonitorChange, "category" | "company" | "item">): string {
+  return `${change.category}\u0000${itemKey(change.company, change.item)}`;
+}
+
+function carry<T>(
+  category: ChangeCategory,
+  previousItems: T[],
+  currentItems: T[],
+  identify: (item: T) => { company: string; item: string },
+  missed: Record<string, number>,
+  nextMissed: Record<string, number>,
+  limit: number
+): T[] {
+  const keyOf = (item: T) => changeKey({ category, ...identify(item) });
+  const present = new Set(currentItems.map(keyOf));
+  const carried = previousItems.filter((item) => {
+    const key = keyOf(item);
+    if (present.has(key)) {
+      return false;
+    }
+    const count = (missed[key] ?? 0) + 1;
+    if (count >= limit) {
+      return false;
+    }
+    nextMissed[key] = count;
+    return true;
+  });
+  return [...currentItems, ...carried];
+}
+
+/**
+ * Keeps items the latest scan missed in the baseline until `limit` scans
+ * in a row missed them, so an item a flaky scan skipped and the next one
+ * finds again is not reported as new. Removals are reported once, by the
+ * scan that drops the item (see `isCarried`).
+ */
+export function carryForward(
+  previous: CarriedSnapshot,
+  current: MonitorSnapshot,
+  limit = MISSED_SCANS_BEFORE_REMOVAL
+): CarriedSnapshot {
+  const { snapshot, missed } = previous;
+  const nextMissed: Record<string, number> = {};
+  const carryItems = <T>(category: ChangeCategory, before: T[], after: T[], identify: (item: T) => { company: string; item: string }) =>
+    carry(category, before, after, identify, missed, nextMissed, limit);
+
+  return {
+    snapshot: {
+      ...current,
+      pricing: carryItems("pricing", snapshot.pricing, current.pricing, (point) => point),
+      launches: carryItems("launch", snapshot.launches, current.launches, (launch) => ({ company: launch.company, item: launch.name })),
+      leadership: carryItems("leadership", snapshot.leadership, current.leadership, (leader) => ({ company: leader.company, item: leader.title })),
+      news: carryItems("news", snapshot.news, current.news, (news) => ({ company: news.company ?? "", item: news.headline }))
+    },
+    missed: nextMissed
+  };
+}
+
+/** A removal the baseline still carries: not reported until the item is dropped */
+export function isCarried(change: MonitorChange, baseline: CarriedSnapshot): boolean {
+  return change.kind === "removed" && changeKey(change) in baseline.missed;
+}
@@ -0,0 +1,121 @@
+import { describeChange, type MonitorChange } from "./diff";
+import type { ScanRecord } from "./store";
+
+/** Material changes found by one scan */
+export interface MonitorAlert {
+  entryId: string;
+  name: string;
+  kind: "competitor" | "topic";
+  at: string;
+  summary: string | null;
+  changes: MonitorChange[];
+}
+
+export interface MonitorDigest {
+  from: string;
+  to: string;
+  title: string;
+  markdown: string;
+  scans: number;
+  /** Material changes across the period */
+  changes: number;
+  failures: number;
+  costUSD: number;
+}
+
+/** The alert for a scan, or null when nothing material changed */
+export function alertFor(record: ScanRecord): MonitorAlert | null {
+  const changes = record.changes.filter((change) => change.material);
+  if (changes.length === 0) {
+    return null;
+  }
+  return {
+    entryId: record.entryId,
+    name: record.name,
+    kind: record.kind,
+    at: record.at,
+    summary: record.summary,
+    changes
+  };
+}
+
+function sourceNote(change: MonitorChange): string {
+  return change.sourceUrls.length > 0 ? ` ([source](${change.sourceUrls[0]}))` : "";
+}
+
+/** Plain text for terminals and chat webhooks */
+export function alertText(alert: MonitorAlert): string {
+  const lines = [`🚨 ${alert.name}: ${alert.changes.length} material change(s)`];
+  for (const change of alert.changes) {
+    lines.push(`   • ${describeChange(change)}${change.sourceUrls[0] ? ` <${change.sourceUrls[0]}>` : ""}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Markdown digest of every scan in `records` (normally the last week):
+ * material changes per entry first, then other news, then entries whose
+ * scans failed.
+ */
+export function buildDigest(records: ScanRecord[], from: Date, to: Date): MonitorDigest {
+  const title = `Competitive monitoring digest, ${from.toISOString().slice(0, 10)} to ${to.toISOString().slice(0, 10)}`;
+  const byEntry = new Map<string, ScanRecord[]>();
+  for (const record of records) {
+    byEntry.set(record.entryId, [...(byEntry.get(record.entryId) ?? []), record]);
+  }
+
+  const material: string[] = [];
+  const news: string[] = [];
+  const failed: string[] = [];
+  let changes = 0;
+
+  for (const scans of byEntry.values()) {
+    const latest = scans[scans.length - 1] as ScanRecord;
+    const entryChanges = scans.flatMap((scan) => scan.changes);
+    const important = entryChanges.filter((change) => change.material);
+    changes += important.length;
+
+    if (important.length > 0) {
+      material.push(`### ${latest.name}`, "");
+      const summary = [...scans].reverse().find((scan) => scan.summary)?.summary;
+      if (summary) {
+        material.push(summary, "");
+      }
+      material.push(...important.map((change) => `- ${describeChange(change)}${sourceNote(change)}`), "");
+    }
+
+    const headlines = entryChanges.filter((change) => change.category === "news" && change.kind === "added");
+    if (headlines.length > 0) {
+      news.push(`### ${latest.name}`, "", ...headlines.map((change) => `- ${change.item}${sourceNote(change)}`), "");
+    }
+
+    if (latest.status === "failed") {
+      failed.push(`- ${latest.name}: ${latest.error ?? "unknown error"}`);
+    }
+  }
+
+  const costUSD = records.reduce((total, record) => total + record.costUSD, 0);
+  const entries = byEntry.size;
+  const lines = [
+    `# ${title}`,
+    "",
+    `${records.length} scan(s) of ${entries} watchlist entr${entries === 1 ? "y" : "ies"}, ${changes} material change(s), $${costUSD.toFixed(2)} spent.`,
+    "",
+    "## Material changes",
+    "",
+    ...(material.length > 0 ? material : ["Nothing material changed.", ""]),
+    ...(news.length > 0 ? ["## Other news", "", ...news] : []),
+    ...(failed.length > 0 ? ["## Failed scans", "", ...failed, ""] : [])
+  ];
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    title,
+    markdown: lines.join("\n"),
+    scans: records.length,
+    changes,
+    failures: failed.length,
+    costUSD
+  };
+}
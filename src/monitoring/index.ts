@@ -0,0 +1,27 @@
+export { CADENCE_ALIASES, CadenceError, isDue, nextRun, parseCadence, type Cadence } from "./cadence";
+export { alertFor, alertText, buildDigest, type MonitorAlert, type MonitorDigest } from "./digest";
+export {
+  carryForward,
+  CHANGE_CATEGORIES,
+  changeKey,
+  describeChange,
+  diffSnapshots,
+  isCarried,
+  MISSED_SCANS_BEFORE_REMOVAL,
+  type CarriedSnapshot,
+  type ChangeCategory,
+  type MonitorChange
+} from "./diff";
+export { MonitorScheduler, type MonitorSchedulerOptions } from "./scheduler";
+export { createSink, FileSink, StdoutSink, WebhookSink, type AlertSink } from "./sinks";
+export { MonitorStore, type EntryState, type ScanRecord } from "./store";
+export {
+  loadWatchlist,
+  parseWatchlist,
+  sinkSpecSchema,
+  WatchlistError,
+  watchlistSchema,
+  type SinkSpec,
+  type Watchlist,
+  type WatchlistEntry
+} from "./watchlist";
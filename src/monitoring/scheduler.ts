@@ -0,0 +1,227 @@
+import { MonitorAgent, type MonitorScan } from "../agents/monitor";
+import { HOUR_MS } from "../budget";
+import { getConfig } from "../config";
+import { sleep, type AgentRuntimeDeps, type RetryOptions, type RunOptions } from "../runtime";
+import { isDue, nextRun, parseCadence } from "./cadence";
+import { alertFor, buildDigest, type MonitorDigest } from "./digest";
+import { carryForward, diffSnapshots, isCarried, type CarriedSnapshot } from "./diff";
+import { createSink, type AlertSink } from "./sinks";
+import { MonitorStore, type ScanRecord } from "./store";
+import type { Watchlist, WatchlistEntry } from "./watchlist";
+
+export interface MonitorSchedulerOptions extends AgentRuntimeDeps {
+  watchlist: Watchlist;
+  /** Defaults to the shared store at MONITOR_STATE_PATH */
+  store?: MonitorStore;
+  /** Defaults to the sinks listed in the watchlist */
+  sinks?: AlertSink[];
+  /** Retries for overloaded / network failures per scan; `false` fails on the first error */
+  retry?: RetryOptions | false;
+  /** Called before each scan starts */
+  onScanStart?: (entry: WatchlistEntry) => void;
+  /** Called with every finished scan, failed ones included */
+  onScan?: (record: ScanRecord) => void;
+  now?: () => Date;
+}
+
+// A failed scan is tried again after this long instead of waiting a full cadence
+const FAILED_RETRY_MS = HOUR_MS;
+// Upper bound on one sleep of `watch`, so edits to the clock or state files are picked up
+const MAX_SLEEP_MS = HOUR_MS;
+
+/**
+ * Runs the watchlist on its cadences.
+ *
+ * Each due entry is scanned by the monitoring agent, the snapshot is
+ * compared with the previous one and the scan is recorded. Alerts go to
+ * every sink only when something material changed; the first scan of an
+ * entry just records a baseline. With a `digest` cadence in the watchlist,
+ * a Markdown digest of the period's scans is sent to the sinks as well.
+ *
+ * `runDue` is one pass, for cron or CI; `watch` keeps running and wakes up
+ * whenever the next entry or digest is due.
+ */
+export class MonitorScheduler {
+  readonly watchlist: Watchlist;
+  readonly store: MonitorStore;
+  readonly sinks: AlertSink[];
+  private deps: AgentRuntimeDeps;
+  private retry: RetryOptions | false | undefined;
+  private onScanStart: ((entry: WatchlistEntry) => void) | undefined;
+  private onScan: ((record: ScanRecord) => void) | undefined;
+  private now: () => Date;
+
+  constructor(options: MonitorSchedulerOptions) {
+    const { watchlist, store, sinks, retry, onScanStart, onScan, now, ...deps } = options;
+    const appConfig = deps.appConfig ?? getConfig();
+    this.watchlist = watchlist;
+    this.deps = { ...deps, appConfig };
+    this.store = store ?? MonitorStore.fromConfig(appConfig);
+    this.sinks = sinks ?? watchlist.sinks.map(createSink);
+    this.retry = retry;
+    this.onScanStart = onScanStart;
+    this.onScan = onScan;
+    this.now = now ?? (() => new Date());
+  }
+
+  get entries(): WatchlistEntry[] {
+    return this.watchlist.entries.filter((entry) => entry.enabled);
+  }
+
+  /** When the entry is next due: now for never-scanned entries, an hour after a failure */
+  nextRunAt(entry: WatchlistEntry): Date {
+    const state = this.store.entryState(entry.id);
+    if (!state) {
+      return this.now();
+    }
+    const lastRunAt = new Date(state.lastRunAt);
+    if (state.lastStatus === "failed") {
+      return new Date(lastRunAt.getTime() + FAILED_RETRY_MS);
+    }
+    return nextRun(parseCadence(entry.cadence), lastRunAt);
+  }
+
+  due(now = this.now()): WatchlistEntry[] {
+    return this.entries.filter((entry) => this.nextRunAt(entry).getTime() <= now.getTime());
+  }
+
+  /** Scans the due entries (or `only` these, due or not) one after another */
+  async runDue(only?: WatchlistEntry[], run?: RunOptions): Promise<ScanRecord[]> {
+    const records: ScanRecord[] = [];
+    for (const entry of only ?? this.due()) {
+      if (run?.options?.abortController?.signal.aborted) {
+        break;
+      }
+      records.push(await this.scanEntry(entry, run));
+    }
+    return records;
+  }
+
+  /**
+   * Scans one entry, diffs it against the last snapshot, records it and
+   * sends the alert if anything material changed. Failures are recorded,
+   * not thrown, so one entry cannot stop the rest.
+   */
+  async scanEntry(entry: WatchlistEntry, run?: RunOptions): Promise<ScanRecord> {
+    this.onScanStart?.(entry);
+    const previous = this.store.baseline(entry.id);
+    const base = { entryId: entry.id, name: entry.name, kind: entry.kind };
+
+    let scan: MonitorScan;
+    try {
+      const agent = new MonitorAgent({ ...this.deps, model: entry.model, maxTurns: entry.maxTurns, retry: this.retry });
+      scan = await agent.scan(entry, previous?.snapshot ?? null, run);
+    } catch (error) {
+      const record: ScanRecord = {
+        ...base,
+        at: this.now().toISOString(),
+        status: "failed",
+        summary: null,
+        changes: [],
+        costUSD: 0,
+        error: error instanceof Error ? error.message : String(error)
+      };
+      // A scan stopped by the caller is not a failure of the entry
+      if (!run?.options?.abortController?.signal.aborted) {
+        this.store.recordScan(record);
+      }
+      this.onScan?.(record);
+      return record;
+    }
+
+    const baseline: CarriedSnapshot = previous ? carryForward(previous, scan.snapshot) : { snapshot: scan.snapshot, missed: {} };
+    const record = this.compare(entry, previous, scan, baseline);
+    this.store.saveBaseline(entry.id, baseline);
+    this.store.recordScan(record);
+    this.onScan?.(record);
+
+    const alert = alertFor(record);
+    if (alert) {
+      await this.deliver((sink) => sink.alert(alert));
+    }
+    return record;
+  }
+
+  /** Whether the watchlist's digest cadence has come round since the last digest (or the first scan) */
+  digestDue(now = this.now()): boolean {
+    if (!this.watchlist.digest) {
+      return false;
+    }
+    const since = this.store.lastDigestAt() ?? this.firstScanAt();
+    return since !== null && isDue(parseCadence(this.watchlist.digest.cadence), since, now);
+  }
+
+  /** Digest of the scans in the `days` before `now` (default: the watchlist's `digest.days`, else 7) */
+  buildDigest(now = this.now(), days = this.watchlist.digest?.days ?? 7): MonitorDigest {
+    const from = new Date(now.getTime() - days * 24 * HOUR_MS);
+    return buildDigest(this.store.history(from), from, now);
+  }
+
+  /** Builds the digest and sends it to every sink */
+  async sendDigest(now = this.now(), days?: number): Promise<MonitorDigest> {
+    const digest = this.buildDigest(now, days);
+    await this.deliver((sink) => sink.digest(digest));
+    this.store.recordDigest(now);
+    return digest;
+  }
+
+  /**
+   * Runs until `abortController` aborts (which also stops a scan in
+   * progress): scans whatever is due, sends the digest when due, then
+   * sleeps until the next entry or digest is.
+   */
+  async watch(abortController: AbortController, run?: RunOptions): Promise<void> {
+    const { signal } = abortController;
+    while (!signal.aborted) {
+      await this.runDue(undefined, { ...run, options: { ...run?.options, abortController } });
+      if (!signal.aborted && this.digestDue()) {
+        await this.sendDigest();
+      }
+
+      const now = this.now().getTime();
+      const wakeups = this.entries.map((entry) => this.nextRunAt(entry).getTime());
+      if (this.watchlist.digest) {
+        const since = this.store.lastDigestAt() ?? this.firstScanAt() ?? this.now();
+        wakeups.push(nextRun(parseCadence(this.watchlist.digest.cadence), since).getTime());
+      }
+      const next = Math.min(...wakeups, now + MAX_SLEEP_MS);
+      await sleep(Math.max(1000, next - now), signal);
+    }
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /** Items the baseline still carries are not reported as removed yet */
+  private compare(entry: WatchlistEntry, previous: CarriedSnapshot | null, scan: MonitorScan, baseline: CarriedSnapshot): ScanRecord {
+    const changes = previous ? diffSnapshots(previous.snapshot, scan.snapshot).filter((change) => !isCarried(change, baseline)) : [];
+    return {
+      entryId: entry.id,
+      name: entry.name,
+      kind: entry.kind,
+      at: this.now().toISOString(),
+      status: !previous ? "baseline" : changes.some((change) => change.material) ? "changed" : "unchanged",
+      summary: scan.snapshot.summary,
+      changes,
+      costUSD: scan.costUSD,
+      error: null
+    };
+  }
+
+  private firstScanAt(): Date | null {
+    const [first] = this.store.history();
+    return first ? new Date(first.at) : null;
+  }
+
+  /** A sink that fails is reported and skipped; the others still get the message */
+  private async deliver(send: (sink: AlertSink) => Promise<void>): Promise<void> {
+    for (const sink of this.sinks) {
+      try {
+        await send(sink);
+      } catch (error) {
+        console.error(`⚠️  Alert sink ${sink.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import { alertText, type MonitorAlert, type MonitorDigest } from "./digest";
+import type { SinkSpec } from "./watchlist";
+
+/**
+ * Where alerts and digests go. Implement this to plug in another channel
+ * and pass it to the MonitorScheduler next to (or instead of) the sinks
+ * built from the watchlist.
+ */
+export interface AlertSink {
+  readonly name: string;
+  alert(alert: MonitorAlert): Promise<void>;
+  digest(digest: MonitorDigest): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Prints to the terminal */
+export class StdoutSink implements AlertSink {
+  readonly name = "stdout";
+
+  async alert(alert: MonitorAlert): Promise<void> {
+    console.log(alertText(alert));
+  }
+
+  async digest(digest: MonitorDigest): Promise<void> {
+    console.log(`\n${digest.markdown}`);
+  }
+}
+
+/** Appends alerts to a JSONL file and writes each digest as Markdown next to it */
+export class FileSink implements AlertSink {
+  readonly name: string;
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.name = `file:${filePath}`;
+  }
+
+  async alert(alert: MonitorAlert): Promise<void> {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify(alert)}\n`);
+  }
+
+  async digest(digest: MonitorDigest): Promise<void> {
+    const digestPath = path.join(path.dirname(this.filePath), `digest-${digest.to.slice(0, 10)}.md`);
+    fs.mkdirSync(path.dirname(digestPath), { recursive: true });
+    fs.writeFileSync(digestPath, digest.markdown);
+  }
+}
+
+/**
+ * POSTs JSON to a URL. The body has a `text` field, which Slack and Teams
+ * incoming webhooks display as is, plus the full alert or digest.
+ */
+export class WebhookSink implements AlertSink {
+  readonly name: string;
+  private url: string;
+  private headers: Record<string, string>;
+
+  constructor(url: string, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+    this.name = `webhook:${new URL(url).host}`;
+  }
+
+  async alert(alert: MonitorAlert): Promise<void> {
+    await this.post({ type: "alert", text: alertText(alert), alert });
+  }
+
+  async digest(digest: MonitorDigest): Promise<void> {
+    await this.post({ type: "digest", text: digest.markdown, digest });
+  }
+
+  private async post(body: unknown): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`${this.name} answered ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+export function createSink(spec: SinkSpec): AlertSink {
+  switch (spec.type) {
+    case "stdout":
+      return new StdoutSink();
+    case "file":
+      return new FileSink(spec.path);
+    case "webhook":
+      return new WebhookSink(spec.url, spec.headers);
+  }
+}
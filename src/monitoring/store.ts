@@ -0,0 +1,153 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { monitorSnapshotSchema } from "../agents/monitor";
+import type { AppConfig } from "../config";
+import type { CarriedSnapshot, MonitorChange } from "./diff";
+
+/**
+ * One scan of one watchlist entry, as kept in the history log. A baseline
+ * is the first scan of an entry: there was nothing to compare against.
+ */
+export interface ScanRecord {
+  entryId: string;
+  name: string;
+  kind: "competitor" | "topic";
+  at: string;
+  status: "baseline" | "unchanged" | "changed" | "failed";
+  summary: string | null;
+  /** Every difference from the previous snapshot, material or not */
+  changes: MonitorChange[];
+  costUSD: number;
+  error: string | null;
+}
+
+export interface EntryState {
+  lastRunAt: string;
+  lastStatus: ScanRecord["status"];
+  lastError: string | null;
+}
+
+interface MonitorState {
+  entries: Record<string, EntryState>;
+  lastDigestAt: string | null;
+}
+
+const stores = new Map<string, MonitorStore>();
+
+// Files written before items were carried forward have no `missed`
+const missedSchema = z.record(z.string(), z.number().int().positive()).catch({});
+
+/**
+ * Monitoring state on disk, under MONITOR_STATE_PATH:
+ *
+ *   snapshots/<entry id>.json   baseline per entry: latest snapshot plus carried items
+ *   state.json                  last run per entry and last digest
+ *   history.jsonl               every scan with its changes, for digests
+ */
+export class MonitorStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  /** Shared per directory */
+  static fromConfig(config: AppConfig): MonitorStore {
+    const dir = path.resolve(config.monitoring.statePath);
+    let store = stores.get(dir);
+    if (!store) {
+      store = new MonitorStore(dir);
+      stores.set(dir, store);
+    }
+    return store;
+  }
+
+  baseline(entryId: string): CarriedSnapshot | null {
+    const raw = this.read(this.snapshotPath(entryId));
+    if (raw === null) {
+      return null;
+    }
+    const json = JSON.parse(raw) as { missed?: unknown };
+    const parsed = monitorSnapshotSchema.safeParse(json);
+    return parsed.success ? { snapshot: parsed.data, missed: missedSchema.parse(json.missed) } : null;
+  }
+
+  saveBaseline(entryId: string, baseline: CarriedSnapshot): void {
+    this.write(this.snapshotPath(entryId), JSON.stringify({ ...baseline.snapshot, missed: baseline.missed }, null, 2));
+  }
+
+  entryState(entryId: string): EntryState | null {
+    return this.state().entries[entryId] ?? null;
+  }
+
+  lastDigestAt(): Date | null {
+    const at = this.state().lastDigestAt;
+    return at ? new Date(at) : null;
+  }
+
+  /** Appends the scan to the history and updates the entry's state */
+  recordScan(record: ScanRecord): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.appendFileSync(path.join(this.dir, "history.jsonl"), `${JSON.stringify(record)}\n`);
+
+    const state = this.state();
+    state.entries[record.entryId] = { lastRunAt: record.at, lastStatus: record.status, lastError: record.error };
+    this.saveState(state);
+  }
+
+  recordDigest(at: Date): void {
+    const state = this.state();
+    state.lastDigestAt = at.toISOString();
+    this.saveState(state);
+  }
+
+  /** Scans at or after `since`, oldest first */
+  history(since: Date = new Date(0)): ScanRecord[] {
+    const raw = this.read(path.join(this.dir, "history.jsonl")) ?? "";
+    const records: ScanRecord[] = [];
+    for (const line of raw.split("\n")) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      try {
+        const record = JSON.parse(line) as ScanRecord;
+        if (Date.parse(record.at) >= since.getTime()) {
+          records.push(record);
+        }
+      } catch {
+        // A torn line only loses that scan
+      }
+    }
+    return records;
+  }
+
+  private snapshotPath(entryId: string): string {
+    return path.join(this.dir, "snapshots", `${entryId}.json`);
+  }
+
+  private state(): MonitorState {
+    const raw = this.read(path.join(this.dir, "state.json"));
+    return raw ? (JSON.parse(raw) as MonitorState) : { entries: {}, lastDigestAt: null };
+  }
+
+  private saveState(state: MonitorState): void {
+    this.write(path.join(this.dir, "state.json"), JSON.stringify(state, null, 2));
+  }
+
+  private read(filePath: string): string | null {
+    try {
+      return fs.readFileSync(filePath, "utf8");
+    } catch {
+      return null;
+    }
+  }
+
+  /** Via a temp file and rename, so a crash never leaves half a file */
+  private write(filePath: string, content: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, content);
+    fs.renameSync(tmpPath, filePath);
+  }
+}
@@ -0,0 +1,119 @@
+import fs from "fs";
+import { z } from "zod";
+import { MODEL_ALIASES } from "../config";
+import { CadenceError, parseCadence } from "./cadence";
+
+/**
+ * Watchlist file schema (JSON).
+ *
+ *   {
+ *     "entries": [
+ *       { "id": "globex", "kind": "competitor", "name": "Globex", "website": "https://globex.example", "cadence": "weekly" },
+ *       { "id": "rev-intel", "kind": "topic", "name": "revenue intelligence software", "cadence": "0 7 * * 1,4" }
+ *     ],
+ *     "sinks": [{ "type": "stdout" }, { "type": "webhook", "url": "https://hooks.slack.com/..." }],
+ *     "digest": { "cadence": "0 9 * * 1" }
+ *   }
+ */
+
+const cadenceString = z.string().superRefine((value, ctx) => {
+  try {
+    parseCadence(value);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof CadenceError ? error.message : String(error) });
+  }
+});
+
+const entrySchema = z.object({
+  /** Stable key for snapshots and state; letters, digits, "-" and "_" */
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, "Use letters, digits, - and _"),
+  kind: z.enum(["competitor", "topic"]),
+  name: z.string().trim().min(1),
+  website: z.string().url().optional(),
+  notes: z.string().optional(),
+  cadence: cadenceString.default("weekly"),
+  model: z.enum(MODEL_ALIASES).optional(),
+  maxTurns: z.number().int().positive().optional(),
+  enabled: z.boolean().default(true)
+});
+
+export const sinkSpecSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("stdout") }),
+  z.object({
+    type: z.literal("file"),
+    /** Alerts are appended as JSONL; digests are written next to it as Markdown */
+    path: z.string().min(1)
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    url: z.string().url(),
+    headers: z.record(z.string()).optional()
+  })
+]);
+
+export const watchlistSchema = z
+  .object({
+    entries: z.array(entrySchema).min(1, "Add at least one entry"),
+    sinks: z.array(sinkSpecSchema).default([{ type: "stdout" }]),
+    digest: z
+      .object({
+        cadence: cadenceString.default("weekly"),
+        /** Days of alerts covered by each digest (default 7) */
+        days: z.number().int().positive().default(7)
+      })
+      .optional()
+  })
+  .superRefine((watchlist, ctx) => {
+    const seen = new Set<string>();
+    watchlist.entries.forEach((entry, index) => {
+      if (seen.has(entry.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["entries", index, "id"], message: `Duplicate id "${entry.id}"` });
+      }
+      seen.add(entry.id);
+    });
+  });
+
+export type WatchlistEntry = z.infer<typeof entrySchema>;
+export type SinkSpec = z.infer<typeof sinkSpecSchema>;
+export type Watchlist = z.infer<typeof watchlistSchema>;
+
+/**
+ * Thrown when the watchlist file is missing or does not match the schema.
+ */
+export class WatchlistError extends Error {
+  readonly issues: string[];
+
+  constructor(filePath: string, issues: string[]) {
+    super(`Invalid watchlist ${filePath}:\n  - ${issues.join("\n  - ")}`);
+    this.name = "WatchlistError";
+    this.issues = issues;
+  }
+}
+
+export function parseWatchlist(input: unknown, filePath = "(watchlist)"): Watchlist {
+  const parsed = watchlistSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new WatchlistError(
+      filePath,
+      parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+  return parsed.data;
+}
+
+export function loadWatchlist(filePath: string): Watchlist {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch {
+    throw new WatchlistError(filePath, ["File not found (set MONITOR_WATCHLIST_PATH)"]);
+  }
+  try {
+    return parseWatchlist(JSON.parse(raw), filePath);
+  } catch (error) {
+    if (error instanceof WatchlistError) {
+      throw error;
+    }
+    throw new WatchlistError(filePath, [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+}
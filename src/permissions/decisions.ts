@@ -0,0 +1,26 @@
+/**
+ * A single allow/deny decision made by one of our permission layers.
+ */
+export interface PermissionDecision {
+  timestamp: string;
+  sessionId: string | null;
+  tool: string;
+  toolUseId: string | null;
+  decision: "allow" | "deny";
+  /** What was being decided on: a URL, a search query, a record id, ... */
+  target: string;
+  reason: string;
+  /** Policy that made the call, e.g. "domain-policy" */
+  policy: string;
+}
+
+export type DecisionListener = (decision: PermissionDecision) => void;
+
+/**
+ * Default listener: one line per decision on stderr so stdout stays clean
+ * for machine-readable output.
+ */
+export const logDecision: DecisionListener = (decision) => {
+  const icon = decision.decision === "allow" ? "🟢" : "🛡️ ";
+  console.error(`${icon} [${decision.policy}] ${decision.decision} ${decision.tool} ${decision.target} - ${decision.reason}`);
+};
@@ -0,0 +1,148 @@
+import type { HookCallback, HookJSONOutput } from "@anthropic-ai/claude-agent-sdk";
+import { parseSearchResults } from "../citations";
+import type { HookMap } from "../runtime/hooks";
+import { logDecision, type DecisionListener, type PermissionDecision } from "./decisions";
+import type { DomainPolicy } from "./domain-policy";
+
+const POLICY = "domain-policy";
+
+/**
+ * Links from a WebSearch tool response, whichever shape it arrives in: the
+ * text block sent to the model, or the structured `{ results }` tool output.
+ */
+function searchResultUrls(response: unknown): string[] {
+  if (typeof response === "string") {
+    return parseSearchResults(response).map((link) => link.url);
+  }
+
+  const results = (response as { results?: unknown } | null)?.results;
+  if (!Array.isArray(results)) {
+    return [];
+  }
+
+  return results.flatMap((result) => {
+    if (typeof result === "string") {
+      return parseSearchResults(result).map((link) => link.url);
+    }
+    const content = (result as { content?: unknown }).content;
+    return Array.isArray(content)
+      ? content.map((link) => (link as { url?: unknown }).url).filter((url): url is string => typeof url === "string")
+      : [];
+  });
+}
+
+/**
+ * PreToolUse / PostToolUse hooks that enforce a DomainPolicy:
+ *
+ * - WebFetch: off-list URLs are denied; the reason is shown to the model
+ * - WebSearch: the query is restricted to approved domains up front, and any
+ *   off-list results that still come back are flagged so the model ignores them.
+ *   The hook only rewrites the input: whether the search may run at all is
+ *   still up to the permission mode and the agent's allowedTools
+ *
+ * Every decision is reported to `onDecision` (stderr by default).
+ */
+export function createDomainPolicyHooks(policy: DomainPolicy, onDecision: DecisionListener = logDecision): HookMap {
+  const decide = (decision: Omit<PermissionDecision, "timestamp" | "policy">) =>
+    onDecision({ ...decision, timestamp: new Date().toISOString(), policy: POLICY });
+
+  const beforeFetch: HookCallback = async (input, toolUseId): Promise<HookJSONOutput> => {
+    if (input.hook_event_name !== "PreToolUse") {
+      return {};
+    }
+
+    const url = String((input.tool_input as { url?: unknown }).url ?? "");
+    const verdict = policy.evaluate(url);
+
+    decide({
+      sessionId: input.session_id,
+      tool: input.tool_name,
+      toolUseId: toolUseId ?? null,
+      decision: verdict.allowed ? "allow" : "deny",
+      target: url,
+      reason: verdict.reason
+    });
+
+    if (verdict.allowed) {
+      return {};
+    }
+
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: "deny",
+        permissionDecisionReason: verdict.reason
+      }
+    };
+  };
+
+  const beforeSearch: HookCallback = async (input, toolUseId): Promise<HookJSONOutput> => {
+    if (input.hook_event_name !== "PreToolUse" || policy.isOpen) {
+      return {};
+    }
+
+    const { allowed_domains: _allowed, blocked_domains: _blocked, ...rest } = input.tool_input as Record<string, unknown>;
+    const filters = policy.searchFilters();
+    const reason = filters.allowed_domains
+      ? `search restricted to approved domains: ${filters.allowed_domains.join(", ")}`
+      : `search excludes blocked domains: ${(filters.blocked_domains ?? []).join(", ")}`;
+
+    decide({
+      sessionId: input.session_id,
+      tool: input.tool_name,
+      toolUseId: toolUseId ?? null,
+      decision: "allow",
+      target: String(rest.query ?? ""),
+      reason
+    });
+
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        updatedInput: { ...rest, ...filters }
+      }
+    };
+  };
+
+  const afterSearch: HookCallback = async (input, toolUseId): Promise<HookJSONOutput> => {
+    if (input.hook_event_name !== "PostToolUse" || policy.isOpen) {
+      return {};
+    }
+
+    const rejected = searchResultUrls(input.tool_response)
+      .map((url) => ({ url, verdict: policy.evaluate(url) }))
+      .filter(({ verdict }) => !verdict.allowed);
+
+    for (const { url, verdict } of rejected) {
+      decide({
+        sessionId: input.session_id,
+        tool: input.tool_name,
+        toolUseId: toolUseId ?? null,
+        decision: "deny",
+        target: url,
+        reason: verdict.reason
+      });
+    }
+
+    if (rejected.length === 0) {
+      return {};
+    }
+
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PostToolUse",
+        additionalContext:
+          "These search results are from unapproved domains. Do not fetch, use or cite them:\n" +
+          rejected.map(({ url }) => `- ${url}`).join("\n")
+      }
+    };
+  };
+
+  return {
+    PreToolUse: [
+      { matcher: "WebFetch", hooks: [beforeFetch] },
+      { matcher: "WebSearch", hooks: [beforeSearch] }
+    ],
+    PostToolUse: [{ matcher: "WebSearch", hooks: [afterSearch] }]
+  };
+}
@@ -0,0 +1,110 @@
+import type { AppConfig } from "../config";
+
+/**
+ * Domain allow/deny policy from SEARCH_DOMAINS_WHITELIST / BLACKLIST.
+ *
+ * Pattern syntax:
+ * - `example.com`   matches example.com and www.example.com
+ * - `*.example.com` matches example.com and any subdomain at any depth
+ *
+ * The blacklist always wins. An empty whitelist allows every domain that is
+ * not blacklisted.
+ */
+
+export interface DomainVerdict {
+  allowed: boolean;
+  host: string | null;
+  /** Pattern that decided the verdict, if any */
+  rule: string | null;
+  /** Explanation suitable for showing to the model */
+  reason: string;
+}
+
+export function hostOf(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return null;
+    }
+    return parsed.hostname.toLowerCase().replace(/\.$/, "");
+  } catch {
+    return null;
+  }
+}
+
+export function matchesDomain(host: string, pattern: string): boolean {
+  const normalized = pattern.trim().toLowerCase();
+  if (normalized.startsWith("*.")) {
+    const base = normalized.slice(2);
+    return host === base || host.endsWith(`.${base}`);
+  }
+  return host === normalized || host === `www.${normalized}`;
+}
+
+export class DomainPolicy {
+  readonly whitelist: string[];
+  readonly blacklist: string[];
+
+  constructor(whitelist: string[] = [], blacklist: string[] = []) {
+    this.whitelist = whitelist;
+    this.blacklist = blacklist;
+  }
+
+  static fromConfig(config: AppConfig): DomainPolicy {
+    return new DomainPolicy(config.search.domainWhitelist, config.search.domainBlacklist);
+  }
+
+  /** True when neither list restricts anything */
+  get isOpen(): boolean {
+    return this.whitelist.length === 0 && this.blacklist.length === 0;
+  }
+
+  evaluate(url: string): DomainVerdict {
+    const host = hostOf(url);
+    if (!host) {
+      return { allowed: false, host: null, rule: null, reason: `"${url}" is not a valid http(s) URL` };
+    }
+
+    const blocked = this.blacklist.find((pattern) => matchesDomain(host, pattern));
+    if (blocked) {
+      return {
+        allowed: false,
+        host,
+        rule: blocked,
+        reason: `${host} is on the blocked domain list (${blocked}); do not fetch or cite it`
+      };
+    }
+
+    if (this.whitelist.length === 0) {
+      return { allowed: true, host, rule: null, reason: `${host} is not blocked` };
+    }
+
+    const approved = this.whitelist.find((pattern) => matchesDomain(host, pattern));
+    if (approved) {
+      return { allowed: true, host, rule: approved, reason: `${host} is approved (${approved})` };
+    }
+
+    return {
+      allowed: false,
+      host,
+      rule: null,
+      reason: `${host} is not an approved source. Only these domains may be used: ${this.whitelist.join(", ")}`
+    };
+  }
+
+  /**
+   * Domain filters for the WebSearch tool input. The search API accepts
+   * either an allow list or a block list, not both, and treats every entry
+   * as covering its subdomains.
+   */
+  searchFilters(): { allowed_domains?: string[]; blocked_domains?: string[] } {
+    const strip = (pattern: string) => pattern.replace(/^\*\./, "");
+    if (this.whitelist.length > 0) {
+      return { allowed_domains: Array.from(new Set(this.whitelist.map(strip))) };
+    }
+    if (this.blacklist.length > 0) {
+      return { blocked_domains: Array.from(new Set(this.blacklist.map(strip))) };
+    }
+    return {};
+  }
+}
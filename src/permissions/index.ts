@@ -0,0 +1,4 @@
+export { logDecision, type DecisionListener, type PermissionDecision } from "./decisions";
+export { createDomainPolicyHooks } from "./domain-hooks";
+export { DomainPolicy, hostOf, matchesDomain, type DomainVerdict } from "./domain-policy";
+export { createPathScopeHooks, isInside } from "./path-hooks";
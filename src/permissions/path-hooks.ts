@@ -0,0 +1,67 @@
+import path from "path";
+import type { HookCallback, HookJSONOutput } from "@anthropic-ai/claude-agent-sdk";
+import type { HookMap } from "../runtime/hooks";
+import { logDecision, type DecisionListener } from "./decisions";
+
+const POLICY = "path-scope";
+
+/** File tools and the input field holding the path they touch */
+const PATH_FIELDS: Record<string, string> = {
+  Read: "file_path",
+  Grep: "path",
+  Glob: "path"
+};
+
+export function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * PreToolUse hooks that keep Read, Grep and Glob inside `root`. Relative
+ * paths resolve against `root` (run the agent with `cwd: root`); a Grep or
+ * Glob without a path searches the working directory and is allowed.
+ * Denials are reported to `onDecision` (stderr by default) and explained
+ * to the model.
+ */
+export function createPathScopeHooks(root: string, onDecision: DecisionListener = logDecision): HookMap {
+  const scope = path.resolve(root);
+
+  const beforeFileTool: HookCallback = async (input, toolUseId): Promise<HookJSONOutput> => {
+    if (input.hook_event_name !== "PreToolUse") {
+      return {};
+    }
+    const field = PATH_FIELDS[input.tool_name];
+    const value = field ? (input.tool_input as Record<string, unknown>)[field] : undefined;
+    if (typeof value !== "string" || value.length === 0) {
+      return {};
+    }
+    const target = path.resolve(scope, value);
+    if (isInside(scope, target)) {
+      return {};
+    }
+
+    const reason = `only files under ${scope} may be read`;
+    onDecision({
+      timestamp: new Date().toISOString(),
+      sessionId: input.session_id,
+      tool: input.tool_name,
+      toolUseId: toolUseId ?? null,
+      decision: "deny",
+      target,
+      reason,
+      policy: POLICY
+    });
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: "deny",
+        permissionDecisionReason: reason
+      }
+    };
+  };
+
+  return {
+    PreToolUse: Object.keys(PATH_FIELDS).map((tool) => ({ matcher: tool, hooks: [beforeFileTool] }))
+  };
+}
@@ -0,0 +1,45 @@
+export {
+  leadScoreSchema,
+  LeadScoringError,
+  leadScoringRulesSchema,
+  loadLeadScoringRules,
+  parseLeadScoringRules,
+  RULE_CATEGORIES,
+  RULE_OPERATORS,
+  ruleMatchSchema,
+  scoreLead,
+  type Lead,
+  type LeadScore,
+  type LeadScoringRule,
+  type LeadScoringRules,
+  type RuleCategory,
+  type RuleMatch
+} from "./lead-scoring";
+export {
+  analyzeOpportunity,
+  DEAL_STAGES,
+  ELEMENT_STATUSES,
+  GAP_SEVERITIES,
+  MEDDICC_ELEMENTS,
+  opportunityAnalysisSchema,
+  opportunityGapSchema,
+  opportunitySchema,
+  type DealStage,
+  type ElementStatus,
+  type GapSeverity,
+  type MeddiccElement,
+  type Opportunity,
+  type OpportunityAnalysis,
+  type OpportunityGap
+} from "./opportunity";
+export {
+  calculateRoi,
+  cashFlowYearSchema,
+  roiInputSchema,
+  roiResultSchema,
+  type CashFlowYear,
+  type RoiInput,
+  type RoiModel,
+  type RoiResult
+} from "./roi";
+export { createPresalesMcpServer, PRESALES_SERVER_NAME, PRESALES_TOOLS, type PresalesToolsOptions } from "./tools";
@@ -0,0 +1,275 @@
+import fs from "fs";
+import { z } from "zod";
+
+/**
+ * Lead scoring: weighted rules over a lead's firmographic and behavioral
+ * attributes, read from a JSON file (LEAD_SCORING_RULES_PATH) so sales ops
+ * can tune weights without a release. `scoreLead` is a pure function of the
+ * lead and the rules.
+ */
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+export const RULE_CATEGORIES = ["firmographic", "behavioral"] as const;
+
+export const RULE_OPERATORS = ["eq", "neq", "in", "gt", "gte", "lt", "lte", "between", "contains", "exists"] as const;
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const ruleSchema = z
+  .object({
+    id: z.string().regex(/^[A-Za-z0-9_-]+$/, "Use letters, digits, - and _"),
+    category: z.enum(RULE_CATEGORIES),
+    description: z.string().min(1),
+    /** Attribute of the lead; dots reach into nested objects, e.g. "activity.demoRequested" */
+    field: z.string().min(1),
+    operator: z.enum(RULE_OPERATORS),
+    value: z.union([scalarSchema, z.array(scalarSchema)]).optional(),
+    /** Points added when the rule matches; negative weights penalise */
+    weight: z.number()
+  })
+  .strict()
+  .superRefine((rule, ctx) => {
+    const value = rule.value;
+    const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message });
+    switch (rule.operator) {
+      case "exists":
+        if (value !== undefined && typeof value !== "boolean") {
+          fail("exists takes true, false or no value");
+        }
+        break;
+      case "in":
+        if (!Array.isArray(value) || value.length === 0) {
+          fail("in needs a non-empty array");
+        }
+        break;
+      case "between":
+        if (!Array.isArray(value) || value.length !== 2 || value.some((bound) => typeof bound !== "number")) {
+          fail("between needs [min, max]");
+        }
+        break;
+      case "gt":
+      case "gte":
+      case "lt":
+      case "lte":
+        if (typeof value !== "number") {
+          fail(`${rule.operator} needs a number`);
+        }
+        break;
+      default:
+        if (value === undefined || Array.isArray(value)) {
+          fail(`${rule.operator} needs a single value`);
+        }
+    }
+  });
+
+const gradeSchema = z.object({
+  grade: z.string().min(1),
+  /** Lowest normalized score (0-100) that earns this grade */
+  min: z.number().min(0).max(100)
+});
+
+export const leadScoringRulesSchema = z
+  .object({
+    rules: z.array(ruleSchema).min(1),
+    grades: z
+      .array(gradeSchema)
+      .min(1)
+      .default([
+        { grade: "A", min: 75 },
+        { grade: "B", min: 50 },
+        { grade: "C", min: 25 },
+        { grade: "D", min: 0 }
+      ])
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    const seen = new Set<string>();
+    config.rules.forEach((rule, index) => {
+      if (seen.has(rule.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["rules", index, "id"], message: `Duplicate rule id "${rule.id}"` });
+      }
+      seen.add(rule.id);
+    });
+    if (!config.rules.some((rule) => rule.weight > 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["rules"], message: "At least one rule needs a positive weight" });
+    }
+    if (!config.grades.some((grade) => grade.min === 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["grades"], message: "One grade needs min 0 so every score has a grade" });
+    }
+  });
+
+export type RuleCategory = (typeof RULE_CATEGORIES)[number];
+export type LeadScoringRule = z.infer<typeof ruleSchema>;
+export type LeadScoringRules = z.infer<typeof leadScoringRulesSchema>;
+
+export class LeadScoringError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid lead scoring rules ${source}:\n  - ${issues.join("\n  - ")}`);
+    this.name = "LeadScoringError";
+    this.issues = issues;
+  }
+}
+
+export function parseLeadScoringRules(input: unknown, source = "(rules)"): LeadScoringRules {
+  const parsed = leadScoringRulesSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new LeadScoringError(
+      source,
+      parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+  return parsed.data;
+}
+
+export function loadLeadScoringRules(filePath: string): LeadScoringRules {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch {
+    throw new LeadScoringError(filePath, ["File not found (set LEAD_SCORING_RULES_PATH)"]);
+  }
+  try {
+    return parseLeadScoringRules(JSON.parse(raw), filePath);
+  } catch (error) {
+    if (error instanceof LeadScoringError) {
+      throw error;
+    }
+    throw new LeadScoringError(filePath, [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/** Lead attributes, e.g. `{ employees: 1200, industry: "Logistics", activity: { demoRequested: true } }` */
+export type Lead = Record<string, unknown>;
+
+export const ruleMatchSchema = z.object({
+  id: z.string(),
+  category: z.enum(RULE_CATEGORIES),
+  description: z.string(),
+  weight: z.number()
+});
+
+const categoryScoreSchema = z.object({ points: z.number(), maxPoints: z.number() });
+
+export const leadScoreSchema = z.object({
+  /** 0-100: points earned over the points available from positive rules */
+  score: z.number().min(0).max(100),
+  grade: z.string(),
+  points: z.number(),
+  maxPoints: z.number(),
+  byCategory: z.object({ firmographic: categoryScoreSchema, behavioral: categoryScoreSchema }),
+  matched: z.array(ruleMatchSchema),
+  /** Rules whose field the lead does not have; filling these in may change the score */
+  missingFields: z.array(z.string())
+});
+
+export type RuleMatch = z.infer<typeof ruleMatchSchema>;
+export type LeadScore = z.infer<typeof leadScoreSchema>;
+
+function fieldValue(lead: Lead, field: string): unknown {
+  let value: unknown = lead;
+  for (const key of field.split(".")) {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/** Strings compare case-insensitively, so "SaaS" matches "saas" */
+function same(a: unknown, b: unknown): boolean {
+  if (typeof a === "string" && typeof b === "string") {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+  return a === b;
+}
+
+function matches(rule: LeadScoringRule, actual: unknown): boolean {
+  const expected = rule.value;
+  switch (rule.operator) {
+    case "exists":
+      return (actual !== undefined && actual !== null && actual !== "") === (expected ?? true);
+    case "eq":
+      return Array.isArray(actual) ? actual.some((item) => same(item, expected)) : same(actual, expected);
+    case "neq":
+      return actual !== undefined && !same(actual, expected);
+    case "in":
+      return Array.isArray(expected) && expected.some((option) => same(actual, option));
+    case "contains":
+      if (Array.isArray(actual)) {
+        return actual.some((item) => same(item, expected));
+      }
+      return typeof actual === "string" && actual.toLowerCase().includes(String(expected).toLowerCase());
+    case "between": {
+      const [min, max] = expected as [number, number];
+      return typeof actual === "number" && actual >= min && actual <= max;
+    }
+    case "gt":
+      return typeof actual === "number" && actual > (expected as number);
+    case "gte":
+      return typeof actual === "number" && actual >= (expected as number);
+    case "lt":
+      return typeof actual === "number" && actual < (expected as number);
+    case "lte":
+      return typeof actual === "number" && actual <= (expected as number);
+  }
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Scores a lead. The score is the sum of matched weights over the sum of
+ * all positive weights, clamped to 0-100; the grade is the highest one
+ * whose `min` the score reaches.
+ */
+export function scoreLead(lead: Lead, rules: LeadScoringRules): LeadScore {
+  const byCategory: LeadScore["byCategory"] = {
+    firmographic: { points: 0, maxPoints: 0 },
+    behavioral: { points: 0, maxPoints: 0 }
+  };
+  const matched: RuleMatch[] = [];
+  const missingFields = new Set<string>();
+  let points = 0;
+  let maxPoints = 0;
+
+  for (const rule of rules.rules) {
+    const category = byCategory[rule.category];
+    if (rule.weight > 0) {
+      maxPoints += rule.weight;
+      category.maxPoints += rule.weight;
+    }
+    const actual = fieldValue(lead, rule.field);
+    if (actual === undefined && rule.operator !== "exists") {
+      missingFields.add(rule.field);
+      continue;
+    }
+    if (matches(rule, actual)) {
+      points += rule.weight;
+      category.points += rule.weight;
+      matched.push({ id: rule.id, category: rule.category, description: rule.description, weight: rule.weight });
+    }
+  }
+
+  const score = round(Math.min(100, Math.max(0, (points / maxPoints) * 100)));
+  const grades = [...rules.grades].sort((a, b) => b.min - a.min);
+  const grade = grades.find((candidate) => score >= candidate.min) ?? (grades[grades.length - 1] as { grade: string });
+
+  return {
+    score,
+    grade: grade.grade,
+    points: round(points),
+    maxPoints: round(maxPoints),
+    byCategory,
+    matched,
+    missingFields: [...missingFields]
+  };
+}
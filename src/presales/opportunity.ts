@@ -0,0 +1,188 @@
+import { z } from "zod";
+
+/**
+ * MEDDICC opportunity analysis: which qualification elements a deal is
+ * missing for the stage it is in. Each element is reported by the rep (or
+ * read from the CRM) as missing, partial or confirmed; `analyzeOpportunity`
+ * turns that into ranked gaps and risks without calling a model.
+ */
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+export const MEDDICC_ELEMENTS = [
+  "metrics",
+  "economicBuyer",
+  "decisionCriteria",
+  "decisionProcess",
+  "paperProcess",
+  "identifiedPain",
+  "champion",
+  "competition"
+] as const;
+
+export const ELEMENT_STATUSES = ["missing", "partial", "confirmed"] as const;
+
+/** Pipeline stages in order; deal stages are matched to these case-insensitively */
+export const DEAL_STAGES = ["discovery", "qualification", "evaluation", "proposal", "negotiation", "closing"] as const;
+
+export type MeddiccElement = (typeof MEDDICC_ELEMENTS)[number];
+export type ElementStatus = (typeof ELEMENT_STATUSES)[number];
+export type DealStage = (typeof DEAL_STAGES)[number];
+
+const elementSchema = z.object({
+  status: z.enum(ELEMENT_STATUSES),
+  /** What backs the status up: a quote, a contact, a document */
+  evidence: z.string().optional()
+});
+
+export const opportunitySchema = z.object({
+  name: z.string().min(1),
+  stage: z.string().optional().describe(`One of ${DEAL_STAGES.join(", ")}; other stage names get no stage-specific checks`),
+  amount: z.number().nonnegative().optional(),
+  closeDate: z.string().date().optional().describe("YYYY-MM-DD"),
+  /** Elements left out count as missing */
+  meddicc: z.object(Object.fromEntries(MEDDICC_ELEMENTS.map((element) => [element, elementSchema.optional()])) as Record<MeddiccElement, z.ZodOptional<typeof elementSchema>>)
+});
+
+export type Opportunity = z.infer<typeof opportunitySchema>;
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+export const GAP_SEVERITIES = ["critical", "high", "medium", "low"] as const;
+
+export const opportunityGapSchema = z.object({
+  element: z.enum(MEDDICC_ELEMENTS),
+  status: z.enum(ELEMENT_STATUSES),
+  severity: z.enum(GAP_SEVERITIES),
+  /** Stage by which the element should be confirmed */
+  neededBy: z.enum(DEAL_STAGES),
+  action: z.string()
+});
+
+export const opportunityAnalysisSchema = z.object({
+  name: z.string(),
+  /** The matched pipeline stage, or null when the deal's stage is not one of DEAL_STAGES */
+  stage: z.enum(DEAL_STAGES).nullable(),
+  /** 0-100: confirmed elements count fully, partial ones half */
+  qualificationScore: z.number().min(0).max(100),
+  confirmed: z.array(z.enum(MEDDICC_ELEMENTS)),
+  gaps: z.array(opportunityGapSchema),
+  risks: z.array(z.string())
+});
+
+export type GapSeverity = (typeof GAP_SEVERITIES)[number];
+export type OpportunityGap = z.infer<typeof opportunityGapSchema>;
+export type OpportunityAnalysis = z.infer<typeof opportunityAnalysisSchema>;
+
+/** The stage by which each element should be confirmed */
+const NEEDED_BY: Record<MeddiccElement, DealStage> = {
+  identifiedPain: "qualification",
+  metrics: "qualification",
+  champion: "evaluation",
+  decisionCriteria: "evaluation",
+  competition: "evaluation",
+  economicBuyer: "proposal",
+  decisionProcess: "proposal",
+  paperProcess: "negotiation"
+};
+
+const ACTIONS: Record<MeddiccElement, string> = {
+  metrics: "Quantify the expected outcome with the customer (e.g. hours saved, revenue uplift) and get them to agree the numbers",
+  economicBuyer: "Identify who signs off the budget and get a meeting with them",
+  decisionCriteria: "Write down the criteria the customer will judge vendors on and confirm them with your champion",
+  decisionProcess: "Map the steps, people and dates between now and a decision",
+  paperProcess: "Find out how procurement, legal and security review work and how long they take",
+  identifiedPain: "Confirm the business pain behind the project and what it costs the customer today",
+  champion: "Find an insider with influence who will sell for you, and test them with an ask",
+  competition: "Find out which alternatives (vendors, in-house, do nothing) are being considered"
+};
+
+const SEVERITY_ORDER: Record<GapSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Close dates nearer than this put pressure on an unconfirmed paper process */
+const CLOSE_DATE_WARNING_DAYS = 30;
+
+function matchStage(stage: string | undefined): DealStage | null {
+  const normalized = stage?.trim().toLowerCase().replace(/[\s_-]+/g, "");
+  return DEAL_STAGES.find((candidate) => candidate === normalized) ?? null;
+}
+
+/**
+ * Severity of a gap at the deal's stage: critical when the element is
+ * overdue and missing, high when overdue but partial, medium when it is
+ * due by the next stage, low otherwise. Without a known stage every gap
+ * is medium.
+ */
+function severityOf(status: ElementStatus, neededBy: DealStage, stage: DealStage | null): GapSeverity {
+  if (stage === null) {
+    return "medium";
+  }
+  const stageIndex = DEAL_STAGES.indexOf(stage);
+  const neededIndex = DEAL_STAGES.indexOf(neededBy);
+  if (neededIndex <= stageIndex) {
+    return status === "missing" ? "critical" : "high";
+  }
+  return neededIndex === stageIndex + 1 ? "medium" : "low";
+}
+
+/** Gap and risk analysis of a deal as of `today` (defaults to now; pass it for repeatable results) */
+export function analyzeOpportunity(opportunity: Opportunity, today: Date = new Date()): OpportunityAnalysis {
+  const stage = matchStage(opportunity.stage);
+  const confirmed: MeddiccElement[] = [];
+  const gaps: OpportunityGap[] = [];
+  let points = 0;
+
+  for (const element of MEDDICC_ELEMENTS) {
+    const status = opportunity.meddicc[element]?.status ?? "missing";
+    if (status === "confirmed") {
+      confirmed.push(element);
+      points += 1;
+      continue;
+    }
+    if (status === "partial") {
+      points += 0.5;
+    }
+    const neededBy = NEEDED_BY[element];
+    gaps.push({ element, status, severity: severityOf(status, neededBy, stage), neededBy, action: ACTIONS[element] });
+  }
+  gaps.sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      DEAL_STAGES.indexOf(a.neededBy) - DEAL_STAGES.indexOf(b.neededBy)
+  );
+
+  const risks: string[] = [];
+  const status = (element: MeddiccElement) => opportunity.meddicc[element]?.status ?? "missing";
+  if (opportunity.stage && stage === null) {
+    risks.push(`Stage "${opportunity.stage}" is not one of ${DEAL_STAGES.join(", ")}, so gaps are not ranked by stage`);
+  }
+  if (opportunity.closeDate) {
+    const daysToClose = Math.ceil((Date.parse(opportunity.closeDate) - today.getTime()) / DAY_MS);
+    if (daysToClose < 0) {
+      risks.push(`Close date ${opportunity.closeDate} has passed; update it or close the deal`);
+    } else if (daysToClose <= CLOSE_DATE_WARNING_DAYS && status("paperProcess") !== "confirmed") {
+      risks.push(`Closes in ${daysToClose} day(s) but the paper process is not confirmed`);
+    }
+  }
+  if (status("economicBuyer") === "missing" && status("champion") === "missing") {
+    risks.push("No economic buyer and no champion: nobody on the customer side is committed");
+  }
+  if (stage !== null && DEAL_STAGES.indexOf(stage) >= DEAL_STAGES.indexOf("proposal") && status("metrics") !== "confirmed") {
+    risks.push("Proposing without agreed metrics leaves pricing without a business case");
+  }
+
+  return {
+    name: opportunity.name,
+    stage,
+    qualificationScore: Math.round((points / MEDDICC_ELEMENTS.length) * 100),
+    confirmed,
+    gaps,
+    risks
+  };
+}
@@ -0,0 +1,169 @@
+import { z } from "zod";
+
+/**
+ * ROI / TCO model: yearly cash flows of a purchase against the benefits it
+ * brings, optionally next to the cost of keeping the status quo. Year 0
+ * holds one-time costs; years 1..n hold recurring costs and benefits, each
+ * with its own yearly growth. Everything is computed, nothing estimated.
+ */
+
+// ============================================================================
+// INPUT
+// ============================================================================
+
+const lineSchema = z.object({
+  label: z.string().min(1),
+  /** Amount in year 1 */
+  annual: z.number().nonnegative(),
+  /** Yearly change from year 2 on, e.g. 0.05 for +5% a year */
+  growth: z.number().min(-1).max(10).default(0)
+});
+
+const benefitSchema = lineSchema.extend({
+  /** Share of the benefit realised per year while adoption ramps up, e.g. [0.5, 0.8]; later years get 1 */
+  rampUp: z.array(z.number().min(0).max(1)).default([])
+});
+
+export const roiInputSchema = z.object({
+  years: z.number().int().min(1).max(10).default(3),
+  /** Yearly discount rate for NPV, e.g. 0.08 */
+  discountRate: z.number().min(0).max(1).default(0.1),
+  currency: z.string().min(1).default("USD"),
+  oneTimeCosts: z.array(z.object({ label: z.string().min(1), amount: z.number().nonnegative() })).default([]),
+  recurringCosts: z.array(lineSchema).default([]),
+  benefits: z.array(benefitSchema).min(1),
+  /** Costs of carrying on as today, for the TCO comparison */
+  statusQuoCosts: z.array(lineSchema).default([])
+});
+
+export type RoiInput = z.input<typeof roiInputSchema>;
+export type RoiModel = z.output<typeof roiInputSchema>;
+
+// ============================================================================
+// RESULT
+// ============================================================================
+
+export const cashFlowYearSchema = z.object({
+  year: z.number().int(),
+  costs: z.number(),
+  benefits: z.number(),
+  net: z.number(),
+  cumulative: z.number(),
+  discounted: z.number()
+});
+
+export const roiResultSchema = z.object({
+  currency: z.string(),
+  years: z.number().int(),
+  discountRate: z.number(),
+  cashFlows: z.array(cashFlowYearSchema),
+  totals: z.object({ costs: z.number(), benefits: z.number(), net: z.number() }),
+  npv: z.number(),
+  /** Net return over total cost, in percent; null when there are no costs */
+  roiPercent: z.number().nullable(),
+  /** Years until the cumulative cash flow turns positive, interpolated within the year; null if it never does */
+  paybackYears: z.number().nullable(),
+  /** Discount rate at which NPV is zero; null when there is no sign change to solve for */
+  irr: z.number().nullable(),
+  tco: z.object({
+    solution: z.number(),
+    statusQuo: z.number().nullable(),
+    /** Status quo minus solution: positive means the purchase is cheaper to own */
+    savings: z.number().nullable()
+  })
+});
+
+export type CashFlowYear = z.infer<typeof cashFlowYearSchema>;
+export type RoiResult = z.infer<typeof roiResultSchema>;
+
+const money = (value: number) => Math.round(value * 100) / 100;
+
+function lineAmount(line: { annual: number; growth: number }, year: number): number {
+  return line.annual * (1 + line.growth) ** (year - 1);
+}
+
+function npvAt(rate: number, flows: number[]): number {
+  return flows.reduce((total, flow, year) => total + flow / (1 + rate) ** year, 0);
+}
+
+/** IRR by bisection over -99%..1000%; only solvable when the flows change sign */
+function irrOf(flows: number[]): number | null {
+  if (!flows.some((flow) => flow < 0) || !flows.some((flow) => flow > 0)) {
+    return null;
+  }
+  let low = -0.99;
+  let high = 10;
+  if (Math.sign(npvAt(low, flows)) === Math.sign(npvAt(high, flows))) {
+    return null;
+  }
+  for (let i = 0; i < 200 && high - low > 1e-7; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(npvAt(mid, flows)) === Math.sign(npvAt(low, flows))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.round(((low + high) / 2) * 10000) / 10000;
+}
+
+/** Multi-year ROI, NPV, IRR, payback and TCO for a purchase */
+export function calculateRoi(input: RoiInput): RoiResult {
+  const model = roiInputSchema.parse(input);
+  const cashFlows: CashFlowYear[] = [];
+  const flows: number[] = [];
+  let cumulative = 0;
+  let paybackYears: number | null = null;
+  let statusQuo = 0;
+
+  for (let year = 0; year <= model.years; year++) {
+    const costs =
+      year === 0
+        ? model.oneTimeCosts.reduce((total, cost) => total + cost.amount, 0)
+        : model.recurringCosts.reduce((total, cost) => total + lineAmount(cost, year), 0);
+    const benefits =
+      year === 0
+        ? 0
+        : model.benefits.reduce((total, benefit) => total + lineAmount(benefit, year) * (benefit.rampUp[year - 1] ?? 1), 0);
+    if (year > 0) {
+      statusQuo += model.statusQuoCosts.reduce((total, cost) => total + lineAmount(cost, year), 0);
+    }
+
+    const net = benefits - costs;
+    const before = cumulative;
+    cumulative += net;
+    if (paybackYears === null && year > 0 && cumulative >= 0) {
+      paybackYears = before < 0 ? Math.round((year - 1 + -before / net) * 100) / 100 : 0;
+    }
+    flows.push(net);
+    cashFlows.push({
+      year,
+      costs: money(costs),
+      benefits: money(benefits),
+      net: money(net),
+      cumulative: money(cumulative),
+      discounted: money(net / (1 + model.discountRate) ** year)
+    });
+  }
+
+  const totalCosts = cashFlows.reduce((total, flow) => total + flow.costs, 0);
+  const totalBenefits = cashFlows.reduce((total, flow) => total + flow.benefits, 0);
+  const hasStatusQuo = model.statusQuoCosts.length > 0;
+
+  return {
+    currency: model.currency,
+    years: model.years,
+    discountRate: model.discountRate,
+    cashFlows,
+    totals: { costs: money(totalCosts), benefits: money(totalBenefits), net: money(totalBenefits - totalCosts) },
+    npv: money(npvAt(model.discountRate, flows)),
+    roiPercent: totalCosts > 0 ? Math.round(((totalBenefits - totalCosts) / totalCosts) * 1000) / 10 : null,
+    paybackYears,
+    irr: irrOf(flows),
+    tco: {
+      solution: money(totalCosts),
+      statusQuo: hasStatusQuo ? money(statusQuo) : null,
+      savings: hasStatusQuo ? money(statusQuo - totalCosts) : null
+    }
+  };
+}
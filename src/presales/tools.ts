@@ -0,0 +1,79 @@
+import { createSdkMcpServer, tool, type McpSdkServerConfigWithInstance } from "@anthropic-ai/claude-agent-sdk";
+import { z } from "zod";
+import { getConfig } from "../config";
+import { leadScoreSchema, LeadScoringError, loadLeadScoringRules, scoreLead, type LeadScoringRules } from "./lead-scoring";
+import { analyzeOpportunity, opportunityAnalysisSchema, opportunitySchema } from "./opportunity";
+import { calculateRoi, roiInputSchema, roiResultSchema } from "./roi";
+
+/** MCP server name; tools reach the model as `mcp__presales__<tool>` */
+export const PRESALES_SERVER_NAME = "presales";
+
+export const PRESALES_TOOLS = ["score_lead", "analyze_opportunity", "calculate_roi"].map(
+  (name) => `mcp__${PRESALES_SERVER_NAME}__${name}`
+);
+
+export interface PresalesToolsOptions {
+  /** Fixed lead scoring rules; by default they are read from `rulesPath` on every call, so edits apply at once */
+  rules?: LeadScoringRules;
+  /** Defaults to LEAD_SCORING_RULES_PATH */
+  rulesPath?: string;
+  /** "Today" for close date checks */
+  now?: () => Date;
+}
+
+type ToolResult = { content: Array<{ type: "text"; text: string }>; isError?: boolean };
+
+/**
+ * Runs a tool body, checks the value against the tool's output schema and
+ * returns it as JSON text. A broken rules file comes back as a tool error
+ * the model can report; anything else throws.
+ */
+async function respond<T>(schema: z.ZodType<T>, body: () => T): Promise<ToolResult> {
+  try {
+    const value = schema.parse(body());
+    return { content: [{ type: "text", text: JSON.stringify(value, null, 2) }] };
+  } catch (error) {
+    if (error instanceof LeadScoringError) {
+      return { content: [{ type: "text", text: error.message }], isError: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * In-process MCP server with the pre-sales calculators: lead scoring,
+ * MEDDICC opportunity analysis and ROI / TCO. Every tool is a thin wrapper
+ * over a pure function in this module, so answers are reproducible. Pass it
+ * as `options.mcpServers` and list PRESALES_TOOLS in the agent's tools.
+ */
+export function createPresalesMcpServer(options: PresalesToolsOptions = {}): McpSdkServerConfigWithInstance {
+  const rules = () => options.rules ?? loadLeadScoringRules(options.rulesPath ?? getConfig().presales.leadScoringRulesPath);
+  const now = options.now ?? (() => new Date());
+
+  return createSdkMcpServer({
+    name: PRESALES_SERVER_NAME,
+    version: "1.0.0",
+    tools: [
+      tool(
+        "score_lead",
+        "Score a lead 0-100 and grade it with the company's weighted lead scoring rules. Pass every firmographic (employees, industry, country, ...) and behavioral (pages visited, demo requested, ...) attribute you know; the result lists the matched rules and the fields that were missing.",
+        {
+          lead: z.record(z.unknown()).describe("Lead attributes, e.g. { employees: 1200, industry: 'Logistics', activity: { demoRequested: true } }")
+        },
+        async ({ lead }) => respond(leadScoreSchema, () => scoreLead(lead, rules()))
+      ),
+      tool(
+        "analyze_opportunity",
+        "Find MEDDICC gaps in a deal: for each of metrics, economicBuyer, decisionCriteria, decisionProcess, paperProcess, identifiedPain, champion and competition give missing, partial or confirmed. Returns a qualification score, gaps ranked by severity for the deal's stage with a next action each, and risks.",
+        opportunitySchema.shape,
+        async (opportunity) => respond(opportunityAnalysisSchema, () => analyzeOpportunity(opportunity, now()))
+      ),
+      tool(
+        "calculate_roi",
+        "Calculate multi-year ROI and TCO: yearly cash flows (year 0 = one-time costs), NPV, ROI %, IRR, payback period and, with status quo costs, the TCO comparison. Use figures from the customer or the proposal, never invented ones.",
+        roiInputSchema.shape,
+        async (input) => respond(roiResultSchema, () => calculateRoi(input))
+      )
+    ]
+  });
+}
@@ -0,0 +1,19 @@
+export {
+  definePrompt,
+  getPromptRegistry,
+  parsePromptRef,
+  promptConfig,
+  PromptRegistry,
+  type PromptStamp,
+  type RenderedPrompt,
+  type TypedPrompt
+} from "./registry";
+export {
+  parseTemplateFile,
+  PromptError,
+  VARIABLE_TYPES,
+  type PromptTemplate,
+  type PromptValue,
+  type PromptValues,
+  type PromptVariable
+} from "./template";
@@ -0,0 +1,385 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { getConfig, type AppConfig, type ModelAlias } from "../config";
+import type { TaskClass } from "../routing";
+import {
+  formatValue,
+  isTruthy,
+  matchesType,
+  parseTemplateFile,
+  PromptError,
+  type PromptTemplate,
+  type PromptValue,
+  type PromptValues,
+  type PromptVariable,
+  type TemplateNode
+} from "./template";
+
+/**
+ * Which prompt produced a run: stamped into the run's AgentResult, audit
+ * log and reports. The hash is of the rendered text, so two runs of the
+ * same template with different variables are told apart.
+ */
+export interface PromptStamp {
+  id: string;
+  version: string;
+  hash: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  stamp: PromptStamp;
+  /** Model and task class hints from the front-matter */
+  model: ModelAlias | null;
+  task: TaskClass | null;
+}
+
+/** "id" or "id@version" */
+export function parsePromptRef(ref: string): { id: string; version: string | null } {
+  const at = ref.lastIndexOf("@");
+  return at > 0 ? { id: ref.slice(0, at), version: ref.slice(at + 1) } : { id: ref, version: null };
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let index = 0; index < 3; index++) {
+    const diff = (left[index] ?? 0) - (right[index] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+function templateFiles(root: string): string[] {
+  const files: string[] = [];
+  const visit = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith(".")) {
+        continue;
+      }
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(fullPath);
+      } else if (entry.isFile() && path.extname(entry.name).toLowerCase() === ".md" && entry.name.toLowerCase() !== "readme.md") {
+        files.push(path.relative(root, fullPath));
+      }
+    }
+  };
+  visit(root);
+  return files.sort();
+}
+
+function referencedVariables(nodes: TemplateNode[], into = new Set<string>()): Set<string> {
+  for (const node of nodes) {
+    if (node.kind === "variable") {
+      into.add(node.name);
+    } else if (node.kind === "if") {
+      into.add(node.name);
+      referencedVariables(node.then, into);
+      referencedVariables(node.else, into);
+    }
+  }
+  return into;
+}
+
+function includes(nodes: TemplateNode[], into: string[] = []): string[] {
+  for (const node of nodes) {
+    if (node.kind === "include") {
+      into.push(node.ref);
+    } else if (node.kind === "if") {
+      includes(node.then, into);
+      includes(node.else, into);
+    }
+  }
+  return into;
+}
+
+/**
+ * Versioned prompt templates loaded from a directory of Markdown files
+ * (see template.ts for the format). Every template is checked when the
+ * registry loads - front-matter, includes, cycles and undeclared
+ * variables - so a broken prompt fails at startup, not mid-run.
+ *
+ * Several versions of a prompt can live side by side; a ref without a
+ * version resolves to the highest one.
+ */
+export class PromptRegistry {
+  readonly root: string;
+  private templates = new Map<string, PromptTemplate[]>();
+
+  private constructor(root: string, templates: PromptTemplate[]) {
+    this.root = root;
+    for (const template of templates) {
+      const versions = this.templates.get(template.id) ?? [];
+      versions.push(template);
+      this.templates.set(template.id, versions);
+    }
+    for (const versions of this.templates.values()) {
+      versions.sort((a, b) => compareVersions(b.version, a.version));
+    }
+  }
+
+  /**
+   * @throws PromptError listing every problem in every file
+   */
+  static fromDirectory(dir: string): PromptRegistry {
+    const root = path.resolve(dir);
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      throw new PromptError(dir, ["Prompt directory not found"]);
+    }
+
+    const issues: string[] = [];
+    const templates: PromptTemplate[] = [];
+    const seen = new Map<string, string>();
+    for (const file of templateFiles(root)) {
+      try {
+        const template = parseTemplateFile(fs.readFileSync(path.join(root, file), "utf8"), file);
+        const key = `${template.id}@${template.version}`;
+        const previous = seen.get(key);
+        if (previous) {
+          issues.push(`${file}: ${key} is already defined in ${previous}`);
+          continue;
+        }
+        seen.set(key, file);
+        templates.push(template);
+      } catch (error) {
+        if (!(error instanceof PromptError)) {
+          throw error;
+        }
+        issues.push(...error.issues.map((issue) => `${file}: ${issue}`));
+      }
+    }
+
+    const registry = new PromptRegistry(root, templates);
+    issues.push(...registry.check());
+    if (issues.length > 0) {
+      throw new PromptError(dir, issues);
+    }
+    return registry;
+  }
+
+  static fromConfig(appConfig: AppConfig): PromptRegistry {
+    return PromptRegistry.fromDirectory(appConfig.prompts.dir);
+  }
+
+  /** Every template, by id then newest version first */
+  list(): PromptTemplate[] {
+    return [...this.templates.keys()].sort().flatMap((id) => this.templates.get(id) ?? []);
+  }
+
+  has(ref: string): boolean {
+    const { id, version } = parsePromptRef(ref);
+    const versions = this.templates.get(id) ?? [];
+    return version === null ? versions.length > 0 : versions.some((template) => template.version === version);
+  }
+
+  /**
+   * @throws PromptError when the id or version is unknown
+   */
+  get(ref: string): PromptTemplate {
+    const { id, version } = parsePromptRef(ref);
+    const versions = this.templates.get(id);
+    if (!versions) {
+      throw new PromptError(ref, [`Unknown prompt "${id}"`]);
+    }
+    const template = version === null ? versions[0] : versions.find((candidate) => candidate.version === version);
+    if (!template) {
+      throw new PromptError(ref, [`Unknown version ${version} of "${id}" (have ${versions.map((candidate) => candidate.version).join(", ")})`]);
+    }
+    return template;
+  }
+
+  /**
+   * The variables a template takes: its own and those of the templates it
+   * includes. A template may re-declare an included variable (e.g. to give
+   * it a default); its own declaration wins.
+   */
+  variables(ref: string): Record<string, PromptVariable> {
+    return this.collectVariables(this.get(ref), []);
+  }
+
+  /**
+   * Renders a template with the given variables, after checking them
+   * against the declared ones: unknown names, missing required values and
+   * wrong types are all errors. Declared defaults fill the gaps.
+   *
+   * @throws PromptError listing every problem with the variables
+   */
+  render(ref: string, values: PromptValues = {}): RenderedPrompt {
+    const template = this.get(ref);
+    const declared = this.variables(ref);
+    const source = `${template.id}@${template.version}`;
+    const issues: string[] = [];
+    const resolved: Record<string, PromptValue | undefined> = {};
+
+    for (const name of Object.keys(values)) {
+      if (!(name in declared) && values[name] !== undefined) {
+        issues.push(`${name}: not a variable of this prompt (declared: ${Object.keys(declared).join(", ") || "none"})`);
+      }
+    }
+    for (const [name, variable] of Object.entries(declared)) {
+      const value = values[name] ?? variable.default;
+      if (value === undefined) {
+        if (variable.required) {
+          issues.push(`${name}: required ${variable.type} is missing`);
+        }
+      } else if (!matchesType(value, variable.type)) {
+        issues.push(`${name}: expected a ${variable.type}, got ${Array.isArray(value) ? "an array" : typeof value}`);
+      }
+      resolved[name] = value;
+    }
+    if (issues.length > 0) {
+      throw new PromptError(source, issues);
+    }
+
+    const text = this.renderNodes(template.nodes, resolved)
+      .replace(/[ \t]+$/gm, "")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+    return {
+      text,
+      stamp: { id: template.id, version: template.version, hash: crypto.createHash("sha256").update(text).digest("hex").slice(0, 12) },
+      model: template.model,
+      task: template.task
+    };
+  }
+
+  private renderNodes(nodes: TemplateNode[], values: Record<string, PromptValue | undefined>): string {
+    return nodes
+      .map((node) => {
+        switch (node.kind) {
+          case "text":
+            return node.text;
+          case "variable": {
+            const value = values[node.name];
+            return value === undefined ? "" : formatValue(value);
+          }
+          case "include":
+            return this.renderNodes(this.get(node.ref).nodes, values);
+          case "if":
+            return this.renderNodes(isTruthy(values[node.name]) ? node.then : node.else, values);
+        }
+      })
+      .join("");
+  }
+
+  private collectVariables(template: PromptTemplate, trail: string[]): Record<string, PromptVariable> {
+    const collected: Record<string, PromptVariable> = {};
+    for (const ref of includes(template.nodes)) {
+      const child = this.has(ref) ? this.get(ref) : null;
+      const key = child && `${child.id}@${child.version}`;
+      if (!child || !key || trail.includes(key)) {
+        continue; // reported by check()
+      }
+      Object.assign(collected, this.collectVariables(child, [...trail, key]));
+    }
+    return { ...collected, ...template.variables };
+  }
+
+  /** Include, cycle and variable problems across every template */
+  private check(): string[] {
+    const issues: string[] = [];
+    for (const template of this.list()) {
+      const key = `${template.id}@${template.version}`;
+      const missing = includes(template.nodes).filter((ref) => !this.has(ref));
+      issues.push(...missing.map((ref) => `${template.file}: includes unknown prompt "${ref}"`));
+      if (missing.length > 0) {
+        continue;
+      }
+
+      const cycle = this.findCycle(key, []);
+      if (cycle) {
+        issues.push(`${template.file}: include cycle ${cycle.join(" -> ")}`);
+        continue;
+      }
+
+      const declared = this.collectVariables(template, [key]);
+      for (const name of referencedVariables(template.nodes)) {
+        if (!(name in declared)) {
+          issues.push(`${template.file}: {{${name}}} is not declared in the front-matter`);
+        }
+      }
+      for (const ref of includes(template.nodes)) {
+        for (const [name, variable] of Object.entries(this.variables(ref))) {
+          const own = template.variables[name];
+          if (own && own.type !== variable.type) {
+            issues.push(`${template.file}: variable ${name} is a ${own.type} here but a ${variable.type} in "${ref}"`);
+          }
+        }
+      }
+    }
+    return issues;
+  }
+
+  private findCycle(key: string, trail: string[]): string[] | null {
+    if (trail.includes(key)) {
+      return [...trail.slice(trail.indexOf(key)), key];
+    }
+    for (const ref of includes(this.get(key).nodes)) {
+      if (!this.has(ref)) {
+        continue;
+      }
+      const child = this.get(ref);
+      const cycle = this.findCycle(`${child.id}@${child.version}`, [...trail, key]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+}
+
+// ============================================================================
+// SHARED REGISTRY AND HELPERS
+// ============================================================================
+
+let cachedRegistry: PromptRegistry | undefined;
+
+/**
+ * The registry for the configured PROMPTS_DIR, loaded on first use.
+ *
+ * @throws PromptError when a template is invalid
+ */
+export function getPromptRegistry(): PromptRegistry {
+  const dir = path.resolve(getConfig().prompts.dir);
+  if (!cachedRegistry || cachedRegistry.root !== dir) {
+    cachedRegistry = PromptRegistry.fromDirectory(dir);
+  }
+  return cachedRegistry;
+}
+
+/**
+ * A prompt with its variables typed, for the agents that use it:
+ *
+ *   const RESEARCH_PROMPT = definePrompt<{ depth: number }>("research/system");
+ *   RESEARCH_PROMPT.render({ depth: 2 });
+ */
+export interface TypedPrompt<V> {
+  ref: string;
+  /** `version` pins a version other than the latest; `registry` defaults to getPromptRegistry() */
+  render(values: V, options?: { version?: string; registry?: PromptRegistry }): RenderedPrompt;
+}
+
+export function definePrompt<V extends { [K in keyof V]: PromptValue | undefined } = Record<string, never>>(ref: string): TypedPrompt<V> {
+  return {
+    ref,
+    render: (values, options = {}) =>
+      (options.registry ?? getPromptRegistry()).render(options.version ? `${ref}@${options.version}` : ref, values as PromptValues)
+  };
+}
+
+/**
+ * The AgentConfig fields a rendered prompt sets: the system prompt, its
+ * stamp, and the front-matter model and task hints when there are any.
+ */
+export function promptConfig(rendered: RenderedPrompt): { systemPrompt: string; prompt: PromptStamp; model?: ModelAlias; task?: TaskClass } {
+  return {
+    systemPrompt: rendered.text,
+    prompt: rendered.stamp,
+    ...(rendered.model && { model: rendered.model }),
+    ...(rendered.task && { task: rendered.task })
+  };
+}
@@ -0,0 +1,233 @@
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { MODEL_ALIASES, type ModelAlias } from "../config";
+import { TASK_CLASSES, type TaskClass } from "../routing";
+
+/**
+ * Prompt template files: YAML front-matter describing the prompt, then a
+ * Markdown body with a small Mustache-like syntax:
+ *
+ *   {{name}}                      a declared variable
+ *   {{> fragments/safety}}        another template, e.g. a shared fragment (`id` or `id@version`)
+ *   {{#if name}} ... {{else}} ... {{/if}}
+ *
+ * Block and include tags alone on a line leave no blank line behind.
+ */
+
+export const VARIABLE_TYPES = ["string", "number", "boolean", "list"] as const;
+
+export type PromptValue = string | number | boolean | string[];
+export type PromptValues = Record<string, PromptValue | undefined>;
+
+const variableSchema = z
+  .object({
+    type: z.enum(VARIABLE_TYPES).default("string"),
+    description: z.string().optional(),
+    /** Variables with a default are never required */
+    required: z.boolean().default(true),
+    default: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional()
+  })
+  .strict();
+
+const frontMatterSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9._-]*(\/[a-z0-9][a-z0-9._-]*)*$/, "Use lowercase path segments, e.g. research/system"),
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, "Use major.minor.patch"),
+    description: z.string().optional(),
+    /** Model the prompt was written and evaluated for */
+    model: z.enum(MODEL_ALIASES).optional(),
+    task: z.enum(TASK_CLASSES).optional(),
+    variables: z.record(variableSchema).default({})
+  })
+  .strict();
+
+export type PromptVariable = z.infer<typeof variableSchema>;
+
+export type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "variable"; name: string }
+  | { kind: "include"; ref: string }
+  | { kind: "if"; name: string; then: TemplateNode[]; else: TemplateNode[] };
+
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  description: string | null;
+  model: ModelAlias | null;
+  task: TaskClass | null;
+  /** Variables declared in this file (see PromptRegistry.variables for those of its fragments too) */
+  variables: Record<string, PromptVariable>;
+  body: string;
+  nodes: TemplateNode[];
+  /** Path relative to the registry root */
+  file: string;
+}
+
+export class PromptError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid prompt ${source}:\n  - ${issues.join("\n  - ")}`);
+    this.name = "PromptError";
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const TAG = /\{\{\s*([#/>]?)\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Parses a template body into nodes.
+ *
+ * @throws PromptError on unbalanced or malformed tags
+ */
+export function parseTemplateBody(body: string, source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { kind: "if" }>; inElse: boolean }> = [];
+  const issues: string[] = [];
+  const target = () => {
+    const open = stack[stack.length - 1];
+    return open ? (open.inElse ? open.node.else : open.node.then) : root;
+  };
+
+  let cursor = 0;
+  for (const match of body.matchAll(TAG)) {
+    const [tag, sigil = "", content = ""] = match;
+    let start = match.index ?? 0;
+    let end = start + tag.length;
+    const isBlock = sigil === "#" || sigil === "/" || (sigil === "" && content === "else");
+
+    // A block tag alone on its line takes the whole line with it
+    if (isBlock) {
+      const lineStart = body.lastIndexOf("\n", start - 1) + 1;
+      const after = /^[ \t]*(\r?\n|$)/.exec(body.slice(end));
+      if (after && /^[ \t]*$/.test(body.slice(lineStart, start)) && lineStart >= cursor) {
+        start = lineStart;
+        end += after[0].length;
+      }
+    }
+    if (start > cursor) {
+      target().push({ kind: "text", text: body.slice(cursor, start) });
+    }
+    cursor = end;
+
+    const line = body.slice(0, match.index).split("\n").length;
+    if (sigil === ">") {
+      target().push({ kind: "include", ref: content });
+    } else if (sigil === "#") {
+      const [keyword, name, ...rest] = content.split(/\s+/);
+      if (keyword !== "if" || !name || rest.length > 0) {
+        issues.push(`line ${line}: unknown block "{{#${content}}}" (only {{#if name}} is supported)`);
+        continue;
+      }
+      const node: Extract<TemplateNode, { kind: "if" }> = { kind: "if", name, then: [], else: [] };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (sigil === "/") {
+      if (content !== "if" || !stack.pop()) {
+        issues.push(`line ${line}: "{{/${content}}}" without an open {{#if}}`);
+      }
+    } else if (content === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        issues.push(`line ${line}: {{else}} outside an {{#if}} block`);
+      } else {
+        open.inElse = true;
+      }
+    } else if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(content)) {
+      target().push({ kind: "variable", name: content });
+    } else {
+      issues.push(`line ${line}: "${tag}" is not a variable name`);
+    }
+  }
+  if (cursor < body.length) {
+    target().push({ kind: "text", text: body.slice(cursor) });
+  }
+  if (stack.length > 0) {
+    issues.push(`${stack.length} {{#if}} block(s) not closed`);
+  }
+  if (issues.length > 0) {
+    throw new PromptError(source, issues);
+  }
+  return root;
+}
+
+/**
+ * Parses a template file: `---` front-matter, then the body.
+ *
+ * @throws PromptError listing every problem found
+ */
+export function parseTemplateFile(text: string, file: string): PromptTemplate {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/.exec(text);
+  if (!match) {
+    throw new PromptError(file, ["Missing front-matter (a --- block with id and version)"]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = parseYaml(match[1] ?? "");
+  } catch (error) {
+    throw new PromptError(file, [`front-matter: cannot parse: ${error instanceof Error ? error.message.split("\n")[0] : String(error)}`]);
+  }
+  const parsed = frontMatterSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new PromptError(
+      file,
+      parsed.error.issues.map((issue) => `front-matter ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+
+  const meta = parsed.data;
+  const issues: string[] = [];
+  for (const [name, variable] of Object.entries(meta.variables)) {
+    if (variable.default !== undefined && !matchesType(variable.default, variable.type)) {
+      issues.push(`front-matter variables.${name}.default: expected a ${variable.type}`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new PromptError(file, issues);
+  }
+
+  const body = (match[2] ?? "").trim();
+  return {
+    id: meta.id,
+    version: meta.version,
+    description: meta.description ?? null,
+    model: meta.model ?? null,
+    task: meta.task ?? null,
+    variables: meta.variables,
+    body,
+    nodes: parseTemplateBody(body, file),
+    file
+  };
+}
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+export function matchesType(value: unknown, type: PromptVariable["type"]): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "list":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+  }
+}
+
+/** Lists are joined with ", "; everything else is its string form */
+export function formatValue(value: PromptValue): string {
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+/** {{#if}} is false for missing values, false, 0, "" and empty lists */
+export function isTruthy(value: PromptValue | undefined): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
@@ -0,0 +1,60 @@
+/**
+ * One-line summaries of tool calls and results for the terminal.
+ */
+
+// Input fields that say what a tool call is about, most telling first
+const SUMMARY_FIELDS = ["query", "url", "file_path", "path", "pattern", "command", "description", "prompt", "name", "domain"];
+
+const MAX_SUMMARY = 100;
+
+export function truncate(text: string, max: number): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+/** `mcp__crm__crm_find_company` → `crm:crm_find_company` */
+export function toolLabel(name: string): string {
+  const match = /^mcp__(.+?)__(.+)$/.exec(name);
+  return match ? `${match[1]}:${match[2]}` : name;
+}
+
+/** The input field that identifies the call, or compact JSON when there is none */
+export function toolInputSummary(input: Record<string, unknown>): string {
+  for (const field of SUMMARY_FIELDS) {
+    const value = input[field];
+    if (typeof value === "string" && value.length > 0) {
+      return truncate(value, MAX_SUMMARY);
+    }
+  }
+  const json = JSON.stringify(input);
+  return json === "{}" ? "" : truncate(json, MAX_SUMMARY);
+}
+
+/** Line count and the first non-empty line of a tool result */
+export function toolResultSummary(text: string, isError: boolean): string {
+  const lines = text.split("\n").filter((line) => line.trim().length > 0);
+  const first = lines[0] ? truncate(lines[0], MAX_SUMMARY) : "(empty)";
+  if (isError) {
+    return first;
+  }
+  return lines.length > 1 ? `${lines.length} lines: ${first}` : first;
+}
+
+/** `950ms`, `12.3s`, `4m05s` */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+export function indent(text: string, prefix = "      "): string {
+  return text
+    .split("\n")
+    .map((line) => `${prefix}${line}`)
+    .join("\n");
+}
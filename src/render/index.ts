@@ -0,0 +1,2 @@
+export { formatDuration, toolInputSummary, toolLabel, toolResultSummary, truncate } from "./format";
+export { TerminalRenderer, type TerminalRendererOptions } from "./terminal-renderer";
@@ -0,0 +1,368 @@
+import type {
+  Options,
+  SDKAssistantMessage,
+  SDKMessage,
+  SDKPartialAssistantMessage,
+  SDKResultMessage,
+  SDKToolProgressMessage,
+  SDKUserMessage,
+  SDKUserMessageReplay
+} from "@anthropic-ai/claude-agent-sdk";
+import { estimateCostUSD } from "../budget";
+import type { RoutingDecision } from "../routing";
+import type { AgentEvents } from "../runtime";
+import { textBlocks, thinkingBlocks, toolResultBlocks, toolResultText, toolUseBlocks, usageOf } from "../runtime/messages";
+import { formatDuration, indent, toolInputSummary, toolLabel, toolResultSummary, truncate } from "./format";
+
+export interface TerminalRendererOptions {
+  /** Defaults to stdout */
+  stream?: NodeJS.WriteStream;
+  /**
+   * Live status line and token-by-token text. Defaults to whether `stream`
+   * is a TTY; otherwise plain lines only, safe for logs and pipes.
+   */
+  interactive?: boolean;
+  /** Expand tool calls: full input JSON and the first lines of each result */
+  verbose?: boolean;
+  /** Print assistant text (default true); off for agents whose text is JSON for a parser */
+  showText?: boolean;
+  now?: () => number;
+}
+
+/** The parts of a raw API stream event the renderer reads */
+interface RawStreamEvent {
+  type: string;
+  message?: { id?: string };
+  content_block?: { type?: string; name?: string };
+  delta?: { type?: string; text?: string; thinking?: string };
+}
+
+interface PendingTool {
+  name: string;
+  startedAt: number;
+}
+
+const STATUS_INTERVAL_MS = 1000;
+const VERBOSE_RESULT_LINES = 20;
+
+const CLEAR_LINE = "\r\x1b[2K";
+const dim = (text: string) => `\x1b[2m${text}\x1b[22m`;
+
+/**
+ * Renders the SDK message stream of one or more agent runs in the terminal.
+ *
+ * Assistant text is written as it streams in (`stream_event` partials, so
+ * pass `runOptions` to the run), each tool call is one line with its key
+ * input followed by a one-line result summary (`verbose` expands both), and
+ * thinking shows as an indicator. On a TTY a status line at the bottom
+ * keeps turn count, estimated cost, elapsed time and the current activity
+ * up to date; elsewhere the status is printed once per finished run.
+ *
+ * Plug in through `events`, which can be shared by every run of a
+ * multi-agent job. Call `stop()` when done so the status line is cleared.
+ */
+export class TerminalRenderer {
+  readonly interactive: boolean;
+  readonly events: AgentEvents;
+  private stream: NodeJS.WriteStream;
+  private verbose: boolean;
+  private showText: boolean;
+  private now: () => number;
+
+  private startedAt: number;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  private statusVisible = false;
+  /** Streamed text has been written without its closing newline */
+  private midLine = false;
+  private activity: string | null = null;
+
+  private turnIds = new Set<string>();
+  private streamedIds = new Set<string>();
+  private tools = new Map<string, PendingTool>();
+  private settledCostUSD = 0;
+  /** Estimated cost of runs still in flight: session id → message id → USD */
+  private pendingCost = new Map<string, Map<string, number>>();
+
+  constructor(options: TerminalRendererOptions = {}) {
+    this.stream = options.stream ?? process.stdout;
+    this.interactive = options.interactive ?? this.stream.isTTY === true;
+    this.verbose = options.verbose ?? false;
+    this.showText = options.showText ?? true;
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+    this.events = {
+      onMessage: (message) => this.render(message),
+      onRoute: (decision) => this.renderRoute(decision)
+    };
+  }
+
+  /** SDK options the runs need: partial messages, when text is streamed live */
+  get runOptions(): Options {
+    return this.interactive && this.showText ? { includePartialMessages: true } : {};
+  }
+
+  get costUSD(): number {
+    let pending = 0;
+    for (const costs of this.pendingCost.values()) {
+      for (const cost of costs.values()) {
+        pending += cost;
+      }
+    }
+    return this.settledCostUSD + pending;
+  }
+
+  render(message: SDKMessage): void {
+    if (this.stopped) {
+      return;
+    }
+    this.startTimer();
+
+    switch (message.type) {
+      case "stream_event":
+        this.renderPartial(message);
+        break;
+      case "assistant":
+        this.renderAssistant(message);
+        break;
+      case "user":
+        this.renderToolResults(message);
+        break;
+      case "tool_progress":
+        this.renderProgress(message);
+        break;
+      case "result":
+        this.renderResult(message);
+        break;
+      case "system":
+        if (message.subtype === "compact_boundary") {
+          this.line(`🗜️  Context compacted (${message.compact_metadata.trigger})`);
+        }
+        break;
+    }
+  }
+
+  /** Prints lines above the status line (subagent status, retry notices, ...) */
+  log(...lines: string[]): void {
+    for (const line of lines) {
+      this.line(line);
+    }
+  }
+
+  /** Clears the status line and stops the clock */
+  stop(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.endText();
+    this.clearStatus();
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stopped = true;
+  }
+
+  // ==========================================================================
+  // MESSAGES
+  // ==========================================================================
+
+  /** Policy picks are expected; escalations and budget fallbacks are worth a line */
+  private renderRoute(decision: RoutingDecision): void {
+    if (decision.reason === "escalated") {
+      this.line(`⬆️  Escalating to ${decision.model}: ${decision.detail}`);
+    } else if (decision.reason === "budget") {
+      this.line(`⬇️  Using ${decision.model} for ${decision.task}: ${decision.detail}`);
+    }
+  }
+
+  private renderPartial(message: SDKPartialAssistantMessage): void {
+    // Subagent (Task) traffic only shows up through its tool calls
+    if (!this.interactive || !this.showText || message.parent_tool_use_id !== null) {
+      return;
+    }
+
+    const event = message.event as RawStreamEvent;
+    switch (event.type) {
+      case "message_start":
+        if (event.message?.id) {
+          this.streamedIds.add(event.message.id);
+        }
+        break;
+
+      case "content_block_start":
+        if (event.content_block?.type === "thinking") {
+          this.setActivity("💭 thinking");
+        } else if (event.content_block?.type === "tool_use") {
+          this.setActivity(`🔧 ${toolLabel(event.content_block.name ?? "tool")}`);
+        } else if (event.content_block?.type === "text") {
+          this.setActivity("✍️  writing");
+        }
+        break;
+
+      case "content_block_delta":
+        if (event.delta?.type === "text_delta" && event.delta.text) {
+          if (!this.midLine) {
+            this.clearStatus();
+            this.stream.write("\n🤖 ");
+            this.midLine = true;
+          }
+          this.stream.write(event.delta.text);
+        }
+        break;
+
+      case "content_block_stop":
+        this.activity = null;
+        this.endText();
+        break;
+    }
+  }
+
+  private renderAssistant(message: SDKAssistantMessage): void {
+    const nested = message.parent_tool_use_id !== null;
+    const messageId = message.message?.id ?? null;
+    if (!nested && messageId !== null) {
+      this.turnIds.add(messageId);
+      this.trackCost(message, messageId);
+    }
+
+    for (const thinking of thinkingBlocks(message)) {
+      const words = thinking.split(/\s+/).filter(Boolean).length;
+      this.line(`💭 Thought (${words} words)`);
+      if (this.verbose) {
+        this.line(this.faint(indent(thinking, "   ")));
+      }
+    }
+
+    // Already written token by token unless the run wasn't streaming
+    if (this.showText && !nested && !(messageId !== null && this.streamedIds.has(messageId))) {
+      for (const text of textBlocks(message)) {
+        this.line(`\n🤖 ${text}`);
+      }
+    }
+
+    for (const block of toolUseBlocks(message)) {
+      this.tools.set(block.id, { name: block.name, startedAt: this.now() });
+      const summary = toolInputSummary(block.input);
+      this.line(`${nested ? "   " : ""}🔧 ${toolLabel(block.name)}${summary ? ` ${this.faint(summary)}` : ""}`);
+      if (this.verbose) {
+        this.line(this.faint(indent(JSON.stringify(block.input, null, 2))));
+      }
+      this.setActivity(`🔧 ${toolLabel(block.name)}`);
+    }
+  }
+
+  private renderToolResults(message: SDKUserMessage | SDKUserMessageReplay): void {
+    for (const block of toolResultBlocks(message)) {
+      const tool = this.tools.get(block.tool_use_id);
+      if (!tool) {
+        continue;
+      }
+      this.tools.delete(block.tool_use_id);
+
+      const isError = block.is_error === true;
+      const text = toolResultText(block);
+      const took = formatDuration(this.now() - tool.startedAt);
+      const nested = message.parent_tool_use_id !== null ? "   " : "";
+      this.line(`${nested}   ↳ ${isError ? "❌" : "✓"} ${this.faint(`${took}, ${toolResultSummary(text, isError)}`)}`);
+      if (this.verbose && text.trim().length > 0) {
+        const lines = text.split("\n");
+        const shown = lines.slice(0, VERBOSE_RESULT_LINES).join("\n");
+        const more = lines.length > VERBOSE_RESULT_LINES ? `\n… ${lines.length - VERBOSE_RESULT_LINES} more line(s)` : "";
+        this.line(this.faint(indent(`${shown}${more}`)));
+      }
+    }
+    this.setActivity(this.tools.size > 0 ? `🔧 ${this.tools.size} tool(s) running` : null);
+  }
+
+  private renderProgress(message: SDKToolProgressMessage): void {
+    this.setActivity(`⏳ ${toolLabel(message.tool_name)} ${Math.round(message.elapsed_time_seconds)}s`);
+  }
+
+  private renderResult(message: SDKResultMessage): void {
+    this.pendingCost.delete(message.session_id);
+    this.settledCostUSD += message.total_cost_usd;
+    this.activity = null;
+    if (!this.interactive) {
+      this.line(`📊 ${this.statusText()}`);
+    } else {
+      this.drawStatus();
+    }
+  }
+
+  private trackCost(message: SDKAssistantMessage, messageId: string): void {
+    const usage = usageOf(message);
+    if (!usage) {
+      return;
+    }
+    const costs = this.pendingCost.get(message.session_id) ?? new Map<string, number>();
+    // Content blocks of one API message repeat its usage, so keyed rather than summed
+    costs.set(messageId, estimateCostUSD(message.message.model ?? "", usage));
+    this.pendingCost.set(message.session_id, costs);
+  }
+
+  // ==========================================================================
+  // OUTPUT
+  // ==========================================================================
+
+  private faint(text: string): string {
+    return this.interactive ? dim(text) : text;
+  }
+
+  private line(text: string): void {
+    this.endText();
+    this.clearStatus();
+    this.stream.write(`${text}\n`);
+    this.drawStatus();
+  }
+
+  /** Closes a streamed text block with its newline */
+  private endText(): void {
+    if (this.midLine) {
+      this.stream.write("\n");
+      this.midLine = false;
+      this.drawStatus();
+    }
+  }
+
+  private setActivity(activity: string | null): void {
+    this.activity = activity;
+    this.drawStatus();
+  }
+
+  private statusText(): string {
+    const parts = [
+      `⏱  ${formatDuration(this.now() - this.startedAt)}`,
+      `${this.turnIds.size} turn(s)`,
+      `$${this.costUSD.toFixed(4)}`
+    ];
+    if (this.activity) {
+      parts.push(this.activity);
+    }
+    return parts.join(" · ");
+  }
+
+  private clearStatus(): void {
+    if (this.statusVisible) {
+      this.stream.write(CLEAR_LINE);
+      this.statusVisible = false;
+    }
+  }
+
+  private drawStatus(): void {
+    if (!this.interactive || this.stopped || this.midLine) {
+      return;
+    }
+    const width = Math.max((this.stream.columns ?? 80) - 1, 20);
+    this.stream.write(`${CLEAR_LINE}${dim(truncate(this.statusText(), width))}`);
+    this.statusVisible = true;
+  }
+
+  private startTimer(): void {
+    if (this.timer || !this.interactive) {
+      return;
+    }
+    this.timer = setInterval(() => this.drawStatus(), STATUS_INTERVAL_MS);
+    this.timer.unref();
+  }
+}
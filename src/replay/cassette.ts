@@ -0,0 +1,201 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { Options, SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { QueryParams } from "../runtime/transport";
+
+/**
+ * Cassette file format (JSONL, one entry per line):
+ *
+ *   {"type":"interaction","id":1,"key":"…","promptKey":"…","prompt":"…","options":{…},"recordedAt":"…"}
+ *   {"type":"message","id":1,"message":{…SDKMessage…}}
+ *   {"type":"error","id":1,"error":{"name":"AbortError","message":"…"}}
+ *
+ * Messages and errors reference their interaction by `id`. An interaction is
+ * written in one append once its stream has finished, so a cassette never
+ * contains half a run even if the recording process is killed.
+ */
+
+export const CASSETTE_VERSION = 1;
+
+export interface RecordedError {
+  name: string;
+  message: string;
+}
+
+export interface InteractionEntry {
+  type: "interaction";
+  id: number;
+  version: number;
+  /** Hash of prompt + normalized options; used for strict matching */
+  key: string;
+  /** Hash of the prompt alone; used for loose matching */
+  promptKey: string;
+  prompt: string;
+  options: Record<string, unknown>;
+  recordedAt: string;
+}
+
+export type CassetteEntry =
+  | InteractionEntry
+  | { type: "message"; id: number; message: SDKMessage }
+  | { type: "error"; id: number; error: RecordedError };
+
+export interface Interaction {
+  id: number;
+  key: string;
+  promptKey: string;
+  prompt: string;
+  options: Record<string, unknown>;
+  recordedAt: string;
+  messages: SDKMessage[];
+  error?: RecordedError;
+}
+
+const STREAMING_PROMPT = "<streaming-input>";
+
+// Options that are environment-specific, secret or not serializable
+const IGNORED_OPTIONS = new Set<keyof Options>([
+  "abortController",
+  "cwd",
+  "env",
+  "executable",
+  "executableArgs",
+  "pathToClaudeCodeExecutable",
+  "stderr"
+]);
+
+/**
+ * Reduces SDK options to a stable, JSON-safe shape for hashing and storage.
+ * Callbacks collapse to markers and MCP servers / hooks to their names, so
+ * a recording made on one machine replays on another.
+ */
+export function normalizeOptions(options: Options = {}): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(options)) {
+    if (value === undefined || IGNORED_OPTIONS.has(key as keyof Options)) {
+      continue;
+    }
+
+    switch (key) {
+      case "canUseTool":
+        normalized[key] = "<function>";
+        break;
+      case "mcpServers":
+      case "hooks":
+        normalized[key] = Object.keys(value as object).sort();
+        break;
+      default:
+        normalized[key] = value;
+    }
+  }
+
+  return normalized;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined && typeof entry !== "function")
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+export function promptText(params: QueryParams): string {
+  return typeof params.prompt === "string" ? params.prompt : STREAMING_PROMPT;
+}
+
+/**
+ * Matching keys for a query call.
+ */
+export function interactionKeys(params: QueryParams): { key: string; promptKey: string } {
+  const prompt = promptText(params);
+  return {
+    key: sha256(stableStringify({ prompt, options: normalizeOptions(params.options) })),
+    promptKey: sha256(prompt)
+  };
+}
+
+/**
+ * Loads every interaction in a cassette, in recording order.
+ */
+export function readCassette(cassettePath: string): Interaction[] {
+  if (!fs.existsSync(cassettePath)) {
+    return [];
+  }
+
+  const interactions = new Map<number, Interaction>();
+  const lines = fs.readFileSync(cassettePath, "utf8").split("\n");
+
+  lines.forEach((line, index) => {
+    if (line.trim() === "") {
+      return;
+    }
+
+    let entry: CassetteEntry;
+    try {
+      entry = JSON.parse(line) as CassetteEntry;
+    } catch {
+      throw new Error(`${cassettePath}:${index + 1}: invalid JSON in cassette`);
+    }
+
+    if (entry.type === "interaction") {
+      const { type: _type, version: _version, ...interaction } = entry;
+      interactions.set(entry.id, { ...interaction, messages: [] });
+      return;
+    }
+
+    const interaction = interactions.get(entry.id);
+    if (!interaction) {
+      throw new Error(`${cassettePath}:${index + 1}: entry references unknown interaction ${entry.id}`);
+    }
+    if (entry.type === "message") {
+      interaction.messages.push(entry.message);
+    } else {
+      interaction.error = entry.error;
+    }
+  });
+
+  return Array.from(interactions.values());
+}
+
+/**
+ * Appends one complete interaction to a cassette and returns its id.
+ */
+export function appendInteraction(
+  cassettePath: string,
+  params: QueryParams,
+  messages: SDKMessage[],
+  error?: RecordedError
+): number {
+  const existing = readCassette(cassettePath);
+  const id = existing.reduce((max, interaction) => Math.max(max, interaction.id), 0) + 1;
+
+  const entries: CassetteEntry[] = [
+    {
+      type: "interaction",
+      id,
+      version: CASSETTE_VERSION,
+      ...interactionKeys(params),
+      prompt: promptText(params),
+      options: normalizeOptions(params.options),
+      recordedAt: new Date().toISOString()
+    },
+    ...messages.map((message) => ({ type: "message" as const, id, message })),
+    ...(error ? [{ type: "error" as const, id, error }] : [])
+  ];
+
+  fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+  fs.appendFileSync(cassettePath, entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n");
+  return id;
+}
@@ -0,0 +1,38 @@
+import type { AppConfig } from "../config";
+import { sdkTransport, type QueryTransport } from "../runtime/transport";
+import { RecordingTransport } from "./recording-transport";
+import { ReplayTransport } from "./replay-transport";
+
+export {
+  appendInteraction,
+  interactionKeys,
+  normalizeOptions,
+  readCassette,
+  type CassetteEntry,
+  type Interaction
+} from "./cassette";
+export { RecordingTransport } from "./recording-transport";
+export { CassetteMissError, ReplayTransport, type ReplayTransportOptions } from "./replay-transport";
+
+/**
+ * Picks the query transport for AGENT_CASSETTE_MODE:
+ * - off: the live SDK
+ * - record: the live SDK, recorded to AGENT_CASSETTE_PATH
+ * - replay: the cassette; with AGENT_CASSETTE_STRICT=false misses are
+ *   recorded from the live SDK into the same cassette
+ */
+export function transportFromConfig(config: AppConfig): QueryTransport {
+  const { mode, cassettePath, strict } = config.replay;
+
+  switch (mode) {
+    case "record":
+      return new RecordingTransport(cassettePath);
+    case "replay":
+      return new ReplayTransport(cassettePath, {
+        strict,
+        fallback: strict ? undefined : new RecordingTransport(cassettePath)
+      });
+    default:
+      return sdkTransport;
+  }
+}
@@ -0,0 +1,45 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { sdkTransport, type QueryParams, type QueryTransport } from "../runtime/transport";
+import { appendInteraction } from "./cassette";
+
+/**
+ * Transport that passes calls through to another transport (the live SDK by
+ * default) and records the exact `SDKMessage` sequence of each call to a
+ * JSONL cassette. Thrown errors are recorded too and re-thrown.
+ */
+export class RecordingTransport implements QueryTransport {
+  readonly cassettePath: string;
+  private inner: QueryTransport;
+
+  constructor(cassettePath: string, inner: QueryTransport = sdkTransport) {
+    this.cassettePath = cassettePath;
+    this.inner = inner;
+  }
+
+  query(params: QueryParams): AsyncIterable<SDKMessage> {
+    return this.record(params);
+  }
+
+  private async *record(params: QueryParams): AsyncGenerator<SDKMessage, void> {
+    const messages: SDKMessage[] = [];
+    let failure: Error | undefined;
+
+    try {
+      for await (const message of this.inner.query(params)) {
+        messages.push(message);
+        yield message;
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error : new Error(String(error));
+      throw error;
+    } finally {
+      // Also runs when the consumer stops early, so partial runs are kept
+      appendInteraction(
+        this.cassettePath,
+        params,
+        messages,
+        failure ? { name: failure.name, message: failure.message } : undefined
+      );
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { AbortError, type SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { QueryParams, QueryTransport } from "../runtime/transport";
+import { interactionKeys, promptText, readCassette, type Interaction, type RecordedError } from "./cassette";
+
+/**
+ * Thrown when a query has no matching recording.
+ */
+export class CassetteMissError extends Error {
+  readonly key: string;
+  readonly prompt: string;
+
+  constructor(cassettePath: string, key: string, prompt: string) {
+    const preview = prompt.length > 80 ? `${prompt.slice(0, 77)}...` : prompt;
+    super(`No recorded interaction in ${cassettePath} for prompt "${preview}" (key ${key.slice(0, 12)})`);
+    this.name = "CassetteMissError";
+    this.key = key;
+    this.prompt = prompt;
+  }
+}
+
+export interface ReplayTransportOptions {
+  /**
+   * Strict mode (default) only serves exact prompt + options matches and
+   * throws CassetteMissError for anything else. Non-strict mode also matches
+   * on the prompt alone and hands true misses to `fallback`.
+   */
+  strict?: boolean;
+  /** Transport for unrecorded calls in non-strict mode (e.g. a RecordingTransport) */
+  fallback?: QueryTransport;
+}
+
+/**
+ * Serves recorded cassettes in place of the SDK.
+ *
+ * Repeated identical calls are answered with their recordings in order; once
+ * those run out, strict mode fails and non-strict mode repeats the last one.
+ */
+export class ReplayTransport implements QueryTransport {
+  readonly cassettePath: string;
+  private strict: boolean;
+  private fallback?: QueryTransport;
+  private byKey = new Map<string, Interaction[]>();
+  private byPrompt = new Map<string, Interaction[]>();
+  private served = new Map<Interaction[], number>();
+
+  constructor(cassettePath: string, options: ReplayTransportOptions = {}) {
+    this.cassettePath = cassettePath;
+    this.strict = options.strict ?? true;
+    this.fallback = options.fallback;
+
+    for (const interaction of readCassette(cassettePath)) {
+      pushTo(this.byKey, interaction.key, interaction);
+      pushTo(this.byPrompt, interaction.promptKey, interaction);
+    }
+  }
+
+  query(params: QueryParams): AsyncIterable<SDKMessage> {
+    const { key, promptKey } = interactionKeys(params);
+
+    const interaction =
+      this.next(this.byKey.get(key)) ?? (this.strict ? undefined : this.next(this.byPrompt.get(promptKey)));
+
+    if (interaction) {
+      return replay(interaction, params);
+    }
+
+    if (!this.strict && this.fallback) {
+      return this.fallback.query(params);
+    }
+
+    throw new CassetteMissError(this.cassettePath, key, promptText(params));
+  }
+
+  private next(candidates: Interaction[] | undefined): Interaction | undefined {
+    if (!candidates || candidates.length === 0) {
+      return undefined;
+    }
+    const index = this.served.get(candidates) ?? 0;
+    if (index >= candidates.length) {
+      return this.strict ? undefined : candidates[candidates.length - 1];
+    }
+    this.served.set(candidates, index + 1);
+    return candidates[index];
+  }
+}
+
+function pushTo(map: Map<string, Interaction[]>, key: string, interaction: Interaction): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(interaction);
+  } else {
+    map.set(key, [interaction]);
+  }
+}
+
+function toError(recorded: RecordedError): Error {
+  const error = recorded.name === "AbortError" ? new AbortError(recorded.message) : new Error(recorded.message);
+  error.name = recorded.name;
+  return error;
+}
+
+async function* replay(interaction: Interaction, params: QueryParams): AsyncGenerator<SDKMessage, void> {
+  const signal = params.options?.abortController?.signal;
+  for (const message of interaction.messages) {
+    if (signal?.aborted) {
+      throw new AbortError("Claude Code process aborted by user");
+    }
+    // Hand out copies so consumers cannot mutate the loaded cassette
+    yield structuredClone(message);
+  }
+  if (interaction.error) {
+    throw toError(interaction.error);
+  }
+}
@@ -0,0 +1,2 @@
+export { ModelRouter, type RoutingDecision, type RoutingReason } from "./model-router";
+export * from "./policy";
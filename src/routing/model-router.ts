@@ -0,0 +1,131 @@
+import { BudgetGovernor, DAY_MS, HOUR_MS } from "../budget";
+import type { AppConfig, ModelAlias } from "../config";
+import {
+  adjacentModel,
+  DEFAULT_ROUTING_POLICY,
+  modelTier,
+  type EscalationTrigger,
+  type RoutingPolicy,
+  type TaskClass
+} from "./policy";
+
+export type RoutingReason =
+  | "policy" // the task class's model
+  | "override" // an explicit model from the agent definition or --model
+  | "budget" // stepped down because a cap is nearly spent
+  | "escalated"; // moved up after the previous model failed
+
+/**
+ * Which model a run used and why. Recorded on `AgentResult.routing`.
+ */
+export interface RoutingDecision {
+  task: TaskClass;
+  model: ModelAlias;
+  reason: RoutingReason;
+  /** e.g. "error_max_turns on haiku" or "12% of the daily USD cap left" */
+  detail: string;
+  /** Models tried before this one in the same job, oldest first */
+  previous: ModelAlias[];
+}
+
+interface BudgetHeadroom {
+  /** Smallest share left across the hourly / daily caps, 1 when none are set */
+  share: number;
+  detail: string;
+}
+
+const routers = new Map<string, ModelRouter>();
+
+/**
+ * Chooses a model per task class, escalates after failures and falls back
+ * to cheaper models when the RATE_LIMIT_* caps are nearly spent.
+ *
+ * Agents declare a `task` and the runtime asks the router for each run; an
+ * explicit model is respected but still escalates. Decisions are plain
+ * data, so a job can carry one from run to run.
+ */
+export class ModelRouter {
+  readonly policy: RoutingPolicy;
+  private budget: BudgetGovernor | null;
+
+  constructor(policy: RoutingPolicy = DEFAULT_ROUTING_POLICY, budget: BudgetGovernor | null = null) {
+    this.policy = policy;
+    this.budget = budget;
+  }
+
+  /** Shared per ledger path, like the budget caps it reads */
+  static fromConfig(config: AppConfig): ModelRouter {
+    const key = `${config.rateLimit.statePath}:${config.routing.ceiling}:${config.routing.lowBudgetShare}`;
+    let router = routers.get(key);
+    if (!router) {
+      router = new ModelRouter(
+        { ...DEFAULT_ROUTING_POLICY, ceiling: config.routing.ceiling, lowBudgetShare: config.routing.lowBudgetShare },
+        BudgetGovernor.fromConfig(config)
+      );
+      routers.set(key, router);
+    }
+    return router;
+  }
+
+  /** Model for the first run of a task; `requested` is an explicit choice that wins over the policy */
+  route(task: TaskClass, requested?: ModelAlias): RoutingDecision {
+    if (requested) {
+      return { task, model: requested, reason: "override", detail: `${requested} requested`, previous: [] };
+    }
+
+    const model = this.policy.models[task];
+    const headroom = this.headroom();
+    const cheaper = adjacentModel(model, -1);
+    if (headroom && cheaper) {
+      return { task, model: cheaper, reason: "budget", detail: headroom.detail, previous: [] };
+    }
+    return { task, model, reason: "policy", detail: `${model} for ${task}`, previous: [] };
+  }
+
+  /**
+   * The next tier up after `decision` failed, or null when the ceiling is
+   * reached or the budget is too low to spend more.
+   */
+  escalate(decision: RoutingDecision, trigger: EscalationTrigger): RoutingDecision | null {
+    const next = adjacentModel(decision.model, 1);
+    if (!next || modelTier(next) > modelTier(this.policy.ceiling) || this.headroom()) {
+      return null;
+    }
+    return {
+      task: decision.task,
+      model: next,
+      reason: "escalated",
+      detail: `${trigger === "max_turns" ? "error_max_turns" : "invalid output"} on ${decision.model}`,
+      previous: [...decision.previous, decision.model]
+    };
+  }
+
+  /** Set when some hourly / daily cap has less than `lowBudgetShare` left */
+  private headroom(): BudgetHeadroom | null {
+    if (!this.budget || this.policy.lowBudgetShare <= 0) {
+      return null;
+    }
+
+    const { limits, ledger } = this.budget;
+    const hour = ledger.totals(HOUR_MS);
+    const day = ledger.totals(DAY_MS);
+    const caps: Array<[string, number | undefined, number]> = [
+      ["hourly USD", limits.usdPerHour, hour.costUSD],
+      ["daily USD", limits.usdPerDay, day.costUSD],
+      ["hourly token", limits.tokensPerHour, hour.tokens],
+      ["daily token", limits.tokensPerDay, day.tokens]
+    ];
+
+    let lowest: BudgetHeadroom | null = null;
+    for (const [name, limit, used] of caps) {
+      if (limit === undefined) {
+        continue;
+      }
+      const share = Math.max(0, 1 - used / limit);
+      if (!lowest || share < lowest.share) {
+        lowest = { share, detail: `${Math.round(share * 100)}% of the ${name} cap left` };
+      }
+    }
+    return lowest && lowest.share < this.policy.lowBudgetShare ? lowest : null;
+  }
+}
@@ -0,0 +1,69 @@
+import { MODEL_ALIASES, type ModelAlias } from "../config";
+
+/**
+ * Kinds of work an agent run does, as far as model choice is concerned.
+ *
+ * - lookup: find a fact, answer a short question, call a tool or two
+ * - extraction: pull structured data out of given pages or documents
+ * - synthesis: plan, compare and reason across many findings
+ * - drafting: customer-facing prose (proposals, emails)
+ */
+export const TASK_CLASSES = ["lookup", "extraction", "synthesis", "drafting"] as const;
+export type TaskClass = (typeof TASK_CLASSES)[number];
+
+/** What made a run move up a tier */
+export type EscalationTrigger = "max_turns" | "invalid_output";
+
+export interface RoutingPolicy {
+  /** Starting model per task class */
+  models: Record<TaskClass, ModelAlias>;
+  /** Strongest model escalation may reach */
+  ceiling: ModelAlias;
+  /** 0-1; below this share of any hourly / daily cap, step down a tier and stop escalating (0 disables) */
+  lowBudgetShare: number;
+}
+
+/** Haiku for the simple work, Sonnet for reasoning and writing, Opus only through escalation */
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  models: {
+    lookup: "haiku",
+    extraction: "haiku",
+    synthesis: "sonnet",
+    drafting: "sonnet"
+  },
+  ceiling: "opus",
+  lowBudgetShare: 0.2
+};
+
+/** Position in MODEL_ALIASES, cheapest first */
+export function modelTier(model: ModelAlias): number {
+  return MODEL_ALIASES.indexOf(model);
+}
+
+/** One tier up (`direction` 1) or down (-1), or null past either end */
+export function adjacentModel(model: ModelAlias, direction: 1 | -1): ModelAlias | null {
+  return MODEL_ALIASES[modelTier(model) + direction] ?? null;
+}
+
+// Checked in order; the first class whose pattern matches wins
+const CLASS_PATTERNS: Array<[TaskClass, RegExp]> = [
+  ["synthesis", /\b(analy[sz]e|analysis|compare|comparison|competitive|strategy|strategic|evaluate|assess|recommend|trade-?offs?|synthesi[sz]e|research|plan)\b/i],
+  ["drafting", /\b(draft|write|compose|rewrite|proposal|email|letter|blog|announcement|pitch)\b/i],
+  ["extraction", /\b(extract|parse|pull out|list (all|every|the)|tabulate|from (this|the|these) (document|file|page|pdf|spreadsheet)s?)\b/i]
+];
+
+// Long prompts tend to carry context that needs reasoning over
+const SYNTHESIS_PROMPT_CHARS = 1500;
+
+/**
+ * Classifies a free-form prompt. Agents with a fixed job declare their
+ * `task` instead; this is for ad-hoc prompts such as `cockpit ask`.
+ */
+export function classifyTask(prompt: string): TaskClass {
+  for (const [task, pattern] of CLASS_PATTERNS) {
+    if (pattern.test(prompt)) {
+      return task;
+    }
+  }
+  return prompt.length > SYNTHESIS_PROMPT_CHARS ? "synthesis" : "lookup";
+}
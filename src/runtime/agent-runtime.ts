@@ -0,0 +1,465 @@
+import type {
+  Options,
+  SDKAssistantMessage,
+  SDKMessage,
+  SDKResultMessage
+} from "@anthropic-ai/claude-agent-sdk";
+import { AuditLog, RunAudit } from "../audit";
+import { BudgetGovernor, type BudgetExceeded } from "../budget";
+import { buildQueryOptions, getConfig, MODEL_ALIASES, type AppConfig, type ModelAlias } from "../config";
+import { SessionRecorder, SessionStore } from "../sessions";
+import { createDomainPolicyHooks, DomainPolicy, logDecision, type DecisionListener } from "../permissions";
+import {
+  textBlocks,
+  thinkingBlocks,
+  toolResultBlocks,
+  toolResultText,
+  toolUseBlocks,
+  usageOf,
+  type TokenUsage
+} from "./messages";
+import type { PromptStamp } from "../prompts";
+import { transportFromConfig } from "../replay";
+import { ModelRouter, type EscalationTrigger, type RoutingDecision, type TaskClass } from "../routing";
+import { Tracer } from "../telemetry";
+import { mergeHooks } from "./hooks";
+import type { QueryTransport } from "./transport";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type { ModelAlias };
+
+/**
+ * Static definition of an agent.
+ * `model` / `maxTurns` fall back to CLAUDE_MODEL / MAX_TURNS from the app config.
+ * With a `task`, the model router picks the model and `model` becomes an
+ * explicit override.
+ */
+export interface AgentConfig {
+  name: string;
+  model?: ModelAlias;
+  task?: TaskClass;
+  tools: string[];
+  maxTurns?: number;
+  systemPrompt: string;
+  /** Registry template the system prompt was rendered from (see promptConfig in src/prompts) */
+  prompt?: PromptStamp;
+  /** Extra SDK options merged under the fields above (hooks, mcpServers, ...) */
+  options?: Options;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  /** 1-based assistant turn in which the tool was requested */
+  turn: number;
+  /** Filled in once the matching tool_result arrives */
+  result?: {
+    isError: boolean;
+    text: string;
+  };
+}
+
+export interface TurnUsage extends TokenUsage {
+  turn: number;
+  /** Anthropic API message id the usage was reported on */
+  messageId: string | null;
+}
+
+export interface AgentResult {
+  success: boolean;
+  /** All assistant text of the run, in order */
+  response: string;
+  /** Final answer: the result message text on success, else the last assistant text */
+  output: string;
+  error: string | null;
+  subtype: SDKResultMessage["subtype"] | null;
+  /** Set when a RATE_LIMIT_* cap stopped the run (subtype is then "error_max_budget_usd") */
+  budget: BudgetExceeded | null;
+  sessionId: string | null;
+  model: string;
+  /** Why `model` was chosen; null when the agent has no task class or routing is off */
+  routing: RoutingDecision | null;
+  /** Prompt template behind the system prompt; null for inline system prompts */
+  prompt: PromptStamp | null;
+  toolCalls: ToolCall[];
+  thinking: string[];
+  turns: TurnUsage[];
+  stats: {
+    turns: number;
+    costUSD: number;
+    durationMs: number;
+    durationApiMs: number;
+    usage: TokenUsage;
+  };
+}
+
+/**
+ * Lifecycle callbacks. All are optional and invoked synchronously, in stream order.
+ */
+export interface AgentEvents {
+  onMessage?: (message: SDKMessage) => void;
+  onAssistantText?: (text: string, message: SDKAssistantMessage) => void;
+  onThinking?: (thinking: string, message: SDKAssistantMessage) => void;
+  onToolUse?: (toolCall: ToolCall) => void;
+  onToolResult?: (toolCall: ToolCall) => void;
+  onResult?: (result: AgentResult, message: SDKResultMessage) => void;
+  /** Before a routed run starts, with the model it will use */
+  onRoute?: (decision: RoutingDecision) => void;
+}
+
+export interface AgentRuntimeDeps {
+  appConfig?: AppConfig;
+  /** Defaults to the transport selected by AGENT_CASSETTE_MODE */
+  transport?: QueryTransport;
+  events?: AgentEvents;
+  /** Receives every permission decision (domain policy, ...); stderr by default */
+  onPermissionDecision?: DecisionListener;
+  /** Defaults to the shared log at AUDIT_LOG_PATH; `null` disables auditing */
+  audit?: AuditLog | null;
+  /**
+   * Where runs are saved for later listing / resuming. Defaults to
+   * SESSION_STORAGE_PATH when ENABLE_SESSION_PERSISTENCE is on; `null` disables.
+   */
+  sessions?: SessionStore | null;
+  /** Defaults to the RATE_LIMIT_* caps from config; `null` disables enforcement */
+  budget?: BudgetGovernor | null;
+  /** Picks models for agents with a `task`. Defaults to the configured router; `null` disables */
+  router?: ModelRouter | null;
+  /** Run / turn / tool spans. Defaults to the shared tracer for TELEMETRY_EXPORTERS; `null` disables */
+  tracer?: Tracer | null;
+}
+
+export interface RunOptions {
+  /** Per-run SDK option overrides (abortController, resume, ...) */
+  options?: Options;
+  /** Model decision for this run (e.g. an escalation); defaults to routing the agent's task */
+  routing?: RoutingDecision;
+  /** Per-run callbacks, invoked after the runtime-level ones */
+  events?: AgentEvents;
+}
+
+export const MODEL_IDS: Record<ModelAlias, string> = {
+  haiku: "claude-haiku-4-5-20251001",
+  sonnet: "claude-sonnet-4-5-20250929",
+  opus: "claude-opus-4-1-20250805"
+};
+
+/** Alias of a model id in MODEL_IDS, so a pinned CLAUDE_MODEL can still escalate; undefined for other ids */
+export function modelAlias(modelId: string): ModelAlias | undefined {
+  return MODEL_ALIASES.find((alias) => MODEL_IDS[alias] === modelId);
+}
+
+const EVENT_NAMES = ["onMessage", "onAssistantText", "onThinking", "onToolUse", "onToolResult", "onResult", "onRoute"] as const;
+
+/**
+ * Combines several sets of callbacks; each handler runs in argument order.
+ */
+export function mergeEvents(...sources: Array<AgentEvents | undefined>): AgentEvents {
+  const merged: AgentEvents = {};
+  for (const name of EVENT_NAMES) {
+    const handlers = sources.map((source) => source?.[name]).filter((handler) => handler !== undefined);
+    if (handlers.length > 0) {
+      merged[name] = ((...args: unknown[]) => {
+        for (const handler of handlers) {
+          (handler as (...handlerArgs: unknown[]) => void)(...args);
+        }
+      }) as never;
+    }
+  }
+  return merged;
+}
+
+function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadInputTokens: 0, cacheCreationInputTokens: 0 };
+}
+
+// ============================================================================
+// RUNTIME
+// ============================================================================
+
+/**
+ * Shared agent runtime.
+ *
+ * Builds SDK options from the app config plus the agent definition, drives a
+ * query through the injected transport and folds the message stream into an
+ * `AgentResult` with per-turn usage, tool calls and thinking blocks.
+ */
+export class AgentRuntime {
+  readonly config: AgentConfig;
+  private appConfig: AppConfig;
+  private transport: QueryTransport;
+  private events: AgentEvents;
+  private onPermissionDecision: DecisionListener;
+  private audit: AuditLog | null;
+  private sessions: SessionStore | null;
+  private budget: BudgetGovernor | null;
+  private router: ModelRouter | null;
+  private tracer: Tracer | null;
+
+  constructor(config: AgentConfig, deps: AgentRuntimeDeps = {}) {
+    this.config = config;
+    this.appConfig = deps.appConfig ?? getConfig();
+    this.transport = deps.transport ?? transportFromConfig(this.appConfig);
+    this.events = deps.events ?? {};
+    this.onPermissionDecision = deps.onPermissionDecision ?? logDecision;
+    this.audit = deps.audit === undefined ? AuditLog.fromConfig(this.appConfig) : deps.audit;
+    this.sessions =
+      deps.sessions !== undefined
+        ? deps.sessions
+        : this.appConfig.sessions.persistenceEnabled
+          ? SessionStore.fromConfig(this.appConfig)
+          : null;
+    this.budget = deps.budget === undefined ? BudgetGovernor.fromConfig(this.appConfig) : deps.budget;
+    this.router =
+      deps.router !== undefined ? deps.router : this.appConfig.routing.enabled ? ModelRouter.fromConfig(this.appConfig) : null;
+    this.tracer = deps.tracer === undefined ? Tracer.fromConfig(this.appConfig) : deps.tracer;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  // Type-safe model resolution
+  resolveModel(routing: RoutingDecision | null = this.route()): string {
+    if (routing) {
+      return MODEL_IDS[routing.model];
+    }
+    return this.config.model ? MODEL_IDS[this.config.model] : this.appConfig.agent.model;
+  }
+
+  /**
+   * The router's pick for a fresh run of this agent, or null when it isn't
+   * routed. The agent's own model, then a set CLAUDE_MODEL, win over the
+   * policy; a CLAUDE_MODEL the router has no tier for is run as is.
+   */
+  route(): RoutingDecision | null {
+    if (!this.router || !this.config.task) {
+      return null;
+    }
+    const { model, modelPinned } = this.appConfig.agent;
+    const requested = this.config.model ?? (modelPinned ? modelAlias(model) : undefined);
+    if (!requested && modelPinned) {
+      return null;
+    }
+    return this.router.route(this.config.task, requested);
+  }
+
+  /** The next model up after `decision` failed, or null when there is none to try */
+  escalate(decision: RoutingDecision | null, trigger: EscalationTrigger): RoutingDecision | null {
+    return this.router && decision ? this.router.escalate(decision, trigger) : null;
+  }
+
+  /**
+   * SDK options for a run: app config defaults, then the agent definition,
+   * then per-run overrides. The SEARCH_DOMAINS_* policy hooks run ahead of
+   * any hooks the agent brings.
+   */
+  buildOptions(
+    overrides: Options = {},
+    onDecision: DecisionListener = this.onPermissionDecision,
+    routing: RoutingDecision | null = null
+  ): Options {
+    const options = buildQueryOptions(this.appConfig, {
+      ...this.config.options,
+      model: this.resolveModel(routing),
+      allowedTools: this.config.tools,
+      maxTurns: this.config.maxTurns ?? this.appConfig.agent.maxTurns,
+      systemPrompt: this.config.systemPrompt,
+      ...overrides
+    });
+
+    const policy = DomainPolicy.fromConfig(this.appConfig);
+    if (!policy.isOpen) {
+      options.hooks = mergeHooks(createDomainPolicyHooks(policy, onDecision), options.hooks);
+    }
+
+    return options;
+  }
+
+  // Type-safe execution with proper error handling
+  async execute(prompt: string, run: RunOptions = {}): Promise<AgentResult> {
+    let audit: RunAudit | null = null;
+    const routing = run.routing ?? this.route();
+    const options = this.buildOptions(
+      run.options,
+      (decision) => {
+        this.onPermissionDecision(decision);
+        audit?.decision(decision);
+      },
+      routing
+    );
+    if (this.budget) {
+      options.abortController ??= new AbortController();
+      await this.budget.waitForRequestSlot(options.abortController.signal);
+    }
+
+    audit = this.audit ? new RunAudit(this.audit, { agent: this.name, prompt, options, template: this.config.prompt ?? null }) : null;
+    const recorder = this.sessions ? new SessionRecorder(this.sessions, { agent: this.name, prompt, options }) : null;
+    const trace = this.tracer?.startRun({ agent: this.name, task: this.config.task, routing, prompt: this.config.prompt ?? null }) ?? null;
+    const budget =
+      this.budget && options.abortController
+        ? this.budget.startRun(options.model ?? this.appConfig.agent.model, options.abortController)
+        : null;
+    const events = mergeEvents(budget?.events, audit?.events, recorder?.events, trace?.events, this.events, run.events);
+    if (routing) {
+      events.onRoute?.(routing);
+    }
+
+    const result: AgentResult = {
+      success: false,
+      response: "",
+      output: "",
+      error: null,
+      subtype: null,
+      budget: null,
+      sessionId: null,
+      model: options.model ?? this.appConfig.agent.model,
+      routing,
+      prompt: this.config.prompt ?? null,
+      toolCalls: [],
+      thinking: [],
+      turns: [],
+      stats: {
+        turns: 0,
+        costUSD: 0,
+        durationMs: 0,
+        durationApiMs: 0,
+        usage: emptyUsage()
+      }
+    };
+
+    const pendingTools = new Map<string, ToolCall>();
+    const texts: string[] = [];
+
+    try {
+      // Hourly / daily caps may already be spent before the run starts
+      if (budget?.exceeded) {
+        throw new Error(budget.exceeded.message);
+      }
+
+      for await (const message of this.transport.query({ prompt, options })) {
+        events.onMessage?.(message);
+        result.sessionId = message.session_id ?? result.sessionId;
+
+        switch (message.type) {
+          case "system":
+            if (message.subtype === "init") {
+              result.model = message.model;
+            }
+            break;
+
+          case "assistant": {
+            const turn = this.recordTurn(result, message);
+
+            for (const thinking of thinkingBlocks(message)) {
+              result.thinking.push(thinking);
+              events.onThinking?.(thinking, message);
+            }
+
+            for (const text of textBlocks(message)) {
+              texts.push(text);
+              events.onAssistantText?.(text, message);
+            }
+
+            for (const block of toolUseBlocks(message)) {
+              const toolCall: ToolCall = { id: block.id, name: block.name, input: block.input, turn };
+              result.toolCalls.push(toolCall);
+              pendingTools.set(toolCall.id, toolCall);
+              events.onToolUse?.(toolCall);
+            }
+            break;
+          }
+
+          case "user":
+            for (const block of toolResultBlocks(message)) {
+              const toolCall = pendingTools.get(block.tool_use_id);
+              if (toolCall) {
+                pendingTools.delete(block.tool_use_id);
+                toolCall.result = { isError: block.is_error === true, text: toolResultText(block) };
+                events.onToolResult?.(toolCall);
+              }
+            }
+            break;
+
+          case "result":
+            this.applyResult(result, message);
+            result.response = texts.join("\n");
+            result.output = message.subtype === "success" ? message.result : texts[texts.length - 1] ?? "";
+            events.onResult?.(result, message);
+            break;
+        }
+      }
+    } catch (error) {
+      result.success = false;
+      result.error = error instanceof Error ? error.message : String(error);
+      audit?.error(error);
+    }
+
+    if (budget?.exceeded) {
+      result.success = false;
+      result.subtype = "error_max_budget_usd";
+      result.budget = budget.exceeded;
+      result.error = budget.exceeded.message;
+    }
+
+    // Also covers runs that threw before a result message arrived
+    result.response = texts.join("\n");
+    result.output ||= texts[texts.length - 1] ?? "";
+
+    trace?.end(result);
+    return result;
+  }
+
+  /**
+   * Tracks per-turn usage. The SDK emits one assistant message per content
+   * block, all sharing the API message id, so usage is keyed by that id.
+   * Subagent traffic (parent_tool_use_id set) is not a turn of this agent.
+   */
+  private recordTurn(result: AgentResult, message: SDKAssistantMessage): number {
+    if (message.parent_tool_use_id !== null) {
+      return result.turns[result.turns.length - 1]?.turn ?? 0;
+    }
+
+    const messageId: string | null = message.message?.id ?? null;
+    const usage = usageOf(message) ?? emptyUsage();
+    const last = result.turns[result.turns.length - 1];
+
+    if (last && messageId !== null && last.messageId === messageId) {
+      Object.assign(last, usage);
+      return last.turn;
+    }
+
+    const turn: TurnUsage = { turn: result.turns.length + 1, messageId, ...usage };
+    result.turns.push(turn);
+    return turn.turn;
+  }
+
+  private applyResult(result: AgentResult, message: SDKResultMessage): void {
+    result.subtype = message.subtype;
+    result.sessionId = message.session_id;
+    result.stats = {
+      turns: message.num_turns,
+      costUSD: message.total_cost_usd,
+      durationMs: message.duration_ms,
+      durationApiMs: message.duration_api_ms,
+      usage: {
+        inputTokens: message.usage.input_tokens ?? 0,
+        outputTokens: message.usage.output_tokens ?? 0,
+        cacheReadInputTokens: message.usage.cache_read_input_tokens ?? 0,
+        cacheCreationInputTokens: message.usage.cache_creation_input_tokens ?? 0
+      }
+    };
+
+    if (message.subtype === "success") {
+      result.success = true;
+      result.error = null;
+    } else {
+      result.success = false;
+      result.error = message.errors.length > 0 ? message.errors.join(", ") : message.subtype;
+    }
+  }
+}
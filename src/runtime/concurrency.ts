@@ -0,0 +1,32 @@
+/**
+ * Maps `items` through `worker` with at most `limit` calls in flight.
+ * Results keep the input order. A rejected call rejects the whole map once
+ * the calls already running have settled; catch inside `worker` to collect
+ * failures instead.
+ */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const lane = async () => {
+    while (failure === null && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index] as T, index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+  if (failure !== null) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+}
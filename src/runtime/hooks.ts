@@ -0,0 +1,16 @@
+import type { HookCallbackMatcher, HookEvent, Options } from "@anthropic-ai/claude-agent-sdk";
+
+export type HookMap = NonNullable<Options["hooks"]>;
+
+/**
+ * Concatenates hook maps; matchers from later maps run after earlier ones.
+ */
+export function mergeHooks(...maps: Array<HookMap | undefined>): HookMap {
+  const merged: HookMap = {};
+  for (const map of maps) {
+    for (const [event, matchers] of Object.entries(map ?? {}) as Array<[HookEvent, HookCallbackMatcher[]]>) {
+      merged[event] = [...(merged[event] ?? []), ...matchers];
+    }
+  }
+  return merged;
+}
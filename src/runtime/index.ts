@@ -0,0 +1,43 @@
+export {
+  AgentRuntime,
+  mergeEvents,
+  MODEL_IDS,
+  modelAlias,
+  type AgentConfig,
+  type AgentEvents,
+  type AgentResult,
+  type AgentRuntimeDeps,
+  type ModelAlias,
+  type RunOptions,
+  type ToolCall,
+  type TurnUsage
+} from "./agent-runtime";
+export {
+  ScriptedTransport,
+  sdkTransport,
+  type QueryParams,
+  type QueryTransport,
+  type ScriptedRun
+} from "./transport";
+export * from "./messages";
+export {
+  extractJson,
+  runStructured,
+  StructuredOutputError,
+  validateOutput,
+  type StructuredRun,
+  type StructuredRunOptions
+} from "./structured-output";
+export {
+  AgentRunError,
+  backoffDelay,
+  classifyFailure,
+  runWithRetry,
+  type FailureClassification,
+  type FailureKind,
+  type RetryInfo,
+  type RetryOptions
+} from "./retry";
+export { mergeHooks, type HookMap } from "./hooks";
+export { mapConcurrent } from "./concurrency";
+export { sleep } from "./sleep";
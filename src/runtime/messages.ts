@@ -0,0 +1,103 @@
+import type {
+  SDKAssistantMessage,
+  SDKUserMessage,
+  SDKUserMessageReplay
+} from "@anthropic-ai/claude-agent-sdk";
+
+/**
+ * Helpers for reading content blocks out of SDK messages.
+ *
+ * `SDKAssistantMessage.message` is the raw Anthropic API message, so its
+ * `content` is an array of blocks rather than a string. These helpers give
+ * the rest of the codebase one typed place to pull text, tool calls,
+ * thinking and tool results from.
+ */
+
+export interface ToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+}
+
+type RawBlock = { type?: unknown } & Record<string, unknown>;
+
+function blocksOf(message: SDKAssistantMessage | SDKUserMessage | SDKUserMessageReplay): RawBlock[] {
+  const content: unknown = message.message?.content;
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+  return Array.isArray(content) ? (content as RawBlock[]) : [];
+}
+
+/** Text blocks of an assistant message, in order */
+export function textBlocks(message: SDKAssistantMessage): string[] {
+  return blocksOf(message)
+    .filter((block) => block.type === "text" && typeof block.text === "string")
+    .map((block) => block.text as string);
+}
+
+/** Thinking blocks of an assistant message, in order */
+export function thinkingBlocks(message: SDKAssistantMessage): string[] {
+  return blocksOf(message)
+    .filter((block) => block.type === "thinking" && typeof block.thinking === "string")
+    .map((block) => block.thinking as string);
+}
+
+/** Tool calls requested by an assistant message */
+export function toolUseBlocks(message: SDKAssistantMessage): ToolUseBlock[] {
+  return blocksOf(message)
+    .filter((block) => block.type === "tool_use" && typeof block.id === "string")
+    .map((block) => ({
+      type: "tool_use",
+      id: block.id as string,
+      name: String(block.name),
+      input: (block.input ?? {}) as Record<string, unknown>
+    }));
+}
+
+/** Tool results carried back to the model in a user message */
+export function toolResultBlocks(message: SDKUserMessage | SDKUserMessageReplay): ToolResultBlock[] {
+  return blocksOf(message)
+    .filter((block) => block.type === "tool_result" && typeof block.tool_use_id === "string")
+    .map((block) => block as unknown as ToolResultBlock);
+}
+
+/** Flattens a tool result's content to plain text */
+export function toolResultText(block: ToolResultBlock): string {
+  if (typeof block.content === "string") {
+    return block.content;
+  }
+  return (block.content ?? [])
+    .filter((part) => part.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/** Token usage reported on an assistant message, if any */
+export function usageOf(message: SDKAssistantMessage): TokenUsage | undefined {
+  const usage = message.message?.usage;
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheReadInputTokens: usage.cache_read_input_tokens ?? 0,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens ?? 0
+  };
+}
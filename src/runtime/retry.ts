@@ -0,0 +1,221 @@
+import type { ModelAlias } from "../config";
+import type { AgentResult, AgentRuntime, RunOptions } from "./agent-runtime";
+import { sleep } from "./sleep";
+
+/**
+ * Why a run failed, as far as retrying is concerned.
+ */
+export type FailureKind =
+  | "timeout" // our per-attempt timeout fired
+  | "aborted" // the caller aborted the run
+  | "overloaded" // 429 / 529 / rate limited
+  | "network" // connection dropped, 5xx
+  | "auth" // bad or missing credentials
+  | "budget" // a RATE_LIMIT_* cap was hit
+  | "max_turns"
+  | "execution" // error_during_execution with no recognisable cause
+  | "unknown";
+
+export interface FailureClassification {
+  kind: FailureKind;
+  retryable: boolean;
+}
+
+/**
+ * Thrown when a run failed for good: either the failure is not retryable or
+ * every attempt was used up.
+ */
+export class AgentRunError extends Error {
+  readonly kind: FailureKind;
+  readonly retryable: boolean;
+  readonly attempts: AgentResult[];
+  readonly lastResult: AgentResult;
+
+  constructor(agentName: string, classification: FailureClassification, attempts: AgentResult[]) {
+    const lastResult = attempts[attempts.length - 1] as AgentResult;
+    super(`${agentName}: ${classification.kind} failure after ${attempts.length} attempt(s): ${lastResult.error ?? lastResult.subtype}`);
+    this.name = "AgentRunError";
+    this.kind = classification.kind;
+    this.retryable = classification.retryable;
+    this.attempts = attempts;
+    this.lastResult = lastResult;
+  }
+}
+
+export interface RetryInfo {
+  /** Attempt that just failed, 1-based */
+  attempt: number;
+  kind: FailureKind;
+  error: string | null;
+  delayMs: number;
+  /** Session the next attempt resumes, if any */
+  resume: string | null;
+  /** Set when the next attempt moves to a stronger model instead of waiting out a transient failure */
+  escalatedTo: ModelAlias | null;
+}
+
+export interface RetryOptions {
+  /** Total attempts including the first one (default 4) */
+  maxAttempts?: number;
+  /** Backoff before the first retry, doubled on each further one (default 2s) */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Each attempt is aborted after this long (default 10 minutes); 0 disables */
+  attemptTimeoutMs?: number;
+  /**
+   * Continue the failed attempt's session instead of starting over, so work
+   * already done is not paid for twice. Also makes `error_max_turns`
+   * retryable, since a resumed session gets a fresh turn allowance.
+   */
+  resume?: boolean;
+  /** Prompt sent when resuming */
+  continuePrompt?: string;
+  onRetry?: (info: RetryInfo) => void;
+  /** Called with the result of every attempt, failed ones included */
+  onAttempt?: (result: AgentResult) => void;
+  run?: RunOptions;
+}
+
+const DEFAULT_CONTINUE_PROMPT =
+  "Your previous attempt at this task was interrupted. Continue from where you left off and complete the original task.";
+
+const OVERLOADED = /\b(429|529)\b|overloaded|rate.?limit/i;
+const AUTH = /\b(401|403)\b|authentication|invalid.{0,20}api.?key|permission_error|unauthori[sz]ed/i;
+const NETWORK = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|fetch failed|network|\b(500|502|503|504)\b|api_error/i;
+const ABORTED = /aborted/i;
+
+/**
+ * Classifies a failed AgentResult. Errors reach us as text (thrown
+ * messages or the result's `errors`), so this matches on the API's status
+ * codes and error types.
+ */
+export function classifyFailure(result: AgentResult, context: { timedOut?: boolean; resume?: boolean } = {}): FailureClassification {
+  if (context.timedOut) {
+    return { kind: "timeout", retryable: true };
+  }
+
+  switch (result.subtype) {
+    case "error_max_budget_usd":
+      return { kind: "budget", retryable: false };
+    case "error_max_turns":
+      return { kind: "max_turns", retryable: context.resume === true };
+  }
+
+  const error = result.error ?? "";
+  if (AUTH.test(error)) {
+    return { kind: "auth", retryable: false };
+  }
+  if (OVERLOADED.test(error)) {
+    return { kind: "overloaded", retryable: true };
+  }
+  if (NETWORK.test(error)) {
+    return { kind: "network", retryable: true };
+  }
+  if (result.subtype === null && ABORTED.test(error)) {
+    return { kind: "aborted", retryable: false };
+  }
+  if (result.subtype === "error_during_execution") {
+    return { kind: "execution", retryable: true };
+  }
+  return { kind: "unknown", retryable: false };
+}
+
+/** Exponential backoff with equal jitter: half fixed, half random */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Executes `prompt` with retries for transient failures.
+ *
+ * Each attempt gets its own AbortController, aborted by the per-attempt
+ * timeout or by the caller's `run.options.abortController`. A caller abort
+ * is never retried, including one that lands during the backoff. A routed run that ends in `error_max_turns` is tried
+ * again on the next model up, without counting against `maxAttempts`.
+ * Returns the first successful result; otherwise throws AgentRunError with
+ * every attempt attached.
+ */
+export async function runWithRetry(agent: AgentRuntime, prompt: string, options: RetryOptions = {}): Promise<AgentResult> {
+  let maxAttempts = Math.max(1, options.maxAttempts ?? 4);
+  const baseDelayMs = options.baseDelayMs ?? 2000;
+  const maxDelayMs = options.maxDelayMs ?? 60_000;
+  const attemptTimeoutMs = options.attemptTimeoutMs ?? 10 * 60_000;
+  const callerSignal = options.run?.options?.abortController?.signal;
+  const attempts: AgentResult[] = [];
+
+  let nextPrompt = prompt;
+  let resume = options.run?.options?.resume;
+  let routing = options.run?.routing ?? agent.route();
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    // An already aborted signal never fires "abort" again, so pass it on here
+    if (callerSignal?.aborted) {
+      controller.abort();
+    }
+    callerSignal?.addEventListener("abort", abort);
+    let timedOut = false;
+    const timer =
+      attemptTimeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, attemptTimeoutMs)
+        : undefined;
+
+    let result: AgentResult;
+    try {
+      result = await agent.execute(nextPrompt, {
+        ...options.run,
+        ...(routing && { routing }),
+        options: { ...options.run?.options, abortController: controller, ...(resume && { resume }) }
+      });
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", abort);
+    }
+    attempts.push(result);
+    options.onAttempt?.(result);
+
+    if (result.success) {
+      return result;
+    }
+
+    const classification = callerSignal?.aborted
+      ? { kind: "aborted" as const, retryable: false }
+      : classifyFailure(result, { timedOut, resume: options.resume });
+
+    // Out of turns on this model: a stronger one gets an extra attempt instead
+    const escalation = classification.kind === "max_turns" ? agent.escalate(result.routing, "max_turns") : null;
+    if (escalation) {
+      routing = escalation;
+      maxAttempts++;
+    } else if (!classification.retryable || attempt === maxAttempts) {
+      throw new AgentRunError(agent.name, classification, attempts);
+    }
+
+    if (options.resume && result.sessionId) {
+      resume = result.sessionId;
+      nextPrompt = options.continuePrompt ?? DEFAULT_CONTINUE_PROMPT;
+    }
+
+    const delayMs = escalation ? 0 : backoffDelay(attempt, baseDelayMs, maxDelayMs);
+    options.onRetry?.({
+      attempt,
+      kind: classification.kind,
+      error: result.error,
+      delayMs,
+      resume: resume ?? null,
+      escalatedTo: escalation?.model ?? null
+    });
+    await sleep(delayMs, callerSignal);
+    if (callerSignal?.aborted) {
+      throw new AgentRunError(agent.name, { kind: "aborted", retryable: false }, attempts);
+    }
+  }
+
+  // Unreachable: the loop either returns or throws on the last attempt
+  throw new Error("runWithRetry: no attempts made");
+}
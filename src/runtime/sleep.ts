@@ -0,0 +1,20 @@
+/**
+ * Waits `ms`, or less when `signal` aborts first. Resolves either way, so
+ * callers check `signal.aborted` afterwards to tell the two apart.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    // An aborted signal does not fire "abort" again
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const wake = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    signal?.addEventListener("abort", wake);
+  });
+}
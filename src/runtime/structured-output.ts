@@ -0,0 +1,179 @@
+import type { ZodIssue, ZodType, ZodTypeDef } from "zod";
+import type { AgentResult, AgentRuntime, RunOptions } from "./agent-runtime";
+import { AgentRunError, runWithRetry, type RetryOptions } from "./retry";
+
+/**
+ * Thrown when the model never produced output that passed validation.
+ */
+export class StructuredOutputError extends Error {
+  readonly issues: string[];
+  readonly attempts: number;
+  readonly lastResult: AgentResult;
+  /** Every run, retried failures included, so callers can account for their cost */
+  readonly results: AgentResult[];
+
+  constructor(agentName: string, issues: string[], attempts: number, lastResult: AgentResult, results: AgentResult[] = [lastResult]) {
+    super(`${agentName}: output failed validation after ${attempts} attempt(s):\n  - ${issues.join("\n  - ")}`);
+    this.name = "StructuredOutputError";
+    this.issues = issues;
+    this.attempts = attempts;
+    this.lastResult = lastResult;
+    this.results = results;
+  }
+}
+
+export interface StructuredRun<T> {
+  data: T;
+  /** Result of the attempt that produced valid output */
+  result: AgentResult;
+  /** Every attempt, in order, including retried failures (the last one is `result`) */
+  attempts: AgentResult[];
+}
+
+export interface StructuredRunOptions {
+  /** Total attempts including the first one (default 3) */
+  maxAttempts?: number;
+  /** Builds the follow-up prompt from the validation issues */
+  repairPrompt?: (issues: string[]) => string;
+  /** Retry transient failures of each attempt; AgentRunError is thrown once they run out */
+  retry?: RetryOptions;
+  run?: RunOptions;
+}
+
+/**
+ * Pulls a JSON value out of model output: a ```json fence if present,
+ * otherwise the outermost {...} or [...] span.
+ */
+export function extractJson(text: string): unknown {
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)\n?```/i.exec(text);
+  const candidate = fenced?.[1] ?? outermostSpan(text);
+  if (candidate === undefined) {
+    throw new SyntaxError("No JSON object found in output");
+  }
+  return JSON.parse(candidate);
+}
+
+function outermostSpan(text: string): string | undefined {
+  const starts = [text.indexOf("{"), text.indexOf("[")].filter((index) => index >= 0);
+  if (starts.length === 0) {
+    return undefined;
+  }
+  const start = Math.min(...starts);
+  const end = text.lastIndexOf(text[start] === "{" ? "}" : "]");
+  return end > start ? text.slice(start, end + 1) : undefined;
+}
+
+function formatIssue(issue: ZodIssue): string {
+  const where = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+  return `${where}: ${issue.message}`;
+}
+
+/**
+ * Validates a finished run against a schema, returning the parsed value or
+ * the list of problems.
+ */
+export function validateOutput<T>(
+  result: AgentResult,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): { ok: true; data: T } | { ok: false; issues: string[] } {
+  if (!result.success) {
+    return { ok: false, issues: [`Run ended with ${result.subtype ?? "error"}: ${result.error ?? "unknown error"}`] };
+  }
+
+  let json: unknown;
+  try {
+    json = extractJson(result.output);
+  } catch (error) {
+    return { ok: false, issues: [`Output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const parsed = schema.safeParse(json);
+  return parsed.success ? { ok: true, data: parsed.data } : { ok: false, issues: parsed.error.issues.map(formatIssue) };
+}
+
+const defaultRepairPrompt = (issues: string[]) =>
+  `Your previous answer could not be accepted:\n${issues.map((issue) => `- ${issue}`).join("\n")}\n\nReply again with ONLY the corrected JSON.`;
+
+/**
+ * Runs an agent and re-prompts it until its output parses against `schema`.
+ *
+ * Follow-up attempts resume the same session so the model keeps its research
+ * and only has to fix the output. A run that fails outright (not a validation
+ * problem) is retried from scratch. When a routed agent has used its last
+ * attempt on invalid output or `error_max_turns`, the next model up gets one
+ * more attempt.
+ *
+ * Both StructuredOutputError (`results`) and AgentRunError (`attempts`)
+ * carry every run made, so callers can count what a failure cost.
+ */
+export async function runStructured<T>(
+  agent: AgentRuntime,
+  prompt: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredRunOptions = {}
+): Promise<StructuredRun<T>> {
+  let maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const repairPrompt = options.repairPrompt ?? defaultRepairPrompt;
+  const attempts: AgentResult[] = [];
+
+  let nextPrompt = prompt;
+  let resume: string | undefined;
+  let routing = options.run?.routing ?? agent.route();
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const run: RunOptions = {
+      ...options.run,
+      ...(routing && { routing }),
+      options: { ...options.run?.options, ...(resume && { resume }) }
+    };
+    const result = options.retry
+      ? await runWithRetry(agent, nextPrompt, {
+          ...options.retry,
+          run,
+          onAttempt: (attemptResult) => {
+            // Failed tries are recorded too so costs add up; the successful one is pushed below
+            if (!attemptResult.success) {
+              attempts.push(attemptResult);
+            }
+            options.retry?.onAttempt?.(attemptResult);
+          }
+        }).catch((error: unknown) => {
+          // With the earlier attempts too, so their cost is not lost
+          throw error instanceof AgentRunError ? new AgentRunError(agent.name, error, attempts) : error;
+        })
+      : await agent.execute(nextPrompt, run);
+    attempts.push(result);
+
+    const validation = validateOutput(result, schema);
+    if (validation.ok) {
+      return { data: validation.data, result, attempts };
+    }
+
+    // Retrying a run that hit its budget would only spend more
+    if (result.subtype === "error_max_budget_usd") {
+      throw new StructuredOutputError(agent.name, validation.issues, attempt, result, attempts);
+    }
+    // runWithRetry may already have escalated within the attempt
+    routing = result.routing ?? routing;
+    if (attempt === maxAttempts) {
+      const trigger = result.success ? "invalid_output" : result.subtype === "error_max_turns" ? "max_turns" : null;
+      const escalation = trigger ? agent.escalate(routing, trigger) : null;
+      if (!escalation) {
+        throw new StructuredOutputError(agent.name, validation.issues, attempt, result, attempts);
+      }
+      routing = escalation;
+      maxAttempts++;
+    }
+
+    if (result.success && result.sessionId) {
+      resume = result.sessionId;
+      nextPrompt = repairPrompt(validation.issues);
+    } else {
+      resume = undefined;
+      nextPrompt = prompt;
+    }
+  }
+
+  // Unreachable: the loop either returns or throws on the last attempt
+  throw new Error("runStructured: no attempts made");
+}
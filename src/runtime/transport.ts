@@ -0,0 +1,75 @@
+import { AbortError, query, type Options, type SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+
+/**
+ * Parameters accepted by the SDK `query()` function.
+ */
+export type QueryParams = Parameters<typeof query>[0];
+
+/**
+ * Anything that can turn a prompt + options into an SDK message stream.
+ *
+ * The runtime never calls `query()` directly; it goes through a transport so
+ * agents can run against the live SDK or against scripted/recorded streams.
+ */
+export interface QueryTransport {
+  query(params: QueryParams): AsyncIterable<SDKMessage>;
+}
+
+/**
+ * Transport backed by the real Claude Agent SDK.
+ */
+export const sdkTransport: QueryTransport = {
+  query: (params) => query(params)
+};
+
+/**
+ * One scripted `query()` call: the messages to yield and, optionally, an
+ * error to throw once they have been yielded (to simulate crashes mid-run).
+ */
+export interface ScriptedRun {
+  messages: SDKMessage[];
+  error?: Error;
+}
+
+/**
+ * Fake transport that replays pre-recorded message streams, one per call.
+ *
+ * Every call is recorded in `calls` so tests can assert on the prompt and
+ * options an agent produced. Aborting via `options.abortController` stops
+ * the stream with the SDK's `AbortError`, like the real transport.
+ */
+export class ScriptedTransport implements QueryTransport {
+  readonly calls: QueryParams[] = [];
+  private runs: ScriptedRun[];
+
+  constructor(runs: Array<ScriptedRun | SDKMessage[]>) {
+    this.runs = runs.map((run) => (Array.isArray(run) ? { messages: run } : run));
+  }
+
+  /** Number of scripted runs not yet consumed */
+  get remaining(): number {
+    return this.runs.length;
+  }
+
+  query(params: QueryParams): AsyncIterable<SDKMessage> {
+    this.calls.push(params);
+    const run = this.runs.shift();
+    if (!run) {
+      throw new Error(`ScriptedTransport: no scripted run left for call #${this.calls.length}`);
+    }
+    return replay(run, params.options);
+  }
+}
+
+async function* replay(run: ScriptedRun, options: Options | undefined): AsyncGenerator<SDKMessage, void> {
+  const signal = options?.abortController?.signal;
+  for (const message of run.messages) {
+    if (signal?.aborted) {
+      throw new AbortError("Claude Code process aborted by user");
+    }
+    yield message;
+  }
+  if (run.error) {
+    throw run.error;
+  }
+}
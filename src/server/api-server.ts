@@ -0,0 +1,356 @@
+import { timingSafeEqual } from "crypto";
+import http, { type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { getConfig, type AppConfig } from "../config";
+import { parseSince, Tracer } from "../telemetry";
+import { JobQueue } from "./job-queue";
+import {
+  AGENT_TYPES,
+  isFinished,
+  JOB_STATUSES,
+  JobRequestError,
+  parseJobRequest,
+  WRITE_TOOLS,
+  type JobEvent,
+  type JobRequest,
+  type JobSnapshot,
+  type JobStatus
+} from "./jobs";
+import { agentJobRunner } from "./runners";
+
+/**
+ * An error with the HTTP status it should be answered with.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly issues: string[];
+
+  constructor(status: number, message: string, issues: string[] = []) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+export interface ApiServerOptions {
+  appConfig?: AppConfig;
+  /** Defaults to a queue over the CLI's agents with API_CONCURRENCY / API_JOB_HISTORY */
+  queue?: JobQueue;
+  /** Bearer token required on every request but /health; defaults to API_TOKEN, `null` disables */
+  token?: string | null;
+  /** Access-Control-Allow-Origin; defaults to API_CORS_ORIGIN, `null` disables */
+  corsOrigin?: string | null;
+  /** Tracer whose spans GET /metrics aggregates; defaults to the shared one for TELEMETRY_EXPORTERS */
+  tracer?: Tracer | null;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const HEARTBEAT_MS = 15_000;
+
+/** A job without its result, for listings */
+function summary(job: JobSnapshot): Omit<JobSnapshot, "result"> {
+  const { result: _result, ...rest } = job;
+  return rest;
+}
+
+function sameSecret(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Only `application/json` bodies: a browser page can send `text/plain` or a
+ * form to another origin without a preflight, but not JSON.
+ */
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const contentType = (req.headers["content-type"] ?? "").split(";")[0]?.trim().toLowerCase();
+  if (contentType !== "application/json") {
+    throw new HttpError(415, "Request body must be sent as Content-Type: application/json");
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body is over ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+/**
+ * Local HTTP API over a JobQueue of agent runs.
+ *
+ *   GET    /health               queue counts
+ *   GET    /runs                 history, newest first (?status=, ?limit=)
+ *   POST   /runs                 submit a job → 202 with the queued job
+ *   GET    /runs/:id             status, and the result once it succeeded
+ *   GET    /runs/:id/events      server-sent events: status, message, route, subagent
+ *   POST   /runs/:id/cancel      abort the job (DELETE /runs/:id does the same)
+ *   GET    /metrics              cost, latency and error rates of this server's runs (?since=24h)
+ *
+ * Responses are JSON; errors are `{ error, issues? }` with a 4xx/5xx status.
+ * Requests from a browser origin other than API_CORS_ORIGIN are refused
+ * with 403, so web pages cannot drive a local server without a token.
+ * The event stream replays what the job emitted so far, honours
+ * `Last-Event-ID`, and ends after the job's final status event.
+ */
+export class ApiServer {
+  readonly queue: JobQueue;
+  private server: http.Server;
+  private token: string | null;
+  private corsOrigin: string | null;
+  private tracer: Tracer | null;
+  private streams = new Set<ServerResponse>();
+
+  constructor(options: ApiServerOptions = {}) {
+    const appConfig = options.appConfig ?? getConfig();
+    this.queue =
+      options.queue ??
+      new JobQueue(agentJobRunner(appConfig), { concurrency: appConfig.api.concurrency, history: appConfig.api.jobHistory });
+    this.token = options.token !== undefined ? options.token : (appConfig.api.token ?? null);
+    this.corsOrigin = options.corsOrigin !== undefined ? options.corsOrigin : (appConfig.api.corsOrigin ?? null);
+    this.tracer = options.tracer !== undefined ? options.tracer : Tracer.fromConfig(appConfig);
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => this.fail(res, error));
+    });
+  }
+
+  listen(port: number, host: string): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve(this.server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /** Stops accepting requests, cancels every job and ends open event streams */
+  async close(): Promise<void> {
+    const closed = new Promise<void>((resolve) => this.server.close(() => resolve()));
+    await this.queue.close();
+    for (const stream of this.streams) {
+      stream.end();
+    }
+    this.server.closeIdleConnections();
+    await closed;
+  }
+
+  // ==========================================================================
+  // ROUTING
+  // ==========================================================================
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    const [resource, id, action, ...rest] = url.pathname.split("/").filter(Boolean);
+
+    const origin = req.headers.origin;
+    if (origin !== undefined && origin !== this.corsOrigin) {
+      throw new HttpError(403, `Origin ${origin} is not allowed (API_CORS_ORIGIN)`);
+    }
+    if (this.corsOrigin) {
+      res.setHeader("Access-Control-Allow-Origin", this.corsOrigin);
+      res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type, Last-Event-ID");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    }
+    if (method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (resource === "health" && !id && method === "GET") {
+      this.send(res, 200, { ok: true, concurrency: this.queue.concurrency, jobs: this.queue.counts() });
+      return;
+    }
+    this.authorize(req, url, action === "events");
+
+    if (resource === "metrics" && !id && method === "GET") {
+      return this.metrics(res, url);
+    }
+    if (resource !== "runs" || rest.length > 0) {
+      throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+    }
+
+    if (!id) {
+      if (method === "GET") {
+        return this.listRuns(res, url);
+      }
+      if (method === "POST") {
+        return this.submitRun(req, res);
+      }
+    } else if (!action) {
+      if (method === "GET") {
+        return this.send(res, 200, this.job(id));
+      }
+      if (method === "DELETE") {
+        return this.cancelRun(res, id);
+      }
+    } else if (action === "events" && method === "GET") {
+      return this.streamEvents(req, res, id);
+    } else if (action === "cancel" && method === "POST") {
+      return this.cancelRun(res, id);
+    }
+    throw new HttpError(405, `${method} is not supported on ${url.pathname}`);
+  }
+
+  /**
+   * Bearer token on every route; the event stream also takes `?token=`
+   * since browsers' EventSource cannot set headers.
+   */
+  private authorize(req: IncomingMessage, url: URL, allowQuery: boolean): void {
+    if (!this.token) {
+      return;
+    }
+    const header = req.headers.authorization ?? "";
+    const given = header.startsWith("Bearer ")
+      ? header.slice("Bearer ".length)
+      : allowQuery
+        ? url.searchParams.get("token")
+        : null;
+    if (!given || !sameSecret(given, this.token)) {
+      throw new HttpError(401, "Missing or invalid bearer token");
+    }
+  }
+
+  // ==========================================================================
+  // HANDLERS
+  // ==========================================================================
+
+  private listRuns(res: ServerResponse, url: URL): void {
+    const status = url.searchParams.get("status") ?? undefined;
+    if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+      throw new HttpError(400, `status must be one of ${JOB_STATUSES.join(", ")}`);
+    }
+    const limitParam = url.searchParams.get("limit");
+    const limit = limitParam === null ? undefined : Number(limitParam);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+      throw new HttpError(400, "limit must be a positive integer");
+    }
+
+    const runs = this.queue.list({ status: status as JobStatus | undefined, limit }).map(summary);
+    this.send(res, 200, { runs });
+  }
+
+  /** Aggregated over the spans this process recorded; `cockpit metrics` reads the history in the JSONL file */
+  private metrics(res: ServerResponse, url: URL): void {
+    if (!this.tracer) {
+      throw new HttpError(404, "Telemetry is off (TELEMETRY_EXPORTERS=none)");
+    }
+    const sinceParam = url.searchParams.get("since");
+    const since = sinceParam === null ? undefined : parseSince(sinceParam);
+    if (since === null) {
+      throw new HttpError(400, "since must be like 30m, 24h, 7d or an ISO date");
+    }
+    this.send(res, 200, { since: since?.toISOString() ?? null, ...this.tracer.metrics(since) });
+  }
+
+  private async submitRun(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let request: JobRequest;
+    try {
+      request = parseJobRequest(await readJson(req));
+    } catch (error) {
+      if (error instanceof JobRequestError) {
+        throw new HttpError(400, `Invalid job request (agents: ${AGENT_TYPES.join(", ")})`, error.issues);
+      }
+      throw error;
+    }
+    const writeTools = request.tools?.filter((tool) => WRITE_TOOLS.includes(tool)) ?? [];
+    if (writeTools.length > 0 && !this.token) {
+      throw new HttpError(403, `${writeTools.join(", ")} is only available to jobs on a server that requires API_TOKEN`);
+    }
+
+    const job = this.queue.submit(request);
+    res.setHeader("Location", `/runs/${job.id}`);
+    this.send(res, 202, job);
+  }
+
+  private cancelRun(res: ServerResponse, id: string): void {
+    const job = this.queue.cancel(id);
+    if (!job) {
+      throw new HttpError(404, `No run ${id}`);
+    }
+    if (isFinished(job.status) && job.status !== "cancelled") {
+      throw new HttpError(409, `Run ${id} already ${job.status}`);
+    }
+    this.send(res, 202, summary(job));
+  }
+
+  private streamEvents(req: IncomingMessage, res: ServerResponse, id: string): void {
+    this.job(id);
+    const lastEventId = Number(req.headers["last-event-id"] ?? 0);
+    const after = Number.isInteger(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    this.streams.add(res);
+
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_MS);
+    heartbeat.unref();
+    let unsubscribe: (() => void) | null = null;
+    let ended = false;
+    const end = () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      clearInterval(heartbeat);
+      unsubscribe?.();
+      this.streams.delete(res);
+      res.end();
+    };
+
+    const write = (event: JobEvent) => {
+      const { seq, type, ...data } = event;
+      res.write(`id: ${seq}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      if (event.type === "status" && isFinished(event.job.status)) {
+        setImmediate(end);
+      }
+    };
+
+    unsubscribe = this.queue.subscribe(id, write, after);
+    req.on("close", end);
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private job(id: string): JobSnapshot {
+    const job = this.queue.get(id);
+    if (!job) {
+      throw new HttpError(404, `No run ${id}`);
+    }
+    return job;
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+    res.end(`${JSON.stringify(body, null, 2)}\n`);
+  }
+
+  private fail(res: ServerResponse, error: unknown): void {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    if (status === 500) {
+      console.error("❌ API request failed:", error);
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    this.send(res, status, { error: message, ...(error instanceof HttpError && error.issues.length > 0 && { issues: error.issues }) });
+  }
+}
@@ -0,0 +1,4 @@
+export { ApiServer, HttpError, type ApiServerOptions } from "./api-server";
+export { JobQueue, type JobContext, type JobListener, type JobQueueOptions, type JobRunner } from "./job-queue";
+export { agentJobRunner } from "./runners";
+export * from "./jobs";
@@ -0,0 +1,266 @@
+import { randomUUID } from "crypto";
+import type { AgentEvents } from "../runtime";
+import {
+  isFinished,
+  type JobEvent,
+  type JobEventData,
+  type JobRequest,
+  type JobSnapshot,
+  type JobStatus
+} from "./jobs";
+
+/** What a runner gets for the job it runs */
+export interface JobContext {
+  /** Aborted when the job is cancelled; pass it to every agent run */
+  abortController: AbortController;
+  /** Pass to every agent run so its messages reach the job's event stream */
+  events: AgentEvents;
+  /** Extra events, e.g. subagent status */
+  emit: (event: JobEventData) => void;
+}
+
+/** Runs one job and resolves with its result; rejecting fails the job */
+export type JobRunner = (request: JobRequest, context: JobContext) => Promise<unknown>;
+
+export interface JobQueueOptions {
+  /** Jobs running at once (default 2) */
+  concurrency?: number;
+  /** Finished jobs kept, oldest dropped first (default 200) */
+  history?: number;
+  /** Called whenever a job is queued, starts or finishes */
+  onStatus?: (job: JobSnapshot) => void;
+}
+
+export type JobListener = (event: JobEvent) => void;
+
+interface Job {
+  id: string;
+  request: JobRequest;
+  status: JobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  costUSD: number;
+  runs: number;
+  result: unknown;
+  error: string | null;
+  abortController: AbortController;
+  /** Everything streamed so far, replayed to late subscribers */
+  events: JobEvent[];
+  listeners: Set<JobListener>;
+}
+
+/**
+ * In-memory job queue for agent runs.
+ *
+ * Submitted jobs wait until one of `concurrency` slots is free, then run
+ * through the runner with their own AbortController. Every SDK message,
+ * routing decision and status change is recorded on the job as a numbered
+ * event, so subscribers that join late (or reconnect) get the whole stream.
+ * Finished jobs are kept for listing until `history` is exceeded; nothing
+ * survives a restart.
+ */
+export class JobQueue {
+  readonly concurrency: number;
+  private runner: JobRunner;
+  private history: number;
+  private onStatus: ((job: JobSnapshot) => void) | undefined;
+
+  /** By id, in submission order */
+  private jobs = new Map<string, Job>();
+  private pending: Job[] = [];
+  private active = new Map<string, Promise<void>>();
+
+  constructor(runner: JobRunner, options: JobQueueOptions = {}) {
+    this.runner = runner;
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.history = Math.max(1, options.history ?? 200);
+    this.onStatus = options.onStatus;
+  }
+
+  submit(request: JobRequest): JobSnapshot {
+    const job: Job = {
+      id: randomUUID(),
+      request,
+      status: "queued",
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      costUSD: 0,
+      runs: 0,
+      result: null,
+      error: null,
+      abortController: new AbortController(),
+      events: [],
+      listeners: new Set()
+    };
+    this.jobs.set(job.id, job);
+    this.pending.push(job);
+    this.statusChanged(job);
+    this.pump();
+    return this.snapshot(job);
+  }
+
+  get(id: string): JobSnapshot | null {
+    const job = this.jobs.get(id);
+    return job ? this.snapshot(job) : null;
+  }
+
+  /** Newest first */
+  list(filter: { status?: JobStatus; limit?: number } = {}): JobSnapshot[] {
+    const jobs = [...this.jobs.values()].reverse().filter((job) => !filter.status || job.status === filter.status);
+    return jobs.slice(0, filter.limit ?? jobs.length).map((job) => this.snapshot(job));
+  }
+
+  counts(): Record<JobStatus, number> {
+    const counts: Record<JobStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 };
+    for (const job of this.jobs.values()) {
+      counts[job.status]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Cancels a job. A queued job is cancelled at once; a running one has its
+   * runs aborted and turns "cancelled" when the runner returns. Returns null
+   * for unknown ids and the job unchanged when it already finished.
+   */
+  cancel(id: string): JobSnapshot | null {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+    if (job.status === "queued") {
+      this.pending = this.pending.filter((queued) => queued !== job);
+      job.abortController.abort();
+      this.finish(job, "cancelled", null, "Cancelled before it started");
+    } else if (job.status === "running") {
+      job.abortController.abort();
+    }
+    return this.snapshot(job);
+  }
+
+  /**
+   * Replays the job's events after `after` (an event seq) to `listener`,
+   * then forwards new ones as they happen. Returns the unsubscribe
+   * function, or null for unknown ids. Nothing more follows the final
+   * status event of a finished job.
+   */
+  subscribe(id: string, listener: JobListener, after = 0): (() => void) | null {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return null;
+    }
+    for (const event of job.events) {
+      if (event.seq > after) {
+        listener(event);
+      }
+    }
+    if (isFinished(job.status)) {
+      return () => {};
+    }
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+  }
+
+  /** Cancels every queued and running job and waits for the running ones to stop */
+  async close(): Promise<void> {
+    for (const job of [...this.pending]) {
+      this.cancel(job.id);
+    }
+    for (const id of this.active.keys()) {
+      this.cancel(id);
+    }
+    await Promise.all(this.active.values());
+  }
+
+  // ==========================================================================
+  // RUNNING
+  // ==========================================================================
+
+  private pump(): void {
+    while (this.active.size < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift() as Job;
+      const running = this.run(job).finally(() => {
+        this.active.delete(job.id);
+        this.pump();
+      });
+      this.active.set(job.id, running);
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+    this.statusChanged(job);
+
+    const context: JobContext = {
+      abortController: job.abortController,
+      events: {
+        onMessage: (message) => this.emit(job, { type: "message", message }),
+        onRoute: (decision) => this.emit(job, { type: "route", decision }),
+        onResult: (result) => {
+          job.costUSD += result.stats.costUSD;
+          job.runs++;
+        }
+      },
+      emit: (event) => this.emit(job, event)
+    };
+
+    try {
+      const result = await this.runner(job.request, context);
+      this.finish(job, "succeeded", result ?? null, null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.finish(job, job.abortController.signal.aborted ? "cancelled" : "failed", null, message);
+    }
+  }
+
+  private finish(job: Job, status: JobStatus, result: unknown, error: string | null): void {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    job.result = result;
+    job.error = error;
+    this.statusChanged(job);
+    job.listeners.clear();
+    this.prune();
+  }
+
+  private statusChanged(job: Job): void {
+    const snapshot = this.snapshot(job);
+    this.emit(job, { type: "status", job: snapshot });
+    this.onStatus?.(snapshot);
+  }
+
+  private emit(job: Job, data: JobEventData): void {
+    const event: JobEvent = { ...data, seq: job.events.length + 1 };
+    job.events.push(event);
+    for (const listener of job.listeners) {
+      listener(event);
+    }
+  }
+
+  /** Drops the oldest finished jobs beyond `history` */
+  private prune(): void {
+    const finished = [...this.jobs.values()].filter((job) => isFinished(job.status));
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.history))) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private snapshot(job: Job): JobSnapshot {
+    return {
+      id: job.id,
+      agent: job.request.agent,
+      status: job.status,
+      request: job.request,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      costUSD: job.costUSD,
+      runs: job.runs,
+      result: job.result,
+      error: job.error
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { z } from "zod";
+import { COCKPIT_TOOLS } from "../agents/cockpit";
+import type { SubagentReport } from "../agents/orchestrator";
+import { RESEARCH_MODES } from "../agents/research";
+import { MODEL_ALIASES } from "../config";
+import { TASK_CLASSES, type RoutingDecision } from "../routing";
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+/** Cockpit tools that change files; a job may only list them on a server that requires API_TOKEN */
+export const WRITE_TOOLS = ["Write"];
+
+/**
+ * Tools of a cockpit job that names none: the cockpit agent's own minus
+ * WRITE_TOOLS, since a job's tools run with nobody there to confirm them.
+ */
+export const API_JOB_TOOLS = COCKPIT_TOOLS.filter((tool) => !WRITE_TOOLS.includes(tool));
+
+/** Agents a job can run, matching `cockpit ask`, `cockpit research` and `cockpit proposal draft` */
+export const AGENT_TYPES = ["cockpit", "research", "proposal"] as const;
+export type AgentType = (typeof AGENT_TYPES)[number];
+
+const researchTargetSchema = z.object({
+  mode: z.enum(RESEARCH_MODES),
+  subject: z.string().trim().min(1),
+  competitors: z.array(z.string().trim().min(1)).optional(),
+  notes: z.string().optional()
+});
+
+/**
+ * Body of `POST /runs`. Cockpit jobs need a `prompt`, research jobs a
+ * `target` (the prompt, if any, becomes its notes) and proposal jobs a
+ * deal `brief`, validated when the job starts.
+ */
+export const jobRequestSchema = z
+  .object({
+    agent: z.enum(AGENT_TYPES).default("cockpit"),
+    prompt: z.string().trim().min(1).optional(),
+    model: z.enum(MODEL_ALIASES).optional(),
+    /**
+     * Cockpit jobs only; defaults to API_JOB_TOOLS. Limited to
+     * COCKPIT_TOOLS, since whatever is listed runs without asking.
+     */
+    tools: z
+      .array(
+        z
+          .string()
+          .trim()
+          .refine((tool) => COCKPIT_TOOLS.includes(tool), (tool) => ({ message: `"${tool}" is not one of ${COCKPIT_TOOLS.join(", ")}` }))
+      )
+      .optional(),
+    maxTurns: z.number().int().positive().optional(),
+    task: z.enum(TASK_CLASSES).optional(),
+    target: researchTargetSchema.optional(),
+    brief: z.unknown().optional()
+  })
+  .strict()
+  .superRefine((request, ctx) => {
+    const require = (key: "prompt" | "target" | "brief") => {
+      if (request[key] === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Required for ${request.agent} jobs` });
+      }
+    };
+    const reject = (key: "tools" | "task" | "target" | "brief") => {
+      if (request[key] !== undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Not used by ${request.agent} jobs` });
+      }
+    };
+
+    switch (request.agent) {
+      case "cockpit":
+        require("prompt");
+        reject("target");
+        reject("brief");
+        break;
+      case "research":
+        require("target");
+        reject("tools");
+        reject("task");
+        reject("brief");
+        if (request.target?.mode === "competitive" && !request.target.competitors?.length) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["target", "competitors"], message: "Required for competitive research" });
+        }
+        break;
+      case "proposal":
+        require("brief");
+        reject("tools");
+        reject("task");
+        reject("target");
+        break;
+    }
+  });
+
+export type JobRequest = z.infer<typeof jobRequestSchema>;
+
+/**
+ * Thrown when a job request does not match the schema.
+ */
+export class JobRequestError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid job request:\n  - ${issues.join("\n  - ")}`);
+    this.name = "JobRequestError";
+    this.issues = issues;
+  }
+}
+
+export function parseJobRequest(input: unknown): JobRequest {
+  const parsed = jobRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new JobRequestError(
+      parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+  return parsed.data;
+}
+
+// ============================================================================
+// JOBS
+// ============================================================================
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed", "cancelled"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export function isFinished(status: JobStatus): boolean {
+  return status === "succeeded" || status === "failed" || status === "cancelled";
+}
+
+/** A job as the API reports it */
+export interface JobSnapshot {
+  id: string;
+  agent: AgentType;
+  status: JobStatus;
+  request: JobRequest;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** Spend of every agent run of the job so far, failed attempts included */
+  costUSD: number;
+  /** Agent runs finished so far (retries, subagents and proposal sections each count) */
+  runs: number;
+  /** What the job produced; shape depends on `agent`. Null until it succeeds */
+  result: unknown;
+  error: string | null;
+}
+
+/** Something that happened to a job, as streamed over SSE */
+export type JobEventData =
+  | { type: "status"; job: JobSnapshot }
+  | { type: "message"; message: SDKMessage }
+  | { type: "route"; decision: RoutingDecision }
+  | { type: "subagent"; report: SubagentReport };
+
+/**
+ * What `GET /runs/:id/events` streams, in order. `seq` numbers events per
+ * job from 1 and doubles as the SSE event id, so a client can reconnect
+ * with `Last-Event-ID` and get only what it missed.
+ */
+export type JobEvent = JobEventData & { seq: number };
@@ -0,0 +1,97 @@
+import { cockpitAgent } from "../agents/cockpit";
+import {
+  ResearchOrchestrator,
+  SUBAGENT_ROLES,
+  type OrchestratorOptions,
+  type SubagentReport
+} from "../agents/orchestrator";
+import { ProposalAgent, renderProposalMarkdown, type DealBriefInput } from "../agents/proposal";
+import { ResearchAgent, renderDossierMarkdown, type ResearchReport, type ResearchTarget } from "../agents/research";
+import { getConfig, type AppConfig } from "../config";
+import { AgentRuntime, runWithRetry, type RunOptions } from "../runtime";
+import type { JobContext, JobRunner } from "./job-queue";
+import { API_JOB_TOOLS, type JobRequest } from "./jobs";
+
+/**
+ * Runs jobs with the same agents, retries and defaults as the matching CLI
+ * commands (`ask`, `research`, `proposal draft`), so a job and a command
+ * given the same input behave the same. Results are what the command
+ * prints under --json, minus anything it would write to disk.
+ */
+export function agentJobRunner(appConfig: AppConfig = getConfig()): JobRunner {
+  return async (request, context) => {
+    const run: RunOptions = { options: { abortController: context.abortController }, events: context.events };
+    switch (request.agent) {
+      case "cockpit":
+        return runCockpit(request, run, appConfig);
+      case "research":
+        return runResearch(request, run, context, appConfig);
+      case "proposal":
+        return runProposal(request, run, appConfig);
+    }
+  };
+}
+
+async function runCockpit(request: JobRequest, run: RunOptions, appConfig: AppConfig) {
+  const prompt = request.prompt as string;
+  const agent = new AgentRuntime(
+    cockpitAgent(prompt, { model: request.model, maxTurns: request.maxTurns, tools: request.tools ?? API_JOB_TOOLS, task: request.task }),
+    { appConfig }
+  );
+  const result = await runWithRetry(agent, prompt, { resume: true, run });
+  return {
+    success: result.success,
+    subtype: result.subtype,
+    output: result.output,
+    error: result.error,
+    sessionId: result.sessionId,
+    model: result.model,
+    routing: result.routing,
+    stats: result.stats
+  };
+}
+
+async function runResearch(request: JobRequest, run: RunOptions, context: JobContext, appConfig: AppConfig) {
+  const { model, maxTurns } = request;
+  const target = { ...request.target, notes: request.target?.notes ?? request.prompt } as ResearchTarget;
+  const retry = { resume: true };
+
+  let report: ResearchReport;
+  let subagents: SubagentReport[] | null = null;
+  if (appConfig.features.subagents) {
+    const overrides: OrchestratorOptions["subagents"] = {};
+    for (const role of SUBAGENT_ROLES) {
+      overrides[role] = {
+        ...(model && { model }),
+        ...(maxTurns && (role === "retriever" || role === "extractor") && { maxTurns })
+      };
+    }
+    const orchestrated = await new ResearchOrchestrator({
+      appConfig,
+      retry,
+      subagents: overrides,
+      onStatus: (status) => context.emit({ type: "subagent", report: { ...status } })
+    }).research(target, run);
+    report = orchestrated;
+    subagents = orchestrated.subagents;
+  } else {
+    report = await new ResearchAgent({ appConfig, retry, model, maxTurns }).research(target, run);
+  }
+
+  return {
+    target: report.target,
+    dossier: report.dossier,
+    markdown: renderDossierMarkdown(report.dossier, { ledger: report.ledger }),
+    sources: report.ledger.sources,
+    attempts: report.attempts.length,
+    priorFindings: report.priorFindings.length,
+    costUSD: report.costUSD,
+    ...(subagents && { subagents })
+  };
+}
+
+async function runProposal(request: JobRequest, run: RunOptions, appConfig: AppConfig) {
+  const agent = new ProposalAgent({ appConfig, model: request.model });
+  const proposal = await agent.draft(request.brief as DealBriefInput, { run });
+  return { proposal, markdown: renderProposalMarkdown(proposal) };
+}
@@ -0,0 +1,2 @@
+export { SessionRecorder, type SessionRecorderContext } from "./session-recorder";
+export { SessionError, SessionStore, type SessionMeta, type TranscriptEntry } from "./session-store";
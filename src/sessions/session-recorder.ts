@@ -0,0 +1,78 @@
+import type { Options, SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { AgentEvents } from "../runtime/agent-runtime";
+import type { SessionMeta, SessionStore } from "./session-store";
+
+export interface SessionRecorderContext {
+  agent: string;
+  prompt: string;
+  options: Options;
+}
+
+/**
+ * Saves one agent run into a SessionStore. The session id is only known once
+ * the SDK's `system`/`init` message arrives, so nothing is written before
+ * then. A forked run gets a new id and remembers the session it came from.
+ */
+export class SessionRecorder {
+  private store: SessionStore;
+  private context: SessionRecorderContext;
+  private meta: SessionMeta | null = null;
+
+  constructor(store: SessionStore, context: SessionRecorderContext) {
+    this.store = store;
+    this.context = context;
+  }
+
+  get sessionId(): string | null {
+    return this.meta?.id ?? null;
+  }
+
+  /** Pass to `AgentRuntime` callbacks to record the stream */
+  get events(): AgentEvents {
+    return {
+      onMessage: (message) => {
+        // Token-level deltas are noise in a transcript; the full messages follow
+        if (message.type === "stream_event") {
+          return;
+        }
+        if (!this.meta && message.session_id) {
+          this.start(message.session_id);
+        }
+        if (this.meta) {
+          this.store.append(this.meta.id, { type: "message", at: new Date().toISOString(), message });
+        }
+      },
+      onResult: (_result, message) => this.finish(message)
+    };
+  }
+
+  private start(sessionId: string): void {
+    const { options } = this.context;
+    this.meta = this.store.open(sessionId, {
+      agent: this.context.agent,
+      model: options.model ?? "",
+      title: this.context.prompt,
+      cwd: options.cwd ?? process.cwd(),
+      parentId: options.forkSession && options.resume ? options.resume : null
+    });
+    this.store.append(sessionId, { type: "prompt", at: new Date().toISOString(), prompt: this.context.prompt });
+  }
+
+  private finish(message: SDKResultMessage): void {
+    if (!this.meta) {
+      return;
+    }
+
+    // Re-read so runs from another process since we opened are not lost
+    const meta = this.store.get(this.meta.id) ?? this.meta;
+    this.meta = {
+      ...meta,
+      updatedAt: new Date().toISOString(),
+      runs: meta.runs + 1,
+      turns: meta.turns + message.num_turns,
+      costUSD: meta.costUSD + message.total_cost_usd,
+      lastSubtype: message.subtype
+    };
+    this.store.save(this.meta);
+  }
+}
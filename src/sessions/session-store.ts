@@ -0,0 +1,190 @@
+import fs from "fs";
+import path from "path";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { AppConfig } from "../config";
+
+/**
+ * On-disk store of agent sessions under SESSION_STORAGE_PATH:
+ *
+ *   <dir>/<sessionId>.json    SessionMeta, rewritten after every run
+ *   <dir>/<sessionId>.jsonl   transcript: one prompt entry per run, then its SDK messages
+ *
+ * The SDK keeps its own copy of the conversation, which is what `resume`
+ * actually continues; this store is what lets us list, inspect, fork and
+ * clean up sessions without going through the SDK.
+ */
+
+export interface SessionMeta {
+  id: string;
+  agent: string;
+  model: string;
+  /** First prompt of the session, shortened */
+  title: string;
+  /** Working directory of the session; the SDK only resumes from the same one */
+  cwd: string;
+  /** Session this one was forked from */
+  parentId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  runs: number;
+  turns: number;
+  costUSD: number;
+  lastSubtype: string | null;
+}
+
+export type TranscriptEntry =
+  | { type: "prompt"; at: string; prompt: string }
+  | { type: "message"; at: string; message: SDKMessage };
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+const TITLE_LENGTH = 80;
+const SESSION_ID = /^[A-Za-z0-9_-]+$/;
+// Shorter prefixes than this are refused, so a missing id cannot match a session
+const MIN_PREFIX_LENGTH = 4;
+
+function shorten(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line;
+}
+
+export class SessionStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  static fromConfig(config: AppConfig): SessionStore {
+    return new SessionStore(config.sessions.storagePath);
+  }
+
+  /** All sessions, most recently used first */
+  list(): SessionMeta[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.dir);
+    } catch {
+      return [];
+    }
+
+    return names
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => this.get(name.slice(0, -".json".length)))
+      .filter((meta): meta is SessionMeta => meta !== null)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  get(id: string): SessionMeta | null {
+    if (!SESSION_ID.test(id)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.metaPath(id), "utf8")) as SessionMeta;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Looks a session up by full id or unique id prefix (at least 4
+   * characters), as typed on the CLI.
+   */
+  resolve(idOrPrefix: string): SessionMeta {
+    if (idOrPrefix.trim().length < MIN_PREFIX_LENGTH) {
+      throw new SessionError(`Session id "${idOrPrefix}" is too short: give the full id or at least ${MIN_PREFIX_LENGTH} characters of it`);
+    }
+    const exact = this.get(idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = this.list().filter((meta) => meta.id.startsWith(idOrPrefix));
+    if (matches.length === 1 && matches[0]) {
+      return matches[0];
+    }
+    if (matches.length > 1) {
+      throw new SessionError(`Session id "${idOrPrefix}" is ambiguous: ${matches.map((meta) => meta.id).join(", ")}`);
+    }
+    throw new SessionError(`No saved session "${idOrPrefix}" in ${this.dir}`);
+  }
+
+  transcript(id: string): TranscriptEntry[] {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.transcriptPath(id), "utf8");
+    } catch {
+      return [];
+    }
+    return raw
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as TranscriptEntry);
+  }
+
+  /**
+   * Creates the session on first sight; later calls return the stored meta.
+   */
+  open(id: string, init: Pick<SessionMeta, "agent" | "model" | "title" | "cwd" | "parentId">): SessionMeta {
+    const existing = this.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const meta: SessionMeta = {
+      id,
+      ...init,
+      title: shorten(init.title),
+      createdAt: now,
+      updatedAt: now,
+      runs: 0,
+      turns: 0,
+      costUSD: 0,
+      lastSubtype: null
+    };
+    this.save(meta);
+    return meta;
+  }
+
+  save(meta: SessionMeta): void {
+    this.checkId(meta.id);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.metaPath(meta.id), JSON.stringify(meta, null, 2), { mode: 0o600 });
+  }
+
+  append(id: string, entry: TranscriptEntry): void {
+    this.checkId(id);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.appendFileSync(this.transcriptPath(id), `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+  }
+
+  /** Removes our copy of the session; returns false if there was none */
+  delete(id: string): boolean {
+    if (!this.get(id)) {
+      return false;
+    }
+    fs.rmSync(this.metaPath(id), { force: true });
+    fs.rmSync(this.transcriptPath(id), { force: true });
+    return true;
+  }
+
+  private checkId(id: string): void {
+    if (!SESSION_ID.test(id)) {
+      throw new SessionError(`Invalid session id "${id}"`);
+    }
+  }
+
+  private metaPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private transcriptPath(id: string): string {
+    return path.join(this.dir, `${id}.jsonl`);
+  }
+}
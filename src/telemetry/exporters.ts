@@ -0,0 +1,149 @@
+import fs from "fs";
+import path from "path";
+import { formatDuration } from "../render/format";
+import type { Span, SpanAttributeValue } from "./span";
+
+/**
+ * Where finished spans go. The tracer hands each exporter the spans of one
+ * run at a time, once the run is over. Implement this to plug in another
+ * backend and pass it to the Tracer next to (or instead of) the built-in ones.
+ */
+export interface SpanExporter {
+  readonly name: string;
+  export(spans: Span[]): Promise<void>;
+}
+
+const OTLP_TIMEOUT_MS = 10_000;
+
+const SCOPE = { name: "phoenix-os-cockpit", version: "1.0.0" };
+
+// ============================================================================
+// CONSOLE / JSONL
+// ============================================================================
+
+const KIND_INDENT: Record<Span["kind"], string> = { run: "", turn: "   ", tool: "      " };
+
+function spanLine(span: Span): string {
+  const attrs = span.attributes;
+  const details: string[] = [formatDuration(span.durationMs), span.status === "ok" ? "ok" : `error: ${span.statusMessage ?? "failed"}`];
+  if (typeof attrs["gen_ai.usage.input_tokens"] === "number") {
+    details.push(`${attrs["gen_ai.usage.input_tokens"]} in / ${attrs["gen_ai.usage.output_tokens"] ?? 0} out`);
+  }
+  if (typeof attrs["cockpit.cost_usd"] === "number") {
+    details.push(`$${attrs["cockpit.cost_usd"].toFixed(4)}`);
+  }
+  return `${KIND_INDENT[span.kind]}🔭 ${span.name}  ${details.join(", ")}`;
+}
+
+/** Prints each run as an indented span tree on stderr, keeping stdout for results */
+export class ConsoleSpanExporter implements SpanExporter {
+  readonly name = "console";
+
+  async export(spans: Span[]): Promise<void> {
+    for (const span of spans) {
+      console.error(spanLine(span));
+    }
+  }
+}
+
+/** Appends one span per line; `cockpit metrics` aggregates this file */
+export class JsonlSpanExporter implements SpanExporter {
+  readonly name: string;
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.name = `jsonl:${filePath}`;
+  }
+
+  async export(spans: Span[]): Promise<void> {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, spans.map((span) => `${JSON.stringify(span)}\n`).join(""));
+  }
+}
+
+// ============================================================================
+// OTLP
+// ============================================================================
+
+function otlpValue(value: SpanAttributeValue): Record<string, unknown> {
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function otlpAttributes(values: Record<string, SpanAttributeValue>) {
+  return Object.entries(values).map(([key, value]) => ({ key, value: otlpValue(value) }));
+}
+
+function unixNano(iso: string): string {
+  return `${Date.parse(iso)}000000`;
+}
+
+/**
+ * OTLP/JSON trace export request (the body of POST /v1/traces). Runs are
+ * INTERNAL spans, model turns CLIENT spans (calls out to the API).
+ */
+export function toOtlpTraces(spans: Span[], serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: otlpAttributes({ "service.name": serviceName }) },
+        scopeSpans: [
+          {
+            scope: SCOPE,
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+              name: span.name,
+              kind: span.kind === "turn" ? 3 : 1,
+              startTimeUnixNano: unixNano(span.startTime),
+              endTimeUnixNano: unixNano(span.endTime),
+              attributes: otlpAttributes({ ...span.attributes, "cockpit.span_kind": span.kind }),
+              status: span.status === "ok" ? { code: 1 } : { code: 2, message: span.statusMessage ?? "" }
+            }))
+          }
+        ]
+      }
+    ]
+  };
+}
+
+export interface OtlpExporterOptions {
+  /** Collector base URL, e.g. http://localhost:4318; spans go to <endpoint>/v1/traces */
+  endpoint: string;
+  headers?: Record<string, string>;
+  serviceName: string;
+}
+
+/** POSTs OTLP/JSON to a collector (OpenTelemetry Collector, Jaeger, Tempo, ...) */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  readonly name: string;
+  private url: string;
+  private headers: Record<string, string>;
+  private serviceName: string;
+
+  constructor(options: OtlpExporterOptions) {
+    this.url = `${options.endpoint.replace(/\/+$/, "")}/v1/traces`;
+    this.headers = options.headers ?? {};
+    this.serviceName = options.serviceName;
+    this.name = `otlp:${new URL(this.url).host}`;
+  }
+
+  async export(spans: Span[]): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.headers },
+      body: JSON.stringify(toOtlpTraces(spans, this.serviceName)),
+      signal: AbortSignal.timeout(OTLP_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`${this.name} answered ${response.status} ${response.statusText}`);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+export {
+  ConsoleSpanExporter,
+  JsonlSpanExporter,
+  OtlpHttpSpanExporter,
+  toOtlpTraces,
+  type OtlpExporterOptions,
+  type SpanExporter
+} from "./exporters";
+export {
+  aggregateSpans,
+  parseSince,
+  percentile,
+  readSpans,
+  type AgentMetrics,
+  type ModelMetrics,
+  type SubtypeMetrics,
+  type TelemetryMetrics,
+  type ToolMetrics
+} from "./metrics";
+export { renderMetricsMarkdown } from "./render";
+export { newSpanId, newTraceId, SPAN_KINDS, type Span, type SpanAttributeValue, type SpanKind } from "./span";
+export { RunTrace, Tracer, type RunTraceContext, type TracerOptions } from "./tracer";
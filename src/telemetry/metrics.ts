@@ -0,0 +1,218 @@
+import fs from "fs";
+import type { Span } from "./span";
+
+/**
+ * Aggregates over run and tool spans: the data behind the performance
+ * dashboards. Pure functions of the spans, so the same numbers come from
+ * the tracer's in-memory buffer (GET /metrics) and from the JSONL file
+ * (`cockpit metrics`).
+ */
+
+export interface AgentMetrics {
+  agent: string;
+  runs: number;
+  errors: number;
+  errorRate: number;
+  costUSD: number;
+  meanCostUSD: number;
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  p50DurationMs: number;
+  p95DurationMs: number;
+}
+
+export interface ToolMetrics {
+  tool: string;
+  calls: number;
+  errors: number;
+  errorRate: number;
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+  maxLatencyMs: number;
+}
+
+export interface SubtypeMetrics {
+  /** Result subtype of the run, "no_result" when it ended without one */
+  subtype: string;
+  runs: number;
+  /** Share of all runs */
+  share: number;
+}
+
+export interface ModelMetrics {
+  model: string;
+  runs: number;
+  costUSD: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TelemetryMetrics {
+  /** Start of the first and end of the last span aggregated; null without spans */
+  from: string | null;
+  to: string | null;
+  runs: number;
+  errors: number;
+  errorRate: number;
+  costUSD: number;
+  /** Most expensive first */
+  agents: AgentMetrics[];
+  /** Slowest (p95) first */
+  tools: ToolMetrics[];
+  /** Most frequent first */
+  subtypes: SubtypeMetrics[];
+  models: ModelMetrics[];
+}
+
+const WINDOW_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * A window start from "30m", "24h" or "7d" back from `now`, or an ISO
+ * date / timestamp; null when the value is neither.
+ */
+export function parseSince(value: string, now = new Date()): Date | null {
+  const relative = /^(\d+)\s*([mhd])$/i.exec(value.trim());
+  if (relative) {
+    return new Date(now.getTime() - Number(relative[1]) * (WINDOW_UNITS[(relative[2] ?? "h").toLowerCase()] ?? 0));
+  }
+  const absolute = Date.parse(value);
+  return Number.isNaN(absolute) ? null : new Date(absolute);
+}
+
+/** Nearest-rank percentile; 0 for no values */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1] ?? 0;
+}
+
+function numberAttribute(span: Span, key: string): number {
+  const value = span.attributes[key];
+  return typeof value === "number" ? value : 0;
+}
+
+function stringAttribute(span: Span, key: string, fallback: string): string {
+  const value = span.attributes[key];
+  return typeof value === "string" ? value : fallback;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item)) ?? [];
+    group.push(item);
+    groups.set(key(item), group);
+  }
+  return groups;
+}
+
+function sum(spans: Span[], key: string): number {
+  return spans.reduce((total, span) => total + numberAttribute(span, key), 0);
+}
+
+export function aggregateSpans(spans: Span[]): TelemetryMetrics {
+  const runs = spans.filter((span) => span.kind === "run");
+  const tools = spans.filter((span) => span.kind === "tool");
+  const errors = runs.filter((span) => span.status === "error").length;
+  const starts = spans.map((span) => span.startTime).sort();
+  const ends = spans.map((span) => span.endTime).sort();
+
+  const agents = [...groupBy(runs, (span) => stringAttribute(span, "gen_ai.agent.name", "unknown"))].map(
+    ([agent, group]): AgentMetrics => {
+      const failed = group.filter((span) => span.status === "error").length;
+      const costUSD = sum(group, "cockpit.cost_usd");
+      const durations = group.map((span) => span.durationMs);
+      return {
+        agent,
+        runs: group.length,
+        errors: failed,
+        errorRate: failed / group.length,
+        costUSD,
+        meanCostUSD: costUSD / group.length,
+        turns: sum(group, "cockpit.turns"),
+        inputTokens: sum(group, "gen_ai.usage.input_tokens"),
+        outputTokens: sum(group, "gen_ai.usage.output_tokens"),
+        p50DurationMs: percentile(durations, 50),
+        p95DurationMs: percentile(durations, 95)
+      };
+    }
+  );
+
+  const toolMetrics = [...groupBy(tools, (span) => stringAttribute(span, "gen_ai.tool.name", "unknown"))].map(
+    ([tool, group]): ToolMetrics => {
+      const failed = group.filter((span) => span.status === "error").length;
+      const latencies = group.map((span) => span.durationMs);
+      return {
+        tool,
+        calls: group.length,
+        errors: failed,
+        errorRate: failed / group.length,
+        p50LatencyMs: percentile(latencies, 50),
+        p95LatencyMs: percentile(latencies, 95),
+        maxLatencyMs: Math.max(...latencies)
+      };
+    }
+  );
+
+  const subtypes = [...groupBy(runs, (span) => stringAttribute(span, "cockpit.subtype", "no_result"))].map(
+    ([subtype, group]): SubtypeMetrics => ({ subtype, runs: group.length, share: group.length / runs.length })
+  );
+
+  const models = [...groupBy(runs, (span) => stringAttribute(span, "gen_ai.request.model", "unknown"))].map(
+    ([model, group]): ModelMetrics => ({
+      model,
+      runs: group.length,
+      costUSD: sum(group, "cockpit.cost_usd"),
+      inputTokens: sum(group, "gen_ai.usage.input_tokens"),
+      outputTokens: sum(group, "gen_ai.usage.output_tokens")
+    })
+  );
+
+  return {
+    from: starts[0] ?? null,
+    to: ends[ends.length - 1] ?? null,
+    runs: runs.length,
+    errors,
+    errorRate: runs.length === 0 ? 0 : errors / runs.length,
+    costUSD: sum(runs, "cockpit.cost_usd"),
+    agents: agents.sort((a, b) => b.costUSD - a.costUSD || b.runs - a.runs),
+    tools: toolMetrics.sort((a, b) => b.p95LatencyMs - a.p95LatencyMs),
+    subtypes: subtypes.sort((a, b) => b.runs - a.runs),
+    models: models.sort((a, b) => b.costUSD - a.costUSD)
+  };
+}
+
+/**
+ * Spans from a JSONL file written by the jsonl exporter, optionally only
+ * those that started at or after `since`. A missing file has no spans;
+ * unreadable lines (e.g. one cut off mid-write) are skipped.
+ */
+export function readSpans(filePath: string, since?: Date): Span[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, "utf8");
+  } catch {
+    return [];
+  }
+  const spans: Span[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const span = JSON.parse(line) as Span;
+      if (span && typeof span.kind === "string" && typeof span.startTime === "string" && span.attributes) {
+        if (!since || Date.parse(span.startTime) >= since.getTime()) {
+          spans.push(span);
+        }
+      }
+    } catch {
+      // skip
+    }
+  }
+  return spans;
+}
@@ -0,0 +1,66 @@
+import { formatDuration } from "../render/format";
+import type { TelemetryMetrics } from "./metrics";
+
+function percent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+function usd(value: number): string {
+  return `$${value.toFixed(4)}`;
+}
+
+/**
+ * Markdown tables of the aggregated metrics: cost per agent, tool latency,
+ * outcomes by result subtype and spend per model.
+ */
+export function renderMetricsMarkdown(metrics: TelemetryMetrics, title = "Agent run metrics"): string {
+  if (metrics.runs === 0) {
+    return `# ${title}\n\nNo runs recorded in this window.\n`;
+  }
+
+  const lines = [
+    `# ${title}`,
+    "",
+    `${metrics.runs} run(s) from ${metrics.from} to ${metrics.to}: ${usd(metrics.costUSD)}, ${metrics.errors} failed (${percent(metrics.errorRate)})`,
+    "",
+    "## Agents",
+    "",
+    "| Agent | Runs | Errors | Cost | Mean cost | Turns | Tokens in / out | p50 | p95 |",
+    "|---|---|---|---|---|---|---|---|---|",
+    ...metrics.agents.map(
+      (agent) =>
+        `| ${agent.agent} | ${agent.runs} | ${agent.errors} (${percent(agent.errorRate)}) | ${usd(agent.costUSD)} | ${usd(agent.meanCostUSD)} | ${agent.turns} | ${agent.inputTokens} / ${agent.outputTokens} | ${formatDuration(agent.p50DurationMs)} | ${formatDuration(agent.p95DurationMs)} |`
+    ),
+    "",
+    "## Outcomes",
+    "",
+    "| Subtype | Runs | Share |",
+    "|---|---|---|",
+    ...metrics.subtypes.map((subtype) => `| ${subtype.subtype} | ${subtype.runs} | ${percent(subtype.share)} |`),
+    ""
+  ];
+
+  if (metrics.tools.length > 0) {
+    lines.push(
+      "## Tools",
+      "",
+      "| Tool | Calls | Errors | p50 | p95 | Max |",
+      "|---|---|---|---|---|---|",
+      ...metrics.tools.map(
+        (tool) =>
+          `| ${tool.tool} | ${tool.calls} | ${tool.errors} (${percent(tool.errorRate)}) | ${formatDuration(tool.p50LatencyMs)} | ${formatDuration(tool.p95LatencyMs)} | ${formatDuration(tool.maxLatencyMs)} |`
+      ),
+      ""
+    );
+  }
+
+  lines.push(
+    "## Models",
+    "",
+    "| Model | Runs | Cost | Tokens in / out |",
+    "|---|---|---|---|",
+    ...metrics.models.map((model) => `| ${model.model} | ${model.runs} | ${usd(model.costUSD)} | ${model.inputTokens} / ${model.outputTokens} |`),
+    ""
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,69 @@
+import crypto from "crypto";
+
+/**
+ * Trace spans of agent runs, shaped after OpenTelemetry so they export to
+ * an OTLP collector unchanged. One trace per `AgentRuntime.execute()`:
+ *
+ *   run   invoke_agent <agent>        the whole run, with its outcome and cost
+ *   turn    chat <model>              one assistant turn, with its token usage
+ *   tool      execute_tool <tool>     tool_use to tool_result
+ *
+ * Attribute names follow the OpenTelemetry GenAI conventions where one
+ * exists (`gen_ai.*`); the cockpit's own are under `cockpit.*`.
+ */
+
+export const SPAN_KINDS = ["run", "turn", "tool"] as const;
+
+export type SpanKind = (typeof SPAN_KINDS)[number];
+
+export type SpanAttributeValue = string | number | boolean;
+
+export interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  kind: SpanKind;
+  name: string;
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  status: "ok" | "error";
+  /** Why the span failed; null when it succeeded */
+  statusMessage: string | null;
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+/** 32 hex characters, as in W3C trace context */
+export function newTraceId(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+/** 16 hex characters */
+export function newSpanId(): string {
+  return crypto.randomBytes(8).toString("hex");
+}
+
+/** Drops null / undefined attributes; spans only carry what is known */
+export function attributes(values: Record<string, SpanAttributeValue | null | undefined>): Record<string, SpanAttributeValue> {
+  return Object.fromEntries(
+    Object.entries(values).filter((entry): entry is [string, SpanAttributeValue] => entry[1] !== null && entry[1] !== undefined)
+  );
+}
+
+export function makeSpan(
+  fields: Omit<Span, "startTime" | "endTime" | "durationMs" | "spanId"> & { spanId?: string; start: number; end: number }
+): Span {
+  return {
+    traceId: fields.traceId,
+    spanId: fields.spanId ?? newSpanId(),
+    parentSpanId: fields.parentSpanId,
+    kind: fields.kind,
+    name: fields.name,
+    startTime: new Date(fields.start).toISOString(),
+    endTime: new Date(fields.end).toISOString(),
+    durationMs: Math.max(0, fields.end - fields.start),
+    status: fields.status,
+    statusMessage: fields.statusMessage,
+    attributes: fields.attributes
+  };
+}
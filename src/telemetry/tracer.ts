@@ -0,0 +1,300 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { AppConfig } from "../config";
+import type { PromptStamp } from "../prompts";
+import type { RoutingDecision, TaskClass } from "../routing";
+import type { AgentEvents, AgentResult } from "../runtime/agent-runtime";
+import { ConsoleSpanExporter, JsonlSpanExporter, OtlpHttpSpanExporter, type SpanExporter } from "./exporters";
+import { aggregateSpans, type TelemetryMetrics } from "./metrics";
+import { attributes, makeSpan, newSpanId, newTraceId, type Span } from "./span";
+
+export interface TracerOptions {
+  exporters: SpanExporter[];
+  /** Spans kept in memory for metrics() (default 10,000) */
+  bufferSize?: number;
+}
+
+export interface RunTraceContext {
+  agent: string;
+  task?: TaskClass;
+  routing?: RoutingDecision | null;
+  prompt?: PromptStamp | null;
+}
+
+const DEFAULT_BUFFER_SIZE = 10_000;
+
+// Tool output in a failed span's status message is cut to this much
+const MAX_STATUS_MESSAGE = 200;
+
+function firstLine(text: string): string {
+  const line = text.split("\n").find((candidate) => candidate.trim().length > 0) ?? "";
+  return line.length > MAX_STATUS_MESSAGE ? `${line.slice(0, MAX_STATUS_MESSAGE - 1)}…` : line;
+}
+
+/**
+ * Hands finished spans to the exporters and keeps the most recent ones in
+ * memory for metrics(). Export failures never fail a run: each exporter
+ * warns once on stderr, and again only after it recovered and failed anew.
+ */
+export class Tracer {
+  private static shared = new Map<string, Tracer>();
+  readonly exporters: SpanExporter[];
+  private bufferSize: number;
+  private recent: Span[] = [];
+  private pending = new Set<Promise<void>>();
+  private failing = new Set<string>();
+
+  constructor(options: TracerOptions) {
+    this.exporters = options.exporters;
+    this.bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+  }
+
+  /**
+   * The tracer for TELEMETRY_EXPORTERS, shared by every runtime with the
+   * same settings so metrics() covers all their runs; null when telemetry is off.
+   */
+  static fromConfig(config: AppConfig): Tracer | null {
+    const { telemetry } = config;
+    if (telemetry.exporters.length === 0) {
+      return null;
+    }
+    const key = JSON.stringify(telemetry);
+    let tracer = Tracer.shared.get(key);
+    if (!tracer) {
+      tracer = new Tracer({
+        exporters: telemetry.exporters.map((name): SpanExporter => {
+          switch (name) {
+            case "console":
+              return new ConsoleSpanExporter();
+            case "jsonl":
+              return new JsonlSpanExporter(telemetry.filePath);
+            case "otlp":
+              return new OtlpHttpSpanExporter({
+                endpoint: telemetry.otlpEndpoint,
+                headers: telemetry.otlpHeaders,
+                serviceName: telemetry.serviceName
+              });
+          }
+        })
+      });
+      Tracer.shared.set(key, tracer);
+    }
+    return tracer;
+  }
+
+  /** Flushes every shared tracer; the CLI calls this before it returns */
+  static async flushAll(): Promise<void> {
+    await Promise.all([...Tracer.shared.values()].map((tracer) => tracer.flush()));
+  }
+
+  startRun(context: RunTraceContext): RunTrace {
+    return new RunTrace(this, context);
+  }
+
+  /** Exports the spans of one run (the run span last) */
+  record(spans: Span[]): void {
+    this.recent.push(...spans);
+    if (this.recent.length > this.bufferSize) {
+      this.recent.splice(0, this.recent.length - this.bufferSize);
+    }
+    for (const exporter of this.exporters) {
+      const exported = exporter
+        .export(spans)
+        .then(
+          () => {
+            this.failing.delete(exporter.name);
+          },
+          (error) => {
+            if (!this.failing.has(exporter.name)) {
+              this.failing.add(exporter.name);
+              console.warn(`⚠️  Telemetry export to ${exporter.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+        )
+        .finally(() => this.pending.delete(exported));
+      this.pending.add(exported);
+    }
+  }
+
+  /** Waits for exports in flight, e.g. before the process exits */
+  async flush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  /** Spans recorded by this process, oldest first */
+  spans(since?: Date): Span[] {
+    return since ? this.recent.filter((span) => Date.parse(span.startTime) >= since.getTime()) : [...this.recent];
+  }
+
+  metrics(since?: Date): TelemetryMetrics {
+    return aggregateSpans(this.spans(since));
+  }
+}
+
+interface TurnTiming {
+  start: number;
+  end: number;
+  model: string | null;
+}
+
+/**
+ * Spans of one `AgentRuntime.execute()` call. `events` times the turns and
+ * tool calls as the stream arrives; end() builds the spans from the final
+ * AgentResult, so usage and outcome are the runtime's own numbers.
+ *
+ * A turn runs from the previous activity (the run start, or the tool
+ * results the model was waiting for) to its last assistant message.
+ */
+export class RunTrace {
+  readonly traceId = newTraceId();
+  readonly spanId = newSpanId();
+  private tracer: Tracer;
+  private context: RunTraceContext;
+  private started = Date.now();
+  private lastActivity = this.started;
+  private turns = new Map<string, TurnTiming>();
+  private tools = new Map<string, { start: number; end: number | null }>();
+  private ended = false;
+
+  constructor(tracer: Tracer, context: RunTraceContext) {
+    this.tracer = tracer;
+    this.context = context;
+  }
+
+  get events(): AgentEvents {
+    return {
+      onMessage: (message) => this.observe(message),
+      onToolUse: (toolCall) => {
+        this.tools.set(toolCall.id, { start: Date.now(), end: null });
+      },
+      onToolResult: (toolCall) => {
+        const timing = this.tools.get(toolCall.id);
+        if (timing) {
+          timing.end = Date.now();
+        }
+      }
+    };
+  }
+
+  /** Records the run's spans; later calls are ignored */
+  end(result: AgentResult): Span[] {
+    if (this.ended) {
+      return [];
+    }
+    this.ended = true;
+    const end = Date.now();
+    const { traceId } = this;
+    const spans: Span[] = [];
+
+    const turnSpanIds = new Map<number, string>();
+    for (const turn of result.turns) {
+      const timing = (turn.messageId && this.turns.get(turn.messageId)) || { start: this.started, end: this.started, model: null };
+      const model = timing.model ?? result.model;
+      const span = makeSpan({
+        traceId,
+        parentSpanId: this.spanId,
+        kind: "turn",
+        name: `chat ${model}`,
+        start: timing.start,
+        end: timing.end,
+        status: "ok",
+        statusMessage: null,
+        attributes: attributes({
+          "gen_ai.operation.name": "chat",
+          "gen_ai.system": "anthropic",
+          "gen_ai.request.model": model,
+          "gen_ai.response.id": turn.messageId,
+          "gen_ai.usage.input_tokens": turn.inputTokens,
+          "gen_ai.usage.output_tokens": turn.outputTokens,
+          "cockpit.usage.cache_read_tokens": turn.cacheReadInputTokens,
+          "cockpit.usage.cache_creation_tokens": turn.cacheCreationInputTokens,
+          "gen_ai.agent.name": this.context.agent,
+          "cockpit.turn": turn.turn
+        })
+      });
+      turnSpanIds.set(turn.turn, span.spanId);
+      spans.push(span);
+    }
+
+    for (const toolCall of result.toolCalls) {
+      const timing = this.tools.get(toolCall.id) ?? { start: this.started, end: null };
+      const failed = !toolCall.result || toolCall.result.isError;
+      spans.push(
+        makeSpan({
+          traceId,
+          parentSpanId: turnSpanIds.get(toolCall.turn) ?? this.spanId,
+          kind: "tool",
+          name: `execute_tool ${toolCall.name}`,
+          start: timing.start,
+          end: timing.end ?? end,
+          status: failed ? "error" : "ok",
+          statusMessage: !toolCall.result ? "No tool result before the run ended" : toolCall.result.isError ? firstLine(toolCall.result.text) : null,
+          attributes: attributes({
+            "gen_ai.operation.name": "execute_tool",
+            "gen_ai.tool.name": toolCall.name,
+            "gen_ai.tool.call.id": toolCall.id,
+            "gen_ai.agent.name": this.context.agent,
+            "cockpit.turn": toolCall.turn
+          })
+        })
+      );
+    }
+
+    const usage = result.stats.usage;
+    spans.push(
+      makeSpan({
+        traceId,
+        spanId: this.spanId,
+        parentSpanId: null,
+        kind: "run",
+        name: `invoke_agent ${this.context.agent}`,
+        start: this.started,
+        end,
+        status: result.success ? "ok" : "error",
+        statusMessage: result.success ? null : (result.error ?? result.subtype ?? "Run failed"),
+        attributes: attributes({
+          "gen_ai.operation.name": "invoke_agent",
+          "gen_ai.system": "anthropic",
+          "gen_ai.agent.name": this.context.agent,
+          "gen_ai.request.model": result.model,
+          "gen_ai.conversation.id": result.sessionId,
+          "gen_ai.usage.input_tokens": usage.inputTokens,
+          "gen_ai.usage.output_tokens": usage.outputTokens,
+          "cockpit.usage.cache_read_tokens": usage.cacheReadInputTokens,
+          "cockpit.usage.cache_creation_tokens": usage.cacheCreationInputTokens,
+          "cockpit.subtype": result.subtype ?? "no_result",
+          "cockpit.cost_usd": result.stats.costUSD,
+          "cockpit.turns": result.stats.turns,
+          "cockpit.tool_calls": result.toolCalls.length,
+          "cockpit.duration_api_ms": result.stats.durationApiMs,
+          "cockpit.task": this.context.routing?.task ?? this.context.task,
+          "cockpit.routing.reason": this.context.routing?.reason,
+          "cockpit.budget_exceeded": result.budget ? `${result.budget.window} ${result.budget.unit}` : null,
+          "cockpit.prompt.id": this.context.prompt?.id,
+          "cockpit.prompt.version": this.context.prompt?.version,
+          "cockpit.prompt.hash": this.context.prompt?.hash
+        })
+      })
+    );
+
+    this.tracer.record(spans);
+    return spans;
+  }
+
+  private observe(message: SDKMessage): void {
+    const now = Date.now();
+    if (message.type === "assistant" && message.parent_tool_use_id === null) {
+      const messageId: string | undefined = message.message?.id;
+      if (messageId) {
+        const timing = this.turns.get(messageId);
+        if (timing) {
+          timing.end = now;
+        } else {
+          this.turns.set(messageId, { start: this.lastActivity, end: now, model: message.message?.model ?? null });
+        }
+      }
+      this.lastActivity = now;
+    } else if (message.type === "user") {
+      this.lastActivity = now;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { describe, it } from "node:test";
+import { AuditLog, verifyAuditLog, type AuditEntry } from "../../src/audit";
+import { tempDir } from "../helpers";
+
+const entry = (n: number): AuditEntry => ({ level: "info", type: "tool_use", agent: "test-agent", data: { tool: "Read", n } });
+
+function writeLines(filePath: string, edit: (lines: string[]) => string[]): void {
+  const lines = fs.readFileSync(filePath, "utf8").trimEnd().split("\n");
+  fs.writeFileSync(filePath, `${edit(lines).join("\n")}\n`);
+}
+
+describe("verifyAuditLog", () => {
+  it("accepts an untouched chain", (t) => {
+    const file = path.join(tempDir(t), "audit.log");
+    const log = new AuditLog(file);
+    const records = [1, 2, 3].map((n) => log.append(entry(n)));
+
+    assert.deepEqual(
+      records.map((record) => record.seq),
+      [1, 2, 3]
+    );
+    assert.deepEqual(verifyAuditLog(file), { valid: true, records: 3, files: [file], anchored: true });
+  });
+
+  it("writes every record whatever the detail level", (t) => {
+    const file = path.join(tempDir(t), "audit.log");
+    const log = new AuditLog(file, { level: "error" });
+    log.append(entry(1));
+    log.append({ ...entry(2), level: "debug" });
+
+    assert.equal(log.enabled("debug"), false);
+    assert.equal(verifyAuditLog(file).records, 2);
+  });
+
+  it("reports an edited record", (t) => {
+    const file = path.join(tempDir(t), "audit.log");
+    const log = new AuditLog(file);
+    [1, 2, 3].forEach((n) => log.append(entry(n)));
+    writeLines(file, (lines) => lines.map((line, index) => (index === 1 ? line.replace('"n":2', '"n":20') : line)));
+
+    const verification = verifyAuditLog(file);
+
+    assert.equal(verification.valid, false);
+    assert.deepEqual(verification.error, { file, line: 2, seq: 2, reason: "record hash does not match its contents" });
+  });
+
+  it("reports a dropped record", (t) => {
+    const file = path.join(tempDir(t), "audit.log");
+    const log = new AuditLog(file);
+    [1, 2, 3].forEach((n) => log.append(entry(n)));
+    writeLines(file, (lines) => lines.filter((_, index) => index !== 1));
+
+    const verification = verifyAuditLog(file);
+
+    assert.equal(verification.valid, false);
+    assert.equal(verification.error?.seq, 3);
+    assert.equal(verification.error?.reason, "previous-hash link does not match the preceding record");
+  });
+
+  it("reports a torn line", (t) => {
+    const file = path.join(tempDir(t), "audit.log");
+    new AuditLog(file).append(entry(1));
+    fs.appendFileSync(file, '{"seq":2,"timest');
+
+    assert.deepEqual(verifyAuditLog(file).error, { file, line: 2, seq: null, reason: "line is not valid JSON" });
+  });
+
+  it("follows the chain across rotations and writers", (t) => {
+    const file = path.join(tempDir(t), "audit.log");
+    const first = new AuditLog(file, { maxBytes: 700 });
+    const second = new AuditLog(file, { maxBytes: 700 });
+    [1, 2, 3, 4, 5, 6].forEach((n) => (n % 2 ? first : second).append(entry(n)));
+
+    const verification = verifyAuditLog(file);
+
+    assert.equal(verification.valid, true);
+    assert.equal(verification.records, 6);
+    assert.ok(verification.files.length > 1);
+    assert.equal(verification.files[verification.files.length - 1], file);
+    assert.equal(verification.anchored, true);
+  });
+
+  it("checks what is left once old rotations are deleted", (t) => {
+    const file = path.join(tempDir(t), "audit.log");
+    const log = new AuditLog(file, { maxBytes: 400, maxFiles: 1 });
+    [1, 2, 3, 4].forEach((n) => log.append(entry(n)));
+
+    const verification = verifyAuditLog(file);
+
+    assert.equal(verification.valid, true);
+    assert.equal(verification.anchored, false);
+    assert.ok(verification.records < 4);
+  });
+});
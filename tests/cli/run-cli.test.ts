@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { EXIT_CODES, runCli } from "../../src/cli";
+
+describe("runCli", () => {
+  it("finds the command after a global flag's value", async (t) => {
+    const log = t.mock.method(console, "log", () => {});
+
+    assert.equal(await runCli(["--format", "json", "help"]), EXIT_CODES.ok);
+    assert.equal(log.mock.callCount(), 1);
+  });
+
+  it("reports an unknown command as a usage error", async (t) => {
+    t.mock.method(console, "error", () => {});
+
+    assert.equal(await runCli(["--format", "markdown", "nonsense"]), EXIT_CODES.usage);
+  });
+});
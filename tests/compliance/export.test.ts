@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toCsv } from "../../src/compliance/export";
+
+const BOM = "\ufeff";
+
+describe("toCsv", () => {
+  it("writes CRLF rows after a BOM", () => {
+    assert.equal(
+      toCsv([
+        ["id", "status"],
+        ["R-1", "supported"]
+      ]),
+      `${BOM}id,status\r\nR-1,supported\r\n`
+    );
+  });
+
+  it("quotes cells with commas, quotes and line breaks", () => {
+    assert.equal(toCsv([["a, b", 'say "hi"', "line 1\nline 2", "plain"]]), `${BOM}"a, b","say ""hi""","line 1\nline 2",plain\r\n`);
+  });
+
+  it("defuses cells a spreadsheet would evaluate", () => {
+    assert.equal(
+      toCsv([["=HYPERLINK(\"http://evil\")", "+1", "-2", "@SUM(A1)", "\tcmd", "a=b"]]),
+      `${BOM}"'=HYPERLINK(""http://evil"")",'+1,'-2,'@SUM(A1),'\tcmd,a=b\r\n`
+    );
+  });
+});
@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { describe, it } from "node:test";
+import { testConfig } from "../helpers";
+
+describe("loadConfig", () => {
+  it("reads the packaged prompts whatever the working directory", () => {
+    const dir = testConfig().prompts.dir;
+
+    assert.equal(dir, path.resolve(__dirname, "../../prompts"));
+    assert.ok(fs.existsSync(path.join(dir, "cockpit")));
+  });
+
+  it("keeps an explicit PROMPTS_DIR", () => {
+    assert.equal(testConfig({ PROMPTS_DIR: "./my-prompts" }).prompts.dir, "./my-prompts");
+  });
+});
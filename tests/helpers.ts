@@ -0,0 +1,169 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { loadConfig, type AppConfig } from "../src/config";
+import { AgentRuntime, ScriptedTransport, type AgentConfig, type AgentRuntimeDeps, type ScriptedRun } from "../src/runtime";
+
+/**
+ * Shared fixtures for the test suite: an isolated config, a runtime with
+ * every side effect (audit, sessions, budget, routing, telemetry) switched
+ * off, and builders for the SDK messages a scripted run yields.
+ */
+
+// ============================================================================
+// ENVIRONMENT
+// ============================================================================
+
+/** Fresh temporary directory, removed when the test finishes */
+export function tempDir(t: { after: (fn: () => void) => void }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cockpit-test-"));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/** Config from `env` alone: no .env files, no process environment */
+export function testConfig(env: NodeJS.ProcessEnv = {}): AppConfig {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "cockpit-config-"));
+  try {
+    return loadConfig({ cwd, env: { ANTHROPIC_API_KEY: "sk-ant-test", ENABLE_MODEL_ROUTING: "false", ...env } });
+  } finally {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  }
+}
+
+export const TEST_AGENT: AgentConfig = {
+  name: "test-agent",
+  tools: ["Read"],
+  systemPrompt: "You are a test agent."
+};
+
+/** Deps that keep a runtime off the disk and the network */
+export function offlineDeps(deps: AgentRuntimeDeps = {}): AgentRuntimeDeps {
+  return {
+    appConfig: testConfig(),
+    onPermissionDecision: () => {},
+    audit: null,
+    sessions: null,
+    budget: null,
+    router: null,
+    tracer: null,
+    ...deps
+  };
+}
+
+/** Runtime answering from scripted runs, one per execute() */
+export function scriptedRuntime(
+  runs: Array<ScriptedRun | SDKMessage[]>,
+  config: Partial<AgentConfig> = {},
+  deps: AgentRuntimeDeps = {}
+): { runtime: AgentRuntime; transport: ScriptedTransport } {
+  const transport = new ScriptedTransport(runs);
+  return { runtime: new AgentRuntime({ ...TEST_AGENT, ...config }, offlineDeps({ transport, ...deps })), transport };
+}
+
+// ============================================================================
+// SDK MESSAGES
+// ============================================================================
+
+export const SESSION_ID = "session-1";
+
+const usage = (input: number, output: number) => ({
+  input_tokens: input,
+  output_tokens: output,
+  cache_read_input_tokens: 0,
+  cache_creation_input_tokens: 0
+});
+
+type ContentBlock =
+  | { type: "text"; text: string }
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> };
+
+export const text = (value: string): ContentBlock => ({ type: "text", text: value });
+export const thinking = (value: string): ContentBlock => ({ type: "thinking", thinking: value, signature: "sig" });
+export const toolUse = (id: string, name: string, input: Record<string, unknown> = {}): ContentBlock => ({
+  type: "tool_use",
+  id,
+  name,
+  input
+});
+
+export function init(model = "claude-haiku-4-5-20251001"): SDKMessage {
+  return {
+    type: "system",
+    subtype: "init",
+    model,
+    session_id: SESSION_ID,
+    uuid: randomUUID()
+  } as unknown as SDKMessage;
+}
+
+/**
+ * Assistant message. Messages sharing `messageId` are content blocks of one
+ * API response, i.e. one turn; `parent` marks subagent traffic.
+ */
+export function assistant(
+  messageId: string,
+  content: ContentBlock[],
+  options: { parent?: string; inputTokens?: number; outputTokens?: number } = {}
+): SDKMessage {
+  return {
+    type: "assistant",
+    parent_tool_use_id: options.parent ?? null,
+    session_id: SESSION_ID,
+    uuid: randomUUID(),
+    message: {
+      id: messageId,
+      type: "message",
+      role: "assistant",
+      model: "claude-haiku-4-5-20251001",
+      content,
+      stop_reason: null,
+      stop_sequence: null,
+      usage: usage(options.inputTokens ?? 10, options.outputTokens ?? 5)
+    }
+  } as unknown as SDKMessage;
+}
+
+export function toolResult(toolUseId: string, content: string, isError = false): SDKMessage {
+  return {
+    type: "user",
+    parent_tool_use_id: null,
+    session_id: SESSION_ID,
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: toolUseId, content, is_error: isError }] }
+  } as unknown as SDKMessage;
+}
+
+/** Result message; any subtype other than "success" is an error result */
+export function result(
+  outcome: { result?: string; subtype?: string; errors?: string[]; costUSD?: number; turns?: number; sessionId?: string } = {}
+): SDKMessage {
+  const subtype = outcome.subtype ?? "success";
+  return {
+    type: "result",
+    subtype,
+    is_error: subtype !== "success",
+    ...(subtype === "success" ? { result: outcome.result ?? "" } : { errors: outcome.errors ?? [] }),
+    session_id: outcome.sessionId ?? SESSION_ID,
+    total_cost_usd: outcome.costUSD ?? 0.01,
+    num_turns: outcome.turns ?? 1,
+    duration_ms: 1200,
+    duration_api_ms: 900,
+    usage: usage(100, 50),
+    modelUsage: {},
+    permission_denials: [],
+    uuid: randomUUID()
+  } as unknown as SDKMessage;
+}
+
+/** A complete successful run that answers `value` */
+export function answer(value: string, costUSD = 0.01): SDKMessage[] {
+  return [init(), assistant("msg-1", [text(value)]), result({ result: value, costUSD })];
+}
+
+/** A run ending in an error result */
+export function failure(subtype: string, errors: string[] = [], costUSD = 0.01): SDKMessage[] {
+  return [init(), result({ subtype, errors, costUSD })];
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { describe, it } from "node:test";
+import JSZip from "jszip";
+import { parseDocument } from "../../src/ingestion";
+import { tempDir } from "../helpers";
+
+const inline = (reference: string, value: string) => `<c r="${reference}" t="inlineStr"><is><t>${value}</t></is></c>`;
+
+/** Minimal workbook with one sheet of the given `<row>` elements */
+async function writeXlsx(file: string, rows: string[]): Promise<void> {
+  const zip = new JSZip();
+  zip.file("xl/workbook.xml", `<workbook><sheets><sheet name="Requirements" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    `<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>`
+  );
+  zip.file("xl/worksheets/sheet1.xml", `<worksheet><sheetData>${rows.join("")}</sheetData></worksheet>`);
+  fs.writeFileSync(file, await zip.generateAsync({ type: "nodebuffer" }));
+}
+
+describe("parseDocument (xlsx)", () => {
+  it("skips self-closing empty rows without losing the row after them", async (t) => {
+    const file = path.join(tempDir(t), "rfp.xlsx");
+    await writeXlsx(file, [
+      `<row r="1">${inline("A1", "Id")}${inline("B1", "Requirement")}</row>`,
+      `<row r="2"/>`,
+      `<row r="3">${inline("A3", "R-1")}${inline("B3", "SSO via SAML")}</row>`,
+      `<row r="4" spans="1:2"/>`,
+      `<row r="5">${inline("A5", "R-2")}<c r="B5" t="b"><v>1</v></c></row>`
+    ]);
+
+    const { sections } = await parseDocument(file);
+
+    assert.deepEqual(
+      sections.map((section) => [section.sheet, section.rows, section.text]),
+      [["Requirements", "3-5", "Id\tRequirement\nR-1\tSSO via SAML\nR-2\tTRUE"]]
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CadenceError, isDue, nextRun, parseCadence } from "../../src/monitoring/cadence";
+
+// Local time, like the cadences; 5 January 2026 is a Monday
+const at = (day: number, hour: number, minute = 0, month = 1, year = 2026) => new Date(year, month - 1, day, hour, minute);
+
+describe("parseCadence", () => {
+  it("expands aliases, lists, ranges and steps", () => {
+    const weekly = parseCadence("Weekly");
+    assert.deepEqual([...weekly.minutes, ...weekly.hours, ...weekly.weekdays], [0, 8, 1]);
+
+    const cadence = parseCadence("0,30 9-17/4 * * 1-5");
+    assert.deepEqual([...cadence.minutes], [0, 30]);
+    assert.deepEqual([...cadence.hours], [9, 13, 17]);
+    assert.deepEqual([...cadence.weekdays], [1, 2, 3, 4, 5]);
+    assert.equal(cadence.daysRestricted, false);
+    assert.equal(cadence.weekdaysRestricted, true);
+  });
+
+  it("folds day 7 into Sunday", () => {
+    assert.deepEqual([...parseCadence("0 8 * * 7").weekdays], [0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    for (const expression of ["0 8 * *", "0 25 * * *", "*/0 * * * *", "5-1 * * * *", "every day"]) {
+      assert.throws(() => parseCadence(expression), CadenceError, expression);
+    }
+  });
+});
+
+describe("nextRun", () => {
+  it("returns the first match strictly after the given time", () => {
+    const daily = parseCadence("daily");
+    assert.deepEqual(nextRun(daily, at(5, 7, 30)), at(5, 8));
+    assert.deepEqual(nextRun(daily, at(5, 8)), at(6, 8));
+  });
+
+  it("skips to the next allowed weekday and hour", () => {
+    assert.deepEqual(nextRun(parseCadence("weekly"), at(5, 9)), at(12, 8));
+    assert.deepEqual(nextRun(parseCadence("*/15 9-17 * * 1-5"), at(9, 17, 50)), at(12, 9));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    const cadence = parseCadence("0 0 13 * 5");
+    assert.deepEqual(nextRun(cadence, at(10, 12)), at(13, 0));
+    assert.deepEqual(nextRun(cadence, at(13, 0)), at(16, 0));
+  });
+
+  it("finds rare dates and fails on impossible ones", () => {
+    assert.deepEqual(nextRun(parseCadence("0 0 29 2 *"), at(1, 0, 0, 3)), at(29, 0, 0, 2, 2028));
+    assert.throws(() => nextRun(parseCadence("0 0 31 2 *"), at(1, 0)), CadenceError);
+  });
+});
+
+describe("isDue", () => {
+  it("is due at once when never run, else once the next run has passed", () => {
+    const daily = parseCadence("daily");
+    assert.equal(isDue(daily, null, at(5, 3)), true);
+    assert.equal(isDue(daily, at(5, 8), at(6, 7, 59)), false);
+    assert.equal(isDue(daily, at(5, 8), at(6, 8)), true);
+  });
+});
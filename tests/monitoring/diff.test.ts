@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { MonitorSnapshot } from "../../src/agents/monitor";
+import { carryForward, changeKey, diffSnapshots, isCarried, type CarriedSnapshot } from "../../src/monitoring/diff";
+
+const source = ["https://globex.example/pricing"];
+
+function snapshot(parts: Partial<MonitorSnapshot> = {}): MonitorSnapshot {
+  return { subject: "Globex", summary: "Quiet week.", pricing: [], launches: [], leadership: [], news: [], ...parts };
+}
+
+const price = (item: string, value: string) => ({ company: "Globex", item, price: value, sourceUrls: source });
+
+describe("diffSnapshots", () => {
+  it("alerts on new and changed prices and leaders", () => {
+    const changes = diffSnapshots(
+      snapshot({
+        pricing: [price("Pro plan", "$49")],
+        leadership: [{ company: "Globex", title: "CEO", name: "Hank Scorpio", sourceUrls: source }]
+      }),
+      snapshot({
+        pricing: [price("Pro plan", "$59"), price("Team plan", "$99")],
+        leadership: [{ company: "Globex", title: "CEO", name: "Jane Doe", sourceUrls: source }]
+      })
+    );
+
+    assert.deepEqual(
+      changes.map((change) => [change.category, change.kind, change.item, change.before, change.after, change.material]),
+      [
+        ["pricing", "changed", "Pro plan", "$49", "$59", true],
+        ["pricing", "added", "Team plan", null, "$99", true],
+        ["leadership", "changed", "CEO", "Hank Scorpio", "Jane Doe", true]
+      ]
+    );
+  });
+
+  it("alerts on new launches but not reworded ones, and never on news or removals", () => {
+    const launch = (name: string, summary: string) => ({ company: "Globex", name, summary, sourceUrls: source });
+    const changes = diffSnapshots(
+      snapshot({ pricing: [price("Legacy plan", "$10")], launches: [launch("Copilot", "AI assistant")] }),
+      snapshot({
+        launches: [launch("Copilot", "An AI assistant for sales"), launch("Insights", "Analytics")],
+        news: [{ company: "Globex", headline: "Globex raises Series C", sourceUrls: source }]
+      })
+    );
+
+    assert.deepEqual(
+      changes.map((change) => [change.category, change.kind, change.item, change.material]),
+      [
+        ["pricing", "removed", "Legacy plan", false],
+        ["launch", "changed", "Copilot", false],
+        ["launch", "added", "Insights", true],
+        ["news", "added", "Globex raises Series C", false]
+      ]
+    );
+  });
+
+  it("ignores case, whitespace and trailing punctuation", () => {
+    const changes = diffSnapshots(
+      snapshot({ pricing: [price("Pro plan", "$49 per user.")] }),
+      snapshot({ pricing: [{ ...price("PRO  Plan", "$49 PER user"), company: "globex" }] })
+    );
+
+    assert.deepEqual(changes, []);
+  });
+});
+
+describe("carryForward", () => {
+  const both = snapshot({ pricing: [price("Pro plan", "$49"), price("Team plan", "$99")] });
+  const proOnly = snapshot({ pricing: [price("Pro plan", "$49")] });
+  const teamKey = changeKey({ category: "pricing", company: "Globex", item: "Team plan" });
+
+  /** Runs scans through the baseline like MonitorScheduler does; returns what each scan reports */
+  function scans(...snapshots: MonitorSnapshot[]): string[][] {
+    let baseline: CarriedSnapshot = { snapshot: snapshots[0] as MonitorSnapshot, missed: {} };
+    return snapshots.slice(1).map((current) => {
+      const previous = baseline;
+      baseline = carryForward(previous, current);
+      return diffSnapshots(previous.snapshot, current)
+        .filter((change) => !isCarried(change, baseline))
+        .map((change) => `${change.kind} ${change.item}`);
+    });
+  }
+
+  it("keeps a missed item in the baseline so it is not reported again when it comes back", () => {
+    assert.deepEqual(scans(both, proOnly, both), [[], []]);
+  });
+
+  it("reports the removal once the item was missed MISSED_SCANS_BEFORE_REMOVAL times", () => {
+    assert.deepEqual(scans(both, proOnly, proOnly, proOnly, proOnly, both), [[], [], ["removed Team plan"], [], ["added Team plan"]]);
+  });
+
+  it("counts consecutive misses and resets them when the item is found", () => {
+    const missedOnce = carryForward({ snapshot: both, missed: {} }, proOnly);
+    assert.deepEqual(missedOnce.missed, { [teamKey]: 1 });
+    assert.equal(missedOnce.snapshot.pricing.length, 2);
+
+    assert.deepEqual(carryForward(missedOnce, proOnly).missed, { [teamKey]: 2 });
+    assert.deepEqual(carryForward(missedOnce, both).missed, {});
+  });
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { MonitorSnapshot } from "../../src/agents/monitor";
+import { MonitorScheduler, MonitorStore, parseWatchlist, type AlertSink, type MonitorAlert } from "../../src/monitoring";
+import { ScriptedTransport } from "../../src/runtime";
+import { answer, offlineDeps, tempDir } from "../helpers";
+
+const source = ["https://globex.example/pricing"];
+
+function scanAnswer(plans: Record<string, string>) {
+  const snapshot: MonitorSnapshot = {
+    subject: "Globex",
+    summary: "Pricing page checked.",
+    pricing: Object.entries(plans).map(([item, price]) => ({ company: "Globex", item, price, sourceUrls: source })),
+    launches: [],
+    leadership: [],
+    news: []
+  };
+  return answer(JSON.stringify(snapshot), 0.05);
+}
+
+function scheduler(dir: string, transport: ScriptedTransport): { scheduler: MonitorScheduler; alerts: MonitorAlert[] } {
+  const alerts: MonitorAlert[] = [];
+  const sink: AlertSink = {
+    name: "memory",
+    alert: async (alert) => void alerts.push(alert),
+    digest: async () => {}
+  };
+  const watchlist = parseWatchlist({ entries: [{ id: "globex", kind: "competitor", name: "Globex", cadence: "daily" }] });
+  return {
+    scheduler: new MonitorScheduler({ ...offlineDeps({ transport }), watchlist, store: new MonitorStore(dir), sinks: [sink], retry: false }),
+    alerts
+  };
+}
+
+describe("MonitorScheduler.scanEntry", () => {
+  it("records a baseline, then alerts only on material changes", async (t) => {
+    const transport = new ScriptedTransport([
+      scanAnswer({ "Pro plan": "$49" }),
+      scanAnswer({ "Pro plan": "$49." }),
+      scanAnswer({ "Pro plan": "$59" })
+    ]);
+    const { scheduler: monitor, alerts } = scheduler(tempDir(t), transport);
+    const [entry] = monitor.entries;
+    assert.ok(entry);
+
+    const records = [await monitor.scanEntry(entry), await monitor.scanEntry(entry), await monitor.scanEntry(entry)];
+
+    assert.deepEqual(
+      records.map((record) => record.status),
+      ["baseline", "unchanged", "changed"]
+    );
+    assert.equal(records[2]?.costUSD, 0.05);
+    assert.deepEqual(
+      alerts.map((alert) => alert.changes.map((change) => `${change.item}: ${change.before} → ${change.after}`)),
+      [["Pro plan: $49. → $59"]]
+    );
+  });
+
+  it("does not re-alert an item a flaky scan missed", async (t) => {
+    const transport = new ScriptedTransport([
+      scanAnswer({ "Pro plan": "$49", "Team plan": "$99" }),
+      scanAnswer({ "Pro plan": "$49" }),
+      scanAnswer({ "Pro plan": "$49", "Team plan": "$99" })
+    ]);
+    const { scheduler: monitor, alerts } = scheduler(tempDir(t), transport);
+    const [entry] = monitor.entries;
+    assert.ok(entry);
+
+    const records = [await monitor.scanEntry(entry), await monitor.scanEntry(entry), await monitor.scanEntry(entry)];
+
+    assert.deepEqual(
+      records.map((record) => [record.status, record.changes.length]),
+      [
+        ["baseline", 0],
+        ["unchanged", 0],
+        ["unchanged", 0]
+      ]
+    );
+    assert.deepEqual(alerts, []);
+  });
+
+  it("records a failed scan without touching the baseline", async (t) => {
+    const dir = tempDir(t);
+    const crash = { messages: [], error: new Error("socket hang up") };
+    const transport = new ScriptedTransport([scanAnswer({ "Pro plan": "$49" }), crash, crash, crash]);
+    const { scheduler: monitor } = scheduler(dir, transport);
+    const [entry] = monitor.entries;
+    assert.ok(entry);
+
+    await monitor.scanEntry(entry);
+    const failed = await monitor.scanEntry(entry);
+
+    assert.equal(failed.status, "failed");
+    assert.match(failed.error ?? "", /socket hang up/);
+    assert.equal(transport.remaining, 0);
+    assert.equal(new MonitorStore(dir).baseline("globex")?.snapshot.pricing[0]?.price, "$49");
+    assert.equal(new MonitorStore(dir).entryState("globex")?.lastStatus, "failed");
+  });
+});
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { HookCallback, HookInput, SyncHookJSONOutput } from "@anthropic-ai/claude-agent-sdk";
+import { createDomainPolicyHooks, DomainPolicy, type PermissionDecision } from "../../src/permissions";
+
+function preToolUse(toolName: string, toolInput: Record<string, unknown>): HookInput {
+  return {
+    hook_event_name: "PreToolUse",
+    session_id: "session-1",
+    transcript_path: "/tmp/transcript.jsonl",
+    cwd: "/tmp",
+    tool_name: toolName,
+    tool_input: toolInput
+  };
+}
+
+function hookFor(event: "PreToolUse" | "PostToolUse", tool: string, policy: DomainPolicy, decisions: PermissionDecision[]): HookCallback {
+  const hooks = createDomainPolicyHooks(policy, (decision) => decisions.push(decision))[event] ?? [];
+  const hook = hooks.find((matcher) => matcher.matcher === tool)?.hooks[0];
+  assert.ok(hook);
+  return hook;
+}
+
+const signal = new AbortController().signal;
+
+async function run(hook: HookCallback, input: HookInput): Promise<SyncHookJSONOutput> {
+  return (await hook(input, "tool-1", { signal })) as SyncHookJSONOutput;
+}
+
+describe("createDomainPolicyHooks", () => {
+  it("denies WebFetch of an off-list URL", async () => {
+    const decisions: PermissionDecision[] = [];
+    const beforeFetch = hookFor("PreToolUse", "WebFetch", new DomainPolicy(["example.com"]), decisions);
+
+    assert.deepEqual(await run(beforeFetch, preToolUse("WebFetch", { url: "https://example.com/a" })), {});
+    const denied = await run(beforeFetch, preToolUse("WebFetch", { url: "https://elsewhere.org" }));
+
+    assert.equal(denied.hookSpecificOutput?.hookEventName === "PreToolUse" && denied.hookSpecificOutput.permissionDecision, "deny");
+    assert.deepEqual(
+      decisions.map((decision) => decision.decision),
+      ["allow", "deny"]
+    );
+  });
+
+  it("rewrites WebSearch input without deciding whether the search may run", async () => {
+    const beforeSearch = hookFor("PreToolUse", "WebSearch", new DomainPolicy(["example.com"]), []);
+
+    const output = await run(beforeSearch, preToolUse("WebSearch", { query: "pricing", blocked_domains: ["x.com"] }));
+
+    assert.deepEqual(output.hookSpecificOutput, {
+      hookEventName: "PreToolUse",
+      updatedInput: { query: "pricing", allowed_domains: ["example.com"] }
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { LeadScoringError, parseLeadScoringRules, scoreLead } from "../../src/presales/lead-scoring";
+
+const rules = parseLeadScoringRules({
+  rules: [
+    { id: "size", category: "firmographic", description: "500-5000 employees", field: "employees", operator: "between", value: [500, 5000], weight: 30 },
+    { id: "industry", category: "firmographic", description: "Target industry", field: "industry", operator: "in", value: ["Logistics", "Retail"], weight: 20 },
+    { id: "demo", category: "behavioral", description: "Requested a demo", field: "activity.demoRequested", operator: "eq", value: true, weight: 40 },
+    { id: "engaged", category: "behavioral", description: "10+ page views", field: "activity.pageViews", operator: "gte", value: 10, weight: 10 },
+    { id: "student", category: "firmographic", description: "Student address", field: "email", operator: "contains", value: ".edu", weight: -50 }
+  ]
+});
+
+describe("scoreLead", () => {
+  it("adds matched weights over the positive maximum and grades the score", () => {
+    const score = scoreLead(
+      { employees: 1200, industry: " logistics ", email: "cto@globex.com", activity: { demoRequested: true, pageViews: 3 } },
+      rules
+    );
+
+    assert.equal(score.score, 90);
+    assert.equal(score.grade, "A");
+    assert.equal(score.points, 90);
+    assert.equal(score.maxPoints, 100);
+    assert.deepEqual(score.byCategory, {
+      firmographic: { points: 50, maxPoints: 50 },
+      behavioral: { points: 40, maxPoints: 50 }
+    });
+    assert.deepEqual(
+      score.matched.map((match) => match.id),
+      ["size", "industry", "demo"]
+    );
+    assert.deepEqual(score.missingFields, []);
+  });
+
+  it("clamps penalties at zero and lists the fields the lead lacks", () => {
+    const score = scoreLead({ industry: "Retail", email: "student@uni.edu" }, rules);
+
+    assert.equal(score.points, -30);
+    assert.equal(score.score, 0);
+    assert.equal(score.grade, "D");
+    assert.deepEqual(score.missingFields, ["employees", "activity.demoRequested", "activity.pageViews"]);
+  });
+
+  it("rounds to one decimal and picks the highest grade reached", () => {
+    const thirds = parseLeadScoringRules({
+      rules: ["a", "b", "c"].map((id) => ({ id, category: "behavioral", description: id, field: id, operator: "exists", weight: 1 })),
+      grades: [
+        { grade: "hot", min: 60 },
+        { grade: "warm", min: 30 },
+        { grade: "cold", min: 0 }
+      ]
+    });
+
+    assert.deepEqual(
+      [scoreLead({ a: "x" }, thirds), scoreLead({ a: "x", b: 0 }, thirds)].map((score) => [score.score, score.grade]),
+      [
+        [33.3, "warm"],
+        [66.7, "hot"]
+      ]
+    );
+    // exists rules look at absent fields instead of reporting them
+    assert.deepEqual(scoreLead({}, thirds).missingFields, []);
+  });
+
+  it("matches array attributes by any element", () => {
+    const tags = parseLeadScoringRules({
+      rules: [{ id: "cloud", category: "firmographic", description: "Uses AWS", field: "stack", operator: "contains", value: "aws", weight: 10 }]
+    });
+
+    assert.equal(scoreLead({ stack: ["GCP", "AWS"] }, tags).score, 100);
+    assert.equal(scoreLead({ stack: ["GCP"] }, tags).score, 0);
+  });
+});
+
+describe("parseLeadScoringRules", () => {
+  it("reports every problem with its path", () => {
+    assert.throws(
+      () =>
+        parseLeadScoringRules({
+          rules: [
+            { id: "size", category: "firmographic", description: "Size", field: "employees", operator: "between", value: [500], weight: -5 },
+            { id: "size", category: "behavioral", description: "Visits", field: "visits", operator: "gt", value: "ten", weight: -1 }
+          ],
+          grades: [{ grade: "A", min: 50 }]
+        }),
+      (error: unknown) => {
+        assert.ok(error instanceof LeadScoringError);
+        assert.deepEqual(error.issues, [
+          "rules.0.value: between needs [min, max]",
+          "rules.1.value: gt needs a number",
+          'rules.1.id: Duplicate rule id "size"',
+          "rules: At least one rule needs a positive weight",
+          "grades: One grade needs min 0 so every score has a grade"
+        ]);
+        return true;
+      }
+    );
+  });
+});
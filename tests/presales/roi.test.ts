@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { calculateRoi } from "../../src/presales/roi";
+
+describe("calculateRoi", () => {
+  const purchase = {
+    oneTimeCosts: [{ label: "Implementation", amount: 10_000 }],
+    recurringCosts: [{ label: "Licences", annual: 5000 }],
+    benefits: [{ label: "Hours saved", annual: 15_000 }]
+  };
+
+  it("builds yearly cash flows with one-time costs in year 0", () => {
+    const result = calculateRoi(purchase);
+
+    assert.equal(result.years, 3);
+    assert.deepEqual(
+      result.cashFlows.map((flow) => [flow.year, flow.costs, flow.benefits, flow.net, flow.cumulative]),
+      [
+        [0, 10_000, 0, -10_000, -10_000],
+        [1, 5000, 15_000, 10_000, 0],
+        [2, 5000, 15_000, 10_000, 10_000],
+        [3, 5000, 15_000, 10_000, 20_000]
+      ]
+    );
+    assert.deepEqual(result.totals, { costs: 25_000, benefits: 45_000, net: 20_000 });
+  });
+
+  it("computes ROI, NPV, payback and IRR", () => {
+    const result = calculateRoi(purchase);
+
+    assert.equal(result.roiPercent, 80);
+    assert.equal(result.npv, 14_868.52);
+    assert.equal(result.cashFlows[2]?.discounted, 8264.46);
+    assert.equal(result.paybackYears, 1);
+    // -10000 + 10000 * (1/(1+r) + 1/(1+r)^2 + 1/(1+r)^3) = 0
+    assert.equal(result.irr, 0.8393);
+  });
+
+  it("interpolates payback within the year", () => {
+    const result = calculateRoi({ ...purchase, oneTimeCosts: [{ label: "Implementation", amount: 15_000 }] });
+
+    assert.equal(result.paybackYears, 1.5);
+  });
+
+  it("applies growth and ramp-up to benefits and compares against the status quo", () => {
+    const result = calculateRoi({
+      years: 2,
+      benefits: [{ label: "Revenue", annual: 1000, growth: 0.1, rampUp: [0.5] }],
+      statusQuoCosts: [{ label: "Manual process", annual: 2000 }]
+    });
+
+    assert.deepEqual(
+      result.cashFlows.map((flow) => flow.benefits),
+      [0, 500, 1100]
+    );
+    assert.deepEqual(result.tco, { solution: 0, statusQuo: 4000, savings: 4000 });
+  });
+
+  it("returns null for measures with nothing to solve", () => {
+    const free = calculateRoi({ benefits: [{ label: "Goodwill", annual: 100 }] });
+    assert.equal(free.roiPercent, null);
+    assert.equal(free.irr, null);
+    assert.equal(free.paybackYears, 0);
+    assert.equal(free.tco.statusQuo, null);
+
+    const losing = calculateRoi({ years: 2, oneTimeCosts: [{ label: "Setup", amount: 1000 }], benefits: [{ label: "Savings", annual: 100 }] });
+    assert.equal(losing.paybackYears, null);
+    assert.equal(losing.roiPercent, -80);
+  });
+
+  it("rejects a model without benefits", () => {
+    assert.throws(() => calculateRoi({ benefits: [] }), { name: "ZodError" });
+  });
+});
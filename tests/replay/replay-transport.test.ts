@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import path from "path";
+import { describe, it } from "node:test";
+import type { Options, SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { appendInteraction, CassetteMissError, readCassette, RecordingTransport, ReplayTransport } from "../../src/replay";
+import { AgentRuntime, ScriptedTransport, type QueryTransport } from "../../src/runtime";
+import { answer, offlineDeps, tempDir, TEST_AGENT } from "../helpers";
+
+async function collect(stream: AsyncIterable<SDKMessage>): Promise<SDKMessage[]> {
+  const messages: SDKMessage[] = [];
+  for await (const message of stream) {
+    messages.push(message);
+  }
+  return messages;
+}
+
+function resultText(messages: SDKMessage[]): string | undefined {
+  const last = messages[messages.length - 1];
+  return last?.type === "result" && last.subtype === "success" ? last.result : undefined;
+}
+
+const HAIKU: Options = { model: "claude-haiku-4-5-20251001", maxTurns: 5 };
+const SONNET: Options = { model: "claude-sonnet-4-5-20250929", maxTurns: 5 };
+
+describe("ReplayTransport", () => {
+  describe("strict", () => {
+    it("serves only exact prompt and options matches", async (t) => {
+      const cassette = path.join(tempDir(t), "cassette.jsonl");
+      appendInteraction(cassette, { prompt: "Hello", options: HAIKU }, answer("Hi from haiku"));
+      const transport = new ReplayTransport(cassette);
+
+      assert.equal(resultText(await collect(transport.query({ prompt: "Hello", options: HAIKU }))), "Hi from haiku");
+      assert.throws(() => transport.query({ prompt: "Hello", options: SONNET }), CassetteMissError);
+      assert.throws(() => transport.query({ prompt: "Goodbye", options: HAIKU }), CassetteMissError);
+    });
+
+    it("ignores environment-specific options when matching", async (t) => {
+      const cassette = path.join(tempDir(t), "cassette.jsonl");
+      appendInteraction(cassette, { prompt: "Hello", options: { ...HAIKU, cwd: "/recorded/here" } }, answer("Hi"));
+      const transport = new ReplayTransport(cassette);
+
+      const messages = await collect(
+        transport.query({ prompt: "Hello", options: { ...HAIKU, cwd: "/replayed/there", abortController: new AbortController() } })
+      );
+      assert.equal(resultText(messages), "Hi");
+    });
+
+    it("answers repeated calls in recording order, then fails", async (t) => {
+      const cassette = path.join(tempDir(t), "cassette.jsonl");
+      appendInteraction(cassette, { prompt: "Again", options: HAIKU }, answer("first"));
+      appendInteraction(cassette, { prompt: "Again", options: HAIKU }, answer("second"));
+      const transport = new ReplayTransport(cassette);
+
+      assert.equal(resultText(await collect(transport.query({ prompt: "Again", options: HAIKU }))), "first");
+      assert.equal(resultText(await collect(transport.query({ prompt: "Again", options: HAIKU }))), "second");
+      assert.throws(() => transport.query({ prompt: "Again", options: HAIKU }), CassetteMissError);
+    });
+
+    it("re-throws a recorded error after its messages", async (t) => {
+      const cassette = path.join(tempDir(t), "cassette.jsonl");
+      const [first] = answer("partial");
+      appendInteraction(cassette, { prompt: "Crash", options: HAIKU }, [first as SDKMessage], {
+        name: "AbortError",
+        message: "Claude Code process aborted by user"
+      });
+      const transport = new ReplayTransport(cassette);
+
+      const messages: SDKMessage[] = [];
+      await assert.rejects(
+        async () => {
+          for await (const message of transport.query({ prompt: "Crash", options: HAIKU })) {
+            messages.push(message);
+          }
+        },
+        { name: "AbortError", message: "Claude Code process aborted by user" }
+      );
+      assert.equal(messages.length, 1);
+    });
+  });
+
+  describe("non-strict", () => {
+    it("falls back to a prompt-only match and repeats the last recording", async (t) => {
+      const cassette = path.join(tempDir(t), "cassette.jsonl");
+      appendInteraction(cassette, { prompt: "Hello", options: HAIKU }, answer("Hi"));
+      const transport = new ReplayTransport(cassette, { strict: false });
+
+      assert.equal(resultText(await collect(transport.query({ prompt: "Hello", options: SONNET }))), "Hi");
+      assert.equal(resultText(await collect(transport.query({ prompt: "Hello", options: SONNET }))), "Hi");
+    });
+
+    it("prefers an exact match over a prompt-only one", async (t) => {
+      const cassette = path.join(tempDir(t), "cassette.jsonl");
+      appendInteraction(cassette, { prompt: "Hello", options: HAIKU }, answer("from haiku"));
+      appendInteraction(cassette, { prompt: "Hello", options: SONNET }, answer("from sonnet"));
+      const transport = new ReplayTransport(cassette, { strict: false });
+
+      assert.equal(resultText(await collect(transport.query({ prompt: "Hello", options: SONNET }))), "from sonnet");
+    });
+
+    it("hands true misses to the fallback, or throws without one", async (t) => {
+      const cassette = path.join(tempDir(t), "cassette.jsonl");
+      appendInteraction(cassette, { prompt: "Hello", options: HAIKU }, answer("Hi"));
+      const fallback = new ScriptedTransport([answer("live answer")]);
+
+      const withFallback = new ReplayTransport(cassette, { strict: false, fallback });
+      assert.equal(resultText(await collect(withFallback.query({ prompt: "Unseen", options: HAIKU }))), "live answer");
+      assert.equal(fallback.calls.length, 1);
+
+      const withoutFallback = new ReplayTransport(cassette, { strict: false });
+      assert.throws(() => withoutFallback.query({ prompt: "Unseen", options: HAIKU }), CassetteMissError);
+    });
+  });
+});
+
+describe("RecordingTransport", () => {
+  it("records runs that replay through AgentRuntime to the same result", async (t) => {
+    const cassette = path.join(tempDir(t), "cassette.jsonl");
+    const recording = new RecordingTransport(cassette, new ScriptedTransport([answer("42")]));
+
+    const live = await new AgentRuntime(TEST_AGENT, offlineDeps({ transport: recording })).execute("What is the answer?");
+    assert.equal(readCassette(cassette).length, 1);
+
+    const replaying = new ReplayTransport(cassette);
+    const replayed = await new AgentRuntime(TEST_AGENT, offlineDeps({ transport: replaying })).execute("What is the answer?");
+    assert.equal(replayed.success, true);
+    assert.equal(replayed.output, live.output);
+    assert.deepEqual(replayed.stats, live.stats);
+  });
+
+  it("records the error of a failed run and re-throws it", async (t) => {
+    const cassette = path.join(tempDir(t), "cassette.jsonl");
+    const inner: QueryTransport = new ScriptedTransport([{ messages: answer("partial").slice(0, 2), error: new Error("socket hang up") }]);
+    const transport = new RecordingTransport(cassette, inner);
+
+    await assert.rejects(collect(transport.query({ prompt: "Crash", options: HAIKU })), /socket hang up/);
+
+    const [interaction] = readCassette(cassette);
+    assert.equal(interaction?.messages.length, 2);
+    assert.deepEqual(interaction?.error, { name: "Error", message: "socket hang up" });
+  });
+});
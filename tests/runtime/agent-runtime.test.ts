@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { assistant, init, result, scriptedRuntime, text, thinking, toolResult, toolUse } from "../helpers";
+
+describe("AgentRuntime.execute", () => {
+  it("folds text, thinking, tool calls and stats into the result", async () => {
+    const { runtime, transport } = scriptedRuntime([
+      [
+        init("claude-haiku-4-5-20251001"),
+        assistant("msg-1", [thinking("Look it up first"), text("Checking the file."), toolUse("tool-1", "Read", { file_path: "a.md" })]),
+        toolResult("tool-1", "file contents"),
+        assistant("msg-2", [text("It says hello.")], { inputTokens: 20, outputTokens: 8 }),
+        result({ result: "Final: hello", costUSD: 0.042, turns: 2 })
+      ]
+    ]);
+
+    const outcome = await runtime.execute("What does a.md say?");
+
+    assert.equal(outcome.success, true);
+    assert.equal(outcome.error, null);
+    assert.equal(outcome.subtype, "success");
+    assert.equal(outcome.model, "claude-haiku-4-5-20251001");
+    assert.equal(outcome.sessionId, "session-1");
+    assert.equal(outcome.response, "Checking the file.\nIt says hello.");
+    assert.equal(outcome.output, "Final: hello");
+    assert.deepEqual(outcome.thinking, ["Look it up first"]);
+    assert.deepEqual(outcome.toolCalls, [
+      { id: "tool-1", name: "Read", input: { file_path: "a.md" }, turn: 1, result: { isError: false, text: "file contents" } }
+    ]);
+    assert.deepEqual(
+      outcome.turns.map((turn) => [turn.turn, turn.messageId, turn.inputTokens, turn.outputTokens]),
+      [
+        [1, "msg-1", 10, 5],
+        [2, "msg-2", 20, 8]
+      ]
+    );
+    assert.equal(outcome.stats.costUSD, 0.042);
+    assert.equal(outcome.stats.turns, 2);
+    assert.equal(outcome.stats.usage.inputTokens, 100);
+    assert.equal(transport.calls[0]?.prompt, "What does a.md say?");
+  });
+
+  it("counts content blocks of one API message as one turn and skips subagent traffic", async () => {
+    const { runtime } = scriptedRuntime([
+      [
+        assistant("msg-1", [text("Part one.")]),
+        assistant("msg-1", [toolUse("task-1", "Task")], { outputTokens: 12 }),
+        assistant("sub-1", [text("Subagent notes.")], { parent: "task-1" }),
+        toolResult("task-1", "subagent report"),
+        assistant("msg-2", [text("Done.")]),
+        result({ result: "Done." })
+      ]
+    ]);
+
+    const outcome = await runtime.execute("Research");
+
+    assert.deepEqual(
+      outcome.turns.map((turn) => [turn.turn, turn.messageId, turn.outputTokens]),
+      [
+        [1, "msg-1", 12],
+        [2, "msg-2", 5]
+      ]
+    );
+    assert.equal(outcome.toolCalls[0]?.turn, 1);
+    assert.equal(outcome.toolCalls[0]?.result?.text, "subagent report");
+  });
+
+  it("marks failed tool results and leaves unanswered calls without a result", async () => {
+    const { runtime } = scriptedRuntime([
+      [
+        assistant("msg-1", [toolUse("tool-1", "Read"), toolUse("tool-2", "Grep")]),
+        toolResult("tool-1", "ENOENT", true),
+        toolResult("tool-9", "stray"),
+        result({ result: "ok" })
+      ]
+    ]);
+
+    const outcome = await runtime.execute("Read");
+
+    assert.deepEqual(outcome.toolCalls[0]?.result, { isError: true, text: "ENOENT" });
+    assert.equal(outcome.toolCalls[1]?.result, undefined);
+  });
+
+  it("reports error results with their errors, or the subtype when there are none", async () => {
+    const { runtime } = scriptedRuntime([
+      [assistant("msg-1", [text("Still working")]), result({ subtype: "error_during_execution", errors: ["529 overloaded", "retry later"] })],
+      [assistant("msg-1", [text("Ran out")]), result({ subtype: "error_max_turns", costUSD: 0.5 })]
+    ]);
+
+    const first = await runtime.execute("One");
+    assert.equal(first.success, false);
+    assert.equal(first.subtype, "error_during_execution");
+    assert.equal(first.error, "529 overloaded, retry later");
+    assert.equal(first.output, "Still working");
+
+    const second = await runtime.execute("Two");
+    assert.equal(second.subtype, "error_max_turns");
+    assert.equal(second.error, "error_max_turns");
+    assert.equal(second.output, "Ran out");
+    assert.equal(second.stats.costUSD, 0.5);
+  });
+
+  it("keeps what streamed before the transport threw", async () => {
+    const { runtime } = scriptedRuntime([
+      { messages: [init(), assistant("msg-1", [text("Halfway")])], error: new Error("socket hang up") }
+    ]);
+
+    const outcome = await runtime.execute("Crash");
+
+    assert.equal(outcome.success, false);
+    assert.equal(outcome.subtype, null);
+    assert.equal(outcome.error, "socket hang up");
+    assert.equal(outcome.response, "Halfway");
+    assert.equal(outcome.output, "Halfway");
+    assert.equal(outcome.turns.length, 1);
+  });
+
+  it("stops on an aborted controller", async () => {
+    const { runtime } = scriptedRuntime([[init(), assistant("msg-1", [text("never")]), result({ result: "never" })]]);
+    const abortController = new AbortController();
+    abortController.abort();
+
+    const outcome = await runtime.execute("Abort", { options: { abortController } });
+
+    assert.equal(outcome.success, false);
+    assert.match(outcome.error ?? "", /aborted/);
+    assert.equal(outcome.response, "");
+  });
+
+  it("calls events in stream order", async () => {
+    const seen: string[] = [];
+    const { runtime } = scriptedRuntime([
+      [assistant("msg-1", [text("Hi"), toolUse("tool-1", "Read")]), toolResult("tool-1", "data"), result({ result: "Hi" })]
+    ]);
+
+    await runtime.execute("Events", {
+      events: {
+        onAssistantText: (value) => seen.push(`text:${value}`),
+        onToolUse: (call) => seen.push(`use:${call.id}`),
+        onToolResult: (call) => seen.push(`result:${call.id}`),
+        onResult: (outcome) => seen.push(`done:${outcome.success}`)
+      }
+    });
+
+    assert.deepEqual(seen, ["text:Hi", "use:tool-1", "result:tool-1", "done:true"]);
+  });
+});
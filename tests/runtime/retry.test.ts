@@ -0,0 +1,160 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AgentRunError, backoffDelay, classifyFailure, runWithRetry, type AgentResult, type RetryInfo } from "../../src/runtime";
+import { answer, failure, scriptedRuntime } from "../helpers";
+
+function failed(subtype: AgentResult["subtype"], error: string | null): AgentResult {
+  return { subtype, error, success: false } as AgentResult;
+}
+
+describe("classifyFailure", () => {
+  const cases: Array<[string, AgentResult, string, boolean]> = [
+    ["invalid key", failed(null, "401 authentication_error: invalid x-api-key"), "auth", false],
+    ["overloaded API", failed("error_during_execution", "529 Overloaded"), "overloaded", true],
+    ["rate limit", failed(null, "Rate limit exceeded"), "overloaded", true],
+    ["dropped connection", failed(null, "read ECONNRESET"), "network", true],
+    ["server error", failed("error_during_execution", "API Error: 503"), "network", true],
+    ["caller abort", failed(null, "Claude Code process aborted by user"), "aborted", false],
+    ["execution error", failed("error_during_execution", "tool crashed"), "execution", true],
+    ["budget cap", failed("error_max_budget_usd", "USD per run cap reached"), "budget", false],
+    ["anything else", failed(null, "something odd"), "unknown", false]
+  ];
+
+  for (const [name, result, kind, retryable] of cases) {
+    it(`classifies ${name} as ${kind}`, () => {
+      assert.deepEqual(classifyFailure(result), { kind, retryable });
+    });
+  }
+
+  it("retries max_turns only when resuming", () => {
+    const result = failed("error_max_turns", "error_max_turns");
+    assert.deepEqual(classifyFailure(result), { kind: "max_turns", retryable: false });
+    assert.deepEqual(classifyFailure(result, { resume: true }), { kind: "max_turns", retryable: true });
+  });
+
+  it("puts our own timeout before the error text", () => {
+    assert.deepEqual(classifyFailure(failed(null, "aborted"), { timedOut: true }), { kind: "timeout", retryable: true });
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles per attempt with half of each delay jittered", () => {
+    assert.equal(backoffDelay(1, 1000, 60_000, () => 0), 500);
+    assert.equal(backoffDelay(1, 1000, 60_000, () => 1), 1000);
+    assert.equal(backoffDelay(3, 1000, 60_000, () => 0.5), 3000);
+  });
+
+  it("never exceeds the maximum", () => {
+    assert.equal(backoffDelay(20, 1000, 8000, () => 1), 8000);
+  });
+});
+
+describe("runWithRetry", () => {
+  it("retries transient failures and returns the first success", async () => {
+    const retries: RetryInfo[] = [];
+    const { runtime, transport } = scriptedRuntime([
+      failure("error_during_execution", ["529 overloaded"]),
+      { messages: [], error: new Error("fetch failed") },
+      answer("ok")
+    ]);
+
+    const result = await runWithRetry(runtime, "Go", { baseDelayMs: 1, onRetry: (info) => retries.push(info) });
+
+    assert.equal(result.output, "ok");
+    assert.equal(transport.remaining, 0);
+    assert.deepEqual(
+      retries.map((info) => [info.attempt, info.kind]),
+      [
+        [1, "overloaded"],
+        [2, "network"]
+      ]
+    );
+  });
+
+  it("does not retry failures that would fail again", async () => {
+    const { runtime, transport } = scriptedRuntime([failure("error_during_execution", ["401 invalid api key"]), answer("unused")]);
+
+    await assert.rejects(runWithRetry(runtime, "Go", { baseDelayMs: 1 }), (error: unknown) => {
+      assert.ok(error instanceof AgentRunError);
+      assert.equal(error.kind, "auth");
+      assert.equal(error.retryable, false);
+      assert.equal(error.attempts.length, 1);
+      return true;
+    });
+    assert.equal(transport.remaining, 1);
+  });
+
+  it("gives up after maxAttempts with every attempt attached", async () => {
+    const { runtime } = scriptedRuntime([
+      failure("error_during_execution", ["503"], 0.1),
+      failure("error_during_execution", ["503"], 0.2),
+      failure("error_during_execution", ["503"], 0.3)
+    ]);
+
+    await assert.rejects(runWithRetry(runtime, "Go", { maxAttempts: 3, baseDelayMs: 1 }), (error: unknown) => {
+      assert.ok(error instanceof AgentRunError);
+      assert.equal(error.kind, "network");
+      assert.equal(error.retryable, true);
+      assert.deepEqual(
+        error.attempts.map((attempt) => attempt.stats.costUSD),
+        [0.1, 0.2, 0.3]
+      );
+      assert.equal(error.lastResult, error.attempts[2]);
+      return true;
+    });
+  });
+
+  it("resumes the failed session with the continue prompt", async () => {
+    const { runtime, transport } = scriptedRuntime([failure("error_max_turns"), answer("finished")]);
+
+    const result = await runWithRetry(runtime, "Long task", { baseDelayMs: 1, resume: true, continuePrompt: "Keep going" });
+
+    assert.equal(result.output, "finished");
+    assert.equal(transport.calls[1]?.prompt, "Keep going");
+    assert.equal(transport.calls[1]?.options?.resume, "session-1");
+  });
+
+  it("stops when the caller aborts during the backoff", async () => {
+    const abortController = new AbortController();
+    const { runtime, transport } = scriptedRuntime([failure("error_during_execution", ["529 overloaded"]), answer("unused")]);
+    const started = Date.now();
+    setTimeout(() => abortController.abort(), 20);
+
+    await assert.rejects(
+      runWithRetry(runtime, "Go", { baseDelayMs: 60_000, run: { options: { abortController } } }),
+      (error: unknown) => {
+        assert.ok(error instanceof AgentRunError);
+        assert.equal(error.kind, "aborted");
+        assert.equal(error.attempts.length, 1);
+        return true;
+      }
+    );
+    assert.ok(Date.now() - started < 5000);
+    assert.equal(transport.remaining, 1);
+  });
+
+  it("stops when the caller aborts just before the backoff starts", async () => {
+    const abortController = new AbortController();
+    const { runtime, transport } = scriptedRuntime([failure("error_during_execution", ["529 overloaded"]), answer("unused")]);
+    const started = Date.now();
+
+    await assert.rejects(
+      runWithRetry(runtime, "Go", {
+        baseDelayMs: 60_000,
+        onRetry: () => abortController.abort(),
+        run: { options: { abortController } }
+      }),
+      { name: "AgentRunError" }
+    );
+    assert.ok(Date.now() - started < 5000);
+    assert.equal(transport.remaining, 1);
+  });
+
+  it("does not start an attempt for an already aborted caller", async () => {
+    const abortController = new AbortController();
+    abortController.abort();
+    const { runtime } = scriptedRuntime([answer("unused")]);
+
+    await assert.rejects(runWithRetry(runtime, "Go", { run: { options: { abortController } } }), { name: "AgentRunError" });
+  });
+});
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { sleep } from "../../src/runtime";
+
+describe("sleep", () => {
+  it("wakes when the signal aborts", async () => {
+    const abortController = new AbortController();
+    const started = Date.now();
+    setTimeout(() => abortController.abort(), 20);
+
+    await sleep(60_000, abortController.signal);
+
+    assert.ok(Date.now() - started < 5000);
+  });
+
+  it("returns at once for an already aborted signal", async () => {
+    const started = Date.now();
+
+    await sleep(60_000, AbortSignal.abort());
+
+    assert.ok(Date.now() - started < 5000);
+  });
+});
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { z } from "zod";
+import { AgentRunError, extractJson, runStructured, StructuredOutputError } from "../../src/runtime";
+import { answer, failure, scriptedRuntime } from "../helpers";
+
+const schema = z.object({ company: z.string(), employees: z.number().int() });
+
+describe("extractJson", () => {
+  it("prefers a json fence", () => {
+    assert.deepEqual(extractJson('Here you go:\n```json\n{"a": 1}\n```\nand {"b": 2}'), { a: 1 });
+  });
+
+  it("falls back to the outermost object or array", () => {
+    assert.deepEqual(extractJson('Result: {"a": {"b": [1, 2]}} as requested'), { a: { b: [1, 2] } });
+    assert.deepEqual(extractJson("Items: [1, 2, 3]."), [1, 2, 3]);
+  });
+
+  it("throws when there is no JSON", () => {
+    assert.throws(() => extractJson("No data today."), SyntaxError);
+  });
+});
+
+describe("runStructured", () => {
+  it("returns validated data on the first valid answer", async () => {
+    const { runtime } = scriptedRuntime([answer('{"company": "Globex", "employees": 1200}')]);
+
+    const { data, attempts } = await runStructured(runtime, "Profile Globex", schema);
+
+    assert.deepEqual(data, { company: "Globex", employees: 1200 });
+    assert.equal(attempts.length, 1);
+  });
+
+  it("asks the same session to repair invalid output", async () => {
+    const { runtime, transport } = scriptedRuntime([
+      answer('{"company": "Globex", "employees": "many"}'),
+      answer('{"company": "Globex", "employees": 1200}')
+    ]);
+
+    const { data, attempts } = await runStructured(runtime, "Profile Globex", schema, {
+      repairPrompt: (issues) => `Fix: ${issues.join("; ")}`
+    });
+
+    assert.equal(data.employees, 1200);
+    assert.equal(attempts.length, 2);
+    assert.match(String(transport.calls[1]?.prompt), /^Fix: employees: /);
+    assert.equal(transport.calls[1]?.options?.resume, "session-1");
+  });
+
+  it("starts over after a failed run instead of resuming it", async () => {
+    const { runtime, transport } = scriptedRuntime([failure("error_during_execution", ["tool crashed"]), answer('{"company": "A", "employees": 1}')]);
+
+    await runStructured(runtime, "Profile A", schema);
+
+    assert.equal(transport.calls[1]?.prompt, "Profile A");
+    assert.equal(transport.calls[1]?.options?.resume, undefined);
+  });
+
+  it("throws StructuredOutputError with every run once attempts are used up", async () => {
+    const { runtime } = scriptedRuntime([answer("not json", 0.1), answer("[]", 0.2)]);
+
+    await assert.rejects(runStructured(runtime, "Profile", schema, { maxAttempts: 2 }), (error: unknown) => {
+      assert.ok(error instanceof StructuredOutputError);
+      assert.equal(error.attempts, 2);
+      assert.deepEqual(
+        error.results.map((result) => result.stats.costUSD),
+        [0.1, 0.2]
+      );
+      assert.ok(error.issues.length > 0);
+      return true;
+    });
+  });
+
+  it("does not retry a run stopped by its budget", async () => {
+    const { runtime, transport } = scriptedRuntime([failure("error_max_budget_usd"), answer("unused")]);
+
+    await assert.rejects(runStructured(runtime, "Profile", schema), StructuredOutputError);
+    assert.equal(transport.remaining, 1);
+  });
+
+  it("keeps earlier attempts on the AgentRunError of a later one", async () => {
+    const { runtime } = scriptedRuntime([
+      answer("not json", 0.1),
+      failure("error_during_execution", ["503"], 0.2),
+      failure("error_during_execution", ["503"], 0.3)
+    ]);
+
+    await assert.rejects(runStructured(runtime, "Profile", schema, { retry: { maxAttempts: 2, baseDelayMs: 1 } }), (error: unknown) => {
+      assert.ok(error instanceof AgentRunError);
+      assert.equal(error.kind, "network");
+      assert.deepEqual(
+        error.attempts.map((result) => result.stats.costUSD),
+        [0.1, 0.2, 0.3]
+      );
+      return true;
+    });
+  });
+});
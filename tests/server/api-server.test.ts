@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ApiServer, JobQueue } from "../../src/server";
+import { testConfig } from "../helpers";
+
+async function startServer(t: { after: (fn: () => Promise<void>) => void }, token: string | null) {
+  const queue = new JobQueue(async () => null);
+  const server = new ApiServer({ appConfig: testConfig(), queue, token, corsOrigin: null, tracer: null });
+  const { port } = await server.listen(0, "127.0.0.1");
+  t.after(() => server.close());
+
+  const submit = (body: unknown) =>
+    fetch(`http://127.0.0.1:${port}/runs`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(token && { Authorization: `Bearer ${token}` }) },
+      body: JSON.stringify(body)
+    });
+  return submit;
+}
+
+describe("POST /runs", () => {
+  it("refuses Write-capable jobs on a server without a token", async (t) => {
+    const submit = await startServer(t, null);
+
+    const refused = await submit({ prompt: "Save notes", tools: ["Read", "Write"] });
+    assert.equal(refused.status, 403);
+    assert.match(((await refused.json()) as { error: string }).error, /API_TOKEN/);
+
+    assert.equal((await submit({ prompt: "Read notes", tools: ["Read"] })).status, 202);
+  });
+
+  it("accepts Write-capable jobs once the server requires a token", async (t) => {
+    const submit = await startServer(t, "secret");
+
+    assert.equal((await submit({ prompt: "Save notes", tools: ["Read", "Write"] })).status, 202);
+  });
+});